@@ -7,6 +7,7 @@ CREATE TABLE IF NOT EXISTS public.projects (
     brick_type TEXT NOT NULL,
     type TEXT NOT NULL,
     is_public BOOLEAN DEFAULT false,
+    signing_public_key TEXT,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
 );
@@ -34,6 +35,12 @@ CREATE POLICY "Users can delete their own projects" ON public.projects
 CREATE POLICY "Everyone can view public projects" ON public.projects
     FOR SELECT USING (is_public = true);
 
+-- Public keys only, so anyone scanning a code can verify it; the view runs as its owner and bypasses projects RLS
+CREATE OR REPLACE VIEW public.project_public_keys AS
+    SELECT id AS project_id, signing_public_key FROM public.projects WHERE signing_public_key IS NOT NULL;
+
+GRANT SELECT ON public.project_public_keys TO anon, authenticated;
+
 -- Create updated_at trigger
 CREATE OR REPLACE FUNCTION public.handle_updated_at()
 RETURNS TRIGGER AS $$
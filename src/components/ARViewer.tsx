@@ -1,8 +1,12 @@
 import { useEffect, useRef, useState } from 'react';
+import * as THREE from 'three';
 import { Button } from './ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { useWebXR, useThreeScene, useARConstruction } from '../hooks/useWebXR';
 import { brickTypes } from '../utils/brickTypes';
+import type { ToppleReport } from '../utils/rigidBodyPhysics';
+import BillOfMaterialsPanel from './panels/BillOfMaterialsPanel';
+import ClimateAnalysisPanel from './panels/ClimateAnalysisPanel';
 import type { AnchorQRData, BrickTypeKey, Anchor } from '../types';
 
 interface ARViewerProps {
@@ -26,11 +30,16 @@ export default function ARViewer({ scannedData, onBack }: ARViewerProps) {
     sceneState,
     bricks,
     isAnimating,
+    physicsEnabled,
+    toppledBricks,
     initializeScene,
     addBrick,
+    removeSupport,
+    predictSupportRemoval,
     clearAllBricks,
     startAnimation,
     stopAnimation,
+    enablePhysics,
     resizeRenderer,
     disposeScene
   } = useThreeScene();
@@ -39,6 +48,8 @@ export default function ARViewer({ scannedData, onBack }: ARViewerProps) {
     anchors,
     isConstructing,
     constructionProgress,
+    climateAnalysis,
+    constructionError,
     addAnchor,
     constructBetweenAnchors,
     clearAnchors
@@ -46,6 +57,12 @@ export default function ARViewer({ scannedData, onBack }: ARViewerProps) {
 
   const [constructionMode, setConstructionMode] = useState<'manual' | 'auto'>('auto');
   const [selectedBrickType, setSelectedBrickType] = useState<BrickTypeKey>('clay-sustainable');
+  const [showMaterials, setShowMaterials] = useState(false);
+  const [showClimate, setShowClimate] = useState(false);
+  // Support test: the brick picked in the preview, and what would fall without it
+  const [selectedBrickId, setSelectedBrickId] = useState<string | null>(null);
+  const [prediction, setPrediction] = useState<ToppleReport | null>(null);
+  const [isPredicting, setIsPredicting] = useState(false);
 
   // Initialize scene when container is available
   useEffect(() => {
@@ -91,6 +108,18 @@ export default function ARViewer({ scannedData, onBack }: ARViewerProps) {
     };
   }, [disposeScene]);
 
+  // Light up the selected brick, and the ones predicted to fall without it
+  useEffect(() => {
+    const marked = bricks.flatMap(brick => {
+      const glow = brick.id === selectedBrickId ? 0x444400 : prediction?.toppled.includes(brick.id) ? 0x662200 : null;
+      if (glow === null) return [];
+      const material = (brick.mesh.children[0] as THREE.Mesh).material as THREE.MeshLambertMaterial;
+      material.emissive.setHex(glow);
+      return [material];
+    });
+    return () => marked.forEach(material => material.emissive.setHex(0x000000));
+  }, [bricks, selectedBrickId, prediction]);
+
   // Add anchor when QR data is scanned
   useEffect(() => {
     if (scannedData && sceneState.scene) {
@@ -170,8 +199,46 @@ export default function ARViewer({ scannedData, onBack }: ARViewerProps) {
     addBrick(selectedBrickType, { x, y, z });
   };
 
+  // Pick the brick under the pointer in the preview
+  const handleSelectBrick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!sceneState.camera || !containerRef.current) return;
+
+    const bounds = containerRef.current.getBoundingClientRect();
+    const pointer = new THREE.Vector2(
+      ((event.clientX - bounds.left) / bounds.width) * 2 - 1,
+      -((event.clientY - bounds.top) / bounds.height) * 2 + 1
+    );
+    const raycaster = new THREE.Raycaster();
+    raycaster.setFromCamera(pointer, sceneState.camera);
+    const [hit] = raycaster.intersectObjects(bricks.map(brick => brick.mesh), true);
+    const brick = hit && bricks.find(b => b.mesh === hit.object.parent);
+
+    setSelectedBrickId(brick ? brick.id : null);
+    setPrediction(null);
+  };
+
+  const handlePredictRemoval = async () => {
+    if (!selectedBrickId) return;
+    setIsPredicting(true);
+    try {
+      setPrediction(await predictSupportRemoval([selectedBrickId]));
+    } finally {
+      setIsPredicting(false);
+    }
+  };
+
+  // Knock the brick out with physics running, so the scene shows the collapse
+  const handleKnockOut = () => {
+    if (!selectedBrickId) return;
+    removeSupport(selectedBrickId);
+    setSelectedBrickId(null);
+    setPrediction(null);
+  };
+
   const handleClearConstruction = () => {
     if (sceneState.scene) {
+      setSelectedBrickId(null);
+      setPrediction(null);
       clearAllBricks();
       clearAnchors(sceneState.scene);
     }
@@ -314,6 +381,22 @@ export default function ARViewer({ scannedData, onBack }: ARViewerProps) {
               Demo Construction
             </Button>
 
+            <Button 
+              onClick={() => setShowMaterials(prev => !prev)}
+              variant="outline"
+              className="border-white/30 text-white"
+            >
+              Bill of Materials
+            </Button>
+
+            <Button 
+              onClick={() => setShowClimate(prev => !prev)}
+              variant="outline"
+              className="border-white/30 text-white"
+            >
+              Climate Analysis
+            </Button>
+
             <Button 
               onClick={handleClearConstruction}
               variant="outline"
@@ -345,6 +428,7 @@ export default function ARViewer({ scannedData, onBack }: ARViewerProps) {
         <CardContent className="p-0">
           <div 
             ref={containerRef}
+            onClick={handleSelectBrick}
             className="w-full bg-black rounded-lg overflow-hidden"
             style={{ height: '500px' }}
           >
@@ -360,6 +444,79 @@ export default function ARViewer({ scannedData, onBack }: ARViewerProps) {
         </CardContent>
       </Card>
 
+      {/* Support test */}
+      <Card className="bg-white/10 backdrop-blur-sm border-white/20">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center justify-between">
+            Support Test
+            <Button
+              onClick={() => enablePhysics(!physicsEnabled)}
+              variant="outline"
+              size="sm"
+              className="border-white/30 text-white"
+            >
+              Physics: {physicsEnabled ? 'On' : 'Off'}
+            </Button>
+          </CardTitle>
+          <CardDescription className="text-white/80">
+            Click a brick in the preview, then see what would fall without it
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3 text-white text-sm">
+          {!selectedBrickId ? (
+            <p className="text-white/60">No brick selected</p>
+          ) : (
+            <div className="flex gap-3 flex-wrap">
+              <Button
+                onClick={handlePredictRemoval}
+                disabled={isPredicting}
+                className="bg-blue-600 hover:bg-blue-700"
+              >
+                {isPredicting ? 'Simulating...' : 'Predict Removal'}
+              </Button>
+              <Button
+                onClick={handleKnockOut}
+                disabled={!physicsEnabled}
+                className="bg-red-600 hover:bg-red-700"
+              >
+                Knock Out
+              </Button>
+            </div>
+          )}
+
+          {prediction && (
+            <p className={prediction.toppled.length > 0 ? 'text-orange-300' : 'text-green-300'}>
+              {prediction.toppled.length > 0
+                ? `Removing it would bring down ${prediction.toppled.length} brick${prediction.toppled.length === 1 ? '' : 's'} (shown in orange)`
+                : 'Nothing else falls without it'}
+              {prediction.unstable.length > 0 && ` • ${prediction.unstable.length} already unstable before removal`}
+            </p>
+          )}
+
+          {toppledBricks.length > 0 && (
+            <p className="text-red-300">
+              {toppledBricks.length} brick{toppledBricks.length === 1 ? '' : 's'} fell when the support was knocked out
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Quantities for the bricks in the scene */}
+      <BillOfMaterialsPanel
+        bricks={bricks}
+        projectName={scannedData?.anchor.name}
+        isVisible={showMaterials}
+        onClose={() => setShowMaterials(false)}
+      />
+
+      {/* Thermal, wind and carbon performance of the generated construction */}
+      <ClimateAnalysisPanel
+        analysis={climateAnalysis}
+        error={constructionError}
+        isVisible={showClimate}
+        onClose={() => setShowClimate(false)}
+      />
+
       {/* Manual Construction Controls */}
       {constructionMode === 'manual' && (
         <Card className="bg-white/10 backdrop-blur-sm border-white/20">
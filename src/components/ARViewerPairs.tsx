@@ -1,8 +1,25 @@
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
-import { useWebXR } from '../hooks/useWebXR';
+import { useARConstruction, useThreeScene, useWebXR } from '../hooks/useWebXR';
 import type { QRCode } from '../lib/supabase';
+import { useDatabaseStore } from '../stores/database';
+import type { Anchor, AnchorQRData, ARPose, BrickTypeKey, PairQRPayload, Position3D, SignatureStatus } from '../types';
+import { brickTypes } from '../utils/brickTypes';
+import {
+  QRScanner,
+  decodeAllQRFromImageData,
+  importSigningKey,
+  validateQRData,
+  verifyAnchorPayloadSignature
+} from '../utils/qrUtils';
+import { DEFAULT_MARKER_SIZE, estimateMarkerPose, intrinsicsFromFieldOfView } from '../utils/poseEstimation';
+import { composePoses, solvePairCoordinateSystem } from '../utils/coordinateTransform';
+import { validatePairQRPayload } from '../utils/qrSchema';
+import { MIN_REGISTRATION_ANCHORS } from '../utils/siteRegistration';
+
+// The pair plus any single anchor codes in view
+const MAX_CODES_PER_FRAME = 4;
 
 interface ARViewerPairsProps {
   qrPairData: { 
@@ -17,8 +34,16 @@ interface ARViewerPairsProps {
 export default function ARViewerPairs({ qrPairData, onBack }: ARViewerPairsProps) {
   const [currentQRPair, setCurrentQRPair] = useState<{primary: QRCode, secondary: QRCode} | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const [detectedPairs, setDetectedPairs] = useState<{primary: any, secondary: any} | null>(null);
+  const sceneRef = useRef<HTMLDivElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const scannerRef = useRef<QRScanner | null>(null);
+  // Signature check of each single anchor code seen, so a code is verified once rather than every frame
+  const signatureChecksRef = useRef<Map<string, Promise<SignatureStatus>>>(new Map());
+  const [detectedPairs, setDetectedPairs] = useState<{primary: ARPose | null, secondary: ARPose | null} | null>(null);
+  const [trackingError, setTrackingError] = useState<string | null>(null);
   const [isTrackingPairs, setIsTrackingPairs] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
   const [constructionReady, setConstructionReady] = useState(false);
   
   const {
@@ -26,8 +51,39 @@ export default function ARViewerPairs({ qrPairData, onBack }: ARViewerPairsProps
     error: xrError,
     startXRSession,
     endXRSession,
+    getViewerPose,
     clearError
   } = useWebXR();
+
+  const { sceneState, initializeScene, addBrick, disposeScene } = useThreeScene();
+
+  const {
+    isConstructing,
+    constructionProgress,
+    detectedAnchors,
+    siteRegistration,
+    constructionError,
+    registerDetectedAnchor,
+    setProjectAnchors,
+    generateAutomaticConstruction
+  } = useARConstruction();
+
+  // The project as printed on the pair's primary code: its anchors in project space and its brick
+  const project = useMemo(() => {
+    const result = validatePairQRPayload(qrPairData.primary.qr_data);
+    if (!result.success) return null;
+
+    const brickType = result.data.project.brickType;
+    return {
+      anchors: result.data.anchors.map(({ name, purpose, constructionType, notes, position }) =>
+        ({ name, purpose, constructionType, notes, position }) as Anchor),
+      brickType: (brickType in brickTypes ? brickType : 'clay-sustainable') as BrickTypeKey
+    };
+  }, [qrPairData]);
+
+  useEffect(() => {
+    if (project) setProjectAnchors(project.anchors);
+  }, [project, setProjectAnchors]);
   
   // Initialize with provided qrPairData
   useEffect(() => {
@@ -39,71 +95,210 @@ export default function ARViewerPairs({ qrPairData, onBack }: ARViewerPairsProps
     }
   }, [qrPairData]);
 
+  // Release the camera when leaving the viewer
+  useEffect(() => {
+    return () => scannerRef.current?.stopCamera();
+  }, []);
+
+  // The scene bricks are laid into; it renders on the XR session's frames once construction starts
+  useEffect(() => {
+    if (sceneRef.current && !sceneState.isInitialized) {
+      try {
+        const { scene, camera, renderer } = initializeScene(sceneRef.current);
+        renderer.setAnimationLoop(() => renderer.render(scene, camera));
+      } catch (error) {
+        console.error('Failed to initialize scene:', error);
+      }
+    }
+  }, [sceneState.isInitialized, initializeScene]);
+
+  // Dispose of the scene on unmount only, through the latest callbacks
+  const disposeRef = useRef(() => {});
+  useEffect(() => {
+    disposeRef.current = () => {
+      sceneState.renderer?.setAnimationLoop(null);
+      disposeScene();
+    };
+  }, [sceneState.renderer, disposeScene]);
+
+  useEffect(() => {
+    return () => disposeRef.current();
+  }, []);
+
+  const stopScanning = () => {
+    scannerRef.current?.stopCamera();
+    setIsScanning(false);
+  };
+
+  // Both pair markers located: AR construction can start from the pair solution
+  useEffect(() => {
+    if (detectedPairs?.primary && detectedPairs?.secondary) {
+      setConstructionReady(true);
+    }
+  }, [detectedPairs]);
+
+  // Keep looking for further anchors until they fit a site registration
+  useEffect(() => {
+    if (siteRegistration) {
+      scannerRef.current?.stopCamera();
+      setIsScanning(false);
+    }
+  }, [siteRegistration]);
+
+  // Decoded payload of one of this pair's codes, or null for any other code
+  const parsePairPayload = (payload: string): PairQRPayload | null => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(payload);
+    } catch {
+      return null;
+    }
+
+    const result = validatePairQRPayload(parsed);
+    if (!result.success) return null;
+    return result.data.qrPair.pairId === qrPairData.primary.qr_pair_id ? result.data : null;
+  };
+
+  // The anchor a pair code was printed for, in the form site registration takes
+  const pairAnchorData = (payload: PairQRPayload): AnchorQRData | null => {
+    const anchorId = payload.qrPosition === 'primary' ? payload.qrPair.primaryAnchorId : payload.qrPair.secondaryAnchorId;
+    const anchorIndex = payload.anchors.findIndex(anchor => anchor.id === anchorId);
+    if (anchorIndex < 0) return null;
+    const { name, purpose, constructionType, notes, position } = payload.anchors[anchorIndex];
+
+    return {
+      projectId: payload.project.id,
+      projectUID: payload.project.id,
+      projectName: payload.project.name,
+      anchorIndex,
+      anchorUID: anchorId,
+      anchor: { name, purpose, constructionType, notes, position },
+      brickType: payload.project.brickType,
+      totalAnchors: payload.anchors.length,
+      type: 'construction-anchor',
+      timestamp: new Date().toISOString()
+    };
+  };
+
+  // Planned project-space position of the anchor a QR code was printed for
+  const getPlannedPosition = (qrCode: QRCode): Position3D | null => {
+    const anchors: Array<{ id: string; position: Position3D }> = qrCode.qr_data?.anchors ?? [];
+    return anchors.find(anchor => anchor.id === qrCode.anchor_id)?.position ?? null;
+  };
+
   // Calculate 3D coordinate system from QR pair positions
-  const calculateCoordinateSystem = (primaryPose: any, secondaryPose: any) => {
+  const calculateCoordinateSystem = (primaryPose: ARPose, secondaryPose: ARPose) => {
     if (!qrPairData) return null;
 
-    // Calculate the real-world scale based on detected distance vs reference distance
-    const detectedDistance = Math.sqrt(
-      Math.pow(secondaryPose.position.x - primaryPose.position.x, 2) +
-      Math.pow(secondaryPose.position.y - primaryPose.position.y, 2) +
-      Math.pow(secondaryPose.position.z - primaryPose.position.z, 2)
+    // Without planned anchor positions, lay the pair out along +X at the reference distance
+    const primaryPosition = getPlannedPosition(qrPairData.primary) ?? { x: 0, y: 0, z: 0 };
+    const secondaryPosition = getPlannedPosition(qrPairData.secondary) ??
+      { x: primaryPosition.x + qrPairData.referenceDistance, y: primaryPosition.y, z: primaryPosition.z };
+
+    const solution = solvePairCoordinateSystem(
+      { pose: primaryPose, projectPosition: primaryPosition },
+      { pose: secondaryPose, projectPosition: secondaryPosition }
     );
-    
-    const scale = qrPairData.referenceDistance / detectedDistance;
-    
-    // Calculate orientation vector from primary to secondary
-    const orientation = {
-      x: secondaryPose.position.x - primaryPose.position.x,
-      y: secondaryPose.position.y - primaryPose.position.y,
-      z: secondaryPose.position.z - primaryPose.position.z
-    };
-    
-    // Normalize orientation vector
-    const length = Math.sqrt(orientation.x * orientation.x + orientation.y * orientation.y + orientation.z * orientation.z);
-    orientation.x /= length;
-    orientation.y /= length;
-    orientation.z /= length;
+    if (!solution) return null;
 
     return {
-      origin: primaryPose.position,
-      scale,
-      orientation,
+      ...solution,
       referenceDistance: qrPairData.referenceDistance
     };
   };
 
   const handleStartQRPairTracking = async () => {
-    if (!qrPairData) return;
+    if (!qrPairData || !videoRef.current || !canvasRef.current) return;
     
     setIsTrackingPairs(true);
-    
-    // Simulate QR pair detection
-    setTimeout(() => {
-      setDetectedPairs({
-        primary: { position: { x: -1, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0 } },
-        secondary: { position: { x: 1, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0 } }
+    setIsScanning(true);
+    setTrackingError(null);
+    setDetectedPairs({ primary: null, secondary: null });
+
+    try {
+      // The XR session tracks the device, so codes seen from different places land in one world frame
+      const isTracked = xrState.isSupported;
+      if (isTracked && !xrState.session) await startXRSession();
+
+      // Single anchor codes are signed with the project key; pair codes are not signed
+      const publicKey = await useDatabaseStore.getState().getProjectPublicKey(qrPairData.projectId)
+        .then(serialized => (serialized ? importSigningKey(serialized, 'verify') : null))
+        .catch(() => null);
+      const checkSignature = (payload: string) => {
+        let status = signatureChecksRef.current.get(payload);
+        if (!status) {
+          status = verifyAnchorPayloadSignature(payload, publicKey);
+          signatureChecksRef.current.set(payload, status);
+        }
+        return status;
+      };
+
+      const scanner = new QRScanner(videoRef.current, canvasRef.current);
+      scannerRef.current = scanner;
+      await scanner.startCamera();
+
+      // Estimate a camera-space pose for every code seen in each frame and move it into world space
+      scanner.startFrameCapture((imageData, timestamp) => {
+        const intrinsics = intrinsicsFromFieldOfView(imageData.width, imageData.height);
+        // Untracked, the camera itself is the world origin and has to be held still
+        const viewerPose = isTracked ? getViewerPose() : { position: { x: 0, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0 }, timestamp };
+        if (!viewerPose) return;
+
+        for (const decoded of decodeAllQRFromImageData(imageData, MAX_CODES_PER_FRAME)) {
+          const estimate = estimateMarkerPose(decoded.cornerPoints, DEFAULT_MARKER_SIZE, intrinsics, timestamp);
+          if (!estimate) continue;
+          const pose = composePoses(viewerPose, estimate.pose);
+
+          // Both pair codes and single anchor codes of this project feed the site registration
+          const pair = parsePairPayload(decoded.data);
+          if (pair) {
+            setDetectedPairs(prev => ({ primary: null, secondary: null, ...prev, [pair.qrPosition]: pose }));
+            const data = pairAnchorData(pair);
+            if (data) registerDetectedAnchor({ data, pose, timestamp });
+            continue;
+          }
+
+          // A forged or tampered anchor code would drag the registration off; leave it out
+          const data = validateQRData(decoded.data).data;
+          if (data && data.projectId === qrPairData.projectId) {
+            checkSignature(decoded.data).then(status => {
+              if (status !== 'invalid') registerDetectedAnchor({ data, pose, timestamp });
+            });
+          }
+        }
       });
-      setConstructionReady(true);
-    }, 2000);
+    } catch (error) {
+      setTrackingError(error instanceof Error ? error.message : 'Failed to start QR pair detection');
+      setIsTrackingPairs(false);
+      setIsScanning(false);
+    }
   };
 
   const handleStartARConstruction = async () => {
     if (!constructionReady || !detectedPairs?.primary || !detectedPairs?.secondary) return;
     
     try {
-      if (clearError) clearError();
-      if (startXRSession) await startXRSession();
-      
-      // Calculate coordinate system
-      const coordSystem = calculateCoordinateSystem(detectedPairs.primary, detectedPairs.secondary);
-      
-      if (coordSystem && qrPairData) {
-        console.log('Starting AR construction with coordinate system:', coordSystem);
-        console.log('Project ID:', qrPairData.projectId);
-      }
+      clearError();
+      stopScanning();
+
+      // With three or more anchors seen, the fitted registration supersedes the pair solution
+      const registration = siteRegistration ?? calculateCoordinateSystem(detectedPairs.primary, detectedPairs.secondary);
+      if (!registration) throw new Error('The two pair codes are too close together, or turned too far from each other, to place the project');
+      if (!project) throw new Error('The pair code does not carry the project anchors');
+      if (!sceneState.renderer || !sceneState.group) throw new Error('The 3D view is not ready');
+
+      const session = xrState.session ?? (await startXRSession()).session;
+      await sceneState.renderer.xr.setSession(session);
+
+      // Bricks are laid in project space inside the group, which the registration places in the world
+      const { transform, eulerRotation } = registration;
+      sceneState.group.position.set(transform.translation.x, transform.translation.y, transform.translation.z);
+      sceneState.group.rotation.set(eulerRotation.x, eulerRotation.y, eulerRotation.z);
+      sceneState.group.scale.setScalar(transform.scale);
+
+      await generateAutomaticConstruction(project.brickType, addBrick);
     } catch (error) {
-      console.error('Failed to start AR construction:', error);
+      setTrackingError(error instanceof Error ? error.message : 'Failed to start AR construction');
     }
   };
 
@@ -172,11 +367,13 @@ export default function ARViewerPairs({ qrPairData, onBack }: ARViewerPairsProps
                     >
                       📱 Start Detection
                     </Button>
-                  ) : (
+                  ) : isScanning ? (
                     <div className="flex items-center space-x-2">
                       <div className="animate-spin h-4 w-4 border-2 border-cyan-400 border-t-transparent rounded-full"></div>
                       <span className="text-cyan-200 text-sm">Detecting...</span>
                     </div>
+                  ) : (
+                    <span className="text-green-300 text-sm">✅ Located</span>
                   )}
                 </div>
               </div>
@@ -193,6 +390,29 @@ export default function ARViewerPairs({ qrPairData, onBack }: ARViewerPairsProps
                   </div>
                 </div>
               )}
+
+              {detectedAnchors.length > 0 && (
+                <div className="mt-3 text-sm text-cyan-200">
+                  {siteRegistration
+                    ? `Site registration: ${siteRegistration.inlierCount}/${siteRegistration.residuals.length} anchors, RMS ${(siteRegistration.rmsError * 100).toFixed(1)} cm`
+                    : `${detectedAnchors.length} of ${MIN_REGISTRATION_ANCHORS} anchors needed for site registration`}
+                  {siteRegistration?.residuals.map(residual => (
+                    <div key={residual.anchorUID} className={residual.isInlier ? '' : 'text-red-300'}>
+                      {residual.anchorName}: {(residual.residual * 100).toFixed(1)} cm {residual.isInlier ? '' : '(outlier)'}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {isScanning && !xrState.isSupported && (
+                <div className="mt-3 text-sm text-yellow-300">
+                  No AR tracking on this device: hold the camera still until every code is found
+                </div>
+              )}
+
+              {trackingError && (
+                <div className="mt-3 text-sm text-red-300">{trackingError}</div>
+              )}
             </div>
 
             {/* Step 2: AR Construction */}
@@ -207,6 +427,7 @@ export default function ARViewerPairs({ qrPairData, onBack }: ARViewerPairsProps
                     <Button 
                       onClick={handleStartARConstruction}
                       className="bg-green-500 hover:bg-green-600 text-white"
+                      disabled={isConstructing}
                     >
                       🏗️ Enter AR Mode
                     </Button>
@@ -216,6 +437,16 @@ export default function ARViewerPairs({ qrPairData, onBack }: ARViewerPairsProps
                 </div>
               </div>
               
+              {isConstructing && (
+                <div className="mt-3 text-sm text-green-300">
+                  Laying bricks: {constructionProgress.toFixed(0)}%
+                </div>
+              )}
+
+              {constructionError && (
+                <div className="mt-3 text-sm text-red-300">Construction failed: {constructionError}</div>
+              )}
+
               {xrState.isSupported && (
                 <div className="mt-3 text-sm text-green-300">
                   ✅ WebXR supported on this device
@@ -299,7 +530,16 @@ export default function ARViewerPairs({ qrPairData, onBack }: ARViewerPairsProps
         ref={containerRef}
         className="w-full h-96 bg-black/20 rounded-lg border border-white/20 relative overflow-hidden"
       >
-        {!currentQRPair ? (
+        <div ref={sceneRef} className="absolute inset-0" />
+        <video
+          ref={videoRef}
+          className={`absolute inset-0 w-full h-full object-cover ${isScanning ? '' : 'hidden'}`}
+          playsInline
+          muted
+        />
+        <canvas ref={canvasRef} className="hidden" />
+
+        {isScanning || isConstructing || constructionProgress > 0 ? null : !currentQRPair ? (
           <div className="absolute inset-0 flex items-center justify-center text-center">
             <div className="text-white/60">
               <div className="text-4xl mb-4">📱📱</div>
@@ -26,9 +26,10 @@ interface CreatorInterfaceProps {
 export default function CreatorInterface({ onBack }: CreatorInterfaceProps) {
   const [activeTab, setActiveTab] = useState<CreatorTab>('construction')
   const [currentProject, setCurrentProject] = useState<Project | null>(null)
+  const [signingWarning, setSigningWarning] = useState<string | null>(null)
   const { user } = useAuth()
   const { projects, createProject } = useDatabaseStore()
-  const { generateSingleQR, isGenerating } = useQRCodeGenerator()
+  const { generateSingleQR, resolveSigningKey, isGenerating } = useQRCodeGenerator()
   const { qrCodes, addQRCode, exportQRCodes, clearQRCodes } = useQRDataManager()
   
   const [anchorForm, setAnchorForm] = useState<AnchorFormData>({
@@ -103,7 +104,12 @@ export default function CreatorInterface({ onBack }: CreatorInterfaceProps) {
         timestamp: new Date().toISOString()
       }
 
-      const qrCodeURL = await generateSingleQR(qrData, 300)
+      // Without the key the anchor is still created, but scanners reject its unsigned code once the project has a key
+      const signingKey = await resolveSigningKey(currentProject.id).catch(() => null)
+      setSigningWarning(signingKey
+        ? null
+        : `Could not load the project signing key, so the QR code for "${newAnchor.name}" is unsigned. Regenerate it once signing works again.`)
+      const qrCodeURL = await generateSingleQR(qrData, 300, signingKey ?? undefined)
       
       // Update project with new anchor
       const updatedAnchors = [...currentProject.anchors, newAnchor]
@@ -322,6 +328,8 @@ export default function CreatorInterface({ onBack }: CreatorInterfaceProps) {
                             <option value="column">Column</option>
                             <option value="beam">Beam</option>
                             <option value="arch">Arch</option>
+                            <option value="vault">Vault</option>
+                            <option value="dome">Dome</option>
                           </select>
                         </div>
                       </div>
@@ -388,6 +396,12 @@ export default function CreatorInterface({ onBack }: CreatorInterfaceProps) {
                       >
                         {isGenerating ? 'Generating...' : 'Create Anchor & QR Code'}
                       </button>
+
+                      {signingWarning && (
+                        <p className="text-sm text-yellow-700 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+                          ⚠️ {signingWarning}
+                        </p>
+                      )}
                     </div>
                   </div>
 
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Button } from './ui/button';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
@@ -7,9 +7,20 @@ import QRCodeManager from './QRCodeManager';
 import ProjectModal from './ProjectModal';
 import QRCodePairGenerator from './QRCodePairGenerator';
 import Viewport3D from './viewport/Viewport3D';
-import type { Project } from '../types';
+import OpeningsPanel, { type OpeningsPanelWall } from './panels/OpeningsPanel';
+import BuildStepsPanel from './panels/BuildStepsPanel';
+import BillOfMaterialsPanel from './panels/BillOfMaterialsPanel';
+import ClimateAnalysisPanel from './panels/ClimateAnalysisPanel';
+import { useARConstruction } from '../hooks/useWebXR';
+import type { Anchor, BrickTypeKey, Position3D, Project } from '../types';
+import { createStructuralNetwork, generateConstructionPlan } from '../utils/constructionAlgorithms';
+import { getBrickTypeForMaterial } from '../utils/materialLibrary';
+import { isWallPath, type WallOpening } from '../utils/wallGenerator';
 import '../styles/enhanced-creator.css';
 
+// Walls between anchors set out on one level rise a full storey unless the height is changed
+const DEFAULT_STOREY_HEIGHT = 2.4;
+
 interface EnhancedCreatorInterfaceProps {
   onBack?: () => void;
 }
@@ -24,6 +35,7 @@ interface SceneObject {
   position?: { x: number; y: number; z: number };
   rotation?: { x: number; y: number; z: number };
   scale?: { x: number; y: number; z: number };
+  anchor?: Anchor; // purpose and construction type of anchors loaded from a project
 }
 
 interface ObjectProperties {
@@ -52,6 +64,7 @@ export default function EnhancedCreatorInterface({ onBack }: EnhancedCreatorInte
   const { user } = useAuth();
   const { 
     projects, 
+    currentProject,
     createProject, 
     updateProject, 
     setCurrentProject
@@ -68,6 +81,10 @@ export default function EnhancedCreatorInterface({ onBack }: EnhancedCreatorInte
   const [isQRVisible, setIsQRVisible] = useState(false);
   const [isQRManagerVisible, setIsQRManagerVisible] = useState(false);
   const [isProjectModalVisible, setIsProjectModalVisible] = useState(false);
+  const [isOpeningsVisible, setIsOpeningsVisible] = useState(false);
+  const [isBuildStepsVisible, setIsBuildStepsVisible] = useState(false);
+  const [isQuantitiesVisible, setIsQuantitiesVisible] = useState(false);
+  const [isClimateVisible, setIsClimateVisible] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
 
   // Viewport settings
@@ -135,6 +152,84 @@ export default function EnhancedCreatorInterface({ onBack }: EnhancedCreatorInte
     }
   ]);
 
+  // Walls generated between the anchors in the scene, with the openings placed in them
+  const [openings, setOpenings] = useState<Record<string, WallOpening[]>>({});
+  const [wallHeight, setWallHeight] = useState(DEFAULT_STOREY_HEIGHT);
+  // Library materials without a brick of their own are planned as clay
+  const brickType: BrickTypeKey = getBrickTypeForMaterial(selectedMaterial) ?? 'clay-sustainable';
+  const planAnchors = useMemo<Anchor[]>(() => sceneObjects
+    .filter(obj => obj.type === 'anchor' && obj.visible && obj.position)
+    .map(obj => ({
+      purpose: 'wall-corner',
+      constructionType: 'wall',
+      ...obj.anchor,
+      name: obj.name,
+      position: obj.position!
+    })), [sceneObjects]);
+  // Every element the anchors generate; the viewport and openings work on the walls among them
+  const plannedPaths = useMemo(() => planAnchors.length < 2
+    ? []
+    : generateConstructionPlan(createStructuralNetwork(planAnchors), brickType, { wall: { height: wallHeight }, openings }).paths,
+  [planAnchors, brickType, wallHeight, openings]);
+  const wallPaths = useMemo(() => plannedPaths.filter(isWallPath), [plannedPaths]);
+  const openingWalls = useMemo<OpeningsPanelWall[]>(() => {
+    const anchorAt = (point: Position3D) => planAnchors.find(anchor =>
+      Math.hypot(anchor.position.x - point.x, anchor.position.y - point.y, anchor.position.z - point.z) < 1e-6
+    )?.name;
+    return wallPaths.map(path => ({
+      key: `${anchorAt(path.start)}-${anchorAt(path.end)}`,
+      length: path.length,
+      warnings: path.warnings
+    }));
+  }, [planAnchors, wallPaths]);
+
+  // Build order for the same walls, replayed brick by brick
+  const {
+    isConstructing,
+    constructionPaths,
+    climateAnalysis,
+    buildPlan,
+    constructionError,
+    setProjectAnchors,
+    generateAutomaticConstruction,
+    cancelConstruction
+  } = useARConstruction();
+  const [laidBricks, setLaidBricks] = useState(0);
+
+  useEffect(() => {
+    setProjectAnchors(planAnchors);
+  }, [planAnchors, setProjectAnchors]);
+
+  const handleBuild = () => {
+    setLaidBricks(0);
+    setIsBuildStepsVisible(true);
+    generateAutomaticConstruction(brickType, () => {
+      setLaidBricks(count => count + 1);
+      return null;
+    }, { wall: { height: wallHeight }, openings });
+  };
+
+  // The step that laid the latest brick
+  const currentStep = useMemo(() => {
+    if (!buildPlan || laidBricks === 0) return null;
+    return buildPlan.steps.filter(step => step.kind === 'lay')[laidBricks - 1]?.number ?? null;
+  }, [buildPlan, laidBricks]);
+
+  // While replaying, the walls show only what has been built so far
+  const displayedWallPaths = useMemo(() => {
+    if (!isConstructing || !buildPlan) return wallPaths;
+    const done = buildPlan.steps.filter(step => step.number <= (currentStep ?? 0));
+    const built = (kind: 'lay' | 'lintel') =>
+      new Set(done.filter(step => step.kind === kind).map(step => `${step.pathIndex}:${step.brickIndex}`));
+    const laid = built('lay');
+    const lintels = built('lintel');
+    return constructionPaths.flatMap((path, i) => {
+      if (!isWallPath(path)) return [];
+      const bricks = path.bricks.filter((_, j) => laid.has(`${i}:${j}`));
+      return [{ ...path, bricks, totalBricks: bricks.length, lintels: path.lintels.filter((_, j) => lintels.has(`${i}:${j}`)) }];
+    });
+  }, [isConstructing, buildPlan, currentStep, constructionPaths, wallPaths]);
+
   // History management for undo/redo
   const [history, setHistory] = useState<HistoryState[]>([]);
   const [historyIndex, setHistoryIndex] = useState(-1);
@@ -492,6 +587,7 @@ export default function EnhancedCreatorInterface({ onBack }: EnhancedCreatorInte
   const handleNewProject = () => {
     setCurrentProject(null);
     setSceneObjects([]);
+    setOpenings({});
     setSelectedObjects([]);
     // Reset history
     setHistory([{
@@ -522,10 +618,12 @@ export default function EnhancedCreatorInterface({ onBack }: EnhancedCreatorInte
         z: anchor.position.z 
       },
       rotation: { x: 0, y: 0, z: 0 },
-      scale: { x: 1, y: 1, z: 1 }
+      scale: { x: 1, y: 1, z: 1 },
+      anchor
     })) : [];
     
     setSceneObjects(projectObjects);
+    setOpenings({});
     setSelectedObjects([]);
     
     // Reset history with loaded project
@@ -1133,6 +1231,78 @@ export default function EnhancedCreatorInterface({ onBack }: EnhancedCreatorInte
           >
             🧱 Materials
           </Button>
+          <Button
+            onClick={() => setIsOpeningsVisible(!isOpeningsVisible)}
+            style={{
+              background: isOpeningsVisible ? 'var(--accent-blue)' : 'var(--surface-glass)',
+              border: '1px solid var(--border-subtle)',
+              color: isOpeningsVisible ? 'white' : 'var(--text-secondary)',
+              padding: '0.5rem 0.75rem',
+              borderRadius: '6px',
+              cursor: 'pointer',
+              fontSize: '0.75rem',
+              zIndex: 101,
+              pointerEvents: 'auto',
+              position: 'relative',
+              whiteSpace: 'nowrap'
+            }}
+          >
+            🚪 Openings
+          </Button>
+          <Button
+            onClick={() => setIsBuildStepsVisible(!isBuildStepsVisible)}
+            style={{
+              background: isBuildStepsVisible ? 'var(--accent-blue)' : 'var(--surface-glass)',
+              border: '1px solid var(--border-subtle)',
+              color: isBuildStepsVisible ? 'white' : 'var(--text-secondary)',
+              padding: '0.5rem 0.75rem',
+              borderRadius: '6px',
+              cursor: 'pointer',
+              fontSize: '0.75rem',
+              zIndex: 101,
+              pointerEvents: 'auto',
+              position: 'relative',
+              whiteSpace: 'nowrap'
+            }}
+          >
+            📋 Build Order
+          </Button>
+          <Button
+            onClick={() => setIsQuantitiesVisible(!isQuantitiesVisible)}
+            style={{
+              background: isQuantitiesVisible ? 'var(--accent-blue)' : 'var(--surface-glass)',
+              border: '1px solid var(--border-subtle)',
+              color: isQuantitiesVisible ? 'white' : 'var(--text-secondary)',
+              padding: '0.5rem 0.75rem',
+              borderRadius: '6px',
+              cursor: 'pointer',
+              fontSize: '0.75rem',
+              zIndex: 101,
+              pointerEvents: 'auto',
+              position: 'relative',
+              whiteSpace: 'nowrap'
+            }}
+          >
+            🧾 Quantities
+          </Button>
+          <Button
+            onClick={() => setIsClimateVisible(!isClimateVisible)}
+            style={{
+              background: isClimateVisible ? 'var(--accent-blue)' : 'var(--surface-glass)',
+              border: '1px solid var(--border-subtle)',
+              color: isClimateVisible ? 'white' : 'var(--text-secondary)',
+              padding: '0.5rem 0.75rem',
+              borderRadius: '6px',
+              cursor: 'pointer',
+              fontSize: '0.75rem',
+              zIndex: 101,
+              pointerEvents: 'auto',
+              position: 'relative',
+              whiteSpace: 'nowrap'
+            }}
+          >
+            🌡️ Climate
+          </Button>
           
           <Button
             onClick={handleSaveProject}
@@ -1485,7 +1655,55 @@ export default function EnhancedCreatorInterface({ onBack }: EnhancedCreatorInte
             viewMode={viewportSettings.viewMode}
             sceneObjects={sceneObjects}
             selectedObjects={selectedObjects}
+            wallPaths={displayedWallPaths}
           />
+
+          {/* Construction panels over the bottom of the viewport */}
+          <div style={{
+            position: 'absolute',
+            left: '1rem',
+            bottom: '1rem',
+            maxWidth: 'calc(100% - 2rem)',
+            display: 'flex',
+            flexWrap: 'wrap-reverse',
+            alignItems: 'flex-end',
+            gap: '0.75rem',
+            zIndex: 20
+          }}>
+            <OpeningsPanel
+              walls={openingWalls}
+              openings={openings}
+              onChange={setOpenings}
+              wallHeight={wallHeight}
+              onWallHeightChange={setWallHeight}
+              isVisible={isOpeningsVisible}
+              onClose={() => setIsOpeningsVisible(false)}
+            />
+            <BuildStepsPanel
+              plan={buildPlan}
+              error={constructionError}
+              currentStep={currentStep}
+              isBuilding={isConstructing}
+              canBuild={planAnchors.length >= 2}
+              onBuild={handleBuild}
+              onStop={cancelConstruction}
+              isVisible={isBuildStepsVisible}
+              onClose={() => setIsBuildStepsVisible(false)}
+            />
+            <BillOfMaterialsPanel
+              paths={plannedPaths}
+              brickType={brickType}
+              projectName={currentProject?.name}
+              isVisible={isQuantitiesVisible}
+              onClose={() => setIsQuantitiesVisible(false)}
+            />
+            <ClimateAnalysisPanel
+              analysis={climateAnalysis}
+              error={constructionError}
+              isVisible={isClimateVisible}
+              onClose={() => setIsClimateVisible(false)}
+            />
+          </div>
         </div>
 
         {/* Right Panels - Fixed to Prevent Overlap */}
@@ -4,6 +4,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/
 import QRCodePairGenerator from './QRCodePairGenerator';
 import { useDatabaseStore } from '../stores/database';
 import type { QRCode } from '../lib/supabase';
+import { buildAnchorSheetPages, downloadAnchorSheetPDF } from '../utils/anchorSheet';
+import { renderQRCodePNG } from '../utils/qrUtils';
 
 interface QRCodeManagerProps {
   isVisible: boolean;
@@ -12,7 +14,7 @@ interface QRCodeManagerProps {
 }
 
 export default function QRCodeManager({ isVisible, onClose, projectId }: QRCodeManagerProps) {
-  const { qrCodes, loadQRCodes, loadQRCodePairs, loading } = useDatabaseStore();
+  const { qrCodes, anchors, loadQRCodes, loadQRCodePairs, loading } = useDatabaseStore();
   const [qrPairs, setQrPairs] = useState<Record<string, { primary?: QRCode, secondary?: QRCode }>>({});
   const [showGenerator, setShowGenerator] = useState(false);
 
@@ -23,14 +25,43 @@ export default function QRCodeManager({ isVisible, onClose, projectId }: QRCodeM
     }
   }, [isVisible, projectId, loadQRCodes, loadQRCodePairs]);
 
-  const handleDownloadQR = (qrCode: QRCode) => {
-    // Create download link
-    const link = document.createElement('a');
-    link.href = qrCode.qr_code_url;
-    link.download = `QR_${qrCode.qr_position}_${qrCode.id.slice(0, 8)}.png`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  // Rows created before images were stored only hold a qr:// placeholder
+  const hasStoredImage = (qrCode: QRCode) => !!qrCode.qr_code_url && !qrCode.qr_code_url.startsWith('qr://');
+
+  const handleDownloadQR = async (qrCode: QRCode) => {
+    try {
+      let href: string;
+      if (!hasStoredImage(qrCode)) {
+        href = await renderQRCodePNG(JSON.stringify(qrCode.qr_data), { size: 512 });
+      } else if (qrCode.qr_code_url.startsWith('data:')) {
+        href = qrCode.qr_code_url;
+      } else {
+        // Cross-origin links ignore the download attribute, so fetch the image first
+        const response = await fetch(qrCode.qr_code_url);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        href = URL.createObjectURL(await response.blob());
+      }
+
+      const link = document.createElement('a');
+      link.href = href;
+      link.download = `QR_${qrCode.qr_position}_${qrCode.id.slice(0, 8)}.png`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      if (href.startsWith('blob:')) URL.revokeObjectURL(href);
+    } catch (error) {
+      console.error('QR download failed:', error);
+      alert(`Could not download QR code: ${(error as Error).message}`);
+    }
+  };
+
+  const handlePrintSheets = (codes: QRCode[], filename: string) => {
+    try {
+      downloadAnchorSheetPDF(buildAnchorSheetPages(codes, anchors), filename);
+    } catch (error) {
+      console.error('Anchor sheet export failed:', error);
+      alert(`Could not create anchor sheet: ${(error as Error).message}`);
+    }
   };
 
   const handleCopyQRData = (qrCode: QRCode) => {
@@ -104,6 +135,24 @@ export default function QRCodeManager({ isVisible, onClose, projectId }: QRCodeM
           </div>
           
           <div style={{ display: 'flex', gap: '0.75rem' }}>
+            <Button
+              onClick={() => handlePrintSheets(qrCodes, `anchor_sheets_${projectId.slice(0, 8)}.pdf`)}
+              disabled={qrCodes.length === 0}
+              style={{
+                background: 'transparent',
+                border: '1px solid var(--border-subtle)',
+                color: 'var(--text-primary)',
+                padding: '0.75rem 1.5rem',
+                borderRadius: '8px',
+                cursor: qrCodes.length === 0 ? 'not-allowed' : 'pointer',
+                fontSize: '0.875rem',
+                fontWeight: '600'
+              }}
+              title="One page per anchor, printed at actual size"
+            >
+              🖨️ Print All Sheets
+            </Button>
+
             <Button
               onClick={() => setShowGenerator(true)}
               style={{
@@ -199,6 +248,24 @@ export default function QRCodeManager({ isVisible, onClose, projectId }: QRCodeM
                           }}>
                             Reference Distance: {pair.primary?.reference_distance || pair.secondary?.reference_distance || 'N/A'}m
                           </CardDescription>
+                          <Button
+                            onClick={() => handlePrintSheets(
+                              [pair.primary, pair.secondary].filter((qr): qr is QRCode => !!qr),
+                              `anchor_sheet_pair_${(pair.primary?.qr_pair_id || pair.secondary?.qr_pair_id || 'unknown').slice(0, 8)}.pdf`
+                            )}
+                            style={{
+                              marginTop: '0.75rem',
+                              background: 'var(--surface-elevated)',
+                              border: '1px solid var(--border-subtle)',
+                              color: 'var(--text-primary)',
+                              padding: '0.375rem 0.75rem',
+                              borderRadius: '6px',
+                              fontSize: '0.75rem',
+                              cursor: 'pointer'
+                            }}
+                          >
+                            🖨️ Print Pair Sheet (PDF)
+                          </Button>
                         </CardHeader>
 
                         <CardContent style={{ padding: '0 1rem 1rem 1rem' }}>
@@ -229,9 +296,16 @@ export default function QRCodeManager({ isVisible, onClose, projectId }: QRCodeM
                                   display: 'flex',
                                   alignItems: 'center',
                                   justifyContent: 'center',
-                                  fontSize: '2rem'
+                                  fontSize: '2rem',
+                                  overflow: 'hidden'
                                 }}>
-                                  📱
+                                  {hasStoredImage(pair.primary) ? (
+                                    <img
+                                      src={pair.primary.qr_code_url}
+                                      alt="Primary QR code"
+                                      style={{ width: '100%', height: '100%', imageRendering: 'pixelated' }}
+                                    />
+                                  ) : '📱'}
                                 </div>
                                 <div style={{ display: 'flex', gap: '0.25rem' }}>
                                   <Button
@@ -293,9 +367,16 @@ export default function QRCodeManager({ isVisible, onClose, projectId }: QRCodeM
                                   display: 'flex',
                                   alignItems: 'center',
                                   justifyContent: 'center',
-                                  fontSize: '2rem'
+                                  fontSize: '2rem',
+                                  overflow: 'hidden'
                                 }}>
-                                  📱
+                                  {hasStoredImage(pair.secondary) ? (
+                                    <img
+                                      src={pair.secondary.qr_code_url}
+                                      alt="Secondary QR code"
+                                      style={{ width: '100%', height: '100%', imageRendering: 'pixelated' }}
+                                    />
+                                  ) : '📱'}
                                 </div>
                                 <div style={{ display: 'flex', gap: '0.25rem' }}>
                                   <Button
@@ -375,9 +456,16 @@ export default function QRCodeManager({ isVisible, onClose, projectId }: QRCodeM
                           display: 'flex',
                           alignItems: 'center',
                           justifyContent: 'center',
-                          fontSize: '2rem'
+                          fontSize: '2rem',
+                          overflow: 'hidden'
                         }}>
-                          📱
+                          {hasStoredImage(qr) ? (
+                            <img
+                              src={qr.qr_code_url}
+                              alt="QR code"
+                              style={{ width: '100%', height: '100%', imageRendering: 'pixelated' }}
+                            />
+                          ) : '📱'}
                         </div>
                         <div style={{ 
                           fontSize: '0.875rem', 
@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
 import { useDatabaseStore } from '../stores/database';
 import { useAuth } from '../contexts/AuthContext';
+import type { QRCode } from '../lib/supabase';
+import { buildAnchorSheetPages, downloadAnchorSheetPDF } from '../utils/anchorSheet';
 
 interface QRCodePairGeneratorProps {
   projectId: string
@@ -62,6 +64,17 @@ export default function QRCodePairGenerator({ projectId, onClose }: QRCodePairGe
     setLoading(false)
   }
 
+  const handlePrintPair = (pair: { primary?: QRCode, secondary?: QRCode }) => {
+    const codes = [pair.primary, pair.secondary].filter((qr): qr is QRCode => !!qr)
+    const pairId = codes[0]?.qr_pair_id || 'unknown'
+    try {
+      downloadAnchorSheetPDF(buildAnchorSheetPages(codes, anchors), `anchor_sheet_pair_${pairId.slice(0, 8)}.pdf`)
+    } catch (err) {
+      console.error('Anchor sheet export failed:', err)
+      alert(`Could not create anchor sheet: ${(err as Error).message}`)
+    }
+  }
+
   const getAnchorName = (anchorId: string) => {
     const anchor = anchors.find(a => a.id === anchorId)
     return anchor?.name || 'Unknown Anchor'
@@ -387,15 +400,32 @@ export default function QRCodePairGenerator({ projectId, onClose }: QRCodePairGe
                   }}>
                     QR Pair #{index + 1}
                   </span>
-                  <span style={{ 
-                    color: '#00ff88', 
-                    fontSize: '0.75rem',
-                    background: 'rgba(0, 255, 136, 0.1)',
-                    padding: '0.25rem 0.5rem',
-                    borderRadius: '4px'
-                  }}>
-                    {pair.primary?.reference_distance || 1.0}m distance
-                  </span>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                    <span style={{ 
+                      color: '#00ff88', 
+                      fontSize: '0.75rem',
+                      background: 'rgba(0, 255, 136, 0.1)',
+                      padding: '0.25rem 0.5rem',
+                      borderRadius: '4px'
+                    }}>
+                      {pair.primary?.reference_distance || 1.0}m distance
+                    </span>
+                    <button
+                      onClick={() => handlePrintPair(pair)}
+                      style={{
+                        background: 'rgba(0, 153, 255, 0.1)',
+                        border: '1px solid rgba(0, 153, 255, 0.3)',
+                        color: '#0099ff',
+                        fontSize: '0.75rem',
+                        padding: '0.25rem 0.5rem',
+                        borderRadius: '4px',
+                        cursor: 'pointer'
+                      }}
+                      title="Print-ready PDF, one page per anchor at actual size"
+                    >
+                      🖨️ Print
+                    </button>
+                  </div>
                 </div>
                 
                 <div style={{ 
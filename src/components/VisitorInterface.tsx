@@ -1,10 +1,19 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
 import { brickTypes } from '../utils/brickTypes'
 import ARViewerPairs from './ARViewerPairs'
-import type { AnchorQRData } from '../types'
+import { useQRScanner } from '../hooks/useQRCode'
+import type { AnchorQRData, SignatureStatus } from '../types'
 import type { QRCode } from '../lib/supabase'
 
+// How each signature outcome is shown to the crew
+const signatureBadges: Record<SignatureStatus, { label: string; className: string }> = {
+  valid: { label: '✅ Signed by project owner', className: 'bg-green-100 text-green-800 border-green-300' },
+  unverified: { label: '⚠️ Signed, but the project key could not be loaded', className: 'bg-yellow-100 text-yellow-800 border-yellow-300' },
+  unsigned: { label: '⚠️ Unsigned code: check the position before building', className: 'bg-orange-100 text-orange-800 border-orange-300' },
+  invalid: { label: '⛔ Invalid signature: do not build from this code', className: 'bg-red-100 text-red-800 border-red-300' }
+}
+
 interface VisitorInterfaceProps {
   onBack?: () => void;
 }
@@ -14,8 +23,49 @@ export default function VisitorInterface({ onBack }: VisitorInterfaceProps) {
   const [isARActive, setIsARActive] = useState(false)
   const [scannedData, setScannedData] = useState<AnchorQRData | null>(null)
   const [qrPairData, setQrPairData] = useState<{ primary: QRCode; secondary: QRCode; referenceDistance: number; projectId: string } | null>(null)
+  const [signatureStatus, setSignatureStatus] = useState<SignatureStatus | null>(null)
+  const [isScannerOpen, setIsScannerOpen] = useState(false)
   // Component state management
 
+  const anchorScanner = useQRScanner()
+  const {
+    isCameraActive,
+    isScanning,
+    scannedData: scannerData,
+    signatureStatus: scannerSignatureStatus,
+    startScanning,
+    stopCamera
+  } = anchorScanner
+
+  // Start decoding as soon as the camera is running
+  useEffect(() => {
+    if (isScannerOpen && isCameraActive && !isScanning && !scannerData) {
+      startScanning()
+    }
+  }, [isScannerOpen, isCameraActive, isScanning, scannerData, startScanning])
+
+  // Hand a detected anchor over to the viewer once its signature has been checked
+  useEffect(() => {
+    if (scannerData && scannerSignatureStatus) {
+      setScannedData(scannerData)
+      setSignatureStatus(scannerSignatureStatus)
+      stopCamera()
+      setIsScannerOpen(false)
+      setActiveTab('viewer')
+    }
+  }, [scannerData, scannerSignatureStatus, stopCamera])
+
+  const handleOpenAnchorScanner = async () => {
+    anchorScanner.clearScannedData()
+    setIsScannerOpen(true)
+    await anchorScanner.startCamera()
+  }
+
+  const handleCloseAnchorScanner = () => {
+    stopCamera()
+    setIsScannerOpen(false)
+  }
+
   const handleDemoQRPair = () => {
     const mockQRPair = {
       primary: { 
@@ -52,6 +102,7 @@ export default function VisitorInterface({ onBack }: VisitorInterfaceProps) {
   const handleExitAR = () => {
     setIsARActive(false)
     setScannedData(null)
+    setSignatureStatus(null)
     setQrPairData(null)
   }
 
@@ -137,6 +188,24 @@ export default function VisitorInterface({ onBack }: VisitorInterfaceProps) {
                   <h3 className="text-lg font-semibold text-gray-800 mb-4">📱 Camera Scanner</h3>
                   <div className="bg-gray-100 rounded-xl p-8 text-center h-64 flex items-center justify-center">
                     <div className="glass-card p-8 w-full h-full relative overflow-hidden">
+                      <video
+                        ref={anchorScanner.videoRef}
+                        className={`absolute inset-0 w-full h-full object-cover ${isScannerOpen ? '' : 'hidden'}`}
+                        playsInline
+                        muted
+                      />
+                      <canvas ref={anchorScanner.canvasRef} className="hidden" />
+
+                      {isScannerOpen ? (
+                        <div className="absolute bottom-4 inset-x-0 flex flex-col items-center gap-2">
+                          {anchorScanner.error && (
+                            <div className="text-sm text-red-600 bg-white/90 rounded px-3 py-1">{anchorScanner.error}</div>
+                          )}
+                          <button className="btn-secondary" onClick={handleCloseAnchorScanner}>
+                            ✕ Stop Scanning
+                          </button>
+                        </div>
+                      ) : (
                       <div className="absolute inset-0 flex items-center justify-center text-center">
                         <div>
                           <span className="text-6xl block mb-4">📱</span>
@@ -150,9 +219,16 @@ export default function VisitorInterface({ onBack }: VisitorInterfaceProps) {
                             >
                               📸 Open Camera Scanner
                             </button>
+                            <button 
+                              className="btn-secondary w-full max-w-xs mx-auto block"
+                              onClick={handleOpenAnchorScanner}
+                            >
+                              📍 Scan Anchor QR
+                            </button>
                           </div>
                         </div>
                       </div>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -195,6 +271,11 @@ export default function VisitorInterface({ onBack }: VisitorInterfaceProps) {
                   <p className="text-gray-600 mb-6">Viewing construction: {scannedData.projectName}</p>
                   
                   <div className="glass-card p-6 max-w-md mx-auto text-left">
+                    {signatureStatus && (
+                      <div className={`mb-4 px-3 py-2 rounded-lg border text-sm font-medium ${signatureBadges[signatureStatus].className}`}>
+                        {signatureBadges[signatureStatus].label}
+                      </div>
+                    )}
                     <h4 className="font-semibold text-gray-800 mb-3">📍 Anchor Details</h4>
                     <div className="space-y-2 text-sm">
                       <div><strong>Name:</strong> {scannedData.anchor.name}</div>
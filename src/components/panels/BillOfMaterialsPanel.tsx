@@ -0,0 +1,144 @@
+import { useMemo } from 'react';
+import DockablePanel from './DockablePanel';
+import type { PanelConfig } from './DockablePanel';
+import type { BrickTypeKey } from '../../types';
+import type { ConstructionPath } from '../../utils/constructionAlgorithms';
+import {
+  billOfMaterialsFromBricks,
+  billOfMaterialsFromPaths,
+  downloadBillOfMaterials,
+  type BomBrick,
+  type BomOptions
+} from '../../utils/billOfMaterials';
+import { ClipboardList, FileJson, FileSpreadsheet } from 'lucide-react';
+
+interface BillOfMaterialsPanelProps {
+  paths?: ConstructionPath[]; // generated layout, preferred when present
+  brickType?: BrickTypeKey; // the brick type the paths are laid in
+  bricks?: BomBrick[]; // bricks placed in the scene otherwise
+  options?: Partial<BomOptions>;
+  projectName?: string;
+  isVisible?: boolean;
+  onClose?: () => void;
+}
+
+const panelConfig: PanelConfig = {
+  id: 'bill-of-materials',
+  title: 'Bill of Materials',
+  defaultWidth: 380,
+  defaultHeight: 420,
+  minWidth: 300,
+  resizable: true,
+  closable: true,
+  collapsible: true,
+  position: 'bottom'
+};
+
+export default function BillOfMaterialsPanel({
+  paths = [],
+  brickType,
+  bricks = [],
+  options,
+  projectName = 'project',
+  isVisible = true,
+  onClose
+}: BillOfMaterialsPanelProps) {
+
+  const bom = useMemo(() => {
+    if (paths.length > 0 && brickType) return billOfMaterialsFromPaths(paths, brickType, options);
+    if (bricks.length > 0) return billOfMaterialsFromBricks(bricks, options);
+    return null;
+  }, [paths, brickType, bricks, options]);
+
+  const money = (value: number) => `${value.toFixed(2)} ${bom?.currency ?? ''}`;
+  const filename = (extension: string) => `${projectName.replace(/[^\w-]+/g, '_')}_materials.${extension}`;
+
+  return (
+    <DockablePanel config={panelConfig} isVisible={isVisible} onClose={onClose}>
+      {!bom ? (
+        <div className="text-center text-gray-400 py-8">
+          <ClipboardList className="w-8 h-8 mx-auto mb-3 opacity-50" />
+          <p className="text-sm">Nothing to count yet</p>
+          <p className="text-xs mt-1">Generate or place bricks to see quantities</p>
+        </div>
+      ) : (
+        <div className="space-y-3 text-xs">
+          <div className="panel-section">
+            <table className="w-full text-left">
+              <thead className="text-gray-400">
+                <tr>
+                  <th className="py-1 font-normal">Unit</th>
+                  <th className="py-1 font-normal text-right">Placed</th>
+                  <th className="py-1 font-normal text-right">Cut</th>
+                  <th className="py-1 font-normal text-right">Order</th>
+                  <th className="py-1 font-normal text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody className="text-white">
+                {bom.lines.map(line => (
+                  <tr key={line.brickType} className="border-t border-gray-700">
+                    <td className="py-1">
+                      {line.name}
+                      <span className="text-gray-400"> ({line.costTier})</span>
+                    </td>
+                    <td className="py-1 text-right">{line.placed}</td>
+                    <td className="py-1 text-right">{line.cut}</td>
+                    <td className="py-1 text-right">{line.orderQuantity}</td>
+                    <td className="py-1 text-right">{money(line.cost)}</td>
+                  </tr>
+                ))}
+                <tr className="border-t border-gray-700">
+                  <td className="py-1">Mortar</td>
+                  <td className="py-1 text-right" colSpan={3}>{bom.mortar.orderVolume.toFixed(3)} m³</td>
+                  <td className="py-1 text-right">{money(bom.mortar.cost)}</td>
+                </tr>
+                {bom.lintels.map(lintel => (
+                  <tr key={lintel.type} className="border-t border-gray-700">
+                    <td className="py-1 capitalize">{lintel.type} lintels</td>
+                    <td className="py-1 text-right" colSpan={3}>{lintel.count} ({lintel.totalLength.toFixed(2)} m)</td>
+                    <td className="py-1 text-right text-gray-400">not priced</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="panel-section border-t border-gray-600 pt-3 text-gray-400 space-y-1">
+            <div className="flex justify-between">
+              <span>Units to order:</span>
+              <span className="text-white">{bom.totalUnits}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Total mass:</span>
+              <span className="text-white">{(bom.totalMass / 1000).toFixed(2)} t</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Estimated cost:</span>
+              <span className="text-white">{money(bom.totalCost)}</span>
+            </div>
+            {bom.warnings.map(warning => (
+              <p key={warning} className="text-yellow-400">{warning}</p>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              className="flex-1 flex items-center justify-center gap-2 p-2 bg-blue-600 hover:bg-blue-700 rounded-md text-white transition-colors"
+              onClick={() => downloadBillOfMaterials(bom, 'csv', filename('csv'))}
+            >
+              <FileSpreadsheet className="w-3 h-3" />
+              Export CSV
+            </button>
+            <button
+              className="flex-1 flex items-center justify-center gap-2 p-2 bg-gray-700 hover:bg-gray-600 rounded-md text-white transition-colors"
+              onClick={() => downloadBillOfMaterials(bom, 'json', filename('json'))}
+            >
+              <FileJson className="w-3 h-3" />
+              Export JSON
+            </button>
+          </div>
+        </div>
+      )}
+    </DockablePanel>
+  );
+}
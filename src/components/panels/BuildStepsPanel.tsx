@@ -0,0 +1,106 @@
+import { useEffect, useRef } from 'react';
+import DockablePanel from './DockablePanel';
+import type { PanelConfig } from './DockablePanel';
+import type { BuildPlan } from '../../utils/buildOrder';
+import { ListOrdered, Play, Square } from 'lucide-react';
+
+interface BuildStepsPanelProps {
+  plan: BuildPlan | null;
+  error?: string | null; // why the last plan could not be made
+  currentStep: number | null; // number of the step being replayed
+  isBuilding: boolean;
+  canBuild: boolean;
+  onBuild: () => void;
+  onStop: () => void;
+  isVisible?: boolean;
+  onClose?: () => void;
+}
+
+const panelConfig: PanelConfig = {
+  id: 'build-steps',
+  title: 'Build Order',
+  defaultWidth: 360,
+  defaultHeight: 420,
+  minWidth: 280,
+  resizable: true,
+  closable: true,
+  collapsible: true,
+  position: 'bottom'
+};
+
+export default function BuildStepsPanel({
+  plan,
+  error = null,
+  currentStep,
+  isBuilding,
+  canBuild,
+  onBuild,
+  onStop,
+  isVisible = true,
+  onClose
+}: BuildStepsPanelProps) {
+  const currentRef = useRef<HTMLLIElement>(null);
+
+  // Keep the step being laid in view as the replay runs
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [currentStep]);
+
+  return (
+    <DockablePanel config={panelConfig} isVisible={isVisible} onClose={onClose}>
+      <div className="space-y-3 text-xs">
+        <button
+          className="w-full flex items-center justify-center gap-2 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 rounded-md text-white transition-colors"
+          disabled={!isBuilding && !canBuild}
+          onClick={isBuilding ? onStop : onBuild}
+        >
+          {isBuilding ? <Square className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+          {isBuilding ? 'Stop replay' : 'Plan and replay build'}
+        </button>
+
+        {!plan ? (
+          <div className="text-center text-gray-400 py-8">
+            <ListOrdered className="w-8 h-8 mx-auto mb-3 opacity-50" />
+            <p className="text-sm">No build order yet</p>
+            {error ? (
+              <p className="text-xs mt-1 text-red-400">Planning failed: {error}</p>
+            ) : (
+              <p className="text-xs mt-1">
+                {canBuild ? 'Plan the build to get numbered steps for the crew' : 'Place at least two wall anchors first'}
+              </p>
+            )}
+          </div>
+        ) : (
+          <>
+            <div className="panel-section flex justify-between text-gray-400">
+              <span>{plan.totalBricks} bricks in {plan.lifts} lifts</span>
+              <span className="text-white">{plan.duration.toFixed(0)} h</span>
+            </div>
+            {plan.warnings.map(warning => (
+              <p key={warning} className="text-yellow-400">{warning}</p>
+            ))}
+            <ol className="panel-section border-t border-gray-600 pt-3 space-y-1">
+              {plan.steps.map(step => {
+                const isCurrent = step.number === currentStep;
+                const isDone = currentStep !== null && step.number < currentStep;
+                return (
+                  <li
+                    key={step.number}
+                    ref={isCurrent ? currentRef : undefined}
+                    className={`flex gap-2 ${isCurrent ? 'text-white bg-blue-600/40 rounded px-1' : isDone ? 'text-gray-500' : 'text-gray-300'}`}
+                  >
+                    <span className="w-10 text-right text-gray-400">{step.number}.</span>
+                    <span className="flex-1">
+                      {step.description}
+                      {step.temporarySupport && <span className="text-yellow-400"> (on temporary support)</span>}
+                    </span>
+                  </li>
+                );
+              })}
+            </ol>
+          </>
+        )}
+      </div>
+    </DockablePanel>
+  );
+}
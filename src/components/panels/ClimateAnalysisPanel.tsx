@@ -0,0 +1,150 @@
+import DockablePanel from './DockablePanel';
+import type { PanelConfig } from './DockablePanel';
+import type { ClimateAnalysis } from '../../utils/constructionAlgorithms';
+import { Thermometer } from 'lucide-react';
+
+interface ClimateAnalysisPanelProps {
+  analysis: ClimateAnalysis | null;
+  error?: string | null; // why the last analysis could not be made
+  isVisible?: boolean;
+  onClose?: () => void;
+}
+
+const panelConfig: PanelConfig = {
+  id: 'climate-analysis',
+  title: 'Climate Analysis',
+  defaultWidth: 380,
+  defaultHeight: 480,
+  minWidth: 300,
+  resizable: true,
+  closable: true,
+  collapsible: true,
+  position: 'bottom'
+};
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 120;
+
+// Outdoor and indoor temperature over the design day, on a shared scale
+function TemperatureChart({ outdoor, indoor }: { outdoor: number[]; indoor: number[] }) {
+  const all = [...outdoor, ...indoor];
+  const low = Math.floor(Math.min(...all));
+  const high = Math.ceil(Math.max(...all));
+  const x = (hour: number) => (hour / 23) * CHART_WIDTH;
+  const y = (value: number) => CHART_HEIGHT - ((value - low) / Math.max(1, high - low)) * CHART_HEIGHT;
+  const line = (values: number[]) => values.map((value, hour) => `${x(hour).toFixed(1)},${y(value).toFixed(1)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 -8 ${CHART_WIDTH} ${CHART_HEIGHT + 24}`} className="w-full">
+      <line x1={0} y1={CHART_HEIGHT} x2={CHART_WIDTH} y2={CHART_HEIGHT} stroke="#4b5563" />
+      <polyline points={line(outdoor)} fill="none" stroke="#f97316" strokeWidth={2} />
+      <polyline points={line(indoor)} fill="none" stroke="#60a5fa" strokeWidth={2} />
+      <text x={2} y={0} fill="#9ca3af" fontSize={10}>{high} °C</text>
+      <text x={2} y={CHART_HEIGHT - 4} fill="#9ca3af" fontSize={10}>{low} °C</text>
+      {[0, 6, 12, 18].map(hour => (
+        <text key={hour} x={x(hour)} y={CHART_HEIGHT + 14} fill="#9ca3af" fontSize={10}>{hour}:00</text>
+      ))}
+    </svg>
+  );
+}
+
+export default function ClimateAnalysisPanel({ analysis, error = null, isVisible = true, onClose }: ClimateAnalysisPanelProps) {
+  const scores = analysis ? [
+    ['Thermal mass', analysis.thermalMass],
+    ['Wind resistance', analysis.windResistance],
+    ['Moisture resistance', analysis.moistureResistance],
+    ['Sustainability', analysis.sustainabilityScore]
+  ] as const : [];
+
+  return (
+    <DockablePanel config={panelConfig} isVisible={isVisible} onClose={onClose}>
+      {!analysis ? (
+        <div className="text-center text-gray-400 py-8">
+          <Thermometer className="w-8 h-8 mx-auto mb-3 opacity-50" />
+          <p className="text-sm">No analysis yet</p>
+          {error ? (
+            <p className="text-xs mt-1 text-red-400">Planning failed: {error}</p>
+          ) : (
+            <p className="text-xs mt-1">Generate a construction to see how it performs</p>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-3 text-xs">
+          <div className="panel-section space-y-1">
+            {scores.map(([label, score]) => (
+              <div key={label} className="flex justify-between text-gray-400">
+                <span>{label}:</span>
+                <span className="text-white">{score}/100</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="panel-section border-t border-gray-600 pt-3">
+            <div className="flex justify-between text-gray-400 mb-1">
+              <span>
+                <span className="text-orange-400">Outdoor</span> / <span className="text-blue-400">indoor</span>
+              </span>
+              <span>
+                swing {analysis.thermal.outdoorSwing.toFixed(1)} → {analysis.thermal.indoorSwing.toFixed(1)} °C
+              </span>
+            </div>
+            <TemperatureChart outdoor={analysis.thermal.outdoor} indoor={analysis.thermal.indoor} />
+          </div>
+
+          {analysis.thermal.walls.length > 0 && (
+            <div className="panel-section border-t border-gray-600 pt-3">
+              <table className="w-full text-left">
+                <thead className="text-gray-400">
+                  <tr>
+                    <th className="py-1 font-normal">Wall</th>
+                    <th className="py-1 font-normal text-right">U (W/m²K)</th>
+                    <th className="py-1 font-normal text-right">Decrement</th>
+                    <th className="py-1 font-normal text-right">Lag (h)</th>
+                  </tr>
+                </thead>
+                <tbody className="text-white">
+                  {analysis.thermal.walls.map(wall => (
+                    <tr key={wall.index} className="border-t border-gray-700">
+                      <td className="py-1">{wall.index + 1} ({(wall.thickness * 1000).toFixed(0)} mm)</td>
+                      <td className="py-1 text-right">{wall.uValue.toFixed(2)}</td>
+                      <td className="py-1 text-right">{wall.decrementFactor.toFixed(2)}</td>
+                      <td className="py-1 text-right">{wall.timeLag.toFixed(1)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="panel-section border-t border-gray-600 pt-3 text-gray-400 space-y-1">
+            <div className="flex justify-between">
+              <span>Wet line:</span>
+              <span className="text-white">{analysis.flood.wetLine.toFixed(2)} m ({analysis.flood.wetting})</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Bricks below it:</span>
+              <span className="text-white">{analysis.flood.bricksBelowWetLine} of {analysis.flood.totalBricks}</span>
+            </div>
+            {analysis.flood.foundations.map(foundation => (
+              <div key={foundation.name} className="flex justify-between">
+                <span>{foundation.name}:</span>
+                <span className="text-white">
+                  {foundation.plinthHeight > 0 ? `plinth ${foundation.plinthHeight.toFixed(2)} m, ` : ''}
+                  DPC at {foundation.dampProofCourse.toFixed(2)} m
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {analysis.recommendations.length > 0 && (
+            <div className="panel-section border-t border-gray-600 pt-3 space-y-1">
+              {analysis.recommendations.map(recommendation => (
+                <p key={recommendation} className="text-gray-300">{recommendation}</p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </DockablePanel>
+  );
+}
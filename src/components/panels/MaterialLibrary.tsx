@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import DockablePanel from './DockablePanel';
 import type { PanelConfig } from './DockablePanel';
+import { libraryMaterials, type Material } from '../../utils/materialLibrary';
 import { 
   Search,
   Grid3X3,
@@ -13,28 +14,6 @@ import {
   Thermometer
 } from 'lucide-react';
 
-interface Material {
-  id: string;
-  name: string;
-  category: 'sustainable' | 'recycled' | 'bio-based' | 'traditional';
-  description: string;
-  sustainability: number; // 1-5 rating
-  thermalRating: number; // 1-5 rating
-  waterResistance: number; // 1-5 rating
-  durability: number; // 1-5 rating
-  cost: 'low' | 'medium' | 'high';
-  thumbnailUrl?: string;
-  properties: {
-    density?: string;
-    compressiveStrength?: string;
-    thermalConductivity?: string;
-    carbonFootprint?: string;
-  };
-  tags: string[];
-  isDownloaded?: boolean;
-  isFavorite?: boolean;
-}
-
 interface MaterialLibraryProps {
   materials?: Material[];
   selectedMaterial?: string;
@@ -58,89 +37,8 @@ const panelConfig: PanelConfig = {
   position: 'right'
 };
 
-// Sample sustainable materials
-const defaultMaterials: Material[] = [
-  {
-    id: 'clay-sustainable',
-    name: 'Sustainable Clay Brick',
-    category: 'sustainable',
-    description: 'High-performance clay brick made from locally sourced materials with minimal processing.',
-    sustainability: 5,
-    thermalRating: 4,
-    waterResistance: 4,
-    durability: 5,
-    cost: 'medium',
-    properties: {
-      density: '1.8 g/cm³',
-      compressiveStrength: '25-35 MPa',
-      thermalConductivity: '0.6-0.8 W/mK',
-      carbonFootprint: '0.15 kg CO₂/kg'
-    },
-    tags: ['local', 'traditional', 'thermal-mass'],
-    isDownloaded: true,
-    isFavorite: true
-  },
-  {
-    id: 'hemp-crete',
-    name: 'Hemp-Crete Blocks',
-    category: 'bio-based',
-    description: 'Lightweight bio-composite made from hemp hurds and lime binder.',
-    sustainability: 5,
-    thermalRating: 5,
-    waterResistance: 3,
-    durability: 4,
-    cost: 'medium',
-    properties: {
-      density: '0.4-0.6 g/cm³',
-      compressiveStrength: '0.4-1.0 MPa',
-      thermalConductivity: '0.06-0.12 W/mK',
-      carbonFootprint: '-0.1 kg CO₂/kg (carbon negative)'
-    },
-    tags: ['insulation', 'renewable', 'breathable'],
-    isDownloaded: true
-  },
-  {
-    id: 'recycled-plastic',
-    name: 'Recycled Plastic Brick',
-    category: 'recycled',
-    description: 'Durable bricks made from 100% recycled plastic waste.',
-    sustainability: 4,
-    thermalRating: 2,
-    waterResistance: 5,
-    durability: 4,
-    cost: 'low',
-    properties: {
-      density: '1.2-1.4 g/cm³',
-      compressiveStrength: '15-20 MPa',
-      thermalConductivity: '0.2-0.3 W/mK',
-      carbonFootprint: '0.8 kg CO₂/kg'
-    },
-    tags: ['recycled', 'lightweight', 'moisture-resistant'],
-    isDownloaded: false
-  },
-  {
-    id: 'bamboo-fiber',
-    name: 'Bamboo Fiber Composite',
-    category: 'bio-based',
-    description: 'Strong and flexible composite made from bamboo fibers and bio-resin.',
-    sustainability: 5,
-    thermalRating: 3,
-    waterResistance: 4,
-    durability: 4,
-    cost: 'high',
-    properties: {
-      density: '0.8-1.0 g/cm³',
-      compressiveStrength: '40-60 MPa',
-      thermalConductivity: '0.15-0.25 W/mK',
-      carbonFootprint: '0.05 kg CO₂/kg'
-    },
-    tags: ['fast-growing', 'flexible', 'strong'],
-    isDownloaded: false
-  }
-];
-
 export default function MaterialLibrary({
-  materials = defaultMaterials,
+  materials = libraryMaterials,
   selectedMaterial,
   isVisible = true,
   onMaterialSelect,
@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import DockablePanel from './DockablePanel';
+import type { PanelConfig } from './DockablePanel';
+import { createOpening, OPENING_DEFAULTS, type OpeningKind, type WallOpening } from '../../utils/wallGenerator';
+import { DoorOpen, Plus, X } from 'lucide-react';
+
+export interface OpeningsPanelWall {
+  key: string; // "<start anchor name>-<end anchor name>", as LayoutOptions.openings is keyed
+  length: number;
+  warnings: string[];
+}
+
+interface OpeningsPanelProps {
+  walls: OpeningsPanelWall[];
+  openings: Record<string, WallOpening[]>;
+  onChange: (openings: Record<string, WallOpening[]>) => void;
+  wallHeight: number; // metres, for every wall
+  onWallHeightChange: (height: number) => void;
+  isVisible?: boolean;
+  onClose?: () => void;
+}
+
+const panelConfig: PanelConfig = {
+  id: 'wall-openings',
+  title: 'Openings',
+  defaultWidth: 340,
+  defaultHeight: 420,
+  minWidth: 280,
+  resizable: true,
+  closable: true,
+  collapsible: true,
+  position: 'bottom'
+};
+
+const OPENING_KINDS = Object.keys(OPENING_DEFAULTS) as OpeningKind[];
+
+export default function OpeningsPanel({
+  walls,
+  openings,
+  onChange,
+  wallHeight,
+  onWallHeightChange,
+  isVisible = true,
+  onClose
+}: OpeningsPanelProps) {
+  const [wallKey, setWallKey] = useState('');
+  const [kind, setKind] = useState<OpeningKind>('door');
+  const [offset, setOffset] = useState(0.5);
+
+  const wall = walls.find(candidate => candidate.key === wallKey) ?? walls[0];
+
+  const addOpening = () => {
+    if (!wall) return;
+    onChange({ ...openings, [wall.key]: [...(openings[wall.key] ?? []), createOpening(kind, offset)] });
+  };
+
+  const removeOpening = (key: string, index: number) => {
+    const remaining = (openings[key] ?? []).filter((_, i) => i !== index);
+    const others = Object.fromEntries(Object.entries(openings).filter(([other]) => other !== key));
+    onChange(remaining.length > 0 ? { ...others, [key]: remaining } : others);
+  };
+
+  return (
+    <DockablePanel config={panelConfig} isVisible={isVisible} onClose={onClose}>
+      {walls.length === 0 ? (
+        <div className="text-center text-gray-400 py-8">
+          <DoorOpen className="w-8 h-8 mx-auto mb-3 opacity-50" />
+          <p className="text-sm">No walls yet</p>
+          <p className="text-xs mt-1">Place at least two wall anchors to add doors and windows</p>
+        </div>
+      ) : (
+        <div className="space-y-3 text-xs">
+          <label className="panel-section flex justify-between items-center text-gray-400">
+            Wall height (m)
+            <input
+              type="number"
+              step="0.1"
+              min={0.1}
+              className="w-20 bg-gray-700 border border-gray-600 rounded-md p-1 text-white"
+              value={wallHeight}
+              onChange={(e) => onWallHeightChange(Math.max(0.1, parseFloat(e.target.value) || 0))}
+            />
+          </label>
+          <div className="panel-section space-y-2">
+            <select
+              className="w-full bg-gray-700 border border-gray-600 rounded-md p-1 text-white"
+              value={wall?.key}
+              onChange={(e) => setWallKey(e.target.value)}
+            >
+              {walls.map(candidate => (
+                <option key={candidate.key} value={candidate.key}>
+                  {candidate.key} ({candidate.length.toFixed(2)} m)
+                </option>
+              ))}
+            </select>
+            <div className="flex gap-2">
+              <select
+                className="flex-1 bg-gray-700 border border-gray-600 rounded-md p-1 text-white capitalize"
+                value={kind}
+                onChange={(e) => setKind(e.target.value as OpeningKind)}
+              >
+                {OPENING_KINDS.map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                step="0.05"
+                min={0}
+                className="w-20 bg-gray-700 border border-gray-600 rounded-md p-1 text-white"
+                title="Distance from the start of the wall (m)"
+                value={offset}
+                onChange={(e) => setOffset(parseFloat(e.target.value) || 0)}
+              />
+              <button
+                className="flex items-center gap-1 px-2 bg-blue-600 hover:bg-blue-700 rounded-md text-white transition-colors"
+                onClick={addOpening}
+              >
+                <Plus className="w-3 h-3" />
+                Add
+              </button>
+            </div>
+          </div>
+
+          {walls.filter(candidate => openings[candidate.key]?.length || candidate.warnings.length > 0).map(candidate => (
+            <div key={candidate.key} className="panel-section border-t border-gray-600 pt-3 space-y-1">
+              <div className="text-gray-400">{candidate.key}</div>
+              {(openings[candidate.key] ?? []).map((opening, i) => (
+                <div key={i} className="flex justify-between items-center text-white">
+                  <span className="capitalize">
+                    {i + 1}. {opening.kind} at {opening.offset.toFixed(2)} m,{' '}
+                    {(opening.width * 1000).toFixed(0)} × {(opening.height * 1000).toFixed(0)} mm
+                  </span>
+                  <button
+                    className="p-1 text-gray-400 hover:text-white"
+                    title="Remove opening"
+                    onClick={() => removeOpening(candidate.key, i)}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              {candidate.warnings.map(warning => (
+                <p key={warning} className="text-yellow-400">{warning}</p>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </DockablePanel>
+  );
+}
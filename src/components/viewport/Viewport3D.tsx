@@ -1,7 +1,8 @@
-import React, { useRef, useEffect, useState, useMemo, Suspense, useCallback } from 'react';
+import React, { useRef, useEffect, useLayoutEffect, useState, useMemo, Suspense, useCallback } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
 import { OrbitControls, TransformControls, Grid, useGLTF, Stats, GizmoHelper, GizmoViewport } from '@react-three/drei';
 import * as THREE from 'three';
+import type { OpeningKind, WallPath } from '../../utils/wallGenerator';
 
 // Preload the GLTF file for better performance
 useGLTF.preload('/Octa2.glb');
@@ -32,6 +33,84 @@ interface Viewport3DProps {
   selectedObjects?: string[];
   transformMode?: 'translate' | 'rotate' | 'scale';
   onSave?: (sceneObjects: SceneObject[]) => void;
+  wallPaths?: WallPath[];
+}
+
+const OPENING_COLORS: Record<OpeningKind, string> = {
+  door: '#00ff88',
+  window: '#0099ff',
+  vent: '#ffaa00'
+};
+
+const LINTEL_COLORS = {
+  timber: '#8b5a2b',
+  concrete: '#9e9e9e'
+};
+
+// Generated wall: bricks as one instanced mesh, openings as translucent volumes, lintels as solid blocks
+function WallPathMeshes({ path }: { path: WallPath }) {
+  const bricksRef = useRef<THREE.InstancedMesh>(null);
+
+  useLayoutEffect(() => {
+    const mesh = bricksRef.current;
+    if (!mesh) return;
+    const matrix = new THREE.Matrix4();
+    const quaternion = new THREE.Quaternion();
+    path.bricks.forEach((brick, i) => {
+      quaternion.setFromEuler(new THREE.Euler(brick.rotation.x, brick.rotation.y, brick.rotation.z));
+      matrix.compose(
+        new THREE.Vector3(brick.position.x, brick.position.y, brick.position.z),
+        quaternion,
+        new THREE.Vector3(brick.size.width, brick.size.height, brick.size.depth)
+      );
+      mesh.setMatrixAt(i, matrix);
+    });
+    mesh.instanceMatrix.needsUpdate = true;
+  }, [path]);
+
+  const dx = path.end.x - path.start.x;
+  const dz = path.end.z - path.start.z;
+  const wallAngle = Math.atan2(-dz, dx);
+  const baseY = Math.min(path.start.y, path.end.y);
+
+  return (
+    <group>
+      <instancedMesh ref={bricksRef} args={[undefined, undefined, path.bricks.length]} castShadow receiveShadow>
+        <boxGeometry args={[1, 1, 1]} />
+        <meshStandardMaterial color="#b5651d" roughness={0.8} />
+      </instancedMesh>
+
+      {path.openings.map(opening => {
+        const distance = (opening.offset + opening.width / 2) / path.length;
+        return (
+          <mesh
+            key={`opening-${opening.index}`}
+            position={[
+              path.start.x + dx * distance,
+              baseY + opening.sillHeight + opening.height / 2,
+              path.start.z + dz * distance
+            ]}
+            rotation={[0, wallAngle, 0]}
+          >
+            <boxGeometry args={[opening.width, opening.height, path.thickness]} />
+            <meshStandardMaterial color={OPENING_COLORS[opening.kind]} transparent opacity={0.25} depthWrite={false} />
+          </mesh>
+        );
+      })}
+
+      {path.lintels.map(lintel => (
+        <mesh
+          key={`lintel-${lintel.openingIndex}`}
+          position={[lintel.position.x, lintel.position.y, lintel.position.z]}
+          rotation={[lintel.rotation.x, lintel.rotation.y, lintel.rotation.z]}
+          castShadow
+        >
+          <boxGeometry args={[lintel.size.width, lintel.size.height, lintel.size.depth]} />
+          <meshStandardMaterial color={LINTEL_COLORS[lintel.type]} />
+        </mesh>
+      ))}
+    </group>
+  );
 }
 
 // Safe Octa2 Brick Component with full transform support
@@ -489,7 +568,8 @@ function SceneContent({
   directionalIntensity = 0.8,
   pointIntensity = 0.3,
   shadowsEnabled = true,
-  onSave
+  onSave,
+  wallPaths = []
 }: {
   onSelectionChange?: (selectedObjects: string[]) => void;
   onObjectTransform?: (objectId: string, transforms: { 
@@ -511,6 +591,7 @@ function SceneContent({
   pointIntensity?: number;
   shadowsEnabled?: boolean;
   onSave?: (sceneObjects: SceneObject[]) => void;
+  wallPaths?: WallPath[];
 }) {
   // Handle brick selection
   const handleBrickClick = (objectId: string) => {
@@ -541,7 +622,7 @@ function SceneContent({
   }, [sceneObjects, onSave])
 
   // If we have scene objects, render them dynamically
-  if (sceneObjects.length > 0) {
+  if (sceneObjects.length > 0 || wallPaths.length > 0) {
     return (
       <SceneErrorBoundary>
         {/* Professional Lighting Setup */}
@@ -602,6 +683,11 @@ function SceneContent({
           }
           return null;
         })}
+
+        {/* Generated Walls */}
+        {wallPaths.map((path, i) => (
+          <WallPathMeshes key={`wall-${i}`} path={path} />
+        ))}
       </SceneErrorBoundary>
     );
   }
@@ -681,7 +767,8 @@ export default function Viewport3D({
   sceneObjects = [],
   selectedObjects = [],
   transformMode: externalTransformMode,
-  onSave
+  onSave,
+  wallPaths = []
 }: Viewport3DProps) {
   const mountRef = useRef<HTMLDivElement>(null);
   const cameraRef = useRef<THREE.PerspectiveCamera>(null);
@@ -891,6 +978,7 @@ export default function Viewport3D({
           pointIntensity={viewportSettings.lighting.pointIntensity}
           shadowsEnabled={viewportSettings.lighting.shadowsEnabled}
           onSave={onSave}
+          wallPaths={wallPaths}
         />
 
         {/* Enhanced Controls */}
@@ -1313,7 +1401,8 @@ export default function Viewport3D({
           <div style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
             <div>FPS: {viewportSettings.performance.showStats ? 'Live' : '60'}</div>
             <div>Objects: {sceneObjects.length}</div>
-            <div>Bricks: {sceneObjects.filter(obj => obj.type === 'brick').length}</div>
+            <div>Bricks: {sceneObjects.filter(obj => obj.type === 'brick').length + wallPaths.reduce((sum, path) => sum + path.totalBricks, 0)}</div>
+            <div>Openings: {wallPaths.reduce((sum, path) => sum + path.openings.length, 0)}</div>
             <div>Memory: Optimized</div>
           </div>
 
@@ -1322,7 +1411,7 @@ export default function Viewport3D({
           </div>
           <div style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
             <div>Material: Sustainable Octa-Brick</div>
-            <div>Progress: {sceneObjects.length > 0 ? 'Live Scene' : 'Demo Mode'}</div>
+            <div>Progress: {sceneObjects.length > 0 || wallPaths.length > 0 ? 'Live Scene' : 'Demo Mode'}</div>
             <div>Efficiency: 98% • Sustainable: ✓</div>
           </div>
         </div>
@@ -1,24 +1,40 @@
 import { useState, useCallback, useRef } from 'react';
-import type { AnchorQRData } from '../types';
+import type { AnchorQRData, SignatureStatus } from '../types';
 import { 
   generateQRCode, 
   generateBatchQRCodes, 
   downloadQRCode, 
+  importSigningKey,
   QRScanner,
-  validateQRData 
+  validateQRData,
+  verifyAnchorPayloadSignature
 } from '../utils/qrUtils';
+import { useDatabaseStore } from '../stores/database';
 
 // Hook for QR Code Generation
 export function useQRCodeGenerator() {
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const signingKeysRef = useRef<Map<string, CryptoKey>>(new Map());
 
-  const generateSingleQR = useCallback(async (data: AnchorQRData, size = 200) => {
+  // Fetch, or create on first use, and cache each project's private signing key
+  const resolveSigningKey = useCallback(async (projectId: string) => {
+    const cached = signingKeysRef.current.get(projectId);
+    if (cached) return cached;
+
+    const keyPair = await useDatabaseStore.getState().ensureProjectSigningKeys(projectId);
+    if (!keyPair) return null;
+    const signingKey = await importSigningKey(keyPair.privateKey, 'sign');
+    signingKeysRef.current.set(projectId, signingKey);
+    return signingKey;
+  }, []);
+
+  const generateSingleQR = useCallback(async (data: AnchorQRData, size = 200, signingKey?: CryptoKey) => {
     setIsGenerating(true);
     setError(null);
     
     try {
-      const qrCodeURL = await generateQRCode(data, size);
+      const qrCodeURL = await generateQRCode(data, size, signingKey);
       return qrCodeURL;
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : 'Failed to generate QR code';
@@ -29,12 +45,12 @@ export function useQRCodeGenerator() {
     }
   }, []);
 
-  const generateBatchQR = useCallback(async (anchorsData: AnchorQRData[], size = 200) => {
+  const generateBatchQR = useCallback(async (anchorsData: AnchorQRData[], size = 200, signingKey?: CryptoKey) => {
     setIsGenerating(true);
     setError(null);
     
     try {
-      const results = await generateBatchQRCodes(anchorsData, size);
+      const results = await generateBatchQRCodes(anchorsData, size, signingKey);
       return results;
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : 'Failed to generate batch QR codes';
@@ -57,6 +73,7 @@ export function useQRCodeGenerator() {
   return {
     generateSingleQR,
     generateBatchQR,
+    resolveSigningKey,
     downloadQR,
     isGenerating,
     error,
@@ -70,10 +87,23 @@ export function useQRScanner() {
   const [isCameraActive, setIsCameraActive] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [scannedData, setScannedData] = useState<AnchorQRData | null>(null);
+  const [signatureStatus, setSignatureStatus] = useState<SignatureStatus | null>(null);
   
   const scannerRef = useRef<QRScanner | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const publicKeysRef = useRef<Map<string, Promise<CryptoKey | null>>>(new Map());
+
+  // Fetch and cache each project's public key for signature verification
+  const resolvePublicKey = useCallback((projectId: string) => {
+    let publicKey = publicKeysRef.current.get(projectId);
+    if (!publicKey) {
+      publicKey = useDatabaseStore.getState().getProjectPublicKey(projectId)
+        .then(serialized => (serialized ? importSigningKey(serialized, 'verify') : null));
+      publicKeysRef.current.set(projectId, publicKey);
+    }
+    return publicKey;
+  }, []);
 
   const initializeScanner = useCallback(() => {
     if (!videoRef.current || !canvasRef.current) {
@@ -83,13 +113,14 @@ export function useQRScanner() {
 
     try {
       scannerRef.current = new QRScanner(videoRef.current, canvasRef.current);
+      scannerRef.current.setPublicKeyResolver(resolvePublicKey);
       return true;
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : 'Failed to initialize scanner';
       setError(errorMsg);
       return false;
     }
-  }, []);
+  }, [resolvePublicKey]);
 
   const startCamera = useCallback(async () => {
     if (!scannerRef.current && !initializeScanner()) {
@@ -125,8 +156,9 @@ export function useQRScanner() {
     setError(null);
     
     scannerRef.current.startScanning(
-      (data: AnchorQRData) => {
+      (data: AnchorQRData, status: SignatureStatus) => {
         setScannedData(data);
+        setSignatureStatus(status);
         setIsScanning(false);
       },
       (errorMsg: string) => {
@@ -144,6 +176,7 @@ export function useQRScanner() {
 
   const clearScannedData = useCallback(() => {
     setScannedData(null);
+    setSignatureStatus(null);
   }, []);
 
   const validateManualQR = useCallback((qrString: string) => {
@@ -152,12 +185,17 @@ export function useQRScanner() {
     
     if (validation.isValid && validation.data) {
       setScannedData(validation.data);
+      setSignatureStatus(null);
+      resolvePublicKey(validation.data.projectId)
+        .catch(() => null)
+        .then(publicKey => verifyAnchorPayloadSignature(qrString, publicKey))
+        .then(setSignatureStatus);
       return true;
     } else {
       setError(validation.error || 'Invalid QR code');
       return false;
     }
-  }, []);
+  }, [resolvePublicKey]);
 
   return {
     // State
@@ -165,6 +203,7 @@ export function useQRScanner() {
     isCameraActive,
     error,
     scannedData,
+    signatureStatus,
     
     // Actions
     startCamera,
@@ -1,17 +1,28 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import * as THREE from 'three';
-import type { WebXRState, Position3D, Rotation3D, BrickTypeKey, Anchor } from '../types';
+import type { WebXRState, Position3D, Rotation3D, BrickTypeKey, BrickSize, Anchor, ARPose, DetectedAnchor } from '../types';
 import { brickTypes } from '../utils/brickTypes';
 import { 
   calculateLinearPath, 
+  buildStructuralGraph,
   createStructuralNetwork, 
-  generateConstructionSequence,
-  simulateBrickPhysics,
+  generateConstructionPlan,
   analyzeClimateResilience,
   type ConstructionPath,
   type StructuralNode,
-  type ClimateAnalysis
+  type StructuralGraph,
+  type ClimateAnalysis,
+  type LayoutOptions
 } from '../utils/constructionAlgorithms';
+import { planBuildOrder, type BuildOrderOptions, type BuildPlan } from '../utils/buildOrder';
+import type { JunctionReport } from '../utils/junctionBonding';
+import type { FloodHazardOptions } from '../utils/floodExposure';
+import type { LateralLoadOptions } from '../utils/lateralLoad';
+import { analyzeLoadPath, type LoadPathReport } from '../utils/loadPath';
+import type { BodyUpdate, PhysicsRequest, PhysicsResponse } from '../utils/physicsWorker';
+import { createBrickBodies, type ToppleReport } from '../utils/rigidBodyPhysics';
+import { latestDetections, registerSite, type SiteRegistration } from '../utils/siteRegistration';
+import type { ThermalOptions } from '../utils/thermalModel';
 
 export interface WebXRSceneState {
   scene: THREE.Scene | null;
@@ -27,6 +38,7 @@ export interface ConstructedBrick {
   position: Position3D;
   rotation: Rotation3D;
   brickType: BrickTypeKey;
+  size?: BrickSize; // cut bricks; the catalogue size otherwise
   isStable: boolean;
   pathId?: string;
 }
@@ -41,6 +53,7 @@ export function useWebXR() {
 
   const [error, setError] = useState<string | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const viewerPoseRef = useRef<ARPose | null>(null);
 
   const checkWebXRSupport = useCallback(async () => {
     try {
@@ -107,6 +120,39 @@ export function useWebXR() {
     checkWebXRSupport();
   }, [checkWebXRSupport]);
 
+  // Track where the device is in the local reference space on every XR frame
+  useEffect(() => {
+    const { session, referenceSpace } = xrState;
+    if (!session || !referenceSpace) return;
+
+    let frameId = 0;
+    const onFrame = (time: number, frame: XRFrame) => {
+      const pose = frame.getViewerPose(referenceSpace);
+      if (pose) {
+        const { position, orientation } = pose.transform;
+        const euler = new THREE.Euler().setFromQuaternion(
+          new THREE.Quaternion(orientation.x, orientation.y, orientation.z, orientation.w),
+          'XYZ'
+        );
+        viewerPoseRef.current = {
+          position: { x: position.x, y: position.y, z: position.z },
+          rotation: { x: euler.x, y: euler.y, z: euler.z },
+          timestamp: time
+        };
+      }
+      frameId = session.requestAnimationFrame(onFrame);
+    };
+    frameId = session.requestAnimationFrame(onFrame);
+
+    return () => {
+      session.cancelAnimationFrame(frameId);
+      viewerPoseRef.current = null;
+    };
+  }, [xrState]);
+
+  // Latest tracked viewer pose, or null outside a session or before tracking starts
+  const getViewerPose = useCallback(() => viewerPoseRef.current, []);
+
   return {
     xrState,
     error,
@@ -114,10 +160,20 @@ export function useWebXR() {
     checkWebXRSupport,
     startXRSession,
     endXRSession,
+    getViewerPose,
     clearError: () => setError(null)
   };
 }
 
+// Bricks collide at their module size and rest on the ground plane under the lowest course
+function brickWorldOptions(bricks: ConstructedBrick[]): { jointThickness: number; groundY: number } {
+  const jointThickness = Math.min(...bricks.map(brick => brickTypes[brick.brickType].joint.jointThickness));
+  const groundY = Math.min(...bricks.map(brick =>
+    brick.position.y - (brick.size ?? brickTypes[brick.brickType].size).height / 2
+  )) - jointThickness / 2;
+  return { jointThickness, groundY };
+}
+
 export function useThreeScene() {
   const [sceneState, setSceneState] = useState<WebXRSceneState>({
     scene: null,
@@ -131,7 +187,13 @@ export function useThreeScene() {
   const [isAnimating, setIsAnimating] = useState(false);
   const [physicsEnabled, setPhysicsEnabled] = useState(false);
   const animationRef = useRef<number | null>(null);
-  const physicsRef = useRef<NodeJS.Timeout | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  // Bricks the worker's world holds, and the ground it was built on
+  const simulatedRef = useRef<{ ids: Set<string>; groundY: number } | null>(null);
+  const awaitingFrameRef = useRef(false);
+  const predictionsRef = useRef(new Map<number, (report: ToppleReport) => void>());
+  const nextPredictionRef = useRef(0);
+  const [toppledBricks, setToppledBricks] = useState<string[]>([]);
 
   const initializeScene = useCallback((container: HTMLElement) => {
     try {
@@ -204,14 +266,15 @@ export function useThreeScene() {
     }
   }, []);
 
-  const createBrickMesh = useCallback((brickType: BrickTypeKey, position: Position3D, rotation: Rotation3D = { x: 0, y: 0, z: 0 }) => {
+  const createBrickMesh = useCallback((brickType: BrickTypeKey, position: Position3D, rotation: Rotation3D = { x: 0, y: 0, z: 0 }, size?: BrickSize) => {
     const brick = brickTypes[brickType];
+    const dimensions = size ?? brick.size; // cut bricks are smaller than the catalogue size
     
     // Create geometry based on brick size
     const geometry = new THREE.BoxGeometry(
-      brick.size.width,
-      brick.size.height,
-      brick.size.depth
+      dimensions.width,
+      dimensions.height,
+      dimensions.depth
     );
 
     // Create material based on brick properties with enhanced visuals
@@ -225,9 +288,8 @@ export function useThreeScene() {
     const edgeMaterial = new THREE.LineBasicMaterial({ color: 0x000000, opacity: 0.3, transparent: true });
     const edgeLines = new THREE.LineSegments(edges, edgeMaterial);
 
+    // Placed through the group, so physics can move mesh and edges together
     const mesh = new THREE.Mesh(geometry, material);
-    mesh.position.set(position.x, position.y, position.z);
-    mesh.rotation.set(rotation.x, rotation.y, rotation.z);
     mesh.castShadow = true;
     mesh.receiveShadow = true;
 
@@ -241,10 +303,10 @@ export function useThreeScene() {
     return brickGroup;
   }, []);
 
-  const addBrick = useCallback((brickType: BrickTypeKey, position: Position3D, rotation: Rotation3D = { x: 0, y: 0, z: 0 }, pathId?: string) => {
+  const addBrick = useCallback((brickType: BrickTypeKey, position: Position3D, rotation: Rotation3D = { x: 0, y: 0, z: 0 }, pathId?: string, size?: BrickSize) => {
     if (!sceneState.group) return null;
 
-    const mesh = createBrickMesh(brickType, position, rotation);
+    const mesh = createBrickMesh(brickType, position, rotation, size);
     const brickId = `brick-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     
     sceneState.group.add(mesh);
@@ -255,6 +317,7 @@ export function useThreeScene() {
       position,
       rotation,
       brickType,
+      size,
       isStable: true,
       pathId
     };
@@ -282,40 +345,136 @@ export function useThreeScene() {
     setBricks([]);
   }, [sceneState.group, bricks]);
 
-  const updateBrickPhysics = useCallback(() => {
-    if (!physicsEnabled || bricks.length === 0) return;
+  // Follow the simulation and mark bricks still moving
+  const applyPhysicsFrame = useCallback((updates: BodyUpdate[]) => {
+    const byId = new Map(updates.map(update => [update.id, update]));
+    setBricks(prev => prev.map(brick => {
+      const update = byId.get(brick.id);
+      if (!update) return brick;
 
-    const brickData = bricks.map(brick => ({
-      id: brick.id,
-      position: brick.position,
-      brickType: brick.brickType
-    }));
+      const { position, rotation, asleep: isStable } = update;
+      brick.mesh.position.set(position.x, position.y, position.z);
+      brick.mesh.rotation.set(rotation.x, rotation.y, rotation.z);
 
-    const physics = simulateBrickPhysics(brickData);
+      const mesh = brick.mesh as THREE.Group;
+      const brickMesh = mesh.children[0] as THREE.Mesh;
+      const material = brickMesh.material as THREE.MeshLambertMaterial;
 
-    // Update brick stability visual indicators
-    setBricks(prev => prev.map(brick => {
-      const brickPhysics = physics[brick.id];
-      if (brickPhysics) {
-        // Update mesh color based on stability
-        const mesh = brick.mesh as THREE.Group;
-        const brickMesh = mesh.children[0] as THREE.Mesh;
-        const material = brickMesh.material as THREE.MeshLambertMaterial;
-        
-        if (brickPhysics.isStable) {
-          material.color.setHex(brickTypes[brick.brickType].color);
-        } else {
-          material.color.setHex(0xff4444); // Red for unstable
-        }
-
-        return {
-          ...brick,
-          isStable: brickPhysics.isStable
-        };
+      if (isStable) {
+        material.color.setHex(brickTypes[brick.brickType].color);
+      } else {
+        material.color.setHex(0xff4444); // Red while moving
       }
-      return brick;
+
+      return {
+        ...brick,
+        position,
+        rotation,
+        isStable
+      };
     }));
-  }, [physicsEnabled, bricks]);
+  }, []);
+
+  // The simulation runs in a worker, so stepping a large wall never holds up the render loop
+  const getPhysicsWorker = useCallback(() => {
+    if (workerRef.current) return workerRef.current;
+
+    const worker = new Worker(new URL('../utils/physicsWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<PhysicsResponse>) => {
+      const response = event.data;
+      if (response.type === 'prediction') {
+        predictionsRef.current.get(response.requestId)?.(response.report);
+        predictionsRef.current.delete(response.requestId);
+        return;
+      }
+      awaitingFrameRef.current = false;
+      if (response.toppled) setToppledBricks(response.toppled);
+      if (response.bodies.length > 0) applyPhysicsFrame(response.bodies);
+    };
+    workerRef.current = worker;
+    return worker;
+  }, [applyPhysicsFrame]);
+
+  const postPhysics = useCallback((request: PhysicsRequest) => {
+    getPhysicsWorker().postMessage(request);
+  }, [getPhysicsWorker]);
+
+  useEffect(() => () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  // Keep the worker's world in step with the scene. Laid bricks are added to it, so the settled
+  // ones stay asleep; it is only rebuilt when physics is switched on, the scene is cleared or a
+  // brick goes below its ground.
+  useEffect(() => {
+    if (!physicsEnabled) {
+      simulatedRef.current = null;
+      return;
+    }
+
+    const simulated = simulatedRef.current;
+    const added = simulated ? bricks.filter(brick => !simulated.ids.has(brick.id)) : bricks;
+    const ground = added.length > 0 ? brickWorldOptions(added).groundY : Infinity;
+    if (!simulated || bricks.length === 0 || ground < simulated.groundY - 1e-6) {
+      const options = bricks.length > 0 ? brickWorldOptions(bricks) : {};
+      postPhysics({ type: 'reset', bodies: createBrickBodies(bricks), options });
+      simulatedRef.current = { ids: new Set(bricks.map(brick => brick.id)), groundY: ground };
+      return;
+    }
+
+    const ids = new Set(bricks.map(brick => brick.id));
+    const removed = [...simulated.ids].filter(id => !ids.has(id));
+    if (removed.length > 0) postPhysics({ type: 'remove', ids: removed, trackTopple: false });
+    if (added.length > 0) postPhysics({ type: 'add', bodies: createBrickBodies(added) });
+    simulated.ids = ids;
+  }, [physicsEnabled, bricks, postPhysics]);
+
+  // Step the simulation while the scene is animating
+  useEffect(() => {
+    if (!isAnimating || !physicsEnabled) return;
+
+    let last = performance.now();
+    const timer = setInterval(() => {
+      // A slow step drops ticks rather than queueing them
+      if (awaitingFrameRef.current) return;
+      const now = performance.now();
+      awaitingFrameRef.current = true;
+      postPhysics({ type: 'advance', deltaTime: (now - last) / 1000 });
+      last = now;
+    }, 100); // 10 FPS for physics
+
+    return () => {
+      clearInterval(timer);
+      awaitingFrameRef.current = false;
+    };
+  }, [isAnimating, physicsEnabled, postPhysics]);
+
+  // Knock out a brick and let the simulation show what falls; the result lands in toppledBricks
+  const removeSupport = useCallback((brickId: string) => {
+    const simulated = simulatedRef.current;
+    if (physicsEnabled && simulated?.ids.has(brickId)) {
+      postPhysics({ type: 'remove', ids: [brickId], trackTopple: true });
+      simulated.ids.delete(brickId);
+    }
+    setToppledBricks([]);
+    removeBrick(brickId);
+  }, [physicsEnabled, postPhysics, removeBrick]);
+
+  // The same question answered headless in the worker, without touching the scene
+  const predictSupportRemoval = useCallback((brickIds: string[]): Promise<ToppleReport> => {
+    const requestId = nextPredictionRef.current++;
+    return new Promise(resolve => {
+      predictionsRef.current.set(requestId, resolve);
+      postPhysics({
+        type: 'predict',
+        requestId,
+        bodies: createBrickBodies(bricks),
+        removedIds: brickIds,
+        options: brickWorldOptions(bricks)
+      });
+    });
+  }, [bricks, postPhysics]);
 
   const startAnimation = useCallback(() => {
     if (!sceneState.renderer || !sceneState.scene || !sceneState.camera || isAnimating) return;
@@ -330,26 +489,13 @@ export function useThreeScene() {
     };
 
     animate();
-
-    // Start physics simulation if enabled
-    if (physicsEnabled) {
-      const runPhysics = () => {
-        updateBrickPhysics();
-        physicsRef.current = setTimeout(runPhysics, 100); // 10 FPS for physics
-      };
-      runPhysics();
-    }
-  }, [sceneState.renderer, sceneState.scene, sceneState.camera, isAnimating, physicsEnabled, updateBrickPhysics]);
+  }, [sceneState.renderer, sceneState.scene, sceneState.camera, isAnimating]);
 
   const stopAnimation = useCallback(() => {
     if (animationRef.current) {
       cancelAnimationFrame(animationRef.current);
       animationRef.current = null;
     }
-    if (physicsRef.current) {
-      clearTimeout(physicsRef.current as NodeJS.Timeout);
-      physicsRef.current = null;
-    }
     setIsAnimating(false);
   }, []);
 
@@ -392,9 +538,12 @@ export function useThreeScene() {
     bricks,
     isAnimating,
     physicsEnabled,
+    toppledBricks,
     initializeScene,
     addBrick,
     removeBrick,
+    removeSupport,
+    predictSupportRemoval,
     clearAllBricks,
     startAnimation,
     stopAnimation,
@@ -410,8 +559,16 @@ export function useARConstruction() {
   const [isConstructing, setIsConstructing] = useState(false);
   const [constructionProgress, setConstructionProgress] = useState(0);
   const [structuralNetwork, setStructuralNetwork] = useState<StructuralNode[]>([]);
+  const [structuralGraph, setStructuralGraph] = useState<StructuralGraph | null>(null);
   const [constructionPaths, setConstructionPaths] = useState<ConstructionPath[]>([]);
+  const [junctionReports, setJunctionReports] = useState<JunctionReport[]>([]);
   const [climateAnalysis, setClimateAnalysis] = useState<ClimateAnalysis | null>(null);
+  const [loadPathReport, setLoadPathReport] = useState<LoadPathReport | null>(null);
+  const [buildPlan, setBuildPlan] = useState<BuildPlan | null>(null);
+  const [detectedAnchors, setDetectedAnchors] = useState<DetectedAnchor[]>([]);
+  const [siteRegistration, setSiteRegistration] = useState<SiteRegistration | null>(null);
+  const [constructionError, setConstructionError] = useState<string | null>(null);
+  const cancelRequested = useRef(false);
 
   const addAnchor = useCallback((anchor: Anchor, scene: THREE.Scene) => {
     // Create anchor visualization with different shapes based on purpose
@@ -459,6 +616,7 @@ export function useARConstruction() {
       // Update structural network when anchors change
       const network = createStructuralNetwork(updated.map(a => a.anchor));
       setStructuralNetwork(network);
+      setStructuralGraph(buildStructuralGraph(updated.map(a => a.anchor)));
       
       return updated;
     });
@@ -466,68 +624,101 @@ export function useARConstruction() {
     return anchorData;
   }, []);
 
+  // Plan from anchors placed in a design rather than in the scene; no markers are drawn
+  const setProjectAnchors = useCallback((projectAnchors: Anchor[]) => {
+    setStructuralNetwork(createStructuralNetwork(projectAnchors));
+    setStructuralGraph(buildStructuralGraph(projectAnchors));
+  }, []);
+
   const generateAutomaticConstruction = useCallback(async (
     brickType: BrickTypeKey,
-    addBrick: (brickType: BrickTypeKey, position: Position3D, rotation?: Position3D, pathId?: string) => ConstructedBrick | null
+    addBrick: (brickType: BrickTypeKey, position: Position3D, rotation?: Position3D, pathId?: string, size?: BrickSize) => ConstructedBrick | null,
+    layoutOptions: LayoutOptions = {},
+    site: Partial<LateralLoadOptions & FloodHazardOptions> = {},
+    buildOrder: Partial<BuildOrderOptions> = {},
+    climate: Partial<ThermalOptions> = {}
   ) => {
     if (isConstructing || structuralNetwork.length < 2) return;
 
     setIsConstructing(true);
     setConstructionProgress(0);
+    setConstructionError(null);
+    cancelRequested.current = false;
 
     try {
       // Generate construction sequence
-      const paths = generateConstructionSequence(structuralNetwork, brickType);
+      const { paths, junctions } = generateConstructionPlan(structuralNetwork, brickType, layoutOptions);
       setConstructionPaths(paths);
+      setJunctionReports(junctions);
 
       // Analyze climate resilience
-      const analysis = analyzeClimateResilience(paths, brickType);
+      // Walls tied into a junction are restrained at that end; plinths go on the foundation anchors
+      const analysis = analyzeClimateResilience(paths, brickType, {
+        restraints: junctions.filter(junction => junction.kind !== 'inline').map(junction => junction.position),
+        foundations: structuralNetwork.filter(node => node.isFoundation).map(node => node.anchor),
+        ...site
+      }, {}, climate);
       setClimateAnalysis(analysis);
+      setLoadPathReport(analyzeLoadPath(paths, brickType));
 
-      // Build each path progressively
-      let totalBricks = 0;
-      const allBricks = paths.reduce((sum, path) => sum + path.totalBricks, 0);
-
-      for (const [pathIndex, path] of paths.entries()) {
-        for (const [brickIndex, position] of path.brickPositions.entries()) {
-          const rotation = path.brickRotations[brickIndex];
-          const pathId = `path-${pathIndex}`;
-          
-          addBrick(brickType, position, rotation, pathId);
-          
-          totalBricks++;
-          setConstructionProgress((totalBricks / allBricks) * 100);
-
-          // Add delay for visual effect
-          await new Promise(resolve => setTimeout(resolve, 150));
-        }
+      // Replay the bricks in an order where every partial state stands
+      const plan = planBuildOrder(paths, brickType, buildOrder);
+      setBuildPlan(plan);
+      let laidBricks = 0;
+
+      for (const step of plan.steps) {
+        if (cancelRequested.current) break;
+        if (step.kind !== 'lay') continue;
+        addBrick(brickType, step.position!, step.rotation!, `path-${step.pathIndex}`, step.size!);
+
+        laidBricks++;
+        setConstructionProgress((laidBricks / plan.totalBricks) * 100);
+
+        // Add delay for visual effect
+        await new Promise(resolve => setTimeout(resolve, 150));
       }
+    } catch (error) {
+      console.error('Construction failed:', error);
+      // Nothing from an earlier run may stand in for the plan that failed
+      setConstructionPaths([]);
+      setJunctionReports([]);
+      setClimateAnalysis(null);
+      setLoadPathReport(null);
+      setBuildPlan(null);
+      setConstructionError(error instanceof Error ? error.message : 'Construction failed');
     } finally {
       setIsConstructing(false);
     }
   }, [isConstructing, structuralNetwork]);
 
+  // Stop a replay after the brick being laid; the plan and analyses are kept
+  const cancelConstruction = useCallback(() => {
+    cancelRequested.current = true;
+  }, []);
+
   const constructBetweenAnchors = useCallback(async (
     anchor1: Position3D,
     anchor2: Position3D,
     brickType: BrickTypeKey,
-    addBrick: (brickType: BrickTypeKey, position: Position3D, rotation?: Position3D) => ConstructedBrick | null,
-    constructionType: import('../types').ConstructionType = 'wall'
+    addBrick: (brickType: BrickTypeKey, position: Position3D, rotation?: Position3D, pathId?: string, size?: BrickSize) => ConstructedBrick | null,
+    constructionType: import('../types').ConstructionType = 'wall',
+    layoutOptions: LayoutOptions = {}
   ) => {
     if (isConstructing) return;
 
     setIsConstructing(true);
     setConstructionProgress(0);
+    setConstructionError(null);
 
     try {
-      const path = calculateLinearPath(anchor1, anchor2, brickType, constructionType);
+      const path = calculateLinearPath(anchor1, anchor2, brickType, constructionType, layoutOptions);
       
       // Build progressively
       for (let i = 0; i < path.brickPositions.length; i++) {
         const position = path.brickPositions[i];
         const rotation = path.brickRotations[i];
         
-        addBrick(brickType, position, rotation);
+        addBrick(brickType, position, rotation, undefined, path.brickSizes?.[i]);
         setConstructionProgress(((i + 1) / path.brickPositions.length) * 100);
 
         // Add delay for visual effect
@@ -535,19 +726,39 @@ export function useARConstruction() {
       }
     } catch (error) {
       console.error('Construction failed:', error);
+      setConstructionError(error instanceof Error ? error.message : 'Construction failed');
     } finally {
       setIsConstructing(false);
     }
   }, [isConstructing]);
 
+  const registerDetectedAnchor = useCallback((detection: DetectedAnchor) => {
+    setDetectedAnchors(prev => latestDetections([...prev, detection]));
+  }, []);
+
+  // Refit the project-to-world registration every time another marker comes into view
+  useEffect(() => {
+    const registration = registerSite(detectedAnchors);
+    if (registration) {
+      setSiteRegistration(registration);
+    }
+  }, [detectedAnchors]);
+
   const clearAnchors = useCallback((scene: THREE.Scene) => {
     anchors.forEach(anchor => {
       scene.remove(anchor.mesh);
     });
     setAnchors([]);
     setStructuralNetwork([]);
+    setStructuralGraph(null);
     setConstructionPaths([]);
+    setJunctionReports([]);
     setClimateAnalysis(null);
+    setLoadPathReport(null);
+    setBuildPlan(null);
+    setDetectedAnchors([]);
+    setSiteRegistration(null);
+    setConstructionError(null);
   }, [anchors]);
 
   return {
@@ -555,11 +766,21 @@ export function useARConstruction() {
     isConstructing,
     constructionProgress,
     structuralNetwork,
+    structuralGraph,
     constructionPaths,
+    junctionReports,
     climateAnalysis,
+    loadPathReport,
+    buildPlan,
+    detectedAnchors,
+    siteRegistration,
+    constructionError,
     addAnchor,
+    setProjectAnchors,
+    registerDetectedAnchor,
     constructBetweenAnchors,
     generateAutomaticConstruction,
+    cancelConstruction,
     clearAnchors
   };
 } 
\ No newline at end of file
@@ -26,10 +26,19 @@ CREATE TABLE IF NOT EXISTS public.projects (
     brick_type TEXT NOT NULL DEFAULT 'clay-sustainable',
     type project_type DEFAULT 'modular-construction',
     is_public BOOLEAN DEFAULT FALSE,
+    signing_public_key TEXT, -- ECDSA P-256 public key (JWK) used to verify anchor QR signatures
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Project signing keys (private half kept apart so public/shared project reads never expose it)
+CREATE TABLE IF NOT EXISTS public.project_signing_keys (
+    project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE PRIMARY KEY,
+    user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    private_key TEXT NOT NULL, -- ECDSA P-256 private key (JWK)
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Anchors table
 CREATE TABLE IF NOT EXISTS public.anchors (
     id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
@@ -101,6 +110,7 @@ ALTER TABLE public.projects ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.anchors ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.qr_codes ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.shared_projects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.project_signing_keys ENABLE ROW LEVEL SECURITY;
 
 -- Users can only see and edit their own profile
 CREATE POLICY "Users can view own profile" ON public.users FOR SELECT USING (auth.uid() = id);
@@ -160,6 +170,17 @@ CREATE POLICY "Users can insert QR codes to own projects" ON public.qr_codes FOR
 CREATE POLICY "Users can update own QR codes" ON public.qr_codes FOR UPDATE USING (user_id = auth.uid());
 CREATE POLICY "Users can delete own QR codes" ON public.qr_codes FOR DELETE USING (user_id = auth.uid());
 
+-- Project signing key policies (owner only)
+CREATE POLICY "Users can view own signing keys" ON public.project_signing_keys FOR SELECT USING (user_id = auth.uid());
+CREATE POLICY "Users can insert signing keys for own projects" ON public.project_signing_keys FOR INSERT WITH CHECK (
+    user_id = auth.uid() AND project_id IN (SELECT id FROM public.projects WHERE user_id = auth.uid())
+);
+CREATE POLICY "Users can delete own signing keys" ON public.project_signing_keys FOR DELETE USING (user_id = auth.uid());
+
+-- Public keys only, so anyone scanning a code can verify it; the view runs as its owner and bypasses projects RLS
+CREATE OR REPLACE VIEW public.project_public_keys AS
+    SELECT id AS project_id, signing_public_key FROM public.projects WHERE signing_public_key IS NOT NULL;
+
 -- Shared Projects policies
 CREATE POLICY "Users can view projects they shared" ON public.shared_projects FOR SELECT USING (shared_by = auth.uid());
 CREATE POLICY "Users can view projects shared with them" ON public.shared_projects FOR SELECT USING (shared_with = auth.uid());
@@ -184,7 +205,23 @@ CREATE TRIGGER on_auth_user_created
     AFTER INSERT ON auth.users
     FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
 
+-- Storage bucket for rendered QR images (public read; paths are <project_id>/<pair_id>/<position>.png)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('qr-codes', 'qr-codes', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload QR images for own projects" ON storage.objects FOR INSERT WITH CHECK (
+    bucket_id = 'qr-codes' AND (storage.foldername(name))[1] IN (SELECT id::text FROM public.projects WHERE user_id = auth.uid())
+);
+CREATE POLICY "Users can replace QR images for own projects" ON storage.objects FOR UPDATE USING (
+    bucket_id = 'qr-codes' AND (storage.foldername(name))[1] IN (SELECT id::text FROM public.projects WHERE user_id = auth.uid())
+);
+CREATE POLICY "Users can delete QR images for own projects" ON storage.objects FOR DELETE USING (
+    bucket_id = 'qr-codes' AND (storage.foldername(name))[1] IN (SELECT id::text FROM public.projects WHERE user_id = auth.uid())
+);
+
 -- Grant necessary permissions
 GRANT USAGE ON SCHEMA public TO anon, authenticated;
+GRANT SELECT ON public.project_public_keys TO anon;
 GRANT ALL ON ALL TABLES IN SCHEMA public TO authenticated;
 GRANT ALL ON ALL SEQUENCES IN SCHEMA public TO authenticated; 
\ No newline at end of file
@@ -31,11 +31,25 @@ export interface Project {
   brick_type: string
   type: string
   is_public: boolean
+  signing_public_key?: string | null
   created_at: string
   updated_at: string
   anchors?: Anchor[]
 }
 
+export interface ProjectSigningKey {
+  project_id: string
+  user_id: string
+  private_key: string
+  created_at: string
+}
+
+// Row of the project_public_keys view, readable by visitors who cannot read the project itself
+export interface ProjectPublicKey {
+  project_id: string
+  signing_public_key: string
+}
+
 export interface Anchor {
   id: string
   project_id: string
@@ -96,12 +110,22 @@ export interface Database {
         Insert: Omit<QRCode, 'id' | 'created_at'>
         Update: Partial<Omit<QRCode, 'id' | 'created_at'>>
       }
+      project_signing_keys: {
+        Row: ProjectSigningKey
+        Insert: Omit<ProjectSigningKey, 'created_at'>
+        Update: Partial<Omit<ProjectSigningKey, 'project_id' | 'created_at'>>
+      }
       shared_projects: {
         Row: SharedProject
         Insert: Omit<SharedProject, 'id' | 'created_at'>
         Update: Partial<Omit<SharedProject, 'id' | 'created_at'>>
       }
     }
+    Views: {
+      project_public_keys: {
+        Row: ProjectPublicKey
+      }
+    }
   }
 }
 
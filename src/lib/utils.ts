@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { validateQRData } from "../utils/qrUtils"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -17,12 +18,7 @@ export function formatTimestamp(timestamp: string): string {
 
 // Validate QR data
 export function isValidQRData(data: string): boolean {
-  try {
-    const parsed = JSON.parse(data);
-    return parsed.type === 'construction-anchor' && parsed.projectUID && parsed.anchorUID;
-  } catch {
-    return false;
-  }
+  return validateQRData(data).isValid;
 }
 
 // Calculate distance between two 3D points
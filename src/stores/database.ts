@@ -2,28 +2,37 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import type { Project } from '../types';
 import { supabase } from '../lib/supabase';
-import type { Anchor, QRCode, SharedProject } from '../lib/supabase';
-
-interface QRData {
-  anchors: Array<{
-    id: string;
-    name: string;
-    purpose: string;
-    constructionType: string;
-    notes?: string;
-    position: {
-      x: number;
-      y: number;
-      z: number;
-    };
-  }>;
-  project: {
-    id: string;
-    name: string;
-    description: string;
-    type: string;
-    brickType: string;
-  };
+import type { Anchor, Project as ProjectRow, QRCode, SharedProject } from '../lib/supabase';
+import { pairProjectData, type PairProjectData } from '../utils/qrSchema';
+import { generateSigningKeyPair, renderQRCodePNG, type SerializedSigningKeyPair } from '../utils/qrUtils';
+
+// Rendered QR images live in this Storage bucket; rows fall back to data URLs when it is unreachable
+const QR_IMAGE_BUCKET = 'qr-codes';
+const QR_IMAGE_SIZE = 512;
+
+function qrImagePath(projectId: string, pairId: string, position: 'primary' | 'secondary'): string {
+  return `${projectId}/${pairId}/${position}.png`;
+}
+
+// Render a row's payload to PNG and store it, returning the URL to save in qr_code_url
+async function storeQRImage(path: string, qrData: unknown): Promise<string> {
+  const dataURL = await renderQRCodePNG(JSON.stringify(qrData), { size: QR_IMAGE_SIZE });
+
+  try {
+    const image = await (await fetch(dataURL)).blob();
+    const { error } = await supabase.storage
+      .from(QR_IMAGE_BUCKET)
+      .upload(path, image, { contentType: 'image/png', upsert: true });
+
+    if (error) throw error;
+
+    // Regeneration reuses the path, so version the URL to get past cached copies
+    const { data } = supabase.storage.from(QR_IMAGE_BUCKET).getPublicUrl(path);
+    return `${data.publicUrl}?v=${Date.now()}`;
+  } catch (error) {
+    console.warn('⚠️ Database: QR image upload failed, storing a data URL instead:', error);
+    return dataURL;
+  }
 }
 
 interface DatabaseState {
@@ -58,6 +67,11 @@ interface DatabaseState {
   createQRCodePair: (projectId: string, primaryAnchorId: string, secondaryAnchorId: string, referenceDistance: number) => Promise<{ pairId: string, primaryQR: QRCode, secondaryQR: QRCode } | null>;
   loadQRCodes: (projectId: string) => Promise<void>;
   loadQRCodePairs: (projectId: string) => Promise<Record<string, { primary?: QRCode, secondary?: QRCode }>>;
+  regenerateQRCodeImages: (projectId: string) => Promise<boolean>;
+  
+  // Anchor signing keys
+  ensureProjectSigningKeys: (projectId: string) => Promise<SerializedSigningKeyPair | null>;
+  getProjectPublicKey: (projectId: string) => Promise<string | null>;
   
   // Sharing operations
   shareProject: (projectId: string, permissions: 'view' | 'edit', expiresAt?: string) => Promise<string | null>;
@@ -65,7 +79,7 @@ interface DatabaseState {
   
   // Utility functions
   clearError: () => void;
-  generateQRData: (projectId: string) => Promise<QRData | null>;
+  generateQRData: (projectId: string) => Promise<PairProjectData | null>;
   
   // Test database connectivity
   testConnection: () => Promise<{ tableExists: boolean; userAuthenticated: boolean; canSelect: boolean; errors: any }>;
@@ -309,6 +323,11 @@ export const useDatabaseStore = create<DatabaseState>()(
             loading: false
           }));
 
+          // Printed QR codes carry anchor positions, so moving an anchor makes them stale
+          if ('position_x' in updates || 'position_y' in updates || 'position_z' in updates) {
+            await get().regenerateQRCodeImages(data.project_id);
+          }
+
           return true;
         } catch (error: any) {
           set({ error: error.message, loading: false });
@@ -427,7 +446,7 @@ export const useDatabaseStore = create<DatabaseState>()(
             project_id: projectId,
             user_id: user.data.user.id,
             qr_data: { ...enhancedQRData, qrPosition: 'primary' },
-            qr_code_url: `qr://pair/${pairId}/primary`, // Placeholder URL
+            qr_code_url: '',
             qr_pair_id: pairId,
             qr_position: 'primary' as const,
             reference_distance: referenceDistance
@@ -439,12 +458,16 @@ export const useDatabaseStore = create<DatabaseState>()(
             project_id: projectId,
             user_id: user.data.user.id,
             qr_data: { ...enhancedQRData, qrPosition: 'secondary' },
-            qr_code_url: `qr://pair/${pairId}/secondary`, // Placeholder URL
+            qr_code_url: '',
             qr_pair_id: pairId,
             qr_position: 'secondary' as const,
             reference_distance: referenceDistance
           };
 
+          // Render both images before inserting so the rows point at real QR codes
+          primaryQRData.qr_code_url = await storeQRImage(qrImagePath(projectId, pairId, 'primary'), primaryQRData.qr_data);
+          secondaryQRData.qr_code_url = await storeQRImage(qrImagePath(projectId, pairId, 'secondary'), secondaryQRData.qr_data);
+
           // Insert both QR codes
           const { data, error } = await supabase
             .from('qr_codes')
@@ -523,6 +546,124 @@ export const useDatabaseStore = create<DatabaseState>()(
         }
       },
 
+      // Refresh the payload and image of every QR pair in a project from the current anchors.
+      // Each payload lists all project anchors, so every pair is rewritten, not just those on the moved anchor.
+      regenerateQRCodeImages: async (projectId: string) => {
+        try {
+          const qrData = await get().generateQRData(projectId);
+          if (!qrData) throw new Error('Failed to generate QR data');
+
+          const { data: rows, error } = await supabase
+            .from('qr_codes')
+            .select('*')
+            .eq('project_id', projectId)
+            .not('qr_pair_id', 'is', null);
+
+          if (error) throw error;
+
+          const updated: QRCode[] = [];
+          for (const row of rows || []) {
+            // Keep the pair metadata; only the project and anchor sections change
+            const refreshedData = { ...row.qr_data, ...qrData };
+            const qrCodeURL = await storeQRImage(qrImagePath(projectId, row.qr_pair_id!, row.qr_position), refreshedData);
+
+            const { data: saved, error: updateError } = await supabase
+              .from('qr_codes')
+              .update({ qr_data: refreshedData, qr_code_url: qrCodeURL })
+              .eq('id', row.id)
+              .select()
+              .single();
+
+            if (updateError) throw updateError;
+            updated.push(saved);
+          }
+
+          set(state => ({
+            qrCodes: state.qrCodes.map(qr => updated.find(u => u.id === qr.id) ?? qr)
+          }));
+
+          return true;
+        } catch (error) {
+          console.error('💥 Database: QR image regeneration error:', error);
+          set({ error: (error as Error).message || 'Failed to regenerate QR codes' });
+          return false;
+        }
+      },
+
+      // Get the project's anchor signing key pair, creating one on first use.
+      // The public key lives on the project row; the private key sits in an owner-only table.
+      ensureProjectSigningKeys: async (projectId: string) => {
+        try {
+          const user = await supabase.auth.getUser();
+          if (!user.data.user) {
+            throw new Error('User not authenticated');
+          }
+
+          const { data: project, error: projectError } = await supabase
+            .from('projects')
+            .select('signing_public_key')
+            .eq('id', projectId)
+            .single();
+
+          if (projectError) throw projectError;
+
+          const { data: existingKey, error: keyError } = await supabase
+            .from('project_signing_keys')
+            .select('private_key')
+            .eq('project_id', projectId)
+            .maybeSingle();
+
+          if (keyError) throw keyError;
+
+          if (project.signing_public_key && existingKey) {
+            return { publicKey: project.signing_public_key, privateKey: existingKey.private_key };
+          }
+
+          // Missing or half-written key pair: start over with a fresh one
+          const keyPair = await generateSigningKeyPair();
+
+          if (existingKey) {
+            const { error } = await supabase
+              .from('project_signing_keys')
+              .delete()
+              .eq('project_id', projectId);
+
+            if (error) throw error;
+          }
+
+          const { error: insertError } = await supabase
+            .from('project_signing_keys')
+            .insert({ project_id: projectId, user_id: user.data.user.id, private_key: keyPair.privateKey });
+
+          if (insertError) throw insertError;
+
+          const { error: updateError } = await supabase
+            .from('projects')
+            .update({ signing_public_key: keyPair.publicKey })
+            .eq('id', projectId);
+
+          if (updateError) throw updateError;
+
+          return keyPair;
+        } catch (error) {
+          set({ error: (error as Error).message || 'Failed to create signing keys' });
+          return null;
+        }
+      },
+
+      // Public key used by scanners to verify anchor QR signatures (null if the project never signed any).
+      // Read through the key-only view: visitors scanning a private project cannot read its row.
+      getProjectPublicKey: async (projectId: string) => {
+        const { data, error } = await supabase
+          .from('project_public_keys')
+          .select('signing_public_key')
+          .eq('project_id', projectId)
+          .maybeSingle();
+
+        if (error || !data) return null;
+        return data.signing_public_key ?? null;
+      },
+
       // Sharing operations
       shareProject: async (projectId, permissions, expiresAt) => {
         set({ loading: true, error: null });
@@ -650,29 +791,8 @@ export const useDatabaseStore = create<DatabaseState>()(
           const updatedState = get();
           const anchors = updatedState.anchors.filter(a => a.project_id === projectId);
 
-                     const qrData: QRData = {
-             project: {
-               id: project.id,
-               name: project.name,
-               description: project.description,
-               type: project.type,
-               brickType: project.brickType
-             },
-            anchors: anchors.map(anchor => ({
-              id: anchor.id,
-              name: anchor.name,
-              purpose: anchor.purpose,
-              constructionType: anchor.construction_type,
-              notes: anchor.notes || '',
-              position: {
-                x: Number(anchor.position_x),
-                y: Number(anchor.position_y),
-                z: Number(anchor.position_z)
-              }
-            }))
-          };
-
-          return qrData;
+          // state.projects holds the rows as loaded, with brick_type and a nullable description
+          return pairProjectData(project as unknown as ProjectRow, anchors);
         } catch (error: any) {
           set({ error: error.message });
           return null;
@@ -29,9 +29,29 @@ export interface BrickSize {
   depth: number;
 }
 
+// Mortar and dimensional tolerances of a brick type (metres)
+export interface BrickJointSpec {
+  jointThickness: number; // nominal bed and perpendicular joint
+  tolerance: number; // ± manufacturing deviation of each unit dimension
+  minOverlap: number; // smallest lap between perpend joints of successive courses
+}
+
+// What the analyses use where the material library has no entry for a brick type
+export interface BrickPhysicalProperties {
+  density: number; // kg/m³
+  compressiveStrength: number; // unit strength, MPa
+  conductivity: number; // W/mK
+  specificHeat: number; // J/kgK, which the library does not list
+  embodiedCarbon: number; // kg CO₂e per kg
+  waterResistance: number; // 1-5 rating, as in the library
+  costTier: 'low' | 'medium' | 'high';
+}
+
 export interface BrickType {
   name: string;
-  size: BrickSize;
+  size: BrickSize; // bare unit size, without mortar
+  joint: BrickJointSpec;
+  physical: BrickPhysicalProperties;
   color: number; // Three.js color hex
   material: string;
   properties: BrickProperties;
@@ -41,7 +61,7 @@ export type BrickTypeKey = 'clay-sustainable' | 'bio-composite' | 'recycled-aggr
 
 export type AnchorPurpose = 'foundation' | 'wall-corner' | 'height-marker' | 'roof-point' | 'column-base' | 'beam-junction';
 
-export type ConstructionType = 'wall' | 'column' | 'beam' | 'foundation' | 'arch';
+export type ConstructionType = 'wall' | 'column' | 'beam' | 'foundation' | 'arch' | 'vault' | 'dome';
 
 export interface Anchor {
   purpose: AnchorPurpose;
@@ -91,6 +111,58 @@ export interface AnchorQRData {
   timestamp: string;
 }
 
+// Payload printed on each code of a QR pair (see createQRCodePair)
+export interface PairQRPayload {
+  project: {
+    id: string;
+    name: string;
+    description: string;
+    type: string;
+    brickType: BrickTypeKey;
+  };
+  anchors: Array<{
+    id: string;
+    name: string;
+    purpose: AnchorPurpose;
+    constructionType: ConstructionType;
+    notes?: string;
+    position: Position3D;
+  }>;
+  qrPair: {
+    pairId: string;
+    referenceDistance: number;
+    primaryAnchorId: string;
+    secondaryAnchorId: string;
+  };
+  arPositioning: {
+    usesPairPositioning: boolean;
+    coordinateSystem: 'qr-pair-based';
+  };
+  qrPosition: 'primary' | 'secondary';
+}
+
+// Outcome of checking an anchor QR code's signature against its project key
+export type SignatureStatus = 'valid' | 'invalid' | 'unsigned' | 'unverified';
+
+export interface Point2D {
+  x: number;
+  y: number;
+}
+
+// Outer corners of a decoded QR code in image pixel coordinates
+export interface QRCornerPoints {
+  topLeft: Point2D;
+  topRight: Point2D;
+  bottomRight: Point2D;
+  bottomLeft: Point2D;
+}
+
+export interface DecodedQR {
+  data: string;
+  cornerPoints: QRCornerPoints;
+  version: number;
+}
+
 export interface DetectedAnchor {
   data: AnchorQRData;
   pose: ARPose;
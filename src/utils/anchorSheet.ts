@@ -0,0 +1,259 @@
+import type { Anchor as DatabaseAnchor, QRCode } from '../lib/supabase';
+import type { Position3D } from '../types';
+import { PdfDocument, type PageSizeKey } from './pdfDocument';
+import { getQRModuleRuns, type QRErrorCorrectionLevel } from './qrUtils';
+import { DEFAULT_MARKER_SIZE } from './poseEstimation';
+
+// Print-ready anchor sheets: one page per stored QR code, with the symbol printed at a
+// guaranteed physical size so the pose estimator's marker size matches what is on site.
+
+export interface AnchorSheetPair {
+  pairId: string;
+  position: 'primary' | 'secondary';
+  referenceDistance: number; // metres, centre to centre
+  partnerName: string;
+}
+
+export interface AnchorSheetPage {
+  qrCodeId: string;
+  qrContent: string; // exactly what is encoded in the printed symbol
+  projectName: string;
+  anchorName: string;
+  purpose: string;
+  constructionType: string;
+  position: Position3D | null;
+  pair: AnchorSheetPair | null;
+}
+
+export interface AnchorSheetOptions {
+  pageSize: PageSizeKey;
+  symbolSize: number; // mm, edge of the symbol excluding the quiet zone
+  errorCorrectionLevel: QRErrorCorrectionLevel;
+  rulerLength: number; // mm
+}
+
+export const defaultAnchorSheetOptions: AnchorSheetOptions = {
+  pageSize: 'a4',
+  symbolSize: DEFAULT_MARKER_SIZE * 1000,
+  errorCorrectionLevel: 'M',
+  rulerLength: 100
+};
+
+// Layout constants (mm)
+const PAGE_MARGIN = 15;
+const QUIET_ZONE_MODULES = 4;
+const QR_TOP = 42;
+const MARK_GAP = 2;
+const MARK_LENGTH = 6;
+
+interface PayloadAnchor {
+  id?: string;
+  name?: string;
+  purpose?: string;
+  constructionType?: string;
+  position?: Position3D;
+}
+
+function payloadAnchors(qrData: unknown): PayloadAnchor[] {
+  const anchors = (qrData as { anchors?: unknown } | null)?.anchors;
+  return Array.isArray(anchors) ? anchors as PayloadAnchor[] : [];
+}
+
+// Resolve every row to the details printed on its page; pairs stay together, primary first
+export function buildAnchorSheetPages(qrCodes: QRCode[], anchors: DatabaseAnchor[] = []): AnchorSheetPage[] {
+  const sorted = [...qrCodes].sort((a, b) =>
+    (a.qr_pair_id ?? a.id).localeCompare(b.qr_pair_id ?? b.id) ||
+    (a.qr_position === b.qr_position ? 0 : a.qr_position === 'primary' ? -1 : 1)
+  );
+
+  return sorted.map(qr => {
+    const inPayload = payloadAnchors(qr.qr_data);
+    const findAnchor = (id: string): PayloadAnchor | undefined => {
+      const fromPayload = inPayload.find(a => a.id === id);
+      if (fromPayload) return fromPayload;
+      const stored = anchors.find(a => a.id === id);
+      return stored && {
+        id: stored.id,
+        name: stored.name,
+        purpose: stored.purpose,
+        constructionType: stored.construction_type,
+        position: { x: Number(stored.position_x), y: Number(stored.position_y), z: Number(stored.position_z) }
+      };
+    };
+
+    const anchor = findAnchor(qr.anchor_id);
+    const qrPair = (qr.qr_data as { qrPair?: { primaryAnchorId?: string; secondaryAnchorId?: string } } | null)?.qrPair;
+    const partnerId = qr.qr_position === 'primary' ? qrPair?.secondaryAnchorId : qrPair?.primaryAnchorId;
+
+    return {
+      qrCodeId: qr.id,
+      qrContent: JSON.stringify(qr.qr_data),
+      projectName: (qr.qr_data as { project?: { name?: string } } | null)?.project?.name ?? 'Untitled project',
+      anchorName: anchor?.name ?? `Anchor ${qr.anchor_id.slice(0, 8)}`,
+      purpose: anchor?.purpose ?? 'unknown',
+      constructionType: anchor?.constructionType ?? 'unknown',
+      position: anchor?.position ?? null,
+      pair: qr.qr_pair_id
+        ? {
+            pairId: qr.qr_pair_id,
+            position: qr.qr_position,
+            referenceDistance: Number(qr.reference_distance),
+            partnerName: (partnerId && findAnchor(partnerId)?.name) || 'Unknown anchor'
+          }
+        : null
+    };
+  });
+}
+
+// L-shaped crop marks just outside each corner of the cut square
+function drawCutMarks(pdf: PdfDocument, left: number, top: number, size: number): void {
+  const right = left + size;
+  const bottom = top + size;
+  for (const [x, y, dx, dy] of [[left, top, -1, -1], [right, top, 1, -1], [right, bottom, 1, 1], [left, bottom, -1, 1]]) {
+    pdf.line(x + dx * MARK_GAP, y, x + dx * (MARK_GAP + MARK_LENGTH), y, 0.25);
+    pdf.line(x, y + dy * MARK_GAP, x, y + dy * (MARK_GAP + MARK_LENGTH), 0.25);
+  }
+}
+
+// Centre-line ticks on all four sides: line them up with chalk lines through the anchor point
+function drawPlacementMarks(pdf: PdfDocument, left: number, top: number, size: number): void {
+  const centreX = left + size / 2;
+  const centreY = top + size / 2;
+  const near = MARK_GAP;
+  const far = MARK_GAP + MARK_LENGTH * 1.5;
+  pdf.line(centreX, top - near, centreX, top - far, 0.35);
+  pdf.line(centreX, top + size + near, centreX, top + size + far, 0.35);
+  pdf.line(left - near, centreY, left - far, centreY, 0.35);
+  pdf.line(left + size + near, centreY, left + size + far, centreY, 0.35);
+}
+
+function drawRuler(pdf: PdfDocument, left: number, top: number, length: number): void {
+  pdf.line(left, top, left + length, top, 0.25);
+  for (let mm = 0; mm <= length; mm++) {
+    const tick = mm % 10 === 0 ? 5 : mm % 5 === 0 ? 3.5 : 2;
+    pdf.line(left + mm, top, left + mm, top + tick, mm % 10 === 0 ? 0.25 : 0.12);
+    if (mm % 10 === 0) {
+      pdf.text(left + mm - (mm >= 100 ? 1.6 : mm >= 10 ? 1.1 : 0.6), top + 8.5, `${mm / 10}`, { size: 6 });
+    }
+  }
+  pdf.text(left + length + 2, top + 4, 'cm', { size: 7 });
+}
+
+function formatPosition(position: Position3D): string {
+  return `X ${position.x.toFixed(3)} m   Y ${position.y.toFixed(3)} m   Z ${position.z.toFixed(3)} m`;
+}
+
+function drawPage(
+  pdf: PdfDocument,
+  page: AnchorSheetPage,
+  index: number,
+  total: number,
+  options: AnchorSheetOptions
+): void {
+  pdf.addPage();
+
+  const { size: moduleCount, runs } = getQRModuleRuns(page.qrContent, options.errorCorrectionLevel);
+  const moduleSize = options.symbolSize / moduleCount;
+  const quietZone = QUIET_ZONE_MODULES * moduleSize;
+  const cutSize = options.symbolSize + quietZone * 2;
+  const cutLeft = (pdf.width - cutSize) / 2;
+  const symbolLeft = cutLeft + quietZone;
+  const symbolTop = QR_TOP + quietZone;
+
+  // Header
+  pdf.text(PAGE_MARGIN, PAGE_MARGIN + 5, page.projectName, { size: 16, bold: true });
+  const subtitle = page.pair
+    ? `Anchor sheet ${index + 1} of ${total} · pair ${page.pair.pairId.slice(0, 8)}, ${page.pair.position}`
+    : `Anchor sheet ${index + 1} of ${total}`;
+  pdf.text(PAGE_MARGIN, PAGE_MARGIN + 11, subtitle, { size: 9, gray: 0.4 });
+
+  // Symbol. Modules are drawn as runs so the printed edge is exactly symbolSize.
+  pdf.rects(
+    runs.map(run => ({
+      x: symbolLeft + run.start * moduleSize,
+      y: symbolTop + run.row * moduleSize,
+      width: run.length * moduleSize,
+      height: moduleSize
+    }))
+  );
+  drawCutMarks(pdf, cutLeft, QR_TOP, cutSize);
+  drawPlacementMarks(pdf, cutLeft, QR_TOP, cutSize);
+
+  // Anchor details
+  let y = QR_TOP + cutSize + 22;
+  pdf.text(PAGE_MARGIN, y, page.anchorName, { size: 14, bold: true });
+  y += 7;
+
+  const rows: Array<[string, string]> = [
+    ['Purpose', page.purpose],
+    ['Construction', page.constructionType],
+    ['Position', page.position ? formatPosition(page.position) : 'Not recorded']
+  ];
+  if (page.pair) {
+    rows.push(
+      ['Pair', `${page.pair.position === 'primary' ? 'Primary (origin)' : 'Secondary (reference)'}, partner: ${page.pair.partnerName}`],
+      ['Reference distance', `${page.pair.referenceDistance.toFixed(3)} m centre to centre`]
+    );
+  }
+  rows.push(['Symbol', `${options.symbolSize} mm square excluding the white border (${moduleCount} x ${moduleCount} modules)`]);
+
+  for (const [label, value] of rows) {
+    pdf.text(PAGE_MARGIN, y, label, { size: 9, gray: 0.4 });
+    pdf.text(PAGE_MARGIN + 36, y, value, { size: 10 });
+    y += 6;
+  }
+
+  y += 2;
+  pdf.text(PAGE_MARGIN, y, 'Cut along the corner marks. Lay the sheet flat with its centre over the anchor point;', { size: 8, gray: 0.3 });
+  pdf.text(PAGE_MARGIN, y + 4, 'the side ticks mark the centre lines.', { size: 8, gray: 0.3 });
+
+  // Scale check
+  const rulerTop = pdf.height - PAGE_MARGIN - 12;
+  pdf.text(
+    PAGE_MARGIN,
+    rulerTop - 4,
+    `Scale check: this ruler must measure exactly ${options.rulerLength} mm. Print at 100% (actual size), never "fit to page".`,
+    { size: 8, bold: true }
+  );
+  drawRuler(pdf, PAGE_MARGIN, rulerTop, options.rulerLength);
+
+  pdf.text(
+    PAGE_MARGIN,
+    pdf.height - 6,
+    `QR ${page.qrCodeId}   generated ${new Date().toISOString().slice(0, 10)}`,
+    { size: 7, gray: 0.5 }
+  );
+}
+
+export function createAnchorSheetPDF(pages: AnchorSheetPage[], options: Partial<AnchorSheetOptions> = {}): Blob {
+  const settings = { ...defaultAnchorSheetOptions, ...options };
+  if (pages.length === 0) {
+    throw new Error('No QR codes to print');
+  }
+
+  const pdf = new PdfDocument(settings.pageSize);
+  const maxSymbol = (pdf.width - PAGE_MARGIN * 2 - (MARK_GAP + MARK_LENGTH) * 2) / (1 + 2 * QUIET_ZONE_MODULES / 21);
+  if (settings.symbolSize <= 0 || settings.symbolSize > maxSymbol) {
+    throw new Error(`Symbol size must be between 0 and ${Math.floor(maxSymbol)} mm for this page size`);
+  }
+  if (settings.rulerLength <= 0 || settings.rulerLength > pdf.width - PAGE_MARGIN * 2 - 10) {
+    throw new Error('Ruler does not fit on the page');
+  }
+
+  pages.forEach((page, index) => drawPage(pdf, page, index, pages.length, settings));
+  return pdf.toBlob();
+}
+
+export function downloadAnchorSheetPDF(
+  pages: AnchorSheetPage[],
+  filename: string,
+  options: Partial<AnchorSheetOptions> = {}
+): void {
+  const url = URL.createObjectURL(createAnchorSheetPDF(pages, options));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
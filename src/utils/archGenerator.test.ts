@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { generateArch } from './archGenerator';
+
+const origin = { x: 0, y: 0, z: 0 };
+
+describe('generateArch', () => {
+  it('sets an odd ring of voussoirs with the keystone at the crown', () => {
+    const arch = generateArch(origin, { x: 2, y: 0, z: 0 }, 'clay-sustainable', { profile: 'semicircular' });
+
+    // π × 1 m of intrados at 120 mm brick + 10 mm joint fits 24; rounded down to an odd 23
+    expect(arch.intradosLength).toBeCloseTo(Math.PI, 3);
+    expect(arch.voussoirs).toHaveLength(23);
+    expect(arch.totalBricks).toBe(23);
+    expect(arch.intradosJoint).toBeCloseTo(Math.PI / 23 - 0.12, 3);
+
+    expect(arch.keystoneIndex).toBe(11);
+    expect(arch.voussoirs.map(v => v.role).filter(role => role === 'keystone')).toHaveLength(1);
+    expect(arch.voussoirs[0].role).toBe('springer');
+    expect(arch.voussoirs[22].role).toBe('springer');
+
+    // Crown of a 1 m radius ring, with the brick standing radially on it
+    const keystone = arch.voussoirs[arch.keystoneIndex];
+    expect(keystone.intrados.x).toBeCloseTo(1, 3);
+    expect(keystone.intrados.y).toBeCloseTo(1, 3);
+    expect(keystone.position.y).toBeCloseTo(1 + 0.25 / 2, 3);
+    expect(Math.max(...arch.voussoirs.map(v => v.position.y))).toBe(keystone.position.y);
+
+    // Either half mirrors the other about the crown
+    arch.voussoirs.forEach((voussoir, i) => {
+      const mirror = arch.voussoirs[22 - i];
+      expect(voussoir.position.x + mirror.position.x).toBeCloseTo(2, 3);
+      expect(voussoir.position.y).toBeCloseTo(mirror.position.y, 3);
+    });
+  });
+
+  it('refuses a span too short for three voussoirs', () => {
+    expect(() => generateArch(origin, { x: 0.3, y: 0, z: 0 }, 'clay-sustainable')).toThrow('at least three voussoirs');
+  });
+});
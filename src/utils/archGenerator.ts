@@ -0,0 +1,305 @@
+import type { BrickSize, BrickTypeKey, ConstructionType, Position3D, Rotation3D } from '../types';
+import type { ConstructionPath } from './constructionAlgorithms';
+import { brickTypes } from './brickTypes';
+import {
+  addVectors,
+  cross,
+  dot,
+  matrixFromColumns,
+  rotationMatrixToEuler,
+  scaleVector,
+  subtractVectors,
+  vectorLength
+} from './linearAlgebra';
+import { analyzeThrustLine, describeThrustLine, type ThrustJoint, type ThrustLineReport } from './thrustLine';
+
+// Voussoir arch between two springing anchors. Bricks are set on edge as a single rowlock ring:
+// brick width runs radially, brick height along the curve and brick depth through the wall.
+
+export type ArchProfile = 'semicircular' | 'segmental' | 'catenary';
+
+export type VoussoirRole = 'springer' | 'voussoir' | 'keystone';
+
+export interface ArchOptions {
+  profile: ArchProfile;
+  rise?: number; // metres above the springing line; fixed at span / 2 for semicircular arches
+  mortarJoint?: number; // joint at the intrados; defaults to the brick type's joint
+  includeCentring: boolean;
+  propSpacing: number; // metres between centring props
+}
+
+export interface Voussoir {
+  index: number;
+  role: VoussoirRole;
+  position: Position3D; // centre of the brick
+  rotation: Rotation3D;
+  size: BrickSize;
+  intrados: Position3D; // centre of the soffit face
+  bedNormal: Position3D; // unit tangent of the curve, i.e. the normal of the bed joints
+}
+
+export interface CentringGeometry {
+  ribs: Position3D[][]; // intrados profile at each face of the arch
+  props: Array<{ top: Position3D; bottom: Position3D }>; // vertical supports down to the springing line
+  laggingLength: number; // developed length of the soffit boarding
+  laggingWidth: number;
+}
+
+export interface ArchPath extends ConstructionPath {
+  brickSizes: BrickSize[];
+  profile: ArchProfile;
+  span: number;
+  rise: number;
+  ringDepth: number;
+  intradosLength: number;
+  voussoirs: Voussoir[];
+  keystoneIndex: number;
+  springers: Array<{ position: Position3D; skewbackAngle: number }>; // skewback from horizontal, radians
+  intradosJoint: number;
+  maxExtradosJoint: number;
+  thrustLine: ThrustLineReport;
+  centring: CentringGeometry | null;
+  warnings: string[];
+}
+
+export const ARCH_PROFILES: ArchProfile[] = ['semicircular', 'segmental', 'catenary'];
+
+export const defaultArchOptions: ArchOptions = {
+  profile: 'semicircular',
+  includeCentring: true,
+  propSpacing: 0.5
+};
+
+// Default rise as a fraction of the span
+const DEFAULT_RISE_RATIO: Record<ArchProfile, number> = {
+  semicircular: 0.5,
+  segmental: 0.25,
+  catenary: 0.5
+};
+
+// Joints wider than this multiple of the nominal joint call for tapered voussoirs
+const MAX_EXTRADOS_JOINT_RATIO = 2.5;
+
+const PROFILE_SAMPLES = 1024;
+
+export interface ProfilePoint {
+  s: number; // along the springing line
+  t: number; // above it
+}
+
+// Catenary y = rise - a·(cosh(x / a) - 1) through both springers: solve a(cosh(span / 2a) - 1) = rise
+function solveCatenaryParameter(span: number, rise: number): number {
+  let low = span * 1e-3;
+  let high = span * 1e3;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    if (mid * (Math.cosh(span / (2 * mid)) - 1) > rise) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+// Intrados curve from one springer (u = 0) to the other (u = 1)
+export function createArchProfile(profile: ArchProfile, span: number, rise: number): (u: number) => ProfilePoint {
+  if (profile === 'catenary') {
+    const a = solveCatenaryParameter(span, rise);
+    return u => {
+      const s = u * span;
+      return { s, t: rise - a * (Math.cosh((s - span / 2) / a) - 1) };
+    };
+  }
+
+  // Circular arc through both springers and the crown
+  const radius = (span * span / 4 + rise * rise) / (2 * rise);
+  const centreT = rise - radius;
+  const springAngle = Math.acos(Math.min(1, span / (2 * radius)));
+  const startAngle = centreT < 0 ? Math.PI - springAngle : Math.PI;
+  const endAngle = centreT < 0 ? springAngle : 0;
+  return u => {
+    const angle = startAngle + (endAngle - startAngle) * u;
+    return { s: span / 2 + radius * Math.cos(angle), t: centreT + radius * Math.sin(angle) };
+  };
+}
+
+export interface ProfileSampler {
+  samples: ProfilePoint[];
+  length: number;
+  pointAt: (distance: number) => { point: ProfilePoint; tangent: ProfilePoint }; // unit tangent
+}
+
+// Sample a profile densely so points can be found by arc length
+export function sampleArchProfile(curve: (u: number) => ProfilePoint): ProfileSampler {
+  const samples: ProfilePoint[] = [];
+  const arcLengths: number[] = [0];
+  for (let i = 0; i <= PROFILE_SAMPLES; i++) {
+    samples.push(curve(i / PROFILE_SAMPLES));
+    if (i > 0) {
+      const previous = samples[i - 1];
+      arcLengths.push(arcLengths[i - 1] + Math.hypot(samples[i].s - previous.s, samples[i].t - previous.t));
+    }
+  }
+
+  const pointAt = (distance: number) => {
+    let index = arcLengths.findIndex(length => length >= distance);
+    index = index < 0 ? PROFILE_SAMPLES : Math.max(1, index);
+    const a = samples[index - 1];
+    const b = samples[index];
+    const segment = arcLengths[index] - arcLengths[index - 1];
+    const f = segment > 0 ? (distance - arcLengths[index - 1]) / segment : 0;
+    const tangentLength = Math.hypot(b.s - a.s, b.t - a.t);
+    return {
+      point: { s: a.s + (b.s - a.s) * f, t: a.t + (b.t - a.t) * f },
+      tangent: { s: (b.s - a.s) / tangentLength, t: (b.t - a.t) / tangentLength }
+    };
+  };
+
+  return { samples, length: arcLengths[PROFILE_SAMPLES], pointAt };
+}
+
+export function generateArch(
+  start: Position3D,
+  end: Position3D,
+  brickType: BrickTypeKey,
+  options: Partial<ArchOptions> = {},
+  constructionType: ConstructionType = 'arch'
+): ArchPath {
+  const settings = { ...defaultArchOptions, ...options };
+  const brick = brickTypes[brickType].size;
+  const joint = settings.mortarJoint ?? brickTypes[brickType].joint.jointThickness;
+  const warnings: string[] = [];
+
+  // Frame of the arch plane: e1 along the springing line, e2 up (square to it), w through the wall
+  const chord = subtractVectors(end, start);
+  const span = vectorLength(chord);
+  if (span < brick.height * 3) {
+    throw new Error('Arch span is too small for at least three voussoirs');
+  }
+  const e1 = scaleVector(chord, 1 / span);
+  const worldUp = { x: 0, y: 1, z: 0 };
+  const upInPlane = subtractVectors(worldUp, scaleVector(e1, dot(worldUp, e1)));
+  if (vectorLength(upInPlane) < 1e-6) {
+    throw new Error('Arch springers cannot be vertically above one another');
+  }
+  const e2 = scaleVector(upInPlane, 1 / vectorLength(upInPlane));
+  const toWorld = (p: ProfilePoint): Position3D => addVectors(start, addVectors(scaleVector(e1, p.s), scaleVector(e2, p.t)));
+  const directionToWorld = (s: number, t: number): Position3D => addVectors(scaleVector(e1, s), scaleVector(e2, t));
+
+  const rise = settings.profile === 'semicircular' ? span / 2 : settings.rise ?? span * DEFAULT_RISE_RATIO[settings.profile];
+  if (rise <= 0) {
+    throw new Error('Arch rise must be positive');
+  }
+  if (settings.profile === 'segmental' && rise >= span / 2) {
+    throw new Error('A segmental arch must rise less than half its span; use a semicircular arch instead');
+  }
+
+  const curve = createArchProfile(settings.profile, span, rise);
+  const { samples, length: intradosLength, pointAt } = sampleArchProfile(curve);
+
+  // An odd count puts a keystone at the crown; rounding down keeps every intrados joint at least nominal
+  let count = Math.floor(intradosLength / (brick.height + joint));
+  if (count % 2 === 0) count -= 1;
+  if (count < 3) {
+    throw new Error('Arch is too small for at least three voussoirs');
+  }
+  const pitch = intradosLength / count;
+  const ringDepth = brick.width;
+  const keystoneIndex = (count - 1) / 2;
+
+  const voussoirs: Voussoir[] = [];
+  for (let i = 0; i < count; i++) {
+    const { point, tangent } = pointAt((i + 0.5) * pitch);
+    // Outward normal (away from the arch opening) and tangent in world space
+    const normal = directionToWorld(-tangent.t, tangent.s);
+    const along = directionToWorld(tangent.s, tangent.t);
+    const intrados = toWorld(point);
+
+    voussoirs.push({
+      index: i,
+      role: i === keystoneIndex ? 'keystone' : i === 0 || i === count - 1 ? 'springer' : 'voussoir',
+      position: addVectors(intrados, scaleVector(normal, ringDepth / 2)),
+      // Brick length radial, brick height along the curve, brick depth through the wall
+      rotation: rotationMatrixToEuler(matrixFromColumns(normal, along, cross(normal, along))),
+      size: { ...brick },
+      intrados,
+      bedNormal: along
+    });
+  }
+
+  // Joints open up towards the extrados because the bricks are not tapered
+  let maxExtradosJoint = 0;
+  for (let i = 1; i < count; i++) {
+    const outer = (v: Voussoir) => addVectors(v.intrados, scaleVector(subtractVectors(v.position, v.intrados), 2));
+    maxExtradosJoint = Math.max(maxExtradosJoint, vectorLength(subtractVectors(outer(voussoirs[i]), outer(voussoirs[i - 1]))) - brick.height);
+  }
+  const intradosJoint = pitch - brick.height;
+  if (maxExtradosJoint > joint * MAX_EXTRADOS_JOINT_RATIO) {
+    warnings.push(
+      `Extrados joints open to ${(maxExtradosJoint * 1000).toFixed(0)} mm; ` +
+      `use tapered voussoirs or build the ring as two half-brick rings`
+    );
+  }
+
+  // Self-weight thrust line through the left half, crown joint (mid-keystone) first
+  const jointAt = (distance: number): ThrustJoint => {
+    const { point, tangent } = pointAt(distance);
+    const inner = { x: span / 2 - point.s, y: point.t };
+    return { inner, outer: { x: inner.x + tangent.t * ringDepth, y: inner.y + tangent.s * ringDepth } };
+  };
+  const halfJoints = [jointAt(intradosLength / 2)];
+  for (let k = keystoneIndex; k >= 0; k--) {
+    halfJoints.push(jointAt(k * pitch));
+  }
+  const thrustLine = analyzeThrustLine(halfJoints);
+  const thrustWarning = describeThrustLine(thrustLine, 'arch ring');
+  if (thrustWarning) warnings.push(thrustWarning);
+
+  // Skewback: the springer's bed joint, measured from the horizontal springing line
+  const springerTangent = pointAt(0).tangent;
+  const skewbackAngle = Math.PI / 2 - Math.atan2(springerTangent.t, springerTangent.s);
+
+  let centring: CentringGeometry | null = null;
+  if (settings.includeCentring) {
+    const throughWall = scaleVector(cross(e1, e2), brick.depth / 2);
+    const ribSamples = Math.max(8, Math.ceil(intradosLength / 0.1));
+    const profile = Array.from({ length: ribSamples + 1 }, (_, i) => toWorld(pointAt(intradosLength * i / ribSamples).point));
+    const propCount = Math.max(1, Math.floor(span / settings.propSpacing));
+    const props = Array.from({ length: propCount }, (_, i) => {
+      const s = span * (i + 1) / (propCount + 1);
+      const nearest = samples.reduce((best, p) => (Math.abs(p.s - s) < Math.abs(best.s - s) ? p : best));
+      return { top: toWorld(nearest), bottom: toWorld({ s, t: 0 }) };
+    });
+
+    centring = {
+      ribs: [profile.map(p => addVectors(p, throughWall)), profile.map(p => subtractVectors(p, throughWall))],
+      props,
+      laggingLength: intradosLength,
+      laggingWidth: brick.depth
+    };
+  }
+
+  return {
+    start,
+    end,
+    brickPositions: voussoirs.map(v => v.position),
+    brickRotations: voussoirs.map(v => v.rotation),
+    totalBricks: voussoirs.length,
+    constructionType,
+    brickSizes: voussoirs.map(v => v.size),
+    profile: settings.profile,
+    span,
+    rise,
+    ringDepth,
+    intradosLength,
+    voussoirs,
+    keystoneIndex,
+    springers: [
+      { position: start, skewbackAngle },
+      { position: end, skewbackAngle }
+    ],
+    intradosJoint,
+    maxExtradosJoint,
+    thrustLine,
+    centring,
+    warnings
+  };
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { billOfMaterialsFromBricks, billOfMaterialsToCSV, type BomBrick } from './billOfMaterials';
+
+// Twenty whole clay bricks and four pieces cut to 120 mm, two to a brick with the 5 mm kerf
+const bricks: BomBrick[] = [
+  ...Array.from({ length: 20 }, () => ({ brickType: 'clay-sustainable' as const })),
+  ...Array.from({ length: 4 }, () => ({ brickType: 'clay-sustainable' as const, size: { width: 0.12, height: 0.12, depth: 0.15 } }))
+];
+
+describe('billOfMaterialsToCSV', () => {
+  it('totals the bricks and mortar as ordered', () => {
+    const bom = billOfMaterialsFromBricks(bricks);
+    const rows = billOfMaterialsToCSV(bom).trim().split('\n').map(row => row.split(','));
+    const [header, clay, mortar, total] = rows;
+
+    expect(rows).toHaveLength(4);
+    expect(header[7]).toBe('quantity');
+
+    // 20 whole + 2 for the cuts = 22, plus 5 % waste rounded up = 24 bricks of 8.1 kg at 0.10 a kg
+    expect(clay.slice(0, 9)).toEqual(['Clay Sustainable', 'clay-sustainable', '24', '20', '4', '2', '2', '24', 'each']);
+    expect(Number(clay[9])).toBeCloseTo(194.4, 3);
+    expect(Number(clay[10])).toBeCloseTo(0.81, 3);
+    expect(Number(clay[11])).toBeCloseTo(19.44, 3);
+
+    // Joints: 20 × 0.00057 + 4 × 0.000375 = 0.0129 m³, plus 10 % = 0.01419 m³ at 2000 kg/m³ and 150 a m³
+    expect(Number(mortar[7])).toBeCloseTo(0.014, 3);
+    expect(Number(mortar[9])).toBeCloseTo(28.38, 3);
+    expect(Number(mortar[11])).toBeCloseTo(2.1285, 2);
+
+    expect(total[0]).toBe('Total');
+    expect(Number(total[7])).toBe(24);
+    expect(Number(total[9])).toBeCloseTo(194.4 + 28.38, 3);
+    expect(Number(total[11])).toBeCloseTo(19.44 + 2.1285, 2);
+    expect(bom.totalCost).toBeCloseTo(21.5685, 9);
+  });
+});
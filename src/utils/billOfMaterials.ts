@@ -0,0 +1,247 @@
+import type { BrickSize, BrickTypeKey } from '../types';
+import { brickTypes } from './brickTypes';
+import type { ConstructionPath } from './constructionAlgorithms';
+import { getMaterialStrength } from './loadPath';
+import { getLibraryMaterial, libraryMaterials, type Material } from './materialLibrary';
+import { isWallPath, type WallLintel } from './wallGenerator';
+
+// Quantities and cost for a project. Cut pieces are nested into whole bricks before waste is added,
+// so a pair of half-bats costs one brick rather than two. Mortar is the bed and perpend joint around
+// each unit at the brick type's joint thickness.
+
+export type CostTier = Material['cost'];
+
+export interface BomPricing {
+  costTier: CostTier;
+  density: number; // kg/m³
+}
+
+export interface BomOptions {
+  wasteFactor: number; // extra units ordered for breakage and rejects
+  mortarWasteFactor: number;
+  sawKerf: number; // metres lost to each cut
+  mortarDensity: number; // kg/m³, as laid
+  mortarRate: number; // price per m³
+  tierRates: Record<CostTier, number>; // price per kg of unit
+  currency: string;
+  pricing: Partial<Record<BrickTypeKey, Partial<BomPricing>>>;
+}
+
+export const defaultBomOptions: BomOptions = {
+  wasteFactor: 0.05,
+  mortarWasteFactor: 0.1,
+  sawKerf: 0.005,
+  mortarDensity: 2000,
+  mortarRate: 150,
+  tierRates: { low: 0.05, medium: 0.1, high: 0.25 },
+  currency: 'USD',
+  pricing: {}
+};
+
+export interface BomLine {
+  brickType: BrickTypeKey;
+  name: string;
+  placed: number; // units in the work, whole and cut
+  whole: number;
+  cut: number;
+  unitsForCuts: number; // whole bricks the cut pieces are taken from
+  waste: number;
+  orderQuantity: number;
+  unitMass: number; // kg
+  mass: number; // kg, as ordered
+  costTier: CostTier;
+  unitCost: number;
+  cost: number;
+}
+
+export interface MortarEstimate {
+  volume: number; // m³ in the joints
+  orderVolume: number; // m³ including waste
+  mass: number; // kg, as ordered
+  cost: number;
+}
+
+export interface LintelLine {
+  type: WallLintel['type'];
+  count: number;
+  totalLength: number; // metres
+}
+
+export interface BillOfMaterials {
+  lines: BomLine[];
+  mortar: MortarEstimate;
+  lintels: LintelLine[]; // listed for ordering; not priced
+  totalUnits: number;
+  totalMass: number; // kg, units and mortar
+  totalCost: number;
+  currency: string;
+  warnings: string[];
+}
+
+export interface BomBrick {
+  brickType: BrickTypeKey;
+  size?: BrickSize; // cut bricks; the catalogue size otherwise
+}
+
+// Cost tier and density from the material library, or the brick type where it has no entry
+export function getBrickPricing(brickType: BrickTypeKey, materials: Material[] = libraryMaterials): BomPricing {
+  return {
+    costTier: getLibraryMaterial(brickType, materials)?.cost ?? brickTypes[brickType].physical.costTier,
+    density: getMaterialStrength(brickType, materials).density
+  };
+}
+
+// Bed and perpend joint around one unit, through its full depth
+export function jointVolume(size: BrickSize, jointThickness: number): number {
+  return ((size.width + jointThickness) * (size.height + jointThickness) - size.width * size.height) * size.depth;
+}
+
+// First-fit decreasing: how many whole bricks the cut pieces can be taken from
+function nestCuts(lengths: number[], stock: number, kerf: number): number {
+  const offcuts: number[] = [];
+  for (const length of [...lengths].sort((a, b) => b - a)) {
+    const need = Math.min(stock, length + kerf);
+    const bin = offcuts.findIndex(left => left >= need);
+    if (bin >= 0) offcuts[bin] -= need;
+    else offcuts.push(stock - need);
+  }
+  return offcuts.length;
+}
+
+function summarize(bricks: BomBrick[], lintels: WallLintel[], options: Partial<BomOptions>): BillOfMaterials {
+  const settings = { ...defaultBomOptions, ...options };
+  const warnings: string[] = [];
+  const lines: BomLine[] = [];
+  let mortarVolume = 0;
+
+  const keys = [...new Set(bricks.map(brick => brick.brickType))].sort();
+  for (const brickType of keys) {
+    const { size: catalogue, joint, name } = brickTypes[brickType];
+    const pricing = { ...getBrickPricing(brickType), ...settings.pricing[brickType] };
+    const ofType = bricks.filter(brick => brick.brickType === brickType);
+
+    let whole = 0;
+    let otherCuts = 0;
+    const cutLengths: number[] = [];
+    for (const brick of ofType) {
+      const size = brick.size ?? catalogue;
+      mortarVolume += jointVolume(size, joint.jointThickness);
+
+      const shorter = (actual: number, full: number) => actual < full - 1e-4;
+      if (!shorter(size.width, catalogue.width) && !shorter(size.height, catalogue.height) && !shorter(size.depth, catalogue.depth)) {
+        whole++;
+      } else if (!shorter(size.height, catalogue.height) && !shorter(size.depth, catalogue.depth)) {
+        cutLengths.push(size.width);
+      } else {
+        // Cut across the bed or the thickness: one brick per piece
+        otherCuts++;
+      }
+    }
+
+    const cut = cutLengths.length + otherCuts;
+    const unitsForCuts = nestCuts(cutLengths, catalogue.width, settings.sawKerf) + otherCuts;
+    const net = whole + unitsForCuts;
+    const orderQuantity = Math.ceil(net * (1 + settings.wasteFactor));
+    const unitMass = catalogue.width * catalogue.height * catalogue.depth * pricing.density;
+    const unitCost = unitMass * settings.tierRates[pricing.costTier];
+    if (otherCuts > 0) {
+      warnings.push(`${otherCuts} ${name} pieces are cut across the bed or thickness; check them on site`);
+    }
+
+    lines.push({
+      brickType,
+      name,
+      placed: ofType.length,
+      whole,
+      cut,
+      unitsForCuts,
+      waste: orderQuantity - net,
+      orderQuantity,
+      unitMass,
+      mass: orderQuantity * unitMass,
+      costTier: pricing.costTier,
+      unitCost,
+      cost: orderQuantity * unitCost
+    });
+  }
+
+  const orderVolume = mortarVolume * (1 + settings.mortarWasteFactor);
+  const mortar: MortarEstimate = {
+    volume: mortarVolume,
+    orderVolume,
+    mass: orderVolume * settings.mortarDensity,
+    cost: orderVolume * settings.mortarRate
+  };
+
+  const lintelLines: LintelLine[] = (['timber', 'concrete'] as const)
+    .map(type => {
+      const ofType = lintels.filter(lintel => lintel.type === type);
+      return { type, count: ofType.length, totalLength: ofType.reduce((sum, lintel) => sum + lintel.size.width, 0) };
+    })
+    .filter(line => line.count > 0);
+
+  return {
+    lines,
+    mortar,
+    lintels: lintelLines,
+    totalUnits: lines.reduce((sum, line) => sum + line.orderQuantity, 0),
+    totalMass: lines.reduce((sum, line) => sum + line.mass, 0) + mortar.mass,
+    totalCost: lines.reduce((sum, line) => sum + line.cost, 0) + mortar.cost,
+    currency: settings.currency,
+    warnings
+  };
+}
+
+// From generated paths, all laid in one brick type
+export function billOfMaterialsFromPaths(
+  paths: ConstructionPath[],
+  brickType: BrickTypeKey,
+  options: Partial<BomOptions> = {}
+): BillOfMaterials {
+  const bricks = paths.flatMap(path => path.brickPositions.map((_, i) => ({ brickType, size: path.brickSizes?.[i] })));
+  const lintels = paths.flatMap(path => (isWallPath(path) ? path.lintels : []));
+  return summarize(bricks, lintels, options);
+}
+
+// From bricks placed in the scene, which may mix types
+export function billOfMaterialsFromBricks(bricks: BomBrick[], options: Partial<BomOptions> = {}): BillOfMaterials {
+  return summarize(bricks, [], options);
+}
+
+function csvField(value: string | number): string {
+  const text = typeof value === 'number' ? String(Math.round(value * 1000) / 1000) : value;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function billOfMaterialsToCSV(bom: BillOfMaterials): string {
+  const rows: Array<Array<string | number>> = [
+    ['item', 'brick type', 'placed', 'whole', 'cut', 'units for cuts', 'waste', 'quantity', 'unit', 'mass (kg)', `unit cost (${bom.currency})`, `cost (${bom.currency})`]
+  ];
+  for (const line of bom.lines) {
+    rows.push([line.name, line.brickType, line.placed, line.whole, line.cut, line.unitsForCuts, line.waste,
+      line.orderQuantity, 'each', line.mass, line.unitCost, line.cost]);
+  }
+  rows.push(['Mortar', '', '', '', '', '', '', bom.mortar.orderVolume, 'm³', bom.mortar.mass, '', bom.mortar.cost]);
+  for (const lintel of bom.lintels) {
+    rows.push([`${lintel.type} lintel`, '', '', '', '', '', '', lintel.count, `each (${lintel.totalLength.toFixed(2)} m total)`, '', '', '']);
+  }
+  rows.push(['Total', '', '', '', '', '', '', bom.totalUnits, 'units', bom.totalMass, '', bom.totalCost]);
+  return rows.map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+export function billOfMaterialsToJSON(bom: BillOfMaterials): string {
+  return JSON.stringify(bom, null, 2);
+}
+
+export function downloadBillOfMaterials(bom: BillOfMaterials, format: 'csv' | 'json', filename: string): void {
+  const blob = format === 'csv'
+    ? new Blob([billOfMaterialsToCSV(bom)], { type: 'text/csv' })
+    : new Blob([billOfMaterialsToJSON(bom)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -1,9 +1,19 @@
-import type { BrickType, BrickTypeKey } from '../types';
+import type { BrickJointSpec, BrickSize, BrickType, BrickTypeKey } from '../types';
 
 export const brickTypes: Record<BrickTypeKey, BrickType> = {
   'clay-sustainable': {
     name: 'Clay Sustainable',
     size: { width: 0.25, height: 0.12, depth: 0.15 },
+    joint: { jointThickness: 0.010, tolerance: 0.003, minOverlap: 0.0625 },
+    physical: {
+      density: 1800,
+      compressiveStrength: 25,
+      conductivity: 0.7,
+      specificHeat: 840,
+      embodiedCarbon: 0.15,
+      waterResistance: 4,
+      costTier: 'medium'
+    },
     color: 0xd2691e, // Sandy brown
     material: 'clay',
     properties: { thermal: true, local: true }
@@ -11,6 +21,16 @@ export const brickTypes: Record<BrickTypeKey, BrickType> = {
   'bio-composite': {
     name: 'Bio-Composite',
     size: { width: 0.30, height: 0.10, depth: 0.15 },
+    joint: { jointThickness: 0.008, tolerance: 0.002, minOverlap: 0.075 },
+    physical: {
+      density: 400,
+      compressiveStrength: 0.4,
+      conductivity: 0.09,
+      specificHeat: 1500,
+      embodiedCarbon: -0.1,
+      waterResistance: 3,
+      costTier: 'medium'
+    },
     color: 0x8fbc8f, // Dark sea green
     material: 'composite',
     properties: { renewable: true, lightweight: true }
@@ -18,6 +38,17 @@ export const brickTypes: Record<BrickTypeKey, BrickType> = {
   'recycled-aggregate': {
     name: 'Recycled Aggregate',
     size: { width: 0.20, height: 0.15, depth: 0.15 },
+    joint: { jointThickness: 0.010, tolerance: 0.004, minOverlap: 0.05 },
+    // Cement-bound recycled aggregate
+    physical: {
+      density: 2000,
+      compressiveStrength: 10,
+      conductivity: 1.0,
+      specificHeat: 880,
+      embodiedCarbon: 0.05,
+      waterResistance: 4,
+      costTier: 'low'
+    },
     color: 0x696969, // Dim gray
     material: 'recycled',
     properties: { insulation: true, circular: true }
@@ -25,6 +56,17 @@ export const brickTypes: Record<BrickTypeKey, BrickType> = {
   '3d-printed-earth': {
     name: '3D Printed Earth',
     size: { width: 0.35, height: 0.08, depth: 0.20 },
+    joint: { jointThickness: 0.005, tolerance: 0.001, minOverlap: 0.0875 },
+    // Unfired earth with a little stabiliser
+    physical: {
+      density: 1900,
+      compressiveStrength: 2,
+      conductivity: 0.9,
+      specificHeat: 1000,
+      embodiedCarbon: 0.02,
+      waterResistance: 1, // slumps when saturated
+      costTier: 'low'
+    },
     color: 0xcd853f, // Peru
     material: 'printed',
     properties: { precise: true, robotic: true }
@@ -44,4 +86,56 @@ export function getAllBrickTypes(): Array<{ key: BrickTypeKey; brick: BrickType
 
 export function getBrickTypeKeys(): BrickTypeKey[] {
   return Object.keys(brickTypes) as BrickTypeKey[];
-} 
\ No newline at end of file
+} 
+
+// Coordinated module size: unit plus one joint on each axis, the pitch at which bricks are laid
+export function getModuleSize(key: BrickTypeKey): BrickSize {
+  const { size, joint } = brickTypes[key];
+  return {
+    width: size.width + joint.jointThickness,
+    height: size.height + joint.jointThickness,
+    depth: size.depth + joint.jointThickness
+  };
+}
+
+export interface ToleranceStackReport {
+  units: number;
+  nominalLength: number; // units plus the joints between them
+  targetLength: number;
+  landingError: number; // nominal end of the run minus the target (positive = overshoot)
+  worstCaseDeviation: number; // every unit at the same tolerance limit
+  statisticalDeviation: number; // root-sum-square of independent unit deviations
+  jointAdjustment: number; // change per joint that lands the run exactly on target
+  adjustedJoint: number;
+  withinJointAdjustment: boolean; // whether the masons can take up the error in the joints
+}
+
+// How far a joint may be opened or closed on site before it looks (or performs) wrong
+export const JOINT_ADJUSTMENT_LIMIT = 0.003;
+
+// Tolerance stack for a run of units laid with the type's joint towards a target length
+export function calculateToleranceStack(
+  joint: BrickJointSpec,
+  unitLengths: number[],
+  targetLength: number
+): ToleranceStackReport {
+  const units = unitLengths.length;
+  const joints = Math.max(0, units - 1);
+  const nominalLength = unitLengths.reduce((sum, length) => sum + length, 0) + joints * joint.jointThickness;
+  const landingError = nominalLength - targetLength;
+  const jointAdjustment = joints > 0 ? -landingError / joints : 0;
+
+  return {
+    units,
+    nominalLength,
+    targetLength,
+    landingError,
+    worstCaseDeviation: units * joint.tolerance,
+    statisticalDeviation: Math.sqrt(units) * joint.tolerance,
+    jointAdjustment,
+    adjustedJoint: joint.jointThickness + jointAdjustment,
+    withinJointAdjustment: joints > 0
+      ? Math.abs(jointAdjustment) <= JOINT_ADJUSTMENT_LIMIT
+      : Math.abs(landingError) <= joint.tolerance
+  };
+}
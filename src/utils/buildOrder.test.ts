@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { Anchor, Position3D } from '../types';
+import { brickTypes } from './brickTypes';
+import { planBuildOrder, type BuildStep } from './buildOrder';
+import { createStructuralNetwork, generateConstructionPlan, type ConstructionPath } from './constructionAlgorithms';
+
+const corner = (name: string, x: number, z: number): Anchor => ({
+  purpose: 'wall-corner',
+  name,
+  position: { x, y: 0, z },
+  constructionType: 'wall'
+});
+
+// Whether two laid bricks overlap on plan, by separating axes on their turned footprints
+function overlapOnPlan(a: BuildStep, b: BuildStep): boolean {
+  const axes = [a, b].flatMap(step => {
+    const angle = step.rotation!.y;
+    return [{ x: Math.cos(angle), z: -Math.sin(angle) }, { x: Math.sin(angle), z: Math.cos(angle) }];
+  });
+  const reach = (step: BuildStep, axis: { x: number; z: number }) => {
+    const angle = step.rotation!.y;
+    const { width, depth } = step.size!;
+    return (Math.abs(Math.cos(angle) * axis.x - Math.sin(angle) * axis.z) * width +
+      Math.abs(Math.sin(angle) * axis.x + Math.cos(angle) * axis.z) * depth) / 2;
+  };
+  return axes.every(axis => {
+    const gap = Math.abs((b.position!.x - a.position!.x) * axis.x + (b.position!.z - a.position!.z) * axis.z);
+    return reach(a, axis) + reach(b, axis) - gap > 1e-6;
+  });
+}
+
+const single = (position: Position3D, constructionType: ConstructionPath['constructionType']): ConstructionPath => ({
+  start: position,
+  end: position,
+  brickPositions: [position],
+  brickRotations: [{ x: 0, y: 0, z: 0 }],
+  totalBricks: 1,
+  constructionType
+});
+
+describe('planBuildOrder', () => {
+  it('lays no brick before the bricks it is bedded on', () => {
+    const anchors = [corner('A', 0, 0), corner('B', 3, 0), corner('C', 3, 3)];
+    const plan = generateConstructionPlan(createStructuralNetwork(anchors), 'clay-sustainable', { wall: { height: 1.2 } });
+    const order = planBuildOrder(plan.paths, 'clay-sustainable');
+    const laid = order.steps.filter(step => step.kind === 'lay');
+
+    expect(order.warnings).toEqual([]);
+    expect(laid).toHaveLength(order.totalBricks);
+    for (const step of laid) {
+      const under = laid.filter(other => other.level === step.level - 1 && overlapOnPlan(step, other));
+      for (const other of under) expect(other.number, `step ${step.number}`).toBeLessThan(step.number);
+    }
+  });
+
+  it('strikes supports falling due together after a single wait', () => {
+    const { height } = brickTypes['clay-sustainable'].size;
+    const course = (level: number) => height / 2 + level * (height + 0.01);
+    // A pier three courses high, and two beams propped beside it at the top
+    const pier: ConstructionPath = {
+      ...single({ x: 0, y: course(0), z: 0 }, 'column'),
+      brickPositions: [0, 1, 2].map(level => ({ x: 0, y: course(level), z: 0 })),
+      brickRotations: [0, 1, 2].map(() => ({ x: 0, y: 0, z: 0 })),
+      totalBricks: 3
+    };
+    const paths = [pier, single({ x: 1, y: course(2), z: 0 }, 'beam'), single({ x: 2, y: course(2), z: 0 }, 'beam')];
+
+    const order = planBuildOrder(paths, 'clay-sustainable');
+    const after = order.steps.filter(step => step.kind === 'cure' || step.kind === 'strike');
+
+    expect(order.temporarySupports).toBe(2);
+    expect(after.map(step => step.kind)).toEqual(['cure', 'cure', 'strike', 'strike']);
+    expect(after[0].description).toBe('Let lift 1 cure for 24 h before striking');
+    expect(after[1].waitHours).toBe(Math.ceil(72 - 24 - after[0].time));
+    expect(after[1].description).toBe(`Wait ${after[1].waitHours} h before striking temporary supports`);
+  });
+});
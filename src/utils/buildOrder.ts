@@ -0,0 +1,451 @@
+import type { BrickSize, BrickTypeKey, Position3D, Rotation3D } from '../types';
+import { brickTypes, getModuleSize } from './brickTypes';
+import type { ConstructionPath } from './constructionAlgorithms';
+import { eulerToRotationMatrix } from './linearAlgebra';
+import { createBrickBodies, findToppledBricks, type PhysicsBodyInput } from './rigidBodyPhysics';
+import { isWallPath } from './wallGenerator';
+
+// Brick-by-brick build order in which every partial state stands. Work goes up in lifts of a few
+// courses: in each block of courses the corners are raised first as racked-back leads, then the
+// courses between them are filled one at a time. Each lift cures before the next is started.
+// A brick counts as supported when its centre lies over the bricks (or lintels) it is bedded on.
+// Shell courses laid without centring lean on the course below instead. Anything else (arch rings,
+// soldier courses over openings) goes on temporary support, struck once its element has cured.
+
+export type BuildStepKind = 'lay' | 'lintel' | 'cure' | 'strike';
+
+export interface BuildStep {
+  number: number; // 1-based, as read out to the crew
+  kind: BuildStepKind;
+  time: number; // hours from the start of work
+  pathIndex: number | null;
+  brickIndex: number | null; // into the path's bricks ('lay') or lintels ('lintel')
+  position: Position3D | null;
+  rotation: Rotation3D | null;
+  size: BrickSize | null;
+  level: number; // courses above the lowest bed
+  phase: 'lead' | 'fill' | null;
+  temporarySupport: boolean; // laid on centring or props
+  waitHours: number; // 'cure' and 'strike' only
+  description: string;
+}
+
+export interface BuildOrderOptions {
+  leadCourses: number; // courses raised at each corner before filling between
+  maxLiftHeight: number; // metres of fresh work before it must cure
+  curingTime: number; // hours between lifts
+  strikeTime: number; // hours before temporary supports are removed
+  layingRate: number; // bricks per hour for the crew
+  verifyWithPhysics: boolean; // settle every lift in the rigid-body simulation (slow for large builds)
+}
+
+export const defaultBuildOrderOptions: BuildOrderOptions = {
+  leadCourses: 6,
+  maxLiftHeight: 1.5,
+  curingTime: 24,
+  strikeTime: 72,
+  layingRate: 50,
+  verifyWithPhysics: false
+};
+
+export interface BuildPlan {
+  steps: BuildStep[];
+  lifts: number;
+  totalBricks: number;
+  temporarySupports: number; // bricks laid on centring or props
+  duration: number; // hours, including curing
+  warnings: string[];
+}
+
+interface Unit {
+  kind: 'lay' | 'lintel';
+  pathIndex: number;
+  brickIndex: number;
+  position: Position3D;
+  rotation: Rotation3D;
+  size: BrickSize;
+  min: Position3D; // world bounding box
+  max: Position3D;
+  level: number;
+  lead: number; // first level of the block whose corner lead takes this brick; Infinity for fill
+  order: number; // position along the element, for filling a course in sequence
+  leansOnCourse: boolean;
+}
+
+// Slack allowed between a bed and the brick on it, beyond the joint itself
+const BED_TOLERANCE = 0.02;
+// Supports falling due within this many hours of each other are struck together
+const STRIKE_WINDOW = 4;
+
+function boundingBox(position: Position3D, rotation: Rotation3D, size: BrickSize): { min: Position3D; max: Position3D } {
+  const r = eulerToRotationMatrix(rotation);
+  const reach = (row: number) =>
+    (Math.abs(r[row][0]) * size.width + Math.abs(r[row][1]) * size.height + Math.abs(r[row][2]) * size.depth) / 2;
+  const h = { x: reach(0), y: reach(1), z: reach(2) };
+  return {
+    min: { x: position.x - h.x, y: position.y - h.y, z: position.z - h.z },
+    max: { x: position.x + h.x, y: position.y + h.y, z: position.z + h.z }
+  };
+}
+
+// Whether two units overlap on plan, by separating axes on their footprints turned about the vertical
+function overlapOnPlan(a: Unit, b: Unit): boolean {
+  const footprint = (unit: Unit) => {
+    const angle = unit.rotation.y;
+    return { along: { x: Math.cos(angle), z: -Math.sin(angle) }, across: { x: Math.sin(angle), z: Math.cos(angle) } };
+  };
+  const fa = footprint(a);
+  const fb = footprint(b);
+  const reach = (unit: Unit, f: typeof fa, axis: { x: number; z: number }) =>
+    (Math.abs(f.along.x * axis.x + f.along.z * axis.z) * unit.size.width +
+      Math.abs(f.across.x * axis.x + f.across.z * axis.z) * unit.size.depth) / 2;
+  return [fa.along, fa.across, fb.along, fb.across].every(axis => {
+    const gap = Math.abs((b.position.x - a.position.x) * axis.x + (b.position.z - a.position.z) * axis.z);
+    return reach(a, fa, axis) + reach(b, fb, axis) - gap > 1e-6;
+  });
+}
+
+// Shells built ring by ring without formwork: nubian vaults and domes
+function leansOnCourse(path: ConstructionPath): boolean {
+  if (path.constructionType !== 'vault' && path.constructionType !== 'dome') return false;
+  return !('centring' in path) || path.centring === null;
+}
+
+function collectUnits(paths: ConstructionPath[], brickType: BrickTypeKey, leadCourses: number): Unit[] {
+  const brick = brickTypes[brickType];
+  const module = getModuleSize(brickType);
+  const units: Unit[] = [];
+
+  paths.forEach((path, pathIndex) => {
+    const dx = path.end.x - path.start.x;
+    const dz = path.end.z - path.start.z;
+    const length = Math.hypot(dx, dz) || 1;
+    const along = (p: Position3D) => ((p.x - path.start.x) * dx + (p.z - path.start.z) * dz) / length;
+    const leaning = leansOnCourse(path);
+
+    path.brickPositions.forEach((position, brickIndex) => {
+      const rotation = path.brickRotations[brickIndex];
+      const size = path.brickSizes?.[brickIndex] ?? brick.size;
+      units.push({
+        kind: 'lay',
+        pathIndex,
+        brickIndex,
+        position,
+        rotation,
+        size,
+        ...boundingBox(position, rotation, size),
+        level: 0,
+        lead: Infinity,
+        order: isWallPath(path) ? along(position) : brickIndex,
+        leansOnCourse: leaning
+      });
+    });
+
+    if (!isWallPath(path)) return;
+    path.lintels.forEach((lintel, lintelIndex) => {
+      units.push({
+        kind: 'lintel',
+        pathIndex,
+        brickIndex: lintelIndex,
+        position: lintel.position,
+        rotation: lintel.rotation,
+        size: lintel.size,
+        ...boundingBox(lintel.position, lintel.rotation, lintel.size),
+        level: 0,
+        lead: Infinity,
+        order: along(lintel.position),
+        leansOnCourse: false
+      });
+    });
+  });
+
+  const base = units.reduce((lowest, unit) => Math.min(lowest, unit.min.y), Infinity);
+  for (const unit of units) {
+    unit.level = Math.max(0, Math.floor((unit.position.y - base) / module.height));
+  }
+
+  // Leads rack back half a brick per course from each end of every wall
+  paths.forEach((path, pathIndex) => {
+    if (!isWallPath(path)) return;
+    for (const unit of units) {
+      if (unit.pathIndex !== pathIndex || unit.kind !== 'lay') continue;
+      const fromEnd = Math.min(unit.order, path.length - unit.order);
+      const steps = Math.floor(Math.max(0, fromEnd - module.width / 2) / (module.width / 2));
+      // Within each block of lead courses, course j belongs to the lead if it is short enough
+      const block = unit.level - (unit.level % leadCourses);
+      const courseInBlock = unit.level - block;
+      if (courseInBlock < leadCourses - steps) unit.lead = block;
+    }
+  });
+
+  // Cut bricks shift where each course's joints fall, so a lead brick can overhang the end of the
+  // lead below it. Such a brick waits for the fill, and so does everything on it.
+  const byLevel = new Map<number, Unit[]>();
+  for (const unit of units) {
+    const level = byLevel.get(unit.level);
+    if (level) level.push(unit);
+    else byLevel.set(unit.level, [unit]);
+  }
+  for (const level of [...byLevel.keys()].sort((a, b) => a - b)) {
+    const under = byLevel.get(level - 1) ?? [];
+    for (const unit of byLevel.get(level)!) {
+      if (unit.lead === Infinity || unit.level === unit.lead) continue;
+      if (under.some(other => other.lead !== unit.lead && overlapOnPlan(unit, other))) unit.lead = Infinity;
+    }
+  }
+
+  return units;
+}
+
+// Elements that are expected to need centring or props somewhere
+function needsTemporarySupport(path: ConstructionPath): boolean {
+  if (path.constructionType === 'arch' || path.constructionType === 'beam' || 'centring' in path) return true;
+  return isWallPath(path) && path.openings.length > 0;
+}
+
+// Whether a unit's centre lies over the bricks and lintels already laid beneath it
+function isBedded(unit: Unit, laid: Unit[], groundY: number, joint: number): boolean {
+  if (unit.min.y <= groundY + BED_TOLERANCE) return true;
+
+  let minX = Infinity;
+  let maxX = -Infinity;
+  let minZ = Infinity;
+  let maxZ = -Infinity;
+  for (const other of laid) {
+    if (Math.abs(other.max.y - unit.min.y) > joint + BED_TOLERANCE) continue;
+    const overlapMinX = Math.max(unit.min.x, other.min.x);
+    const overlapMaxX = Math.min(unit.max.x, other.max.x);
+    const overlapMinZ = Math.max(unit.min.z, other.min.z);
+    const overlapMaxZ = Math.min(unit.max.z, other.max.z);
+    if (overlapMaxX <= overlapMinX || overlapMaxZ <= overlapMinZ) continue;
+    minX = Math.min(minX, overlapMinX);
+    maxX = Math.max(maxX, overlapMaxX);
+    minZ = Math.min(minZ, overlapMinZ);
+    maxZ = Math.max(maxZ, overlapMaxZ);
+  }
+  const { x, z } = unit.position;
+  return x >= minX && x <= maxX && z >= minZ && z <= maxZ;
+}
+
+// Whether a shell brick touches laid work lower down, which it can lean on while the mortar grabs
+function leansOnLaidWork(unit: Unit, laid: Unit[], joint: number): boolean {
+  const gap = joint + BED_TOLERANCE;
+  return laid.some(other =>
+    other.position.y < unit.position.y &&
+    other.min.x <= unit.max.x + gap && other.max.x >= unit.min.x - gap &&
+    other.min.y <= unit.max.y + gap && other.max.y >= unit.min.y - gap &&
+    other.min.z <= unit.max.z + gap && other.max.z >= unit.min.z - gap
+  );
+}
+
+export function planBuildOrder(
+  paths: ConstructionPath[],
+  brickType: BrickTypeKey,
+  options: Partial<BuildOrderOptions> = {}
+): BuildPlan {
+  const settings = { ...defaultBuildOrderOptions, ...options };
+  if (settings.leadCourses < 1 || settings.layingRate <= 0) {
+    throw new Error('Leads need at least one course and the laying rate must be positive');
+  }
+
+  const joint = brickTypes[brickType].joint.jointThickness;
+  const module = getModuleSize(brickType);
+  const liftCourses = Math.max(1, Math.floor(settings.maxLiftHeight / module.height));
+  const units = collectUnits(paths, brickType, settings.leadCourses);
+  const groundY = units.reduce((lowest, unit) => Math.min(lowest, unit.min.y), Infinity);
+  const topLevel = units.reduce((top, unit) => Math.max(top, unit.level), -1);
+  const warnings: string[] = [];
+
+  const steps: BuildStep[] = [];
+  const laid: Unit[] = [];
+  const isLaid = new Set<Unit>();
+  const laidByLevel = new Map<number, Unit[]>();
+  const propped = new Set<Unit>();
+  const struck = new Set<number>(); // paths whose supports have come out
+  const remaining = paths.map((_, i) => units.filter(unit => unit.pathIndex === i).length);
+  const strikes: Array<{ pathIndex: number; at: number }> = [];
+  let time = 0;
+
+  const label = (pathIndex: number) => `${paths[pathIndex].constructionType} ${pathIndex + 1}`;
+  const push = (step: Omit<BuildStep, 'number'>) => steps.push({ number: steps.length + 1, ...step });
+
+  const beneath = (unit: Unit) => [unit.level - 2, unit.level - 1, unit.level]
+    .flatMap(level => laidByLevel.get(level) ?? []);
+
+  const place = (unit: Unit, phase: 'lead' | 'fill', temporarySupport: boolean) => {
+    laid.push(unit);
+    isLaid.add(unit);
+    laidByLevel.set(unit.level, [...(laidByLevel.get(unit.level) ?? []), unit]);
+    if (temporarySupport) propped.add(unit);
+
+    const what = unit.kind === 'lintel' ? 'Set lintel' : 'Lay brick';
+    const where = unit.kind === 'lintel' ? `over opening ${unit.brickIndex + 1}` : `${unit.brickIndex + 1}`;
+    const notes = [
+      phase === 'lead' && unit.kind === 'lay' ? 'corner lead' : null,
+      temporarySupport ? ('centring' in paths[unit.pathIndex] || paths[unit.pathIndex].constructionType === 'arch' ? 'on centring' : 'propped') : null
+    ].filter(Boolean);
+    push({
+      kind: unit.kind,
+      time,
+      pathIndex: unit.pathIndex,
+      brickIndex: unit.brickIndex,
+      position: unit.position,
+      rotation: unit.rotation,
+      size: unit.size,
+      level: unit.level,
+      phase,
+      temporarySupport,
+      waitHours: 0,
+      description: `${what} ${where} of ${label(unit.pathIndex)}, course ${unit.level + 1}` +
+        (notes.length > 0 ? ` (${notes.join(', ')})` : '')
+    });
+    if (unit.kind === 'lay') time += 1 / settings.layingRate;
+
+    remaining[unit.pathIndex]--;
+    if (remaining[unit.pathIndex] === 0 && [...propped].some(other => other.pathIndex === unit.pathIndex)) {
+      strikes.push({ pathIndex: unit.pathIndex, at: time + settings.strikeTime });
+    }
+  };
+
+  // Lay a batch in order; bricks that cannot stand yet wait for the rest of the batch, then go on props
+  const layBatch = (batch: Unit[], phase: 'lead' | 'fill', allowSupport: boolean): Unit[] => {
+    const stands = (unit: Unit) => unit.leansOnCourse
+      ? isBedded(unit, beneath(unit), groundY, joint) || leansOnLaidWork(unit, beneath(unit), joint)
+      : isBedded(unit, beneath(unit), groundY, joint);
+
+    let pending = batch;
+    let progress = true;
+    while (pending.length > 0 && progress) {
+      const waiting: Unit[] = [];
+      for (const unit of pending) {
+        if (stands(unit)) place(unit, phase, false);
+        else waiting.push(unit);
+      }
+      progress = waiting.length < pending.length;
+      pending = waiting;
+    }
+    if (!allowSupport) return pending;
+
+    for (const unit of pending) {
+      if (unit.kind === 'lay' && !needsTemporarySupport(paths[unit.pathIndex])) {
+        warnings.push(`Brick ${unit.brickIndex + 1} of ${label(unit.pathIndex)} has nothing under it and needs propping`);
+      }
+      place(unit, phase, true);
+    }
+    return [];
+  };
+
+  const strikeDue = () => {
+    for (const strike of strikes.filter(s => s.at <= time)) {
+      push({
+        kind: 'strike',
+        time,
+        pathIndex: strike.pathIndex,
+        brickIndex: null,
+        position: null,
+        rotation: null,
+        size: null,
+        level: 0,
+        phase: null,
+        temporarySupport: false,
+        waitHours: 0,
+        description: `Strike the temporary supports under ${label(strike.pathIndex)}`
+      });
+      strikes.splice(strikes.indexOf(strike), 1);
+      struck.add(strike.pathIndex);
+    }
+  };
+
+  const verify = (liftNumber: number) => {
+    if (!settings.verifyWithPhysics) return;
+    // Bricks still on their supports are held in place
+    const bodies: PhysicsBodyInput[] = createBrickBodies(laid.map((unit, i) => ({
+      id: `${i}`,
+      position: unit.position,
+      rotation: unit.rotation,
+      brickType,
+      size: unit.size
+    }))).map((body, i) => ({ ...body, isStatic: propped.has(laid[i]) && !struck.has(laid[i].pathIndex) }));
+    const { unstable } = findToppledBricks(bodies, [], { jointThickness: joint, groundY: groundY - joint / 2 });
+    if (unstable.length > 0) {
+      warnings.push(`${unstable.length} bricks moved in the simulation after lift ${liftNumber}; check the order by hand`);
+    }
+  };
+
+  let lifts = 0;
+  for (let liftStart = 0; liftStart <= topLevel; liftStart += liftCourses) {
+    const liftEnd = Math.min(topLevel, liftStart + liftCourses - 1);
+    lifts++;
+
+    for (let level = liftStart; level <= liftEnd; level++) {
+      // A new block of courses starts with its leads
+      if (level % settings.leadCourses === 0 || level === liftStart) {
+        const block = level - (level % settings.leadCourses);
+        const leads = units
+          .filter(unit => unit.lead === block && unit.level >= level && unit.level <= liftEnd && !isLaid.has(unit))
+          .sort((a, b) => a.level - b.level || a.pathIndex - b.pathIndex || a.order - b.order);
+        layBatch(leads, 'lead', false);
+      }
+
+      const course = units
+        .filter(unit => unit.level === level && !isLaid.has(unit))
+        .sort((a, b) => a.pathIndex - b.pathIndex || a.order - b.order);
+      layBatch(course, 'fill', true);
+    }
+
+    verify(lifts);
+    if (liftEnd < topLevel || strikes.length > 0) {
+      const next = liftEnd < topLevel ? 'building higher' : 'striking';
+      push({
+        kind: 'cure',
+        time,
+        pathIndex: null,
+        brickIndex: null,
+        position: null,
+        rotation: null,
+        size: null,
+        level: liftEnd,
+        phase: null,
+        temporarySupport: false,
+        waitHours: settings.curingTime,
+        description: `Let lift ${lifts} cure for ${settings.curingTime} h before ${next}`
+      });
+      time += settings.curingTime;
+    }
+    strikeDue();
+  }
+
+  // Supports still in place wait out their time, in whole hours; those falling due close together come out in one visit
+  while (strikes.length > 0) {
+    const earliest = strikes.reduce((first, strike) => Math.min(first, strike.at), Infinity);
+    const latest = strikes
+      .filter(strike => strike.at < earliest + STRIKE_WINDOW)
+      .reduce((last, strike) => Math.max(last, strike.at), earliest);
+    const wait = Math.ceil(latest - time);
+    push({
+      kind: 'cure',
+      time,
+      pathIndex: null,
+      brickIndex: null,
+      position: null,
+      rotation: null,
+      size: null,
+      level: topLevel,
+      phase: null,
+      temporarySupport: false,
+      waitHours: wait,
+      description: `Wait ${wait} h before striking temporary supports`
+    });
+    time += wait;
+    strikeDue();
+  }
+
+  return {
+    steps,
+    lifts,
+    totalBricks: units.filter(unit => unit.kind === 'lay').length,
+    temporarySupports: [...propped].filter(unit => unit.kind === 'lay').length,
+    duration: time,
+    warnings
+  };
+}
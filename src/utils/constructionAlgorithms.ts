@@ -1,5 +1,13 @@
-import type { Position3D, BrickTypeKey, Anchor, ConstructionType } from '../types';
-import { brickTypes } from './brickTypes';
+import type { Position3D, BrickTypeKey, Anchor, AnchorPurpose, ConstructionType, BrickSize } from '../types';
+import { brickTypes, calculateToleranceStack, getModuleSize, type ToleranceStackReport } from './brickTypes';
+import { defaultWallOptions, generateWall, mirrorOpenings, wallThickness, type WallOpening, type WallOptions, type WallPath } from './wallGenerator';
+import { generateArch, type ArchOptions } from './archGenerator';
+import { generateDome, generateVault, type DomeOptions, type VaultOptions } from './vaultGenerator';
+import { analyzeEmbodiedCarbon, type EmbodiedCarbonOptions, type EmbodiedCarbonReport } from './embodiedCarbon';
+import { analyzeThermalPerformance, type ThermalOptions, type ThermalReport } from './thermalModel';
+import { analyzeFloodExposure, type FloodHazardOptions, type FloodReport } from './floodExposure';
+import { analyzeLateralLoads, type LateralLoadOptions, type LateralLoadReport } from './lateralLoad';
+import { countJunctionCuts, planJunction, removeDuplicateBricks, type JunctionEnd, type JunctionPlan, type JunctionReport } from './junctionBonding';
 
 export interface ConstructionPath {
   start: Position3D;
@@ -8,14 +16,46 @@ export interface ConstructionPath {
   brickRotations: Position3D[];
   totalBricks: number;
   constructionType: ConstructionType;
+  courseIndices?: number[]; // course of each brick, for generators that lay whole courses
+  brickSizes?: BrickSize[]; // actual size of each brick when some are cut
+  toleranceReport?: ToleranceStackReport; // where the last brick lands relative to the end anchor
 }
 
 export interface StructuralNode {
   position: Position3D;
   anchor: Anchor;
   connections: StructuralNode[];
-  supportCapacity: number;
   isFoundation: boolean;
+  isSupported: boolean; // carried back to a foundation through the network
+}
+
+// Why an edge was accepted ('connected', 'supported') or rejected
+export type EdgeReason = 'connected' | 'supported' | 'too-close' | 'too-far' | 'incompatible' | 'unsupported';
+
+// Plain-data form of the network, with every anchor pair considered
+export interface StructuralGraphNode {
+  id: string;
+  name: string;
+  purpose: AnchorPurpose;
+  constructionType: ConstructionType;
+  position: Position3D;
+  isFoundation: boolean;
+  isSupported: boolean;
+}
+
+export interface StructuralGraphEdge {
+  from: string;
+  to: string;
+  distance: number;
+  requiresSupport: boolean;
+  accepted: boolean;
+  reason: EdgeReason;
+  detail: string;
+}
+
+export interface StructuralGraph {
+  nodes: StructuralGraphNode[];
+  edges: StructuralGraphEdge[];
 }
 
 export interface ConstructionRule {
@@ -23,7 +63,16 @@ export interface ConstructionRule {
   maxDistance: number;
   requiredSupport: boolean;
   allowedTypes: ConstructionType[];
-  brickPattern: 'linear' | 'staggered' | 'arch' | 'column';
+  brickPattern: 'linear' | 'staggered' | 'arch' | 'column' | 'vault' | 'dome';
+}
+
+// Per-pattern settings passed through to the generators
+export interface LayoutOptions {
+  wall?: Partial<WallOptions>;
+  arch?: Partial<ArchOptions>;
+  vault?: Partial<VaultOptions>;
+  dome?: Partial<DomeOptions>;
+  openings?: Record<string, WallOpening[]>; // per wall, keyed by "<start anchor name>-<end anchor name>"
 }
 
 // Construction rules based on structural engineering principles
@@ -39,7 +88,7 @@ export const constructionRules: Record<ConstructionType, ConstructionRule> = {
     minDistance: 0.5,
     maxDistance: 8.0,
     requiredSupport: true,
-    allowedTypes: ['wall', 'beam', 'arch'],
+    allowedTypes: ['wall', 'beam', 'arch', 'vault', 'dome'],
     brickPattern: 'staggered'
   },
   column: {
@@ -62,9 +111,28 @@ export const constructionRules: Record<ConstructionType, ConstructionRule> = {
     requiredSupport: true,
     allowedTypes: ['wall'],
     brickPattern: 'arch'
+  },
+  // Vault anchors sit on opposite walls at the springing line; the distance is the span
+  vault: {
+    minDistance: 1.5,
+    maxDistance: 5.0,
+    requiredSupport: true,
+    allowedTypes: ['vault'],
+    brickPattern: 'vault'
+  },
+  // Dome anchors form a ring on the walls; any two of them are at most a diameter apart
+  dome: {
+    minDistance: 0.5,
+    maxDistance: 6.0,
+    requiredSupport: true,
+    allowedTypes: ['dome'],
+    brickPattern: 'dome'
   }
 };
 
+// Shell roofs are generated as a whole rather than as a run between two anchors
+const SHELL_TYPES: ConstructionType[] = ['vault', 'dome'];
+
 // Calculate distance between two 3D points
 export function calculateDistance(point1: Position3D, point2: Position3D): number {
   return Math.sqrt(
@@ -90,7 +158,8 @@ export function calculateLinearPath(
   start: Position3D,
   end: Position3D,
   brickType: BrickTypeKey,
-  constructionType: ConstructionType = 'wall'
+  constructionType: ConstructionType = 'wall',
+  layoutOptions: LayoutOptions = {}
 ): ConstructionPath {
   const brick = brickTypes[brickType];
   const distance = calculateDistance(start, end);
@@ -101,6 +170,23 @@ export function calculateLinearPath(
     throw new Error(`Construction distance ${distance.toFixed(2)}m outside allowed range (${rule.minDistance}-${rule.maxDistance}m)`);
   }
 
+  // Bonded patterns are laid course by course over the whole wall face
+  if (rule.brickPattern === 'staggered') {
+    return generateWall(start, end, brickType, layoutOptions.wall, constructionType);
+  }
+
+  // Arches are voussoir rings springing from the two anchors
+  if (rule.brickPattern === 'arch') {
+    return generateArch(start, end, brickType, layoutOptions.arch, constructionType);
+  }
+
+  if (rule.brickPattern === 'vault') {
+    return generateVault(start, end, brickType, layoutOptions.vault, constructionType);
+  }
+  if (rule.brickPattern === 'dome') {
+    throw new Error('Domes are generated from a ring of anchors, not between two');
+  }
+
   // Calculate direction vector
   const direction = normalize({
     x: end.x - start.x,
@@ -108,15 +194,18 @@ export function calculateLinearPath(
     z: end.z - start.z
   });
 
-  // Determine brick spacing based on type and pattern
-  const brickSpacing = rule.brickPattern === 'staggered' ? brick.size.width * 0.8 : brick.size.width;
-  const numBricks = Math.floor(distance / brickSpacing);
+  // Lay bricks at the coordinated module (unit + joint), starting flush with the start anchor
+  const module = getModuleSize(brickType);
+  const isColumn = rule.brickPattern === 'column';
+  const unitLength = isColumn ? brick.size.height : brick.size.width;
+  const modulePitch = isColumn ? module.height : module.width;
+  const numBricks = Math.max(1, Math.floor((distance + brick.joint.jointThickness) / modulePitch));
   
   const brickPositions: Position3D[] = [];
   const brickRotations: Position3D[] = [];
 
   for (let i = 0; i < numBricks; i++) {
-    const progress = i / Math.max(numBricks - 1, 1);
+    const progress = Math.min(1, (i * modulePitch + unitLength / 2) / distance);
     
     // Base position along the path
     const basePosition: Position3D = {
@@ -126,33 +215,18 @@ export function calculateLinearPath(
     };
 
     // Apply pattern-specific adjustments
-    let adjustedPosition = basePosition;
-    let rotation = { x: 0, y: 0, z: 0 };
+    const adjustedPosition = basePosition;
+    const rotation = { x: 0, y: 0, z: 0 };
 
     switch (rule.brickPattern) {
-      case 'staggered':
-        // Alternate brick heights for better structural integrity
-        adjustedPosition.y += (i % 2) * brick.size.height * 0.5;
-        break;
-      
       case 'column':
         // Stack bricks vertically
-        adjustedPosition.y = start.y + i * brick.size.height;
-        break;
-      
-      case 'arch':
-        // Create curved arch pattern
-        const archHeight = distance * 0.2; // 20% of span
-        const archProgress = progress - 0.5; // Center the arch
-        adjustedPosition.y += archHeight * (1 - 4 * archProgress * archProgress);
-        rotation.z = Math.atan2(direction.y, direction.x);
+        adjustedPosition.y = start.y + i * modulePitch + unitLength / 2;
         break;
     }
 
-    // Calculate rotation to align with construction direction
-    if (rule.brickPattern !== 'arch') {
-      rotation.y = Math.atan2(direction.x, direction.z);
-    }
+    // Turn the brick's length (local X) along the construction direction
+    rotation.y = Math.atan2(-direction.z, direction.x);
 
     brickPositions.push(adjustedPosition);
     brickRotations.push(rotation);
@@ -164,74 +238,119 @@ export function calculateLinearPath(
     brickPositions,
     brickRotations,
     totalBricks: numBricks,
-    constructionType
+    constructionType,
+    toleranceReport: calculateToleranceStack(brick.joint, new Array<number>(numBricks).fill(unitLength), distance)
   };
 }
 
 // Advanced structural analysis for multi-anchor construction
 export function createStructuralNetwork(anchors: Anchor[]): StructuralNode[] {
-  const nodes: StructuralNode[] = anchors.map(anchor => ({
-    position: anchor.position,
-    anchor,
+  const graph = buildStructuralGraph(anchors);
+  const order = canonicalOrder(anchors);
+  const nodes = new Map<string, StructuralNode>(graph.nodes.map((node, i) => [node.id, {
+    position: node.position,
+    anchor: anchors[order[i]],
     connections: [],
-    supportCapacity: calculateSupportCapacity(anchor),
-    isFoundation: anchor.purpose === 'foundation' || anchor.position.y <= 0.1
-  }));
+    isFoundation: node.isFoundation,
+    isSupported: node.isSupported
+  }]));
+
+  for (const edge of graph.edges) {
+    if (!edge.accepted) continue;
+    const from = nodes.get(edge.from)!;
+    const to = nodes.get(edge.to)!;
+    from.connections.push(to);
+    to.connections.push(from);
+  }
+
+  return [...nodes.values()];
+}
+
+// Same anchors in any order give the same graph: nodes are sorted by name, then position and type
+function compareAnchors(a: Anchor, b: Anchor): number {
+  const text = (p: string, q: string) => (p < q ? -1 : p > q ? 1 : 0);
+  return text(a.name, b.name) ||
+    a.position.x - b.position.x ||
+    a.position.y - b.position.y ||
+    a.position.z - b.position.z ||
+    text(a.purpose, b.purpose) ||
+    text(a.constructionType, b.constructionType);
+}
+
+// Indices into anchors, in graph order
+function canonicalOrder(anchors: Anchor[]): number[] {
+  return anchors.map((_, i) => i).sort((a, b) => compareAnchors(anchors[a], anchors[b]) || a - b);
+}
+
+export function buildStructuralGraph(anchors: Anchor[]): StructuralGraph {
+  const order = canonicalOrder(anchors);
+  const nodes: StructuralGraphNode[] = order.map((index, i) => {
+    const anchor = anchors[index];
+    return {
+      id: `node-${i}`,
+      name: anchor.name,
+      purpose: anchor.purpose,
+      constructionType: anchor.constructionType,
+      position: { ...anchor.position },
+      isFoundation: anchor.purpose === 'foundation' || anchor.position.y <= 0.1,
+      isSupported: false
+    };
+  });
 
-  // Calculate optimal connections between nodes
+  // Candidate edges depend only on the two anchors
+  const edges: StructuralGraphEdge[] = [];
   for (let i = 0; i < nodes.length; i++) {
     for (let j = i + 1; j < nodes.length; j++) {
-      const node1 = nodes[i];
-      const node2 = nodes[j];
-      const distance = calculateDistance(node1.position, node2.position);
-
-      // Check if connection is structurally viable
-      if (canConnect(node1, node2, distance)) {
-        node1.connections.push(node2);
-        node2.connections.push(node1);
-      }
+      const distance = calculateDistance(nodes[i].position, nodes[j].position);
+      const rejection = connectionLimit(anchors[order[i]], anchors[order[j]], distance);
+      const rule1 = constructionRules[nodes[i].constructionType];
+      const rule2 = constructionRules[nodes[j].constructionType];
+      edges.push({
+        from: nodes[i].id,
+        to: nodes[j].id,
+        distance,
+        requiresSupport: rule1.requiredSupport || rule2.requiredSupport,
+        accepted: false,
+        reason: rejection?.reason ?? 'unsupported',
+        detail: rejection?.detail ?? 'Neither anchor is carried back to a foundation'
+      });
     }
   }
 
-  return nodes;
-}
-
-// Calculate support capacity based on anchor type and position
-function calculateSupportCapacity(anchor: Anchor): number {
-  let capacity = 100; // Base capacity
-
-  switch (anchor.purpose) {
-    case 'foundation':
-      capacity = 1000; // Very high for foundations
-      break;
-    case 'column-base':
-      capacity = 500;
-      break;
-    case 'wall-corner':
-      capacity = 300;
-      break;
-    case 'height-marker':
-      capacity = 200;
-      break;
-    case 'roof-point':
-      capacity = 150;
-      break;
-    case 'beam-junction':
-      capacity = 400;
-      break;
+  // Support spreads out from the foundations over accepted edges until nothing changes
+  const supported = new Set(nodes.filter(node => node.isFoundation).map(node => node.id));
+  const candidates = edges.filter(edge => edge.reason === 'unsupported');
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const edge of candidates) {
+      const carried = supported.has(edge.from) || supported.has(edge.to);
+      if (!edge.accepted && (!edge.requiresSupport || carried)) {
+        edge.accepted = true;
+        changed = true;
+      }
+      if (edge.accepted && carried && !(supported.has(edge.from) && supported.has(edge.to))) {
+        supported.add(edge.from);
+        supported.add(edge.to);
+        changed = true;
+      }
+    }
   }
 
-  // Reduce capacity for elevated positions (simulating gravity effects)
-  capacity *= Math.max(0.1, 1 - anchor.position.y * 0.1);
+  for (const node of nodes) {
+    node.isSupported = supported.has(node.id);
+  }
+  for (const edge of candidates) {
+    if (!edge.accepted) continue;
+    edge.reason = edge.requiresSupport ? 'supported' : 'connected';
+    edge.detail = edge.requiresSupport ? 'Carried back to a foundation' : 'Self-supporting connection';
+  }
 
-  return capacity;
+  return { nodes, edges };
 }
 
-// Check if two nodes can be structurally connected
-function canConnect(node1: StructuralNode, node2: StructuralNode, distance: number): boolean {
-  const anchor1 = node1.anchor;
-  const anchor2 = node2.anchor;
-  
+// Why two anchors cannot be joined, before support is considered; null if they can be
+function connectionLimit(anchor1: Anchor, anchor2: Anchor, distance: number): { reason: EdgeReason; detail: string } | null {
   // Get construction rules for both anchor types
   const rule1 = constructionRules[anchor1.constructionType];
   const rule2 = constructionRules[anchor2.constructionType];
@@ -239,9 +358,12 @@ function canConnect(node1: StructuralNode, node2: StructuralNode, distance: numb
   // Check distance constraints
   const minDistance = Math.min(rule1.minDistance, rule2.minDistance);
   const maxDistance = Math.max(rule1.maxDistance, rule2.maxDistance);
-  
-  if (distance < minDistance || distance > maxDistance) {
-    return false;
+
+  if (distance < minDistance) {
+    return { reason: 'too-close', detail: `${distance.toFixed(2)} m is below the ${minDistance} m minimum` };
+  }
+  if (distance > maxDistance) {
+    return { reason: 'too-far', detail: `${distance.toFixed(2)} m is beyond the ${maxDistance} m maximum` };
   }
 
   // Check type compatibility
@@ -249,30 +371,33 @@ function canConnect(node1: StructuralNode, node2: StructuralNode, distance: numb
                     rule2.allowedTypes.includes(anchor1.constructionType);
 
   if (!compatible) {
-    return false;
+    return { reason: 'incompatible', detail: `A ${anchor1.constructionType} cannot be joined to a ${anchor2.constructionType}` };
   }
 
-  // Check structural support requirements
-  if (rule1.requiredSupport || rule2.requiredSupport) {
-    // At least one anchor must be foundation or have foundation support
-    const hasSupport = node1.isFoundation || node2.isFoundation ||
-                      node1.connections.some(n => n.isFoundation) ||
-                      node2.connections.some(n => n.isFoundation);
-    
-    if (!hasSupport) {
-      return false;
-    }
-  }
+  return null;
+}
 
-  return true;
+export interface ConstructionPlan {
+  paths: ConstructionPath[];
+  junctions: JunctionReport[];
 }
 
 // Generate optimal construction sequence for multiple paths
 export function generateConstructionSequence(
   network: StructuralNode[],
-  brickType: BrickTypeKey
+  brickType: BrickTypeKey,
+  layoutOptions: LayoutOptions = {}
 ): ConstructionPath[] {
-  const paths: ConstructionPath[] = [];
+  return generateConstructionPlan(network, brickType, layoutOptions).paths;
+}
+
+// Construction sequence plus how the walls are bonded where they meet
+export function generateConstructionPlan(
+  network: StructuralNode[],
+  brickType: BrickTypeKey,
+  layoutOptions: LayoutOptions = {}
+): ConstructionPlan {
+  const edges: Array<{ node: StructuralNode; other: StructuralNode; pathType: ConstructionType; pathKey: string; reverseKey: string }> = [];
   const processed = new Set<string>();
 
   // Sort nodes by structural priority (foundations first, then by height)
@@ -292,159 +417,228 @@ export function generateConstructionSequence(
         continue;
       }
 
-      try {
-        const path = calculateLinearPath(
-          node.position,
-          connectedNode.position,
-          brickType,
-          node.anchor.constructionType
-        );
-        paths.push(path);
-        processed.add(pathKey);
-      } catch (error) {
-        console.warn(`Could not create path between ${node.anchor.name} and ${connectedNode.anchor.name}:`, error);
+      // Dome rings are handled below; a wall running up to a shell anchor is built as a wall
+      const type = node.anchor.constructionType;
+      const otherType = connectedNode.anchor.constructionType;
+      if (type === 'dome' && otherType === 'dome') {
+        continue;
       }
+      const pathType = SHELL_TYPES.includes(type) && otherType !== type ? otherType : type;
+      edges.push({ node, other: connectedNode, pathType, pathKey, reverseKey });
+      processed.add(pathKey);
     }
   }
 
-  return paths;
-}
-
-// Physics simulation for brick stability
-export interface BrickPhysics {
-  position: Position3D;
-  velocity: Position3D;
-  acceleration: Position3D;
-  mass: number;
-  isStable: boolean;
-  supportedBy: string[];
-}
+  // Walls meeting at an anchor interlock in alternate courses
+  const wallSettings = { ...defaultWallOptions, ...layoutOptions.wall };
+  const joint = wallSettings.mortarJoint ?? brickTypes[brickType].joint.jointThickness;
+  const thickness = wallThickness(brickType, wallSettings.bond, joint);
+  const wallEdges = edges.filter(edge => constructionRules[edge.pathType].brickPattern === 'staggered');
+  const extensions = new Map<string, { start?: number[]; end?: number[] }>();
+  const junctions: Array<{ node: StructuralNode; ends: JunctionEnd[]; plan: JunctionPlan }> = [];
+  for (const node of sortedNodes) {
+    const ends: JunctionEnd[] = wallEdges
+      .filter(edge => edge.node === node || edge.other === node)
+      .map(edge => {
+        const atStart = edge.node === node;
+        const far = atStart ? edge.other : edge.node;
+        const dx = far.position.x - node.position.x;
+        const dz = far.position.z - node.position.z;
+        const length = Math.hypot(dx, dz) || 1;
+        return {
+          pathKey: edge.pathKey,
+          atStart,
+          direction: { x: dx / length, z: dz / length },
+          thickness,
+          baseY: Math.min(node.position.y, far.position.y)
+        };
+      });
+    if (ends.length < 2) continue;
+
+    const plan = planJunction(ends, joint);
+    ends.forEach((end, i) => {
+      const entry = extensions.get(end.pathKey) ?? {};
+      entry[end.atStart ? 'start' : 'end'] = plan.extensions[i];
+      extensions.set(end.pathKey, entry);
+    });
+    junctions.push({ node, ends, plan });
+  }
 
-export function simulateBrickPhysics(
-  bricks: Array<{ id: string; position: Position3D; brickType: BrickTypeKey }>,
-  _deltaTime: number = 1/60
-): Record<string, BrickPhysics> {
-  const physics: Record<string, BrickPhysics> = {};
-  const gravity = { x: 0, y: -9.81, z: 0 };
-
-  // Initialize physics for each brick
-  for (const brick of bricks) {
-    const brickTypeData = brickTypes[brick.brickType];
-    const volume = brickTypeData.size.width * brickTypeData.size.height * brickTypeData.size.depth;
-    const density = 2000; // kg/m³ for typical construction materials
-    
-    physics[brick.id] = {
-      position: { ...brick.position },
-      velocity: { x: 0, y: 0, z: 0 },
-      acceleration: { ...gravity },
-      mass: volume * density,
-      isStable: false,
-      supportedBy: []
+  const paths: ConstructionPath[] = [];
+  const pathKeys: string[] = [];
+  for (const { node, other, pathType, pathKey, reverseKey } of edges) {
+    // Openings may be keyed from either end of the wall
+    const reversedOpenings = layoutOptions.openings?.[reverseKey];
+    const openings = layoutOptions.openings?.[pathKey] ?? (reversedOpenings && mirrorOpenings(
+      reversedOpenings,
+      Math.hypot(other.position.x - node.position.x, other.position.z - node.position.z)
+    ));
+    const ends = extensions.get(pathKey);
+    const wall: Partial<WallOptions> = {
+      ...layoutOptions.wall,
+      ...(openings && { openings }),
+      ...(ends?.start && { startExtensions: ends.start }),
+      ...(ends?.end && { endExtensions: ends.end })
     };
+
+    try {
+      paths.push(calculateLinearPath(node.position, other.position, brickType, pathType, { ...layoutOptions, wall }));
+      pathKeys.push(pathKey);
+    } catch (error) {
+      console.warn(`Could not create path between ${node.anchor.name} and ${other.anchor.name}:`, error);
+    }
   }
 
-  // Calculate support relationships
-  for (const brick of bricks) {
-    const brickPhysics = physics[brick.id];
-    const brickSize = brickTypes[brick.brickType].size;
-    
-    // Find bricks below this one that can provide support
-    for (const otherBrick of bricks) {
-      if (brick.id === otherBrick.id) continue;
-      
-      const otherSize = brickTypes[otherBrick.brickType].size;
-      
-      // Check if other brick is below and overlapping
-      const yDiff = brick.position.y - otherBrick.position.y;
-      const expectedGap = (brickSize.height + otherSize.height) / 2;
-      
-      if (yDiff > 0 && Math.abs(yDiff - expectedGap) < 0.1) {
-        // Check horizontal overlap
-        const xOverlap = Math.abs(brick.position.x - otherBrick.position.x) < 
-                        (brickSize.width + otherSize.width) / 2;
-        const zOverlap = Math.abs(brick.position.z - otherBrick.position.z) < 
-                        (brickSize.depth + otherSize.depth) / 2;
-        
-        if (xOverlap && zOverlap) {
-          brickPhysics.supportedBy.push(otherBrick.id);
+  // Paths sharing an anchor must not both lay a brick in the same place
+  const brick = brickTypes[brickType].size;
+  const reach = brick.width + thickness;
+  const duplicates = new Map<StructuralNode, number>();
+  for (const node of sortedNodes) {
+    const touching = paths
+      .map((path, i) => ({ path, i }))
+      .filter(({ i }) => edges.some(edge => edge.pathKey === pathKeys[i] && (edge.node === node || edge.other === node)));
+    if (touching.length < 2) continue;
+
+    const { paths: trimmed, removed } = removeDuplicateBricks(
+      touching.map(({ path }) => path),
+      node.position,
+      reach,
+      brick,
+      brickTypes[brickType].joint.tolerance
+    );
+    touching.forEach(({ i }, k) => {
+      paths[i] = trimmed[k];
+    });
+    duplicates.set(node, removed);
+  }
+
+  const junctionReports: JunctionReport[] = junctions.map(({ node, ends, plan }) => ({
+    anchorName: node.anchor.name,
+    position: node.position,
+    kind: plan.kind,
+    walls: ends.map(end => end.pathKey),
+    cutBricks: ends.reduce((sum, end) => {
+      const path = paths[pathKeys.indexOf(end.pathKey)];
+      return path ? sum + countJunctionCuts(path as WallPath, end.atStart, reach) : sum;
+    }, 0),
+    duplicatesRemoved: duplicates.get(node) ?? 0,
+    warnings: plan.warnings
+  }));
+
+  // Each connected group of dome anchors is one ring; domes go last, once their walls are up
+  const grouped = new Set<StructuralNode>();
+  for (const node of sortedNodes) {
+    if (node.anchor.constructionType !== 'dome' || grouped.has(node)) continue;
+
+    const ring: StructuralNode[] = [];
+    const queue = [node];
+    grouped.add(node);
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      ring.push(current);
+      for (const next of current.connections) {
+        if (next.anchor.constructionType === 'dome' && !grouped.has(next)) {
+          grouped.add(next);
+          queue.push(next);
         }
       }
     }
 
-    // Check if brick is on ground (foundation support)
-    if (brick.position.y <= brickSize.height / 2 + 0.1) {
-      brickPhysics.supportedBy.push('ground');
-    }
-
-    // Brick is stable if it has support
-    brickPhysics.isStable = brickPhysics.supportedBy.length > 0;
-    
-    // If stable, cancel downward velocity and acceleration
-    if (brickPhysics.isStable) {
-      brickPhysics.velocity.y = Math.max(0, brickPhysics.velocity.y);
-      brickPhysics.acceleration.y = 0;
+    try {
+      paths.push(generateDome(ring.map(n => n.position), brickType, layoutOptions.dome));
+    } catch (error) {
+      console.warn(`Could not create dome from ${ring.map(n => n.anchor.name).join(', ')}:`, error);
     }
   }
 
-  return physics;
+  return { paths, junctions: junctionReports };
 }
 
 // Climate resilience analysis for construction
 export interface ClimateAnalysis {
-  thermalMass: number;
-  windResistance: number;
-  moistureResistance: number;
-  sustainabilityScore: number;
+  thermalMass: number; // 0-100: share of the outdoor daily swing the walls keep out
+  thermal: ThermalReport;
+  windResistance: number; // 0-100: worst lateral capacity over demand, capped at 100%
+  lateralLoad: LateralLoadReport;
+  moistureResistance: number; // 0-100: the material's water resistance, less the share of it below the wet line
+  flood: FloodReport;
+  sustainabilityScore: number; // 0-100: embodied carbon per m³ against conventional fired brickwork
+  embodiedCarbon: EmbodiedCarbonReport;
   recommendations: string[];
 }
 
+// kg CO₂e per m³ of conventional fired brickwork in cement mortar, which scores zero
+const REFERENCE_CARBON_INTENSITY = 400;
+// Share of the total above which haulage is worth reducing
+const TRANSPORT_CARBON_SHARE = 0.2;
+
 export function analyzeClimateResilience(
   paths: ConstructionPath[],
-  brickType: BrickTypeKey
+  brickType: BrickTypeKey,
+  site: Partial<LateralLoadOptions & FloodHazardOptions> = {},
+  carbon: Partial<EmbodiedCarbonOptions> = {},
+  climate: Partial<ThermalOptions> = {}
 ): ClimateAnalysis {
   const brick = brickTypes[brickType];
+  const lateralLoad = analyzeLateralLoads(paths, brickType, site);
+  const embodiedCarbon = analyzeEmbodiedCarbon(paths, brickType, carbon);
+  const thermal = analyzeThermalPerformance(paths, brickType, climate);
+  const flood = analyzeFloodExposure(paths, brickType, site);
   const analysis: ClimateAnalysis = {
     thermalMass: 0,
+    thermal,
     windResistance: 0,
+    lateralLoad,
     moistureResistance: 0,
+    flood,
     sustainabilityScore: 0,
+    embodiedCarbon,
     recommendations: []
   };
 
-  // Calculate thermal properties
-  if (brick.properties.thermal) {
-    analysis.thermalMass = 80; // High thermal mass
+  // Indoor temperature of the free-running shelter over the design day
+  if (thermal.walls.length > 0 && thermal.outdoorSwing > 0) {
+    analysis.thermalMass = Math.round(100 * Math.min(1, Math.max(0, 1 - thermal.indoorSwing / thermal.outdoorSwing)));
+  }
+  analysis.recommendations.push(...thermal.warnings);
+  if (thermal.walls.length > 0 && thermal.hoursAboveComfort > 0) {
+    analysis.recommendations.push(
+      `Indoors is too hot for ${thermal.hoursAboveComfort.toFixed(1)} h a day, peaking at ${thermal.indoorPeak.toFixed(1)} °C ` +
+      `around ${Math.round(thermal.indoorPeakHour) % 24}:00; ` +
+      'shade the walls, ventilate at night or use thicker or heavier walls'
+    );
+  } else if (analysis.thermalMass >= 50) {
     analysis.recommendations.push("Excellent thermal regulation for temperature stability");
-  } else {
-    analysis.thermalMass = 40;
   }
 
-  // Calculate structural resilience
-  const totalBricks = paths.reduce((sum, path) => sum + path.totalBricks, 0);
-  const avgPathLength = paths.reduce((sum, path) => 
-    sum + calculateDistance(path.start, path.end), 0) / paths.length;
-
-  analysis.windResistance = Math.min(100, 60 + (totalBricks / 10) - (avgPathLength * 5));
-  analysis.moistureResistance = brick.material === 'clay' ? 90 : 
-                                brick.material === 'composite' ? 70 : 
-                                brick.material === 'recycled' ? 60 : 85;
+  // Lateral stability of the wall panels under the site's wind or earthquake
+  analysis.windResistance = Math.round(100 * Math.min(1, lateralLoad.worstRatio));
+  analysis.recommendations.push(...lateralLoad.recommendations);
+  if (lateralLoad.panels.length > 0 && lateralLoad.passes) {
+    analysis.recommendations.push("Walls resist the design wind and earthquake without buttressing");
+  }
 
-  // Calculate sustainability score
-  let sustainabilityPoints = 0;
-  if (brick.properties.local) sustainabilityPoints += 20;
-  if (brick.properties.renewable) sustainabilityPoints += 25;
-  if (brick.properties.circular) sustainabilityPoints += 30;
-  if (brick.properties.lightweight) sustainabilityPoints += 15;
-  if (brick.properties.precise) sustainabilityPoints += 10;
+  // Flood and splash exposure; units that cannot take wetting lose the share that sits below the wet line
+  const exposedShare = flood.totalBricks > 0 ? flood.bricksBelowWetLine / flood.totalBricks : 0;
+  analysis.moistureResistance = Math.round(20 * flood.waterResistance * (flood.wetting === 'resistant' ? 1 : 1 - exposedShare));
+  analysis.recommendations.push(...flood.warnings, ...flood.recommendations);
 
-  analysis.sustainabilityScore = sustainabilityPoints;
+  // Sustainability from the embodied carbon of the masonry actually laid
+  analysis.sustainabilityScore = embodiedCarbon.volume > 0
+    ? Math.round(100 * Math.min(1, Math.max(0, 1 - embodiedCarbon.intensity / REFERENCE_CARBON_INTENSITY)))
+    : 0;
+  analysis.recommendations.push(...embodiedCarbon.warnings);
 
   // Generate recommendations
   if (analysis.sustainabilityScore > 70) {
     analysis.recommendations.push("Highly sustainable construction approach");
   }
-  if (brick.properties.local) {
-    analysis.recommendations.push("Using local materials reduces transportation emissions");
+  // Against the emissions alone, so stored carbon does not inflate the share
+  const emitted = embodiedCarbon.total - Math.min(0, embodiedCarbon.material);
+  if (emitted > 0 && embodiedCarbon.transport > TRANSPORT_CARBON_SHARE * emitted) {
+    analysis.recommendations.push(
+      `Transport is ${Math.round(100 * embodiedCarbon.transport / emitted)}% of the embodied carbon; source units closer to site`
+    );
   }
   if (brick.properties.circular) {
     analysis.recommendations.push("Circular economy approach supports waste reduction");
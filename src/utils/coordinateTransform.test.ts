@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { ARPose, Position3D } from '../types';
+import { applySimilarityTransform, composePoses, getMarkerNormal, solvePairCoordinateSystem } from './coordinateTransform';
+
+// A marker laid flat and facing up (local +Z to world +Y), optionally tipped about X
+function flatMarker(position: Position3D, tilt = 0): ARPose {
+  return { position, rotation: { x: -Math.PI / 2 + tilt, y: 0, z: 0 }, timestamp: 0 };
+}
+
+const primary = { x: 0, y: 0, z: 0 };
+const secondary = { x: 2, y: 0, z: 0 };
+
+describe('solvePairCoordinateSystem', () => {
+  it('reports no residual when the detections match the plan', () => {
+    const solution = solvePairCoordinateSystem(
+      { pose: flatMarker({ x: 1, y: 0, z: -1 }), projectPosition: primary },
+      { pose: flatMarker({ x: 3, y: 0, z: -1 }), projectPosition: secondary }
+    )!;
+
+    expect(solution.residual.positionRMS).toBeCloseTo(0, 9);
+    expect(solution.residual.baselineError).toBeCloseTo(0, 9);
+    expect(solution.residual.normalAngleRMS).toBeCloseTo(0, 6);
+  });
+
+  it('reports a baseline that disagrees with the plan', () => {
+    const solution = solvePairCoordinateSystem(
+      { pose: flatMarker({ x: 0, y: 0, z: 0 }), projectPosition: primary },
+      { pose: flatMarker({ x: 2.1, y: 0, z: 0 }), projectPosition: secondary }
+    )!;
+
+    expect(solution.residual.baselineError).toBeCloseTo(0.1, 9);
+    // Each marker sits half the disagreement from where a 1:1 fit places it
+    expect(solution.residual.positionRMS).toBeCloseTo(0.05, 9);
+    expect(solution.residual.scaleDeviation).toBeCloseTo(0.05, 9);
+  });
+
+  it('reports marker normals the fitted rotation cannot match', () => {
+    const solution = solvePairCoordinateSystem(
+      { pose: flatMarker(primary, 0.2), projectPosition: primary },
+      { pose: flatMarker(secondary, -0.2), projectPosition: secondary }
+    )!;
+
+    expect(solution.residual.normalAngleRMS).toBeCloseTo(0.2, 6);
+    expect(solution.residual.positionRMS).toBeCloseTo(0, 9);
+  });
+
+  it('takes the roll from the marker edges when one marker lies above the other', () => {
+    // Both markers face up along the baseline; the site is turned 90° left of the plan
+    const turned: ARPose = { position: { x: 5, y: 0, z: 0 }, rotation: { x: 0, y: Math.PI / 2, z: 0 }, timestamp: 0 };
+    const solution = solvePairCoordinateSystem(
+      { pose: composePoses(turned, flatMarker({ x: 0, y: 0, z: 0 })), projectPosition: primary },
+      { pose: composePoses(turned, flatMarker({ x: 0, y: 1.5, z: 0 })), projectPosition: { x: 0, y: 1.5, z: 0 } }
+    )!;
+
+    expect(solution).not.toBeNull();
+    const mapped = applySimilarityTransform(solution.transform, { x: 1, y: 0, z: 0 });
+    expect(mapped.x).toBeCloseTo(5, 9);
+    expect(mapped.y).toBeCloseTo(0, 9);
+    expect(mapped.z).toBeCloseTo(-1, 9);
+    expect(solution.residual.positionRMS).toBeCloseTo(0, 9);
+    expect(solution.residual.normalAngleRMS).toBeCloseTo(0, 6);
+  });
+
+  it('gives no solution for markers in the same place', () => {
+    expect(solvePairCoordinateSystem(
+      { pose: flatMarker(primary), projectPosition: primary },
+      { pose: flatMarker(primary), projectPosition: secondary }
+    )).toBeNull();
+  });
+});
+
+describe('composePoses', () => {
+  it('places a marker seen by a turned camera in world space', () => {
+    // Camera 1.5 m up, turned 90° left to look down world -X; the marker lies flat 2 m ahead of it
+    const viewer: ARPose = { position: { x: 1, y: 1.5, z: 0 }, rotation: { x: 0, y: Math.PI / 2, z: 0 }, timestamp: 0 };
+    const marker: ARPose = { ...flatMarker({ x: 0, y: -1.5, z: -2 }), timestamp: 7 };
+
+    const world = composePoses(viewer, marker);
+
+    expect(world.position.x).toBeCloseTo(-1, 9);
+    expect(world.position.y).toBeCloseTo(0, 9);
+    expect(world.position.z).toBeCloseTo(0, 9);
+    expect(world.timestamp).toBe(7);
+    expect(getMarkerNormal(world).y).toBeCloseTo(1, 9);
+  });
+});
@@ -0,0 +1,181 @@
+import type { Anchor, ARPose, Position3D, Rotation3D } from '../types';
+import {
+  addVectors,
+  cross,
+  dot,
+  eulerToRotationMatrix,
+  matrixColumn,
+  matrixFromColumns,
+  multiplyMatrix3,
+  applyMatrix3,
+  rotationMatrixToEuler,
+  scaleVector,
+  subtractVectors,
+  transposeMatrix3,
+  vectorLength,
+  type Matrix3
+} from './linearAlgebra';
+
+// Similarity transform: xr = scale · rotation · project + translation
+export interface SimilarityTransform {
+  rotation: Matrix3;
+  translation: Position3D;
+  scale: number;
+}
+
+// A detected marker together with where it was planned in project space
+export interface MarkerCorrespondence {
+  pose: ARPose;
+  projectPosition: Position3D;
+}
+
+export interface CoordinateSystemResidual {
+  positionRMS: number; // metres, in XR space, between each detected marker and where a 1:1 fit places it
+  baselineError: number; // metres, detected minus planned distance between the markers
+  normalAngleRMS: number; // radians between mapped and detected marker normals
+  scaleDeviation: number; // relative deviation from a 1:1 project-to-world scale
+}
+
+export interface CoordinateSystemSolution {
+  transform: SimilarityTransform;
+  eulerRotation: Rotation3D;
+  residual: CoordinateSystemResidual;
+}
+
+// QR anchors are printed and laid flat, facing up, unless stated otherwise
+export const DEFAULT_PROJECT_MARKER_NORMAL: Position3D = { x: 0, y: 1, z: 0 };
+// ...with their printed right-hand edge (local +X) along project +X
+export const DEFAULT_PROJECT_MARKER_AXIS: Position3D = { x: 1, y: 0, z: 0 };
+
+// A reference direction within this angle of the baseline leaves the roll about it undefined
+const MIN_REFERENCE_ANGLE = Math.PI / 18;
+
+export function identityTransform(): SimilarityTransform {
+  return {
+    rotation: eulerToRotationMatrix({ x: 0, y: 0, z: 0 }),
+    translation: { x: 0, y: 0, z: 0 },
+    scale: 1
+  };
+}
+
+export function applySimilarityTransform(transform: SimilarityTransform, point: Position3D): Position3D {
+  return addVectors(scaleVector(applyMatrix3(transform.rotation, point), transform.scale), transform.translation);
+}
+
+export function invertSimilarityTransform(transform: SimilarityTransform): SimilarityTransform {
+  const rotation = transposeMatrix3(transform.rotation);
+  return {
+    rotation,
+    translation: scaleVector(applyMatrix3(rotation, transform.translation), -1 / transform.scale),
+    scale: 1 / transform.scale
+  };
+}
+
+// Map every anchor from project space into XR space
+export function transformAnchorPositions(anchors: Anchor[], transform: SimilarityTransform): Anchor[] {
+  return anchors.map(anchor => ({
+    ...anchor,
+    position: applySimilarityTransform(transform, anchor.position)
+  }));
+}
+
+// Express a pose given relative to `parent` in the parent's own space, e.g. a camera-space marker in world space
+export function composePoses(parent: ARPose, local: ARPose): ARPose {
+  const parentRotation = eulerToRotationMatrix(parent.rotation);
+  return {
+    position: addVectors(applyMatrix3(parentRotation, local.position), parent.position),
+    rotation: rotationMatrixToEuler(multiplyMatrix3(parentRotation, eulerToRotationMatrix(local.rotation))),
+    timestamp: local.timestamp
+  };
+}
+
+// Outward normal of a marker (local +Z) from its pose
+export function getMarkerNormal(pose: ARPose): Position3D {
+  return matrixColumn(eulerToRotationMatrix(pose.rotation), 2);
+}
+
+// Right-hand edge of a marker (local +X) from its pose
+export function getMarkerAxis(pose: ARPose): Position3D {
+  return matrixColumn(eulerToRotationMatrix(pose.rotation), 0);
+}
+
+// Orthonormal frame whose first axis is `primary` and whose second axis lies towards `secondary`
+function buildFrame(primary: Position3D, secondary: Position3D): Matrix3 | null {
+  const primaryLength = vectorLength(primary);
+  if (primaryLength < 1e-9) return null;
+  const e1 = scaleVector(primary, 1 / primaryLength);
+
+  const projected = subtractVectors(secondary, scaleVector(e1, dot(secondary, e1)));
+  const projectedLength = vectorLength(projected);
+  if (projectedLength < 1e-9 || projectedLength < Math.sin(MIN_REFERENCE_ANGLE) * vectorLength(secondary)) return null;
+  const e2 = scaleVector(projected, 1 / projectedLength);
+
+  return matrixFromColumns(e1, e2, cross(e1, e2));
+}
+
+// Solve the project-to-XR similarity transform from a primary/secondary marker pair.
+// The baseline between the markers fixes yaw/pitch and scale; the marker normals resolve the roll about it.
+// Where the baseline runs along the normals (one flat marker above the other) the markers' edges do instead.
+// Returns null only for markers that coincide, or whose normals and edges both disagree too far to use.
+export function solvePairCoordinateSystem(
+  primary: MarkerCorrespondence,
+  secondary: MarkerCorrespondence,
+  projectNormal: Position3D = DEFAULT_PROJECT_MARKER_NORMAL,
+  projectAxis: Position3D = DEFAULT_PROJECT_MARKER_AXIS
+): CoordinateSystemSolution | null {
+  const projectBaseline = subtractVectors(secondary.projectPosition, primary.projectPosition);
+  const xrBaseline = subtractVectors(secondary.pose.position, primary.pose.position);
+  const projectLength = vectorLength(projectBaseline);
+  const xrLength = vectorLength(xrBaseline);
+  if (projectLength < 1e-9 || xrLength < 1e-9) return null;
+
+  const primaryNormal = getMarkerNormal(primary.pose);
+  const secondaryNormal = getMarkerNormal(secondary.pose);
+  const xrNormal = addVectors(primaryNormal, secondaryNormal);
+
+  let projectFrame = buildFrame(projectBaseline, projectNormal);
+  let xrFrame = buildFrame(xrBaseline, xrNormal);
+  if (!projectFrame || !xrFrame) {
+    projectFrame = buildFrame(projectBaseline, projectAxis);
+    xrFrame = buildFrame(xrBaseline, addVectors(getMarkerAxis(primary.pose), getMarkerAxis(secondary.pose)));
+  }
+  if (!projectFrame || !xrFrame) return null;
+
+  const rotation = multiplyMatrix3(xrFrame, transposeMatrix3(projectFrame));
+  const scale = xrLength / projectLength;
+
+  // Align the midpoints of the two markers
+  const projectCentre = scaleVector(addVectors(primary.projectPosition, secondary.projectPosition), 0.5);
+  const xrCentre = scaleVector(addVectors(primary.pose.position, secondary.pose.position), 0.5);
+  const translation = subtractVectors(xrCentre, scaleVector(applyMatrix3(rotation, projectCentre), scale));
+
+  const transform: SimilarityTransform = { rotation, translation, scale };
+
+  // Residuals. A free scale fits two positions exactly, so positions are checked against the same fit
+  // at 1:1 — marker poses are metric, and a baseline that disagrees with the plan shows up here.
+  // Normals are checked against the fitted rotation: tilt along the baseline or markers that disagree.
+  const rigid: SimilarityTransform = {
+    rotation,
+    translation: subtractVectors(xrCentre, applyMatrix3(rotation, projectCentre)),
+    scale: 1
+  };
+  const mappedNormal = applyMatrix3(rotation, projectNormal);
+  const normalLength = vectorLength(mappedNormal);
+  const angles = [primaryNormal, secondaryNormal].map(normal =>
+    Math.acos(Math.min(1, Math.max(-1, dot(normal, mappedNormal) / (vectorLength(normal) * normalLength))))
+  );
+  const positionErrors = [primary, secondary].map(marker =>
+    vectorLength(subtractVectors(applySimilarityTransform(rigid, marker.projectPosition), marker.pose.position))
+  );
+
+  return {
+    transform,
+    eulerRotation: rotationMatrixToEuler(rotation),
+    residual: {
+      positionRMS: Math.sqrt(positionErrors.reduce((sum, e) => sum + e * e, 0) / positionErrors.length),
+      baselineError: xrLength - projectLength,
+      normalAngleRMS: Math.sqrt(angles.reduce((sum, a) => sum + a * a, 0) / angles.length),
+      scaleDeviation: scale - 1
+    }
+  };
+}
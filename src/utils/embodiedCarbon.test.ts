@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeEmbodiedCarbon, compareEmbodiedCarbon } from './embodiedCarbon';
+import type { ConstructionPath } from './constructionAlgorithms';
+
+// Ten whole bricks; only the count and brick type matter to the carbon
+const origin = { x: 0, y: 0, z: 0 };
+const wall: ConstructionPath = {
+  start: origin,
+  end: origin,
+  brickPositions: Array.from({ length: 10 }, () => origin),
+  brickRotations: Array.from({ length: 10 }, () => origin),
+  totalBricks: 10,
+  constructionType: 'wall'
+};
+
+describe('analyzeEmbodiedCarbon', () => {
+  it('adds up units, mortar and transport by hand', () => {
+    const report = analyzeEmbodiedCarbon([wall], 'clay-sustainable');
+
+    // 10 × 0.25 × 0.12 × 0.15 = 0.045 m³ at 1800 kg/m³ = 81 kg, at 0.15 kg CO₂e/kg
+    expect(report.volume).toBeCloseTo(0.045, 9);
+    expect(report.material).toBeCloseTo(12.15, 9);
+    // 10 × 0.00057 m³ of joints at 2000 kg/m³ = 11.4 kg, at 0.2 kg CO₂e/kg
+    expect(report.mortar).toBeCloseTo(2.28, 9);
+    // 92.4 kg hauled 50 km at 0.0001 kg CO₂e/kg/km
+    expect(report.mass).toBeCloseTo(92.4, 9);
+    expect(report.transport).toBeCloseTo(0.462, 9);
+    expect(report.lintels).toBe(0);
+    expect(report.total).toBeCloseTo(14.892, 9);
+    expect(report.intensity).toBeCloseTo(14.892 / 0.0507, 6);
+    expect(report.elements).toHaveLength(1);
+    expect(report.elements[0].total).toBeCloseTo(report.total, 9);
+    expect(report.warnings).toEqual([]);
+  });
+
+  it('prices the same layout in each brick type and picks the lowest', () => {
+    const comparison = compareEmbodiedCarbon([wall], 'clay-sustainable', ['clay-sustainable', 'bio-composite']);
+    const [clay, bio] = comparison.reports;
+
+    // Same 0.045 m³ at 400 kg/m³ = 18 kg storing 0.1 kg CO₂e/kg, the same joints, and 29.4 kg hauled 250 km
+    expect(bio.material).toBeCloseTo(-1.8, 9);
+    expect(bio.mortar).toBeCloseTo(2.28, 9);
+    expect(bio.transport).toBeCloseTo(0.735, 9);
+    expect(bio.total).toBeCloseTo(1.215, 9);
+    expect(bio.warnings).toEqual(['Bio-Composite is counted as storing carbon, which holds only while the wall stands']);
+
+    expect(comparison.lowest).toBe('bio-composite');
+    expect(comparison.saving).toBeCloseTo(clay.total - bio.total, 9);
+  });
+});
@@ -0,0 +1,193 @@
+import type { BrickSize, BrickTypeKey } from '../types';
+import { brickTypes } from './brickTypes';
+import { getBrickPricing, jointVolume } from './billOfMaterials';
+import type { ConstructionPath } from './constructionAlgorithms';
+import { getLibraryMaterial, libraryMaterials, type Material } from './materialLibrary';
+import { isWallPath, type WallLintel } from './wallGenerator';
+
+// Embodied carbon of a layout, cradle to site: the mass of each unit times its material's carbon
+// footprint, plus mortar, lintels and road transport of all of it. Figures are kg CO₂e.
+// A layout can be priced in several brick types at once to compare them on the same geometry.
+
+export interface CarbonFactors {
+  embodied: number; // kg CO₂e per kg of unit, may be negative for materials that store carbon
+  density: number; // kg/m³
+  transportDistance: number; // km from source to site
+}
+
+export interface EmbodiedCarbonOptions {
+  transportFactor: number; // kg CO₂e per kg per km, road freight
+  mortarDensity: number; // kg/m³, as laid
+  mortarCarbon: number; // kg CO₂e per kg of mortar
+  lintelFactors: Record<WallLintel['type'], { density: number; embodied: number }>;
+  factors: Partial<Record<BrickTypeKey, Partial<CarbonFactors>>>;
+}
+
+export const defaultEmbodiedCarbonOptions: EmbodiedCarbonOptions = {
+  transportFactor: 0.0001,
+  mortarDensity: 2000,
+  mortarCarbon: 0.2,
+  lintelFactors: {
+    timber: { density: 500, embodied: 0.3 },
+    concrete: { density: 2400, embodied: 0.18 }
+  },
+  factors: {}
+};
+
+export interface ElementCarbon {
+  index: number; // into the paths passed in
+  constructionType: ConstructionPath['constructionType'];
+  bricks: number;
+  volume: number; // m³ of units
+  mass: number; // kg, units, mortar and lintels
+  material: number; // units
+  mortar: number;
+  lintels: number;
+  transport: number;
+  total: number;
+}
+
+export interface EmbodiedCarbonReport {
+  brickType: BrickTypeKey;
+  factors: CarbonFactors;
+  elements: ElementCarbon[];
+  volume: number; // m³ of units
+  mass: number;
+  material: number;
+  mortar: number;
+  lintels: number;
+  transport: number;
+  total: number;
+  intensity: number; // kg CO₂e per m³ of masonry, units and joints
+  warnings: string[];
+}
+
+export interface CarbonComparison {
+  reports: EmbodiedCarbonReport[]; // in the order the brick types were given
+  lowest: BrickTypeKey | null;
+  saving: number; // kg CO₂e between the highest and lowest
+}
+
+// Local materials come from within a short haul
+const LOCAL_TRANSPORT_DISTANCE = 50;
+const REGIONAL_TRANSPORT_DISTANCE = 250;
+
+// Leading figure of library strings such as '0.15 kg CO₂/kg' or '-0.1 kg CO₂/kg (carbon negative)'
+export function parseCarbonFootprint(text: string): number | null {
+  const match = text.replace(/[–—−]/g, '-').match(/-?\d*\.?\d+/);
+  return match ? parseFloat(match[0]) : null;
+}
+
+export function getCarbonFactors(brickType: BrickTypeKey, materials: Material[] = libraryMaterials): CarbonFactors {
+  const footprint = getLibraryMaterial(brickType, materials)?.properties.carbonFootprint;
+  return {
+    embodied: (footprint ? parseCarbonFootprint(footprint) : null) ?? brickTypes[brickType].physical.embodiedCarbon,
+    density: getBrickPricing(brickType, materials).density,
+    transportDistance: brickTypes[brickType].properties.local ? LOCAL_TRANSPORT_DISTANCE : REGIONAL_TRANSPORT_DISTANCE
+  };
+}
+
+function hasLibraryFootprint(brickType: BrickTypeKey): boolean {
+  return getLibraryMaterial(brickType)?.properties.carbonFootprint !== undefined;
+}
+
+// Geometry is taken from the layout's brick type, materials from the priced one
+function estimate(
+  paths: ConstructionPath[],
+  layoutType: BrickTypeKey,
+  brickType: BrickTypeKey,
+  options: Partial<EmbodiedCarbonOptions>
+): EmbodiedCarbonReport {
+  const settings = { ...defaultEmbodiedCarbonOptions, ...options };
+  const factors = { ...getCarbonFactors(brickType), ...settings.factors[brickType] };
+  const { size: catalogue, joint } = brickTypes[layoutType];
+  const warnings: string[] = [];
+  let joints = 0;
+
+  const elements: ElementCarbon[] = paths.map((path, index) => {
+    const sizes: BrickSize[] = path.brickPositions.map((_, i) => path.brickSizes?.[i] ?? catalogue);
+    const volume = sizes.reduce((sum, size) => sum + size.width * size.height * size.depth, 0);
+    const mortarVolume = sizes.reduce((sum, size) => sum + jointVolume(size, joint.jointThickness), 0);
+    const mortarMass = mortarVolume * settings.mortarDensity;
+    const unitMass = volume * factors.density;
+
+    let lintelMass = 0;
+    let lintels = 0;
+    for (const lintel of isWallPath(path) ? path.lintels : []) {
+      const { density, embodied } = settings.lintelFactors[lintel.type];
+      const mass = lintel.size.width * lintel.size.height * lintel.size.depth * density;
+      lintelMass += mass;
+      lintels += mass * embodied;
+    }
+
+    joints += mortarVolume;
+    const mass = unitMass + mortarMass + lintelMass;
+    const material = unitMass * factors.embodied;
+    const mortar = mortarMass * settings.mortarCarbon;
+    const transport = mass * factors.transportDistance * settings.transportFactor;
+    return {
+      index,
+      constructionType: path.constructionType,
+      bricks: sizes.length,
+      volume,
+      mass,
+      material,
+      mortar,
+      lintels,
+      transport,
+      total: material + mortar + lintels + transport
+    };
+  });
+
+  const sum = (key: 'volume' | 'mass' | 'material' | 'mortar' | 'lintels' | 'transport' | 'total') =>
+    elements.reduce((total, element) => total + element[key], 0);
+  const volume = sum('volume');
+  const masonryVolume = volume + joints;
+
+  if (!hasLibraryFootprint(brickType) && settings.factors[brickType]?.embodied === undefined) {
+    warnings.push(`No carbon footprint in the material library for ${brickTypes[brickType].name}; using ${factors.embodied} kg CO₂e/kg`);
+  }
+  if (factors.embodied < 0) {
+    warnings.push(`${brickTypes[brickType].name} is counted as storing carbon, which holds only while the wall stands`);
+  }
+
+  return {
+    brickType,
+    factors,
+    elements,
+    volume,
+    mass: sum('mass'),
+    material: sum('material'),
+    mortar: sum('mortar'),
+    lintels: sum('lintels'),
+    transport: sum('transport'),
+    total: sum('total'),
+    intensity: masonryVolume > 0 ? sum('total') / masonryVolume : 0,
+    warnings
+  };
+}
+
+export function analyzeEmbodiedCarbon(
+  paths: ConstructionPath[],
+  brickType: BrickTypeKey,
+  options: Partial<EmbodiedCarbonOptions> = {}
+): EmbodiedCarbonReport {
+  return estimate(paths, brickType, brickType, options);
+}
+
+// The same layout, laid out in one brick type, priced in each of the others
+export function compareEmbodiedCarbon(
+  paths: ConstructionPath[],
+  layoutType: BrickTypeKey,
+  brickTypesToCompare: BrickTypeKey[] = Object.keys(brickTypes) as BrickTypeKey[],
+  options: Partial<EmbodiedCarbonOptions> = {}
+): CarbonComparison {
+  const reports = brickTypesToCompare.map(brickType => estimate(paths, layoutType, brickType, options));
+  const totals = reports.map(report => report.total);
+  const lowest = reports.length > 0 ? reports[totals.indexOf(Math.min(...totals))].brickType : null;
+  return {
+    reports,
+    lowest,
+    saving: reports.length > 0 ? Math.max(...totals) - Math.min(...totals) : 0
+  };
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeFloodExposure } from './floodExposure';
+import { generateWall } from './wallGenerator';
+
+// 3 m of clay wall on the ground, courses at 130 mm centres: course k runs from 0.13k to 0.13k + 0.12
+const wall = generateWall({ x: 0, y: 0, z: 0 }, { x: 3, y: 0, z: 0 }, 'clay-sustainable', { height: 1.2 });
+
+describe('analyzeFloodExposure', () => {
+  it('counts the courses below a 500 mm flood', () => {
+    const report = analyzeFloodExposure([wall], 'clay-sustainable', { floodLevel: 0.5 });
+    const [element] = report.elements;
+
+    expect(report.floodElevation).toBe(0.5);
+    // 150 mm splash plus 50 mm ponding on moderate drainage; the flood and its 150 mm freeboard reach higher
+    expect(report.splashHeight).toBeCloseTo(0.2, 9);
+    expect(report.wetLine).toBeCloseTo(0.65, 9);
+
+    // Courses 0-2 are under water, course 3 straddles the flood, course 4 is in the freeboard,
+    // and course 5 starts on the wet line
+    expect(element.courses.map(course => course.course)).toEqual([0, 1, 2, 3, 4]);
+    expect(element.courses.map(course => course.submerged)).toEqual(['full', 'full', 'full', 'partial', 'none']);
+    expect(element.courses.map(course => course.inSplashZone)).toEqual([true, true, false, false, false]);
+    expect(element.coursesBelowFlood).toBe(4);
+    expect(element.bricksBelowWetLine).toBe(5 * 12);
+    expect(report.bricksBelowWetLine).toBe(60);
+    expect(report.totalBricks).toBe(wall.totalBricks);
+
+    // Fired clay takes the wetting: no plinth, the usual damp-proof course, and a lime or cement mortar
+    expect(report.wetting).toBe('resistant');
+    expect(report.foundations.map(foundation => foundation.plinthHeight)).toEqual([0, 0]);
+    expect(report.recommendations).toContain(
+      'Up to 4 courses will be flooded; lay them in hydraulic lime or cement mortar so they dry out undamaged'
+    );
+    expect(report.warnings).toEqual([]);
+  });
+
+  it('lifts units that cannot stand in water onto a plinth above the wet line', () => {
+    const report = analyzeFloodExposure([wall], 'bio-composite', { floodLevel: 0.5 });
+
+    expect(report.wetting).toBe('tolerant');
+    report.foundations.forEach(foundation => {
+      expect(foundation.plinthHeight).toBeCloseTo(0.65, 9);
+      expect(foundation.dampProofCourse).toBeCloseTo(0.65, 9);
+    });
+    expect(report.warnings).toEqual(['Bio-Composite takes splashing but not standing water; up to 4 courses are below the design flood']);
+  });
+
+  it('refuses a flood level below ground', () => {
+    expect(() => analyzeFloodExposure([wall], 'clay-sustainable', { floodLevel: -0.1 })).toThrow('cannot be below ground');
+  });
+});
@@ -0,0 +1,213 @@
+import type { Anchor, BrickTypeKey, Position3D } from '../types';
+import { brickTypes } from './brickTypes';
+import type { ConstructionPath } from './constructionAlgorithms';
+import { eulerToRotationMatrix } from './linearAlgebra';
+import { getLibraryMaterial, libraryMaterials, type Material } from './materialLibrary';
+
+// Which courses a design flood or wind-driven splash reaches, and where the damp-proof course
+// belongs on each foundation. Units that cannot take wetting are lifted onto a plinth of resistant
+// units so the damp-proof course sits above the wet line; units that can are wetted and dry out.
+
+export type Drainage = 'good' | 'moderate' | 'poor';
+export type WettingBehaviour = 'resistant' | 'tolerant' | 'degrades';
+
+export interface FloodHazardOptions {
+  floodLevel: number; // metres of water above ground in the design flood; 0 where the site does not flood
+  rainfallIntensity: number; // mm/h, design storm
+  drainage: Drainage;
+  freeboard: number; // metres kept clear above the flood level
+  groundLevel?: number; // site elevation; the lowest foundation otherwise
+  foundations: Array<Pick<Anchor, 'name' | 'position'>>; // the ends of the elements otherwise
+}
+
+export const defaultFloodHazardOptions: FloodHazardOptions = {
+  floodLevel: 0,
+  rainfallIntensity: 25,
+  drainage: 'moderate',
+  freeboard: 0.15,
+  foundations: []
+};
+
+export interface CourseExposure {
+  course: number; // course index where the element has courses, otherwise the band counted from the base
+  bottom: number; // elevation
+  top: number;
+  bricks: number;
+  submerged: 'full' | 'partial' | 'none'; // against the design flood
+  inSplashZone: boolean;
+}
+
+export interface ElementFloodExposure {
+  index: number; // into the paths passed in
+  constructionType: ConstructionPath['constructionType'];
+  coursesBelowFlood: number;
+  bricksBelowWetLine: number;
+  courses: CourseExposure[]; // those the wet line reaches, lowest first
+}
+
+export interface FoundationAdvice {
+  name: string;
+  position: Position3D;
+  plinthHeight: number; // metres of resistant units to build above this foundation
+  dampProofCourse: number; // elevation
+}
+
+export interface FloodReport {
+  groundLevel: number;
+  floodElevation: number | null; // null where the site does not flood
+  splashHeight: number; // metres above ground reached by rain splash and ponding
+  wetLine: number; // elevation below which the masonry is expected to get wet
+  wetting: WettingBehaviour;
+  waterResistance: number; // 1-5, from the material library
+  elements: ElementFloodExposure[];
+  bricksBelowWetLine: number;
+  totalBricks: number;
+  foundations: FoundationAdvice[];
+  recommendations: string[];
+  warnings: string[];
+}
+
+// Ratings at or below these take short wetting only, or lose strength when wet
+const TOLERANT_RATING = 3;
+const DEGRADES_RATING = 2;
+const SPLASH_HEIGHT = 0.15; // metres, the usual damp-proof course height above ground
+const HEAVY_RAINFALL = 50; // mm/h
+const HEAVY_RAIN_SPLASH = 0.1;
+const PONDING: Record<Drainage, number> = { good: 0, moderate: 0.05, poor: 0.15 };
+// Foundations closer than this are the same point
+const FOUNDATION_TOLERANCE = 0.05;
+// Course levels summed from brick and joint sizes carry rounding; a course this close to a line is on it
+const LEVEL_TOLERANCE = 1e-6;
+
+export function getWettingBehaviour(brickType: BrickTypeKey, materials: Material[] = libraryMaterials): { rating: number; wetting: WettingBehaviour } {
+  const rating = getLibraryMaterial(brickType, materials)?.waterResistance ?? brickTypes[brickType].physical.waterResistance;
+  return {
+    rating,
+    wetting: rating <= DEGRADES_RATING ? 'degrades' : rating <= TOLERANT_RATING ? 'tolerant' : 'resistant'
+  };
+}
+
+// The lower ends of each element, with duplicates at shared corners removed
+function elementFoundations(paths: ConstructionPath[]): Array<Pick<Anchor, 'name' | 'position'>> {
+  const found: Array<Pick<Anchor, 'name' | 'position'>> = [];
+  paths.forEach((path, index) => {
+    const low = Math.min(path.start.y, path.end.y);
+    const ends = [['start', path.start], ['end', path.end]] as const;
+    for (const [label, position] of ends) {
+      if (position.y > low + FOUNDATION_TOLERANCE) continue;
+      const duplicate = found.some(other => Math.hypot(
+        other.position.x - position.x, other.position.y - position.y, other.position.z - position.z
+      ) < FOUNDATION_TOLERANCE);
+      if (!duplicate) found.push({ name: `${path.constructionType} ${index + 1} ${label}`, position });
+    }
+  });
+  return found;
+}
+
+export function analyzeFloodExposure(
+  paths: ConstructionPath[],
+  brickType: BrickTypeKey,
+  options: Partial<FloodHazardOptions> = {}
+): FloodReport {
+  const settings = { ...defaultFloodHazardOptions, ...options };
+  if (settings.floodLevel < 0) throw new Error('Design flood level cannot be below ground');
+  const { size: catalogue, name } = brickTypes[brickType];
+  const { rating, wetting } = getWettingBehaviour(brickType);
+  const warnings: string[] = [];
+  const recommendations: string[] = [];
+
+  const foundations = settings.foundations.length > 0 ? settings.foundations : elementFoundations(paths);
+  const groundLevel = settings.groundLevel ??
+    (foundations.length > 0 ? Math.min(...foundations.map(foundation => foundation.position.y)) : 0);
+  const floodElevation = settings.floodLevel > 0 ? groundLevel + settings.floodLevel : null;
+  const splashHeight = SPLASH_HEIGHT + PONDING[settings.drainage] +
+    (settings.rainfallIntensity >= HEAVY_RAINFALL ? HEAVY_RAIN_SPLASH : 0);
+  const wetLine = Math.max(groundLevel + splashHeight, floodElevation !== null ? floodElevation + settings.freeboard : -Infinity);
+
+  const elements: ElementFloodExposure[] = paths.map((path, index) => {
+    const bands = new Map<number, { bottom: number; top: number; bricks: number }>();
+    path.brickPositions.forEach((position, i) => {
+      const size = path.brickSizes?.[i] ?? catalogue;
+      const r = eulerToRotationMatrix(path.brickRotations[i]);
+      const half = (Math.abs(r[1][0]) * size.width + Math.abs(r[1][1]) * size.height + Math.abs(r[1][2]) * size.depth) / 2;
+      const key = path.courseIndices?.[i] ?? Math.round((position.y - half) * 1000);
+      const band = bands.get(key) ?? { bottom: Infinity, top: -Infinity, bricks: 0 };
+      band.bottom = Math.min(band.bottom, position.y - half);
+      band.top = Math.max(band.top, position.y + half);
+      band.bricks++;
+      bands.set(key, band);
+    });
+
+    const courses: CourseExposure[] = [...bands.entries()]
+      .sort((a, b) => a[1].bottom - b[1].bottom)
+      .map(([key, band], order) => ({
+        course: path.courseIndices ? key : order,
+        ...band,
+        submerged: floodElevation === null || band.bottom >= floodElevation - LEVEL_TOLERANCE ? 'none' as const
+          : band.top <= floodElevation + LEVEL_TOLERANCE ? 'full' as const : 'partial' as const,
+        inSplashZone: band.bottom < groundLevel + splashHeight - LEVEL_TOLERANCE
+      }))
+      .filter(course => course.bottom < wetLine - LEVEL_TOLERANCE);
+
+    return {
+      index,
+      constructionType: path.constructionType,
+      coursesBelowFlood: courses.filter(course => course.submerged !== 'none').length,
+      bricksBelowWetLine: courses.reduce((sum, course) => sum + course.bricks, 0),
+      courses
+    };
+  });
+
+  // Units that cannot take wetting start above the wet line; the rest need only the usual splash height
+  const dampProofCourse = wetting === 'resistant' ? groundLevel + splashHeight : wetLine;
+  const advice: FoundationAdvice[] = foundations.map(foundation => ({
+    name: foundation.name,
+    position: foundation.position,
+    plinthHeight: wetting === 'resistant' ? 0 : Math.max(0, dampProofCourse - foundation.position.y),
+    dampProofCourse
+  }));
+
+  const bricksBelowWetLine = elements.reduce((sum, element) => sum + element.bricksBelowWetLine, 0);
+  const flooded = elements.reduce((most, element) => Math.max(most, element.coursesBelowFlood), 0);
+  if (wetting === 'degrades' && bricksBelowWetLine > 0) {
+    warnings.push(`${bricksBelowWetLine} ${name} units sit below the wet line at ${wetLine.toFixed(2)} m and lose strength when wet`);
+  } else if (wetting === 'tolerant' && flooded > 0) {
+    warnings.push(`${name} takes splashing but not standing water; up to ${flooded} courses are below the design flood`);
+  }
+
+  const plinths = advice.filter(foundation => foundation.plinthHeight > 0);
+  if (plinths.length > 0) {
+    const heights = plinths.map(foundation => foundation.plinthHeight);
+    const spread = Math.max(...heights) - Math.min(...heights);
+    recommendations.push(
+      `Build a plinth of fired clay or recycled-aggregate units ${spread < 0.01
+        ? `${heights[0].toFixed(2)} m`
+        : `${Math.min(...heights).toFixed(2)}-${Math.max(...heights).toFixed(2)} m`} high on ` +
+      `${plinths.length === foundations.length ? 'every foundation' : plinths.map(foundation => foundation.name).join(', ')}, ` +
+      `with the damp-proof course on top at ${dampProofCourse.toFixed(2)} m`
+    );
+  } else if (foundations.length > 0) {
+    recommendations.push(`Lay the damp-proof course ${splashHeight.toFixed(2)} m above ground on every foundation`);
+  }
+  if (wetting === 'resistant' && flooded > 0) {
+    recommendations.push(`Up to ${flooded} courses will be flooded; lay them in hydraulic lime or cement mortar so they dry out undamaged`);
+  }
+  if (settings.drainage === 'poor' || settings.rainfallIntensity >= HEAVY_RAINFALL) {
+    recommendations.push('Grade the ground away from the walls and run a gravel perimeter drain to carry storm water off');
+  }
+
+  return {
+    groundLevel,
+    floodElevation,
+    splashHeight,
+    wetLine,
+    wetting,
+    waterResistance: rating,
+    elements,
+    bricksBelowWetLine,
+    totalBricks: paths.reduce((sum, path) => sum + path.brickPositions.length, 0),
+    foundations: advice,
+    recommendations,
+    warnings
+  };
+}
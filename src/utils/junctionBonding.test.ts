@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import type { Anchor, Position3D } from '../types';
+import { brickTypes } from './brickTypes';
+import { planBuildOrder } from './buildOrder';
+import { createStructuralNetwork, generateConstructionPlan, type ConstructionPath } from './constructionAlgorithms';
+import { removeDuplicateBricks } from './junctionBonding';
+
+const corner = (name: string, x: number, z: number): Anchor => ({
+  purpose: 'wall-corner',
+  name,
+  position: { x, y: 0, z },
+  constructionType: 'wall'
+});
+
+// Courses with a brick over the anchor on plan
+function coursesCovering(paths: ConstructionPath[], point: Position3D): Set<number> {
+  const courses = new Set<number>();
+  for (const path of paths) {
+    path.brickPositions.forEach((position, i) => {
+      const { width, depth } = path.brickSizes![i];
+      const angle = path.brickRotations[i].y;
+      const dx = point.x - position.x;
+      const dz = point.z - position.z;
+      const along = dx * Math.cos(angle) - dz * Math.sin(angle);
+      const across = dx * Math.sin(angle) + dz * Math.cos(angle);
+      if (Math.abs(along) <= width / 2 && Math.abs(across) <= depth / 2) courses.add(path.courseIndices![i]);
+    });
+  }
+  return courses;
+}
+
+describe('removeDuplicateBricks', () => {
+  it('keeps the bricks that alternate through an L corner', () => {
+    const anchors = [corner('A', 0, 0), corner('B', 6, 0), corner('C', 6, 6)];
+    const plan = generateConstructionPlan(createStructuralNetwork(anchors), 'clay-sustainable', { wall: { height: 0.6 } });
+
+    expect(plan.paths).toHaveLength(2);
+    expect(plan.junctions.map(junction => [junction.anchorName, junction.kind, junction.duplicatesRemoved]))
+      .toEqual([['B', 'corner', 0]]);
+    const courses = Math.max(...plan.paths.flatMap(path => path.courseIndices!)) + 1;
+    expect(coursesCovering(plan.paths, anchors[1].position).size).toBe(courses);
+  });
+
+  it('removes a brick laid twice in the same place', () => {
+    const brick = brickTypes['clay-sustainable'].size;
+    const path = (positions: Position3D[], angle: number): ConstructionPath => ({
+      start: positions[0],
+      end: positions[positions.length - 1],
+      brickPositions: positions,
+      brickRotations: positions.map(() => ({ x: 0, y: angle, z: 0 })),
+      totalBricks: positions.length,
+      constructionType: 'wall'
+    });
+    const first = path([{ x: 0.13, y: 0.06, z: 0 }, { x: 0.39, y: 0.06, z: 0 }], 0);
+    // Exactly over the first brick, so no piece of it is worth keeping, then one clear of both
+    const second = path([{ x: 0.13, y: 0.06, z: 0 }, { x: 0, y: 0.06, z: -0.3 }], 0);
+
+    const { paths, removed, recut } = removeDuplicateBricks([first, second], { x: 0, y: 0, z: 0 }, 1, brick, 0.003);
+
+    expect(removed).toBe(1);
+    expect(recut).toBe(0);
+    expect(paths[0]).toBe(first);
+    expect(paths[1].brickPositions).toEqual([{ x: 0, y: 0.06, z: -0.3 }]);
+  });
+
+  it('cuts back a brick that only partly overlaps instead of dropping it', () => {
+    const brick = brickTypes['clay-sustainable'].size;
+    const { tolerance } = brickTypes['clay-sustainable'].joint;
+    // One wall runs on through the anchor; the other butts up to it from the side
+    const through: ConstructionPath = {
+      start: { x: -1, y: 0.06, z: 0 },
+      end: { x: 1, y: 0.06, z: 0 },
+      brickPositions: [{ x: 0, y: 0.06, z: 0 }],
+      brickRotations: [{ x: 0, y: 0, z: 0 }],
+      totalBricks: 1,
+      constructionType: 'wall'
+    };
+    const butting: ConstructionPath = {
+      start: { x: 0, y: 0.06, z: 0 },
+      end: { x: 0, y: 0.06, z: 1 },
+      brickPositions: [{ x: 0, y: 0.06, z: 0.13 }],
+      brickRotations: [{ x: 0, y: -Math.PI / 2, z: 0 }],
+      totalBricks: 1,
+      constructionType: 'wall'
+    };
+
+    const { paths, removed, recut } = removeDuplicateBricks([butting, through], { x: 0, y: 0, z: 0 }, 1, brick, tolerance);
+
+    // Cut back to the face of the through brick, less what the tolerance allows
+    const length = 0.13 + brick.width / 2 - brick.depth / 2 + tolerance;
+    expect(removed).toBe(0);
+    expect(recut).toBe(1);
+    expect(paths[1]).toBe(through);
+    expect(paths[0].brickSizes![0].width).toBeCloseTo(length, 4);
+    expect(paths[0].brickPositions[0].z).toBeCloseTo(0.13 + brick.width / 2 - length / 2, 4);
+  });
+});
+
+describe('junction bonding in a closed room', () => {
+  it('beds every brick above the first course', () => {
+    const anchors = [corner('A', 0, 0), corner('B', 3.5, 0), corner('C', 3.5, 3.5), corner('D', 0, 3.5)];
+    const plan = generateConstructionPlan(createStructuralNetwork(anchors), 'clay-sustainable', { wall: { height: 2.2 } });
+    const order = planBuildOrder(plan.paths, 'clay-sustainable');
+
+    expect(order.warnings.filter(warning => warning.includes('nothing under it'))).toEqual([]);
+    expect(order.steps.filter(step => step.temporarySupport)).toEqual([]);
+  });
+});
@@ -0,0 +1,271 @@
+import type { BrickSize, Position3D, Rotation3D } from '../types';
+import type { ConstructionPath } from './constructionAlgorithms';
+import { addVectors, cross, dot, eulerToRotationMatrix, matrixColumn, scaleVector, subtractVectors, vectorLength } from './linearAlgebra';
+import { isWallPath, type WallPath } from './wallGenerator';
+
+// Where walls meet at an anchor they interlock in alternate courses: in each course one line of
+// wall runs through the junction and the others butt against its face. A line is a single wall
+// ending at the anchor, or two collinear walls continuing through it.
+
+export type JunctionKind = 'inline' | 'corner' | 'tee' | 'cross' | 'angled';
+
+export interface JunctionEnd {
+  pathKey: string;
+  atStart: boolean; // the junction is at the wall's start anchor
+  direction: { x: number; z: number }; // unit vector from the junction along the wall
+  thickness: number;
+  baseY: number;
+}
+
+export interface JunctionPlan {
+  kind: JunctionKind;
+  extensions: number[][]; // per end: how far each course runs past the anchor, cycling by course
+  warnings: string[];
+}
+
+export interface JunctionReport {
+  anchorName: string;
+  position: Position3D;
+  kind: JunctionKind;
+  walls: string[]; // path keys of the walls meeting here
+  cutBricks: number; // cut bricks in the wall ends at the junction
+  duplicatesRemoved: number;
+  warnings: string[];
+}
+
+const COLLINEAR_COS = Math.cos(10 * Math.PI / 180);
+const SQUARE_SIN = Math.sin(80 * Math.PI / 180);
+// Walls meeting at less than ~15° are cut as though at 15°, rather than run out to a feather edge
+const MIN_SIN = 0.25;
+
+function sinBetween(a: { x: number; z: number }, b: { x: number; z: number }): number {
+  return Math.abs(a.x * b.z - a.z * b.x);
+}
+
+export function planJunction(ends: JunctionEnd[], joint: number): JunctionPlan {
+  const warnings: string[] = [];
+
+  // Pair up walls that continue straight through the anchor
+  const lines: number[][] = [];
+  const used = new Set<number>();
+  ends.forEach((end, i) => {
+    if (used.has(i)) return;
+    used.add(i);
+    const partner = ends.findIndex((other, j) =>
+      !used.has(j) && end.direction.x * other.direction.x + end.direction.z * other.direction.z < -COLLINEAR_COS
+    );
+    if (partner >= 0) {
+      used.add(partner);
+      lines.push([i, partner]);
+    } else {
+      lines.push([i]);
+    }
+  });
+
+  let smallestSin = 1;
+  for (let a = 0; a < lines.length; a++) {
+    for (let b = a + 1; b < lines.length; b++) {
+      smallestSin = Math.min(smallestSin, sinBetween(ends[lines[a][0]].direction, ends[lines[b][0]].direction));
+    }
+  }
+  const square = smallestSin >= SQUARE_SIN;
+  const pairs = lines.filter(line => line.length === 2).length;
+
+  let kind: JunctionKind = 'angled';
+  if (lines.length === 1) kind = 'inline';
+  else if (lines.length === 2 && square) kind = pairs === 0 ? 'corner' : pairs === 1 ? 'tee' : 'cross';
+  if (lines.length > 1 && !square) {
+    const degrees = Math.asin(Math.min(1, smallestSin)) * 180 / Math.PI;
+    warnings.push(`Walls meet at ${degrees.toFixed(0)}°; their ends need angled cuts`);
+  }
+
+  const aligned = ends.every(end => Math.abs(end.baseY - ends[0].baseY) <= joint);
+  if (!aligned) {
+    warnings.push('Walls start at different levels, so their courses do not line up; the junction is butt-jointed and needs wall ties');
+  }
+
+  // Each line takes its turn running through; without shared coursing the first line always does
+  const cycle = aligned ? lines.length : 1;
+  const extensions = ends.map(() => [] as number[]);
+  for (let course = 0; course < cycle; course++) {
+    const through = lines[course];
+    const throughDirection = ends[through[0]].direction;
+    const throughThickness = Math.max(...through.map(i => ends[i].thickness));
+
+    ends.forEach((end, i) => {
+      if (!through.includes(i)) {
+        // Stop a joint short of the through wall's face
+        extensions[i].push(-(throughThickness / 2 + joint) / Math.max(MIN_SIN, sinBetween(end.direction, throughDirection)));
+      } else if (through.length === 2) {
+        // A continuous line simply meets itself at the anchor
+        extensions[i].push(0);
+      } else {
+        // A single wall runs on to the far face of the walls it crosses
+        const others = ends.filter((_, j) => !through.includes(j));
+        extensions[i].push(Math.max(0, ...others.map(other =>
+          other.thickness / 2 / Math.max(MIN_SIN, sinBetween(end.direction, other.direction))
+        )));
+      }
+    });
+  }
+
+  return { kind, extensions, warnings };
+}
+
+// Cut bricks within reach of the junction end of a wall
+export function countJunctionCuts(path: WallPath, atStart: boolean, reach: number): number {
+  const anchor = atStart ? path.start : path.end;
+  const ux = (path.end.x - path.start.x) / path.length;
+  const uz = (path.end.z - path.start.z) / path.length;
+  return path.bricks.filter(brick =>
+    brick.isCut && Math.abs((brick.position.x - anchor.x) * ux + (brick.position.z - anchor.z) * uz) < reach
+  ).length;
+}
+
+// Shortest piece worth re-cutting a brick to, as a fraction of its length (the wall generator's smallest cut)
+const MIN_RECUT_RATIO = 0.25;
+
+interface Recut {
+  position: Position3D;
+  size: BrickSize;
+}
+
+function reshapeBricks(path: ConstructionPath, drop: Set<number>, recuts: Map<number, Recut>, brick: BrickSize): ConstructionPath {
+  const keep = <T>(items: T[], recut: (item: T, piece: Recut) => T) =>
+    items.flatMap((item, i) => {
+      if (drop.has(i)) return [];
+      const piece = recuts.get(i);
+      return [piece ? recut(item, piece) : item];
+    });
+  const sizes = path.brickSizes ?? (recuts.size > 0 ? path.brickPositions.map(() => brick) : undefined);
+  const trimmed: ConstructionPath = {
+    ...path,
+    brickPositions: keep(path.brickPositions, (_, piece) => piece.position),
+    brickRotations: keep(path.brickRotations, rotation => rotation),
+    courseIndices: path.courseIndices && keep(path.courseIndices, course => course),
+    brickSizes: sizes && keep(sizes, (_, piece) => piece.size),
+    totalBricks: path.totalBricks - drop.size
+  };
+  if (isWallPath(path)) {
+    const bricks = keep(path.bricks, (wallBrick, piece) => ({ ...wallBrick, ...piece, isCut: true }));
+    return { ...trimmed, bricks, cutBricks: bricks.filter(wallBrick => wallBrick.isCut).length } as WallPath;
+  }
+  return trimmed;
+}
+
+interface BrickBox {
+  centre: Position3D;
+  axes: Position3D[]; // the brick's width, height and depth directions
+  half: number[];
+}
+
+function brickBox(centre: Position3D, rotation: Rotation3D, size: BrickSize): BrickBox {
+  const m = eulerToRotationMatrix(rotation);
+  return { centre, axes: [0, 1, 2].map(i => matrixColumn(m, i)), half: [size.width / 2, size.height / 2, size.depth / 2] };
+}
+
+// Separating-axis test on the rotated boxes; bricks only clash if they interpenetrate by more than tolerance
+function bricksClash(a: BrickBox, b: BrickBox, tolerance: number): boolean {
+  const offset = subtractVectors(b.centre, a.centre);
+  const axes = [...a.axes, ...b.axes];
+  for (const u of a.axes) {
+    for (const v of b.axes) {
+      const axis = cross(u, v);
+      const length = vectorLength(axis);
+      // Parallel edges add nothing the face axes have not covered
+      if (length > 1e-6) axes.push({ x: axis.x / length, y: axis.y / length, z: axis.z / length });
+    }
+  }
+  return axes.every(axis => {
+    const reach = (box: BrickBox) => box.axes.reduce((sum, u, i) => sum + box.half[i] * Math.abs(dot(u, axis)), 0);
+    return reach(a) + reach(b) - Math.abs(dot(offset, axis)) > tolerance;
+  });
+}
+
+// The longest piece of a brick, cut back from its end nearest the anchor, that clears the kept bricks
+function recutClear(box: BrickBox, anchor: Position3D, kept: BrickBox[], tolerance: number): BrickBox {
+  const axis = box.axes[0];
+  const towards = dot(subtractVectors(anchor, box.centre), axis) >= 0 ? 1 : -1;
+  const farEnd = addVectors(box.centre, scaleVector(axis, -towards * box.half[0]));
+  const piece = (length: number): BrickBox => ({
+    ...box,
+    centre: addVectors(farEnd, scaleVector(axis, towards * length / 2)),
+    half: [length / 2, box.half[1], box.half[2]]
+  });
+
+  // A longer piece only reaches further into the junction, so the clear length is found by bisection
+  let clear = 0;
+  let clashing = box.half[0] * 2;
+  for (let i = 0; i < 24; i++) {
+    const length = (clear + clashing) / 2;
+    if (kept.some(other => bricksClash(piece(length), other, tolerance))) clashing = length;
+    else clear = length;
+  }
+  return piece(clear);
+}
+
+// Whether a brick runs on past the anchor, beyond the end of its path
+function reachesPast(box: BrickBox, path: ConstructionPath, anchor: Position3D, tolerance: number): boolean {
+  const far = Math.hypot(path.start.x - anchor.x, path.start.z - anchor.z) > Math.hypot(path.end.x - anchor.x, path.end.z - anchor.z)
+    ? path.start
+    : path.end;
+  const length = Math.hypot(far.x - anchor.x, far.z - anchor.z);
+  if (length < 1e-9) return false;
+  const inwards = { x: (far.x - anchor.x) / length, y: 0, z: (far.z - anchor.z) / length };
+  const nearest = dot(subtractVectors(box.centre, anchor), inwards) - box.half[0] * Math.abs(dot(box.axes[0], inwards));
+  return nearest < -tolerance;
+}
+
+// Bricks from different paths that occupy the same space at a shared anchor. The wall running through
+// the junction in a course (the one laid on past the anchor) keeps its bricks; the others give way
+// to it, and to earlier paths where none does.
+// A clashing brick is re-cut short of the kept one where a usable piece remains, so the course above
+// still beds on it, and removed otherwise. Returns the paths and how many bricks were re-cut or removed.
+export function removeDuplicateBricks(
+  paths: ConstructionPath[],
+  anchor: Position3D,
+  radius: number,
+  brick: BrickSize, // size of bricks on paths that do not record their own
+  tolerance: number
+): { paths: ConstructionPath[]; removed: number; recut: number } {
+  const candidates = paths.flatMap((path, pathIndex) => path.brickPositions.flatMap((position, i) => {
+    // Measured on plan, so the whole height of a junction is checked
+    if (Math.hypot(position.x - anchor.x, position.z - anchor.z) > radius) return [];
+    const size = path.brickSizes?.[i] ?? brick;
+    return [{ pathIndex, i, size, box: brickBox(position, path.brickRotations[i], size) }];
+  }));
+  const courseOf = (box: BrickBox) => Math.round(box.centre.y * 1000);
+  const throughCourses = new Set(candidates
+    .filter(({ pathIndex, box }) => reachesPast(box, paths[pathIndex], anchor, tolerance))
+    .map(({ pathIndex, box }) => `${pathIndex}:${courseOf(box)}`));
+  const through = ({ pathIndex, box }: { pathIndex: number; box: BrickBox }) =>
+    (throughCourses.has(`${pathIndex}:${courseOf(box)}`) ? 0 : 1);
+  candidates.sort((a, b) => through(a) - through(b));
+
+  const kept: BrickBox[] = [];
+  const drops = paths.map(() => new Set<number>());
+  const recuts = paths.map(() => new Map<number, Recut>());
+  for (const { pathIndex, i, size, box } of candidates) {
+    if (!kept.some(other => bricksClash(box, other, tolerance))) {
+      kept.push(box);
+      continue;
+    }
+
+    const piece = recutClear(box, anchor, kept, tolerance);
+    const length = piece.half[0] * 2;
+    if (length >= Math.max(size.width, brick.width) * MIN_RECUT_RATIO) {
+      recuts[pathIndex].set(i, { position: piece.centre, size: { ...size, width: length } });
+      kept.push(piece);
+    } else {
+      drops[pathIndex].add(i);
+    }
+  }
+
+  return {
+    paths: paths.map((path, k) =>
+      drops[k].size > 0 || recuts[k].size > 0 ? reshapeBricks(path, drops[k], recuts[k], brick) : path
+    ),
+    removed: drops.reduce((sum, drop) => sum + drop.size, 0),
+    recut: recuts.reduce((sum, recut) => sum + recut.size, 0)
+  };
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import type { Anchor } from '../types';
+import { createStructuralNetwork, generateConstructionPlan } from './constructionAlgorithms';
+import { analyzeLateralLoads } from './lateralLoad';
+
+const corner = (name: string, x: number, z: number): Anchor => ({
+  purpose: 'wall-corner',
+  name,
+  position: { x, y: 0, z },
+  constructionType: 'wall'
+});
+
+// Four 2.4 m walls closing a square room, each tied into the next at the corners
+function room(size: number) {
+  const anchors = [corner('A', 0, 0), corner('B', size, 0), corner('C', size, size), corner('D', 0, size)];
+  const { paths, junctions } = generateConstructionPlan(createStructuralNetwork(anchors), 'clay-sustainable', {
+    wall: { height: 2.4 }
+  });
+  return { paths, restraints: junctions.map(junction => junction.position) };
+}
+
+describe('analyzeLateralLoads', () => {
+  it('lets a small enclosed room span between its corners', () => {
+    const { paths, restraints } = room(2);
+    const report = analyzeLateralLoads(paths, 'clay-sustainable', { restraints });
+
+    expect(report.passes).toBe(true);
+    for (const panel of report.panels) {
+      expect(panel.restrainedEnds).toBe(2);
+      expect(panel.spansBetweenReturns).toBe(true);
+    }
+  });
+
+  it('checks a free-standing wall as a block on its base', () => {
+    const { paths } = room(2);
+    const [panel] = analyzeLateralLoads(paths, 'clay-sustainable').panels;
+
+    expect(panel.restrainedEnds).toBe(0);
+    expect(panel.spansBetweenReturns).toBe(false);
+    expect(panel.overturningPasses).toBe(false);
+    expect(panel.buttressProjection).toBeGreaterThan(0);
+  });
+
+  it('recommends pilasters where a restrained wall is too long to span', () => {
+    const { paths, restraints } = room(6);
+    const report = analyzeLateralLoads(paths, 'clay-sustainable', { restraints });
+
+    expect(report.passes).toBe(false);
+    expect(report.panels[0].spansBetweenReturns).toBe(true);
+    expect(report.panels[0].buttressProjection).toBeNull();
+    expect(report.recommendations[0]).toMatch(/^Wall 1 cannot span 6\.00 m from its returns under wind load .*add pilasters/);
+  });
+});
@@ -0,0 +1,197 @@
+import type { BrickTypeKey, Position3D } from '../types';
+import type { ConstructionPath } from './constructionAlgorithms';
+import { getMaterialStrength } from './loadPath';
+import { isWallPath } from './wallGenerator';
+
+// Lateral stability of wall panels under wind or earthquake. Each panel is treated as a rigid block
+// on its bed: it must not tip about its leeward toe or slide, and must not be too slender to stand.
+// A panel tied into returns (junctions with other walls) can instead span horizontally between them in
+// bending, and is credited with whichever resists more. Returns also shorten the effective height.
+
+export interface LateralLoadOptions {
+  windSpeed: number; // m/s, design gust speed for the site
+  seismicCoefficient: number; // horizontal acceleration as a fraction of g
+  pressureCoefficient: number; // net pressure coefficient across a free-standing wall
+  frictionCoefficient: number; // base course on its bed
+  overturningFactor: number; // required factor of safety
+  slidingFactor: number;
+  slendernessLimit: number; // effective height over thickness
+  flexuralStrength: number; // MPa, masonry bending with the plane of failure across the bed joints
+  density?: number; // kg/m³; the brick type's default otherwise
+  restraints: Position3D[]; // anchors where a wall is tied to a return wall
+}
+
+export const defaultLateralLoadOptions: LateralLoadOptions = {
+  windSpeed: 30,
+  seismicCoefficient: 0,
+  pressureCoefficient: 1.2,
+  frictionCoefficient: 0.6,
+  overturningFactor: 1.5,
+  slidingFactor: 1.5,
+  slendernessLimit: 27,
+  flexuralStrength: 0.4,
+  restraints: []
+};
+
+export interface WallPanelCheck {
+  index: number; // into the paths passed in
+  length: number;
+  height: number;
+  thickness: number;
+  weight: number; // kN
+  restrainedEnds: number;
+  windForce: number; // kN
+  seismicForce: number; // kN
+  governing: 'wind' | 'seismic';
+  slenderness: number;
+  slendernessPasses: boolean;
+  overturningFactor: number;
+  overturningPasses: boolean;
+  spansBetweenReturns: boolean; // held by bending between its returns rather than by its weight
+  slidingFactor: number;
+  slidingPasses: boolean;
+  passes: boolean;
+  pilasterSpacing: number | null; // metres between pilasters, when slenderness or overturning fails
+  buttressProjection: number | null; // metres beyond the wall face, when overturning fails
+  recommendations: string[];
+}
+
+export interface LateralLoadReport {
+  panels: WallPanelCheck[];
+  passes: boolean;
+  worstRatio: number; // smallest capacity over demand across all checks; 1 just passes
+  recommendations: string[];
+}
+
+const AIR_DENSITY = 1.25; // kg/m³
+const GRAVITY = 9.81;
+// Effective height over actual height for a cantilever wall with 0, 1 or 2 returned ends
+const EFFECTIVE_HEIGHT_FACTORS = [2.0, 1.5, 1.0];
+// Bending moment over pressure × span² for a panel spanning from 1 return (cantilever) or between 2
+const SPAN_MOMENT_COEFFICIENTS = [0, 1 / 2, 1 / 8];
+// Pilasters closer than this many wall thicknesses restrain the panel between them
+const PILASTER_SPACING_RATIO = 15;
+const RESTRAINT_TOLERANCE = 0.1;
+
+export function analyzeLateralLoads(
+  paths: ConstructionPath[],
+  brickType: BrickTypeKey,
+  options: Partial<LateralLoadOptions> = {}
+): LateralLoadReport {
+  const settings = { ...defaultLateralLoadOptions, ...options };
+  const density = settings.density ?? getMaterialStrength(brickType).density;
+  const pressure = 0.5 * AIR_DENSITY * settings.windSpeed * settings.windSpeed * settings.pressureCoefficient / 1000; // kPa
+
+  const panels: WallPanelCheck[] = [];
+  paths.forEach((path, index) => {
+    if (!isWallPath(path)) return;
+    const { length, height, thickness } = path;
+    const weight = path.bricks.reduce((sum, brick) => sum + brick.size.width * brick.size.height * brick.size.depth, 0) *
+      density * GRAVITY / 1000;
+    const openArea = path.openings.reduce((sum, opening) => sum + opening.width * opening.height, 0);
+
+    const windForce = pressure * Math.max(0, length * height - openArea);
+    const seismicForce = settings.seismicCoefficient * weight;
+    const force = Math.max(windForce, seismicForce);
+
+    const restrainedEnds = [path.start, path.end].filter(end =>
+      settings.restraints.some(point => Math.hypot(point.x - end.x, point.z - end.z) < RESTRAINT_TOLERANCE)
+    ).length;
+    const slenderness = EFFECTIVE_HEIGHT_FACTORS[restrainedEnds] * height / thickness;
+
+    // Both loads act at mid-height of a uniform panel; the weight resists about the toe
+    const overturningMoment = force * height / 2;
+    const resistingMoment = weight * thickness / 2;
+    const blockFactor = overturningMoment > 0 ? resistingMoment / overturningMoment : Infinity;
+
+    // Per metre height, spanning the wall's length from its returns
+    const lateralPressure = force / (length * height); // kPa
+    const momentCapacity = settings.flexuralStrength * 1000 * thickness * thickness / 6; // kN·m/m
+    const spanMoment = SPAN_MOMENT_COEFFICIENTS[restrainedEnds] * lateralPressure * length * length;
+    let spanningFactor = 0;
+    if (restrainedEnds > 0) spanningFactor = spanMoment > 0 ? momentCapacity / spanMoment : Infinity;
+    const spansBetweenReturns = spanningFactor > blockFactor;
+    const overturningFactor = Math.max(blockFactor, spanningFactor);
+    const slidingFactor = force > 0 ? settings.frictionCoefficient * weight / force : Infinity;
+
+    const slendernessPasses = slenderness <= settings.slendernessLimit;
+    const overturningPasses = overturningFactor >= settings.overturningFactor;
+    const slidingPasses = slidingFactor >= settings.slidingFactor;
+
+    const recommendations: string[] = [];
+    const label = `Wall ${index + 1}`;
+    let pilasterSpacing: number | null = null;
+    let buttressProjection: number | null = null;
+    if (!slendernessPasses || !overturningPasses) {
+      pilasterSpacing = Math.min(length, PILASTER_SPACING_RATIO * thickness);
+    }
+    if (!overturningPasses && lateralPressure > 0) {
+      // Close enough together that the panels between them span from pilaster to pilaster
+      const spanningSpacing = Math.sqrt(momentCapacity / (SPAN_MOMENT_COEFFICIENTS[2] * settings.overturningFactor * lateralPressure));
+      pilasterSpacing = Math.min(pilasterSpacing!, spanningSpacing);
+    }
+    if (!slendernessPasses) {
+      recommendations.push(
+        `${label} is too slender (${slenderness.toFixed(0)} against ${settings.slendernessLimit}); ` +
+        `add pilasters at most ${pilasterSpacing!.toFixed(2)} m apart or thicken the wall`
+      );
+    }
+    const loadName = windForce >= seismicForce ? 'wind' : 'earthquake';
+    if (!overturningPasses && restrainedEnds > 0) {
+      recommendations.push(
+        `${label} cannot span ${length.toFixed(2)} m from its returns under ${loadName} load (factor ${overturningFactor.toFixed(2)}); ` +
+        `add pilasters at most ${pilasterSpacing!.toFixed(2)} m apart`
+      );
+    } else if (!overturningPasses) {
+      // Base width that gives the required factor, carried by buttresses at the pilaster spacing
+      const requiredBase = 2 * settings.overturningFactor * overturningMoment / weight;
+      buttressProjection = Math.max(0, requiredBase - thickness);
+      recommendations.push(
+        `${label} can overturn under ${loadName} load (factor ${overturningFactor.toFixed(2)}); ` +
+        `add buttresses projecting ${buttressProjection.toFixed(2)} m at ${pilasterSpacing!.toFixed(2)} m centres`
+      );
+    }
+    if (!slidingPasses) {
+      recommendations.push(
+        `${label} can slide on its base (factor ${slidingFactor.toFixed(2)}); key the base course into the footing`
+      );
+    }
+
+    panels.push({
+      index,
+      length,
+      height,
+      thickness,
+      weight,
+      restrainedEnds,
+      windForce,
+      seismicForce,
+      governing: windForce >= seismicForce ? 'wind' : 'seismic',
+      slenderness,
+      slendernessPasses,
+      overturningFactor,
+      overturningPasses,
+      spansBetweenReturns,
+      slidingFactor,
+      slidingPasses,
+      passes: slendernessPasses && overturningPasses && slidingPasses,
+      pilasterSpacing,
+      buttressProjection,
+      recommendations
+    });
+  });
+
+  const worstRatio = panels.reduce((worst, panel) => Math.min(
+    worst,
+    settings.slendernessLimit / panel.slenderness,
+    panel.overturningFactor / settings.overturningFactor,
+    panel.slidingFactor / settings.slidingFactor
+  ), Infinity);
+
+  return {
+    panels,
+    passes: panels.every(panel => panel.passes),
+    worstRatio,
+    recommendations: panels.flatMap(panel => panel.recommendations)
+  };
+}
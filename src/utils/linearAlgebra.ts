@@ -0,0 +1,229 @@
+import type { Position3D, Rotation3D } from '../types';
+
+// Row-major 3x3 matrix
+export type Matrix3 = number[][];
+
+// Vector helpers
+export function addVectors(a: Position3D, b: Position3D): Position3D {
+  return { x: a.x + b.x, y: a.y + b.y, z: a.z + b.z };
+}
+
+export function subtractVectors(a: Position3D, b: Position3D): Position3D {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+export function scaleVector(v: Position3D, factor: number): Position3D {
+  return { x: v.x * factor, y: v.y * factor, z: v.z * factor };
+}
+
+export function dot(a: Position3D, b: Position3D): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+export function cross(a: Position3D, b: Position3D): Position3D {
+  return {
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x
+  };
+}
+
+export function vectorLength(v: Position3D): number {
+  return Math.sqrt(dot(v, v));
+}
+
+// Matrix helpers
+export function identityMatrix3(): Matrix3 {
+  return [
+    [1, 0, 0],
+    [0, 1, 0],
+    [0, 0, 1]
+  ];
+}
+
+export function matrixFromColumns(c0: Position3D, c1: Position3D, c2: Position3D): Matrix3 {
+  return [
+    [c0.x, c1.x, c2.x],
+    [c0.y, c1.y, c2.y],
+    [c0.z, c1.z, c2.z]
+  ];
+}
+
+export function matrixColumn(m: Matrix3, index: number): Position3D {
+  return { x: m[0][index], y: m[1][index], z: m[2][index] };
+}
+
+export function transposeMatrix3(m: Matrix3): Matrix3 {
+  return [
+    [m[0][0], m[1][0], m[2][0]],
+    [m[0][1], m[1][1], m[2][1]],
+    [m[0][2], m[1][2], m[2][2]]
+  ];
+}
+
+export function multiplyMatrix3(a: Matrix3, b: Matrix3): Matrix3 {
+  const result: Matrix3 = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j < 3; j++) {
+      result[i][j] = a[i][0] * b[0][j] + a[i][1] * b[1][j] + a[i][2] * b[2][j];
+    }
+  }
+  return result;
+}
+
+export function applyMatrix3(m: Matrix3, v: Position3D): Position3D {
+  return {
+    x: m[0][0] * v.x + m[0][1] * v.y + m[0][2] * v.z,
+    y: m[1][0] * v.x + m[1][1] * v.y + m[1][2] * v.z,
+    z: m[2][0] * v.x + m[2][1] * v.y + m[2][2] * v.z
+  };
+}
+
+export function determinant3(m: Matrix3): number {
+  return (
+    m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1]) -
+    m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0]) +
+    m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0])
+  );
+}
+
+// Solve A·x = b with Gaussian elimination and partial pivoting. Returns null for singular systems.
+export function solveLinearSystem(A: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = A.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) {
+        m[row][k] -= factor * m[col][k];
+      }
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) {
+      sum -= m[row][k] * x[k];
+    }
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+// Eigen-decomposition of a symmetric 3x3 matrix (cyclic Jacobi).
+// Eigenvalues are sorted descending; eigenvectors are the matching columns of `vectors`.
+export function symmetricEigen3(s: Matrix3): { values: number[]; vectors: Matrix3 } {
+  const a = s.map(row => [...row]);
+  const v = identityMatrix3();
+
+  for (let sweep = 0; sweep < 50; sweep++) {
+    const offDiagonal = a[0][1] * a[0][1] + a[0][2] * a[0][2] + a[1][2] * a[1][2];
+    if (offDiagonal < 1e-20) break;
+
+    for (let p = 0; p < 2; p++) {
+      for (let q = p + 1; q < 3; q++) {
+        if (Math.abs(a[p][q]) < 1e-15) continue;
+
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const sn = t * c;
+
+        for (let k = 0; k < 3; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - sn * akq;
+          a[k][q] = sn * akp + c * akq;
+        }
+        for (let k = 0; k < 3; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - sn * aqk;
+          a[q][k] = sn * apk + c * aqk;
+        }
+        for (let k = 0; k < 3; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - sn * vkq;
+          v[k][q] = sn * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  const order = [0, 1, 2].sort((i, j) => a[j][j] - a[i][i]);
+  return {
+    values: order.map(i => a[i][i]),
+    vectors: matrixFromColumns(matrixColumn(v, order[0]), matrixColumn(v, order[1]), matrixColumn(v, order[2]))
+  };
+}
+
+// Singular value decomposition M = U·diag(S)·Vᵀ of a 3x3 matrix, singular values descending
+export function svd3(m: Matrix3): { U: Matrix3; S: number[]; V: Matrix3 } {
+  const { values, vectors: V } = symmetricEigen3(multiplyMatrix3(transposeMatrix3(m), m));
+  const S = values.map(value => Math.sqrt(Math.max(0, value)));
+
+  const columns: Position3D[] = [];
+  for (let i = 0; i < 3; i++) {
+    const u = applyMatrix3(m, matrixColumn(V, i));
+    const length = vectorLength(u);
+    if (S[i] > 1e-10 && length > 1e-10) {
+      columns.push(scaleVector(u, 1 / length));
+    } else if (i === 2 && columns.length === 2) {
+      columns.push(cross(columns[0], columns[1]));
+    } else {
+      // Rank-deficient input: complete the basis with any orthogonal direction
+      const previous = columns[0] ?? { x: 1, y: 0, z: 0 };
+      const helper = Math.abs(previous.x) < 0.9 ? { x: 1, y: 0, z: 0 } : { x: 0, y: 1, z: 0 };
+      const orthogonal = cross(previous, helper);
+      columns.push(scaleVector(orthogonal, 1 / vectorLength(orthogonal)));
+    }
+  }
+
+  return { U: matrixFromColumns(columns[0], columns[1], columns[2]), S, V };
+}
+
+// Closest proper rotation matrix (det = +1) to an arbitrary 3x3 matrix
+export function nearestRotation(m: Matrix3): Matrix3 {
+  const { U, V } = svd3(m);
+  const rotation = multiplyMatrix3(U, transposeMatrix3(V));
+  if (determinant3(rotation) >= 0) return rotation;
+
+  const flip = [[1, 0, 0], [0, 1, 0], [0, 0, -1]];
+  return multiplyMatrix3(multiplyMatrix3(U, flip), transposeMatrix3(V));
+}
+
+// Euler angles use the 'XYZ' order so they can be passed straight to Three.js objects
+export function eulerToRotationMatrix(rotation: Rotation3D): Matrix3 {
+  const [a, b, c] = [Math.cos(rotation.x), Math.cos(rotation.y), Math.cos(rotation.z)];
+  const [d, e, f] = [Math.sin(rotation.x), Math.sin(rotation.y), Math.sin(rotation.z)];
+
+  return [
+    [b * c, -b * f, e],
+    [a * f + d * e * c, a * c - d * e * f, -d * b],
+    [d * f - a * e * c, d * c + a * e * f, a * b]
+  ];
+}
+
+export function rotationMatrixToEuler(m: Matrix3): Rotation3D {
+  const y = Math.asin(Math.min(1, Math.max(-1, m[0][2])));
+
+  if (Math.abs(m[0][2]) < 0.9999999) {
+    return {
+      x: Math.atan2(-m[1][2], m[2][2]),
+      y,
+      z: Math.atan2(-m[0][1], m[0][0])
+    };
+  }
+
+  return { x: Math.atan2(m[2][1], m[1][1]), y, z: 0 };
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { brickTypes } from './brickTypes';
+import type { ConstructionPath } from './constructionAlgorithms';
+import { analyzeLoadPath, getMaterialStrength } from './loadPath';
+import { libraryMaterials } from './materialLibrary';
+
+describe('getMaterialStrength', () => {
+  it('takes the lower end of the library ranges', () => {
+    expect(getMaterialStrength('clay-sustainable')).toEqual({ density: 1800, compressiveStrength: 25 });
+    expect(getMaterialStrength('bio-composite')).toEqual({ density: 400, compressiveStrength: 0.4 });
+  });
+
+  it('follows a change to the library entry', () => {
+    const materials = libraryMaterials.map(material => material.id === 'clay-sustainable'
+      ? { ...material, properties: { ...material.properties, compressiveStrength: '12-18 MPa' } }
+      : material);
+    expect(getMaterialStrength('clay-sustainable', materials).compressiveStrength).toBe(12);
+  });
+
+  it('falls back for brick types without a library entry', () => {
+    const { density, compressiveStrength } = brickTypes['3d-printed-earth'].physical;
+    expect(getMaterialStrength('3d-printed-earth')).toEqual({ density, compressiveStrength });
+  });
+});
+
+// Stack-bonded clay wall, four stretchers long and three courses high, on the ground
+const positions = [0, 1, 2].flatMap(course => [0, 1, 2, 3].map(i => ({ x: 0.125 + i * 0.26, y: 0.06 + course * 0.13, z: 0 })));
+const wall: ConstructionPath = {
+  start: { x: 0, y: 0, z: 0 },
+  end: { x: 1.03, y: 0, z: 0 },
+  brickPositions: positions,
+  brickRotations: positions.map(() => ({ x: 0, y: 0, z: 0 })),
+  totalBricks: positions.length,
+  constructionType: 'wall'
+};
+
+describe('analyzeLoadPath', () => {
+  // Each brick: 0.25 × 0.12 × 0.15 m = 0.0045 m³ × 1800 kg/m³ × 9.81 m/s² = 0.0794610 kN,
+  // bedded on 0.25 × 0.15 = 0.0375 m², so 0.15 m² a course
+  const brick = 0.0045 * 1800 * 9.81 / 1000;
+
+  it('matches a hand calculation for a plain wall', () => {
+    const [report] = analyzeLoadPath([wall], 'clay-sustainable').elements;
+
+    expect(report.selfWeight).toBeCloseTo(12 * brick, 9); // 0.953532 kN
+    expect(report.carriedLoad).toBe(0);
+    expect(report.supportedBy).toEqual(['ground']);
+
+    // Load on each bed is the courses above it: 4, 8 and 12 bricks over 0.15 m²
+    expect(report.courses.map(course => course.level)).toEqual([0, 1, 2]);
+    expect(report.courses.map(course => course.area)).toEqual([0.15, 0.15, 0.15].map(area => expect.closeTo(area, 12)));
+    expect(report.courses[2].stress).toBeCloseTo(0.00211896, 8); // MPa
+    expect(report.courses[1].stress).toBeCloseTo(0.00423792, 8);
+    expect(report.courses[0].stress).toBeCloseTo(0.00635688, 8);
+
+    // 25 MPa units × 0.5 masonry efficiency / 3.0 safety factor
+    expect(report.designStrength).toBeCloseTo(25 * 0.5 / 3, 12);
+    expect(report.utilisation).toBeCloseTo(0.00635688 / (25 / 6), 8);
+    expect(report.margin).toBeCloseTo(1 - 0.00635688 / (25 / 6), 8);
+
+    // The whole wall on 0.15 m² of ground: 6.357 kPa against 150 kPa
+    expect(report.foundation!.load).toBeCloseTo(12 * brick, 9);
+    expect(report.foundation!.stress).toBeCloseTo(6.35688, 5);
+    expect(report.foundation!.utilisation).toBeCloseTo(6.35688 / 150, 7);
+    expect(report.passes).toBe(true);
+  });
+
+  it('reports a negative margin for units too weak to carry the wall', () => {
+    const { elements, passes, warnings } = analyzeLoadPath([wall], 'clay-sustainable', {
+      materials: { 'clay-sustainable': { density: 1800, compressiveStrength: 0.003 } }
+    });
+
+    // Design strength 0.003 × 0.5 / 3 = 0.0005 MPa against 0.00635688 MPa at the base
+    expect(elements[0].utilisation).toBeCloseTo(12.71376, 4);
+    expect(elements[0].margin).toBeCloseTo(-11.71376, 4);
+    expect(passes).toBe(false);
+    expect(warnings).toEqual(['wall 1 is overstressed: 1271% of the 0.00050 MPa design strength']);
+  });
+});
@@ -0,0 +1,245 @@
+import type { BrickTypeKey, Position3D } from '../types';
+import { brickTypes } from './brickTypes';
+import type { ConstructionPath } from './constructionAlgorithms';
+import { eulerToRotationMatrix } from './linearAlgebra';
+import { getLibraryMaterial, libraryMaterials, type Material } from './materialLibrary';
+
+// Static self-weight check. Each element's bricks are grouped into horizontal bands one course high;
+// the load on a band is everything above it plus whatever other elements deliver to its top.
+// Elements resting on another element's top anchor pass their load down to it; the rest go to ground.
+
+export interface MaterialStrength {
+  density: number; // kg/m³
+  compressiveStrength: number; // unit strength, MPa
+}
+
+export interface LoadPathOptions {
+  materials: Partial<Record<BrickTypeKey, MaterialStrength>>; // overrides the library strength
+  masonryEfficiency: number; // masonry strength as a fraction of unit strength (mortar joints weaken it)
+  partialSafetyFactor: number;
+  soilBearingCapacity: number; // kPa
+}
+
+export const defaultLoadPathOptions: LoadPathOptions = {
+  materials: {},
+  masonryEfficiency: 0.5,
+  partialSafetyFactor: 3.0,
+  soilBearingCapacity: 150
+};
+
+export interface CourseBearing {
+  level: number; // band index from the bottom of the element
+  height: number; // metres above the element base
+  load: number; // kN on the bed of this band
+  area: number; // m² of brick bedded in this band
+  stress: number; // MPa
+  utilisation: number; // stress over design strength
+}
+
+export interface FoundationBearing {
+  load: number; // kN delivered to the ground
+  area: number; // m² of the lowest band
+  stress: number; // kPa
+  capacity: number; // kPa
+  utilisation: number;
+  passes: boolean;
+}
+
+export interface ElementLoadReport {
+  index: number; // into the paths passed in
+  constructionType: ConstructionPath['constructionType'];
+  selfWeight: number; // kN
+  carriedLoad: number; // kN from elements resting on this one
+  supportedBy: Array<number | 'ground'>;
+  courses: CourseBearing[];
+  maxStress: number; // MPa
+  designStrength: number; // MPa
+  utilisation: number; // worst band
+  margin: number; // 1 - utilisation; negative when overstressed
+  passes: boolean;
+  foundation: FoundationBearing | null; // null when the element rests entirely on others
+}
+
+export interface LoadPathReport {
+  elements: ElementLoadReport[];
+  totalWeight: number; // kN
+  passes: boolean;
+  warnings: string[];
+}
+
+const GRAVITY = 9.81;
+// Anchors closer than this are the same support point
+const SUPPORT_TOLERANCE = 0.05;
+
+// Parse library strings such as '1.8 g/cm³' or '25-35 MPa', taking the lower end of a range
+export function parseMaterialStrength(properties: { density?: string; compressiveStrength?: string }): Partial<MaterialStrength> {
+  const lowerBound = (text: string) => parseFloat(text.replace(/[–—]/g, '-').split('-')[0]);
+  const result: Partial<MaterialStrength> = {};
+
+  if (properties.density) {
+    const value = lowerBound(properties.density);
+    if (Number.isFinite(value)) result.density = /g\/cm/.test(properties.density) ? value * 1000 : value;
+  }
+  if (properties.compressiveStrength) {
+    const value = lowerBound(properties.compressiveStrength);
+    if (Number.isFinite(value)) result.compressiveStrength = /kPa/.test(properties.compressiveStrength) ? value / 1000 : value;
+  }
+  return result;
+}
+
+// Strength from the brick type's library entry, falling back to the brick type where it has none
+export function getMaterialStrength(brickType: BrickTypeKey, materials: Material[] = libraryMaterials): MaterialStrength {
+  const entry = getLibraryMaterial(brickType, materials);
+  const { density, compressiveStrength } = brickTypes[brickType].physical;
+  return { density, compressiveStrength, ...(entry && parseMaterialStrength(entry.properties)) };
+}
+
+function sameSupport(a: Position3D, b: Position3D): boolean {
+  return Math.hypot(a.x - b.x, a.z - b.z) < SUPPORT_TOLERANCE * 2 && Math.abs(a.y - b.y) < SUPPORT_TOLERANCE;
+}
+
+// The element's top, if it rises to this point
+function risesTo(path: ConstructionPath, point: Position3D): boolean {
+  const top = path.start.y > path.end.y ? path.start : path.end;
+  const bottom = top === path.start ? path.end : path.start;
+  return top.y - bottom.y > SUPPORT_TOLERANCE && sameSupport(top, point);
+}
+
+export function analyzeLoadPath(
+  paths: ConstructionPath[],
+  brickType: BrickTypeKey,
+  options: Partial<LoadPathOptions> = {}
+): LoadPathReport {
+  const settings = { ...defaultLoadPathOptions, ...options };
+  const material = { ...getMaterialStrength(brickType), ...settings.materials[brickType] };
+  const brick = brickTypes[brickType];
+  const bandHeight = brick.size.height + brick.joint.jointThickness;
+  const designStrength = material.compressiveStrength * settings.masonryEfficiency / settings.partialSafetyFactor;
+  const warnings: string[] = [];
+
+  // Weight and bedded area of every brick, banded by height
+  const elements = paths.map((path, index) => {
+    const bricks = path.brickPositions.map((position, i) => {
+      const size = path.brickSizes?.[i] ?? brick.size;
+      const r = eulerToRotationMatrix(path.brickRotations[i]);
+      const volume = size.width * size.height * size.depth;
+      const verticalExtent = Math.abs(r[1][0]) * size.width + Math.abs(r[1][1]) * size.height + Math.abs(r[1][2]) * size.depth;
+      return {
+        centre: position.y,
+        bottom: position.y - verticalExtent / 2,
+        weight: volume * material.density * GRAVITY / 1000,
+        area: volume / verticalExtent
+      };
+    });
+    const base = bricks.reduce((min, b) => Math.min(min, b.bottom), Infinity);
+    const bands = new Map<number, { weight: number; area: number }>();
+    for (const b of bricks) {
+      const level = Math.max(0, Math.floor((b.centre - base) / bandHeight));
+      const band = bands.get(level) ?? { weight: 0, area: 0 };
+      band.weight += b.weight;
+      band.area += b.area;
+      bands.set(level, band);
+    }
+    const supportY = Math.min(path.start.y, path.end.y);
+    const supportPoints = [path.start, path.end].filter((point, i, all) =>
+      point.y <= supportY + SUPPORT_TOLERANCE && (i === 0 || !sameSupport(point, all[0]))
+    );
+    return {
+      path,
+      index,
+      bands,
+      supportPoints,
+      selfWeight: bricks.reduce((sum, b) => sum + b.weight, 0),
+      carried: 0
+    };
+  });
+
+  // Work down from the highest element so every load is known before it is passed on
+  const order = [...elements].sort((a, b) =>
+    Math.min(b.path.start.y, b.path.end.y) - Math.min(a.path.start.y, a.path.end.y)
+  );
+  const reports: ElementLoadReport[] = [];
+  for (const element of order) {
+    const total = element.selfWeight + element.carried;
+    const share = total / Math.max(1, element.supportPoints.length);
+    const supportedBy: Array<number | 'ground'> = [];
+    let groundLoad = 0;
+    for (const point of element.supportPoints) {
+      const carriers = elements.filter(other => other !== element && risesTo(other.path, point));
+      if (carriers.length === 0) {
+        groundLoad += share;
+        if (!supportedBy.includes('ground')) supportedBy.push('ground');
+        continue;
+      }
+      for (const carrier of carriers) {
+        carrier.carried += share / carriers.length;
+        supportedBy.push(carrier.index);
+      }
+    }
+
+    // Delivered loads are spread over the whole element; concentrated bearing under a support is not checked
+    const levels = [...element.bands.keys()].sort((a, b) => b - a);
+    let above = element.carried;
+    const courses: CourseBearing[] = [];
+    for (const level of levels) {
+      const band = element.bands.get(level)!;
+      above += band.weight;
+      const stress = band.area > 0 ? above / band.area / 1000 : 0;
+      courses.unshift({
+        level,
+        height: level * bandHeight,
+        load: above,
+        area: band.area,
+        stress,
+        utilisation: stress / designStrength
+      });
+    }
+
+    const worst = courses.reduce((max, course) => Math.max(max, course.utilisation), 0);
+    const lowest = courses[0];
+    let foundation: FoundationBearing | null = null;
+    if (groundLoad > 0 && lowest) {
+      const stress = groundLoad / lowest.area;
+      const utilisation = stress / settings.soilBearingCapacity;
+      foundation = {
+        load: groundLoad,
+        area: lowest.area,
+        stress,
+        capacity: settings.soilBearingCapacity,
+        utilisation,
+        passes: utilisation <= 1
+      };
+    }
+
+    const label = `${element.path.constructionType} ${element.index + 1}`;
+    if (worst > 1) {
+      warnings.push(`${label} is overstressed: ${(worst * 100).toFixed(0)}% of the ${designStrength.toPrecision(2)} MPa design strength`);
+    }
+    if (foundation && !foundation.passes) {
+      warnings.push(`Ground under ${label} is overloaded: ${foundation.stress.toFixed(0)} kPa against ${foundation.capacity} kPa; widen the footing`);
+    }
+
+    reports.push({
+      index: element.index,
+      constructionType: element.path.constructionType,
+      selfWeight: element.selfWeight,
+      carriedLoad: element.carried,
+      supportedBy,
+      courses,
+      maxStress: courses.reduce((max, course) => Math.max(max, course.stress), 0),
+      designStrength,
+      utilisation: worst,
+      margin: 1 - worst,
+      passes: worst <= 1 && (foundation?.passes ?? true),
+      foundation
+    });
+  }
+
+  reports.sort((a, b) => a.index - b.index);
+  return {
+    elements: reports,
+    totalWeight: elements.reduce((sum, element) => sum + element.selfWeight, 0),
+    passes: reports.every(report => report.passes),
+    warnings
+  };
+}
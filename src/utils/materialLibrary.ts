@@ -0,0 +1,121 @@
+import type { BrickTypeKey } from '../types';
+
+export interface Material {
+  id: string;
+  name: string;
+  category: 'sustainable' | 'recycled' | 'bio-based' | 'traditional';
+  description: string;
+  sustainability: number; // 1-5 rating
+  thermalRating: number; // 1-5 rating
+  waterResistance: number; // 1-5 rating
+  durability: number; // 1-5 rating
+  cost: 'low' | 'medium' | 'high';
+  thumbnailUrl?: string;
+  properties: {
+    density?: string;
+    compressiveStrength?: string;
+    thermalConductivity?: string;
+    carbonFootprint?: string;
+  };
+  tags: string[];
+  isDownloaded?: boolean;
+  isFavorite?: boolean;
+}
+
+// Sample sustainable materials
+export const libraryMaterials: Material[] = [
+  {
+    id: 'clay-sustainable',
+    name: 'Sustainable Clay Brick',
+    category: 'sustainable',
+    description: 'High-performance clay brick made from locally sourced materials with minimal processing.',
+    sustainability: 5,
+    thermalRating: 4,
+    waterResistance: 4,
+    durability: 5,
+    cost: 'medium',
+    properties: {
+      density: '1.8 g/cm³',
+      compressiveStrength: '25-35 MPa',
+      thermalConductivity: '0.6-0.8 W/mK',
+      carbonFootprint: '0.15 kg CO₂/kg'
+    },
+    tags: ['local', 'traditional', 'thermal-mass'],
+    isDownloaded: true,
+    isFavorite: true
+  },
+  {
+    id: 'hemp-crete',
+    name: 'Hemp-Crete Blocks',
+    category: 'bio-based',
+    description: 'Lightweight bio-composite made from hemp hurds and lime binder.',
+    sustainability: 5,
+    thermalRating: 5,
+    waterResistance: 3,
+    durability: 4,
+    cost: 'medium',
+    properties: {
+      density: '0.4-0.6 g/cm³',
+      compressiveStrength: '0.4-1.0 MPa',
+      thermalConductivity: '0.06-0.12 W/mK',
+      carbonFootprint: '-0.1 kg CO₂/kg (carbon negative)'
+    },
+    tags: ['insulation', 'renewable', 'breathable'],
+    isDownloaded: true
+  },
+  {
+    id: 'recycled-plastic',
+    name: 'Recycled Plastic Brick',
+    category: 'recycled',
+    description: 'Durable bricks made from 100% recycled plastic waste.',
+    sustainability: 4,
+    thermalRating: 2,
+    waterResistance: 5,
+    durability: 4,
+    cost: 'low',
+    properties: {
+      density: '1.2-1.4 g/cm³',
+      compressiveStrength: '15-20 MPa',
+      thermalConductivity: '0.2-0.3 W/mK',
+      carbonFootprint: '0.8 kg CO₂/kg'
+    },
+    tags: ['recycled', 'lightweight', 'moisture-resistant'],
+    isDownloaded: false
+  },
+  {
+    id: 'bamboo-fiber',
+    name: 'Bamboo Fiber Composite',
+    category: 'bio-based',
+    description: 'Strong and flexible composite made from bamboo fibers and bio-resin.',
+    sustainability: 5,
+    thermalRating: 3,
+    waterResistance: 4,
+    durability: 4,
+    cost: 'high',
+    properties: {
+      density: '0.8-1.0 g/cm³',
+      compressiveStrength: '40-60 MPa',
+      thermalConductivity: '0.15-0.25 W/mK',
+      carbonFootprint: '0.05 kg CO₂/kg'
+    },
+    tags: ['fast-growing', 'flexible', 'strong'],
+    isDownloaded: false
+  }
+];
+
+// Library entries describing the brick types; the others have no entry of their own yet
+export const BRICK_TYPE_MATERIALS: Partial<Record<BrickTypeKey, string>> = {
+  'clay-sustainable': 'clay-sustainable',
+  'bio-composite': 'hemp-crete'
+};
+
+// The brick type a library material is laid as; undefined for library materials that are not bricks
+export function getBrickTypeForMaterial(materialId: string): BrickTypeKey | undefined {
+  const entry = Object.entries(BRICK_TYPE_MATERIALS).find(([, id]) => id === materialId);
+  return entry?.[0] as BrickTypeKey | undefined;
+}
+
+// The library entry for a brick type; undefined where it has none, and brickTypes' physical data applies
+export function getLibraryMaterial(brickType: BrickTypeKey, materials: Material[] = libraryMaterials): Material | undefined {
+  return materials.find(material => material.id === BRICK_TYPE_MATERIALS[brickType]);
+}
@@ -0,0 +1,139 @@
+// Minimal vector PDF writer for print sheets. Units are millimetres with the origin at the
+// top-left of the page; everything is converted to PDF points (bottom-left origin) on output.
+// Only the standard Helvetica fonts are used, so no font data has to be embedded.
+
+export const MM_TO_PT = 72 / 25.4;
+
+export const PAGE_SIZES = {
+  a4: { width: 210, height: 297 },
+  letter: { width: 215.9, height: 279.4 }
+} as const;
+
+export type PageSizeKey = keyof typeof PAGE_SIZES;
+
+export interface TextOptions {
+  size?: number; // points
+  bold?: boolean;
+  gray?: number; // 0 = black, 1 = white
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(3)).toString();
+}
+
+// Standard fonts use WinAnsiEncoding: keep Latin-1, map common typography, drop everything else
+function encodeText(text: string): string {
+  return text
+    .replace(/[–—]/g, '-')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/[\\()]/g, match => `\\${match}`);
+}
+
+export class PdfDocument {
+  readonly width: number;
+  readonly height: number;
+  private pages: string[][] = [];
+
+  constructor(pageSize: PageSizeKey = 'a4') {
+    this.width = PAGE_SIZES[pageSize].width;
+    this.height = PAGE_SIZES[pageSize].height;
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  private get current(): string[] {
+    if (this.pages.length === 0) this.addPage();
+    return this.pages[this.pages.length - 1];
+  }
+
+  private x(mm: number): string {
+    return formatNumber(mm * MM_TO_PT);
+  }
+
+  private y(mm: number): string {
+    return formatNumber((this.height - mm) * MM_TO_PT);
+  }
+
+  // Filled rectangle; (x, y) is its top-left corner
+  rect(x: number, y: number, width: number, height: number, gray = 0): void {
+    this.current.push(
+      `${formatNumber(gray)} g ${this.x(x)} ${this.y(y + height)} ${formatNumber(width * MM_TO_PT)} ${formatNumber(height * MM_TO_PT)} re f`
+    );
+  }
+
+  // Many filled rectangles of the same colour in one path (used for QR modules)
+  rects(rectangles: Array<{ x: number; y: number; width: number; height: number }>, gray = 0): void {
+    if (rectangles.length === 0) return;
+    const path = rectangles
+      .map(r => `${this.x(r.x)} ${this.y(r.y + r.height)} ${formatNumber(r.width * MM_TO_PT)} ${formatNumber(r.height * MM_TO_PT)} re`)
+      .join('\n');
+    this.current.push(`${formatNumber(gray)} g\n${path}\nf`);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, lineWidth = 0.2, gray = 0): void {
+    this.current.push(
+      `${formatNumber(gray)} G ${formatNumber(lineWidth * MM_TO_PT)} w ${this.x(x1)} ${this.y(y1)} m ${this.x(x2)} ${this.y(y2)} l S`
+    );
+  }
+
+  // Left-aligned text; y is the baseline
+  text(x: number, y: number, text: string, options: TextOptions = {}): void {
+    const { size = 10, bold = false, gray = 0 } = options;
+    this.current.push(
+      `BT ${formatNumber(gray)} g /${bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ${this.x(x)} ${this.y(y)} Td (${encodeText(text)}) Tj ET`
+    );
+  }
+
+  // Serialise to PDF 1.4. All content is single-byte, so string offsets equal byte offsets.
+  toBytes(): Uint8Array {
+    if (this.pages.length === 0) this.addPage();
+
+    const objects: string[] = [];
+    const pageIds = this.pages.map((_, index) => 5 + index * 2);
+
+    objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+    objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+    const mediaBox = `[0 0 ${formatNumber(this.width * MM_TO_PT)} ${formatNumber(this.height * MM_TO_PT)}]`;
+    this.pages.forEach((operations, index) => {
+      const content = operations.join('\n');
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox ${mediaBox} ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+      );
+      objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    });
+
+    let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets: number[] = [];
+    objects.forEach((body, index) => {
+      offsets.push(output.length);
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    });
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(output.length);
+    for (let i = 0; i < output.length; i++) {
+      bytes[i] = output.charCodeAt(i) & 0xff;
+    }
+    return bytes;
+  }
+
+  toBlob(): Blob {
+    return new Blob([this.toBytes()], { type: 'application/pdf' });
+  }
+}
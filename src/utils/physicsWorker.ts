@@ -0,0 +1,95 @@
+import type { Position3D, Rotation3D } from '../types';
+import {
+  addPhysicsBodies,
+  advancePhysicsWorld,
+  createPhysicsWorld,
+  findToppledBricks,
+  getBodyTransform,
+  hasToppled,
+  isWorldAtRest,
+  removePhysicsBody,
+  snapshotBodies,
+  type BodyPose,
+  type PhysicsBodyInput,
+  type PhysicsOptions,
+  type PhysicsWorld,
+  type ToppleOptions,
+  type ToppleReport
+} from './rigidBodyPhysics';
+
+// Steps the brick simulation off the main thread, so a wall being laid never stalls rendering.
+// The world lives here between messages, bodies keep their sleep state, and only moving bodies are sent back.
+
+export type PhysicsRequest =
+  | { type: 'reset'; bodies: PhysicsBodyInput[]; options: Partial<PhysicsOptions> }
+  | { type: 'add'; bodies: PhysicsBodyInput[] }
+  | { type: 'remove'; ids: string[]; trackTopple: boolean }
+  | { type: 'advance'; deltaTime: number }
+  | { type: 'predict'; requestId: number; bodies: PhysicsBodyInput[]; removedIds: string[]; options: Partial<ToppleOptions> };
+
+export interface BodyUpdate {
+  id: string;
+  position: Position3D;
+  rotation: Rotation3D;
+  asleep: boolean;
+}
+
+export type PhysicsResponse =
+  | { type: 'frame'; bodies: BodyUpdate[]; toppled: string[] | null } // toppled once a removal has come to rest
+  | { type: 'prediction'; requestId: number; report: ToppleReport };
+
+let world: PhysicsWorld | null = null;
+// Poses before the last support was knocked out, until everything comes to rest again
+let removal: Map<string, BodyPose> | null = null;
+
+function advance(deltaTime: number): PhysicsResponse {
+  if (!world || (isWorldAtRest(world) && !removal)) return { type: 'frame', bodies: [], toppled: null };
+
+  // Bodies that fall asleep during the advance are sent once more, at rest
+  const awake = new Set(world.bodies.filter(body => !body.asleep).map(body => body.id));
+  advancePhysicsWorld(world, deltaTime);
+
+  let toppled: string[] | null = null;
+  if (removal && isWorldAtRest(world)) {
+    const before = removal;
+    toppled = world.bodies.filter(body => before.has(body.id) && hasToppled(body, before.get(body.id)!)).map(body => body.id);
+    removal = null;
+  }
+
+  const bodies = world.bodies
+    .filter(body => awake.has(body.id) || !body.asleep)
+    .map(body => ({ id: body.id, ...getBodyTransform(body), asleep: body.asleep }));
+  return { type: 'frame', bodies, toppled };
+}
+
+function handle(request: PhysicsRequest): PhysicsResponse | null {
+  switch (request.type) {
+    case 'reset':
+      world = createPhysicsWorld(request.bodies, request.options);
+      removal = null;
+      return null;
+    case 'add':
+      if (world) addPhysicsBodies(world, request.bodies);
+      return null;
+    case 'remove': {
+      const current = world;
+      if (!current) return null;
+      if (request.trackTopple) removal = snapshotBodies(current.bodies.filter(body => !request.ids.includes(body.id)));
+      request.ids.forEach(id => removePhysicsBody(current, id));
+      return null;
+    }
+    case 'advance':
+      return advance(request.deltaTime);
+    case 'predict':
+      return {
+        type: 'prediction',
+        requestId: request.requestId,
+        report: findToppledBricks(request.bodies, request.removedIds, request.options)
+      };
+  }
+}
+
+self.onmessage = (event: MessageEvent<PhysicsRequest>) => {
+  const response = handle(event.data);
+  if (response) self.postMessage(response);
+};
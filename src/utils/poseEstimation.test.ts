@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { Position3D, QRCornerPoints } from '../types';
+import { eulerToRotationMatrix, type Matrix3 } from './linearAlgebra';
+import { estimateMarkerPose, getMarkerModelPoints, intrinsicsFromFieldOfView, projectToImage } from './poseEstimation';
+
+const intrinsics = intrinsicsFromFieldOfView(1280, 720);
+const markerSize = 0.1;
+
+// Project the marker's corners from a known pose, the way a camera would see them
+function projectMarker(rotation: Matrix3, position: Position3D, noise = 0): QRCornerPoints {
+  const model = getMarkerModelPoints(markerSize);
+  const project = (key: keyof QRCornerPoints, k: number) => {
+    const { x, y } = model[key];
+    const point = {
+      x: rotation[0][0] * x + rotation[0][1] * y + position.x,
+      y: rotation[1][0] * x + rotation[1][1] * y + position.y,
+      z: rotation[2][0] * x + rotation[2][1] * y + position.z
+    };
+    const pixel = projectToImage(point, intrinsics);
+    // Deterministic jitter so the test does not depend on a random seed
+    return { x: pixel.x + noise * Math.sin(k * 2.3), y: pixel.y + noise * Math.cos(k * 1.7) };
+  };
+  return {
+    topLeft: project('topLeft', 1),
+    topRight: project('topRight', 2),
+    bottomRight: project('bottomRight', 3),
+    bottomLeft: project('bottomLeft', 4)
+  };
+}
+
+describe('estimateMarkerPose', () => {
+  const rotation = eulerToRotationMatrix({ x: 0.35, y: -0.5, z: 0.2 });
+  const position = { x: 0.12, y: -0.06, z: -0.8 };
+
+  it('recovers a tilted marker from exact corners', () => {
+    const estimate = estimateMarkerPose(projectMarker(rotation, position), markerSize, intrinsics)!;
+
+    expect(estimate.pose.position.x).toBeCloseTo(position.x, 6);
+    expect(estimate.pose.position.y).toBeCloseTo(position.y, 6);
+    expect(estimate.pose.position.z).toBeCloseTo(position.z, 6);
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) expect(estimate.rotationMatrix[i][j]).toBeCloseTo(rotation[i][j], 6);
+    }
+    expect(estimate.pose.rotation.x).toBeCloseTo(0.35, 6);
+    expect(estimate.pose.rotation.y).toBeCloseTo(-0.5, 6);
+    expect(estimate.pose.rotation.z).toBeCloseTo(0.2, 6);
+    expect(estimate.reprojectionError).toBeLessThan(1e-6);
+  });
+
+  it('points the normal out of the printed face', () => {
+    const estimate = estimateMarkerPose(projectMarker(rotation, position), markerSize, intrinsics)!;
+    expect(estimate.normal.x).toBeCloseTo(rotation[0][2], 6);
+    expect(estimate.normal.y).toBeCloseTo(rotation[1][2], 6);
+    expect(estimate.normal.z).toBeCloseTo(rotation[2][2], 6);
+  });
+
+  it('stays within two centimetres with a pixel of corner noise', () => {
+    const estimate = estimateMarkerPose(projectMarker(rotation, position, 1), markerSize, intrinsics)!;
+    const error = Math.hypot(
+      estimate.pose.position.x - position.x,
+      estimate.pose.position.y - position.y,
+      estimate.pose.position.z - position.z
+    );
+
+    expect(error).toBeLessThan(0.02);
+    expect(estimate.reprojectionError).toBeGreaterThan(0);
+    expect(estimate.reprojectionError).toBeLessThan(4);
+  });
+
+  it('scales distance with the printed marker size', () => {
+    const corners = projectMarker(rotation, position);
+    const estimate = estimateMarkerPose(corners, markerSize * 2, intrinsics)!;
+    expect(estimate.pose.position.z).toBeCloseTo(position.z * 2, 6);
+  });
+
+  it('rejects a non-positive marker size and degenerate corners', () => {
+    const corners = projectMarker(rotation, position);
+    expect(estimateMarkerPose(corners, 0, intrinsics)).toBeNull();
+
+    const point = { x: 640, y: 360 };
+    expect(estimateMarkerPose({ topLeft: point, topRight: point, bottomRight: point, bottomLeft: point }, markerSize, intrinsics))
+      .toBeNull();
+  });
+});
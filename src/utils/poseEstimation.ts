@@ -0,0 +1,151 @@
+import type { ARPose, Point2D, Position3D, QRCornerPoints } from '../types';
+import {
+  cross,
+  matrixColumn,
+  matrixFromColumns,
+  nearestRotation,
+  rotationMatrixToEuler,
+  scaleVector,
+  solveLinearSystem,
+  vectorLength,
+  type Matrix3
+} from './linearAlgebra';
+
+// Pinhole camera model in pixels
+export interface CameraIntrinsics {
+  fx: number;
+  fy: number;
+  cx: number;
+  cy: number;
+}
+
+export interface MarkerPoseEstimate {
+  pose: ARPose;
+  rotationMatrix: Matrix3;
+  normal: Position3D; // Unit vector pointing out of the printed face, towards the camera
+  reprojectionError: number; // RMS corner error in pixels
+}
+
+// Printed edge length of the QR symbol (finder pattern to finder pattern, excluding the quiet zone)
+export const DEFAULT_MARKER_SIZE = 0.1;
+
+// Typical horizontal field of view of a phone's rear camera
+export const DEFAULT_HORIZONTAL_FOV = 65;
+
+// Approximate intrinsics when the camera is not calibrated (square pixels, centred principal point)
+export function intrinsicsFromFieldOfView(
+  width: number,
+  height: number,
+  horizontalFovDegrees: number = DEFAULT_HORIZONTAL_FOV
+): CameraIntrinsics {
+  const focal = (width / 2) / Math.tan((horizontalFovDegrees * Math.PI / 180) / 2);
+  return { fx: focal, fy: focal, cx: width / 2, cy: height / 2 };
+}
+
+// Corner positions in the marker's own frame: centred, X right, Y up, printed face towards +Z
+export function getMarkerModelPoints(markerSize: number): Record<keyof QRCornerPoints, Point2D> {
+  const half = markerSize / 2;
+  return {
+    topLeft: { x: -half, y: half },
+    topRight: { x: half, y: half },
+    bottomRight: { x: half, y: -half },
+    bottomLeft: { x: -half, y: -half }
+  };
+}
+
+const CORNER_ORDER: Array<keyof QRCornerPoints> = ['topLeft', 'topRight', 'bottomRight', 'bottomLeft'];
+
+// Project a point given in camera space (Three.js convention: Y up, camera looking down -Z) to pixels
+export function projectToImage(point: Position3D, intrinsics: CameraIntrinsics): Point2D {
+  return {
+    x: intrinsics.cx + intrinsics.fx * (point.x / -point.z),
+    y: intrinsics.cy - intrinsics.fy * (point.y / -point.z)
+  };
+}
+
+// Homography mapping marker-plane coordinates to normalised image coordinates (h33 fixed to 1)
+function solveHomography(modelPoints: Point2D[], imagePoints: Point2D[]): Matrix3 | null {
+  const A: number[][] = [];
+  const b: number[] = [];
+
+  modelPoints.forEach((model, i) => {
+    const image = imagePoints[i];
+    A.push([model.x, model.y, 1, 0, 0, 0, -image.x * model.x, -image.x * model.y]);
+    b.push(image.x);
+    A.push([0, 0, 0, model.x, model.y, 1, -image.y * model.x, -image.y * model.y]);
+    b.push(image.y);
+  });
+
+  const h = solveLinearSystem(A, b);
+  if (!h) return null;
+
+  return [
+    [h[0], h[1], h[2]],
+    [h[3], h[4], h[5]],
+    [h[6], h[7], 1]
+  ];
+}
+
+// Estimate the 6-DoF pose of a square marker from its four detected corners.
+// The returned pose is in camera space using the Three.js/WebXR convention (X right, Y up, -Z forward).
+export function estimateMarkerPose(
+  corners: QRCornerPoints,
+  markerSize: number,
+  intrinsics: CameraIntrinsics,
+  timestamp: number = Date.now()
+): MarkerPoseEstimate | null {
+  if (markerSize <= 0) return null;
+
+  const model = getMarkerModelPoints(markerSize);
+  const modelPoints = CORNER_ORDER.map(key => model[key]);
+  // Normalised image coordinates in the computer-vision convention (Y down, +Z forward)
+  const imagePoints = CORNER_ORDER.map(key => ({
+    x: (corners[key].x - intrinsics.cx) / intrinsics.fx,
+    y: (corners[key].y - intrinsics.cy) / intrinsics.fy
+  }));
+
+  const H = solveHomography(modelPoints, imagePoints);
+  if (!H) return null;
+
+  // H = λ·[r1 r2 t]; the scale comes from r1 and r2 being unit vectors
+  const h1 = matrixColumn(H, 0);
+  const h2 = matrixColumn(H, 1);
+  const h3 = matrixColumn(H, 2);
+  const norm = Math.sqrt(vectorLength(h1) * vectorLength(h2));
+  if (norm < 1e-12) return null;
+
+  // The marker must be in front of the camera
+  const lambda = (h3.z >= 0 ? 1 : -1) / norm;
+  const r1 = scaleVector(h1, lambda);
+  const r2 = scaleVector(h2, lambda);
+  const translationCV = scaleVector(h3, lambda);
+  const rotationCV = nearestRotation(matrixFromColumns(r1, r2, cross(r1, r2)));
+
+  // Flip Y and Z to go from the computer-vision camera frame to the Three.js camera frame
+  const rotationMatrix = rotationCV.map((row, i) => (i === 0 ? row : row.map(value => -value)));
+  const position = { x: translationCV.x, y: -translationCV.y, z: -translationCV.z };
+
+  // RMS reprojection error of the recovered pose
+  let squaredError = 0;
+  CORNER_ORDER.forEach(key => {
+    const local = model[key];
+    const cameraPoint = {
+      x: rotationMatrix[0][0] * local.x + rotationMatrix[0][1] * local.y + position.x,
+      y: rotationMatrix[1][0] * local.x + rotationMatrix[1][1] * local.y + position.y,
+      z: rotationMatrix[2][0] * local.x + rotationMatrix[2][1] * local.y + position.z
+    };
+    const projected = projectToImage(cameraPoint, intrinsics);
+    squaredError += Math.pow(projected.x - corners[key].x, 2) + Math.pow(projected.y - corners[key].y, 2);
+  });
+
+  return {
+    pose: {
+      position,
+      rotation: rotationMatrixToEuler(rotationMatrix),
+      timestamp
+    },
+    rotationMatrix,
+    normal: matrixColumn(rotationMatrix, 2),
+    reprojectionError: Math.sqrt(squaredError / CORNER_ORDER.length)
+  };
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import type { Anchor as AnchorRow, Project as ProjectRow } from '../lib/supabase';
+import { pairProjectData, validatePairQRPayload } from './qrSchema';
+
+// Shaped as Supabase returns them: snake_case columns, a null description, numeric columns as strings
+const projectRow = {
+  id: 'b7a1c2d3-0000-4000-8000-000000000001',
+  user_id: 'user-1',
+  name: 'Riverside Shelter',
+  description: null,
+  brick_type: 'clay-sustainable',
+  type: 'modular-construction',
+  is_public: false,
+  signing_public_key: null,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z'
+} as unknown as ProjectRow;
+
+const anchorRow = (id: string, x: string): AnchorRow => ({
+  id,
+  project_id: projectRow.id,
+  name: `Corner ${id}`,
+  purpose: 'wall-corner',
+  construction_type: 'wall',
+  position_x: x as unknown as number,
+  position_y: '0' as unknown as number,
+  position_z: '0' as unknown as number,
+  created_at: '2026-01-01T00:00:00Z'
+});
+
+describe('validatePairQRPayload', () => {
+  it('accepts a pair payload built from database rows', () => {
+    const payload = {
+      ...pairProjectData(projectRow, [anchorRow('a1', '0'), anchorRow('a2', '2.5')]),
+      qrPair: { pairId: 'pair-1', referenceDistance: 2.5, primaryAnchorId: 'a1', secondaryAnchorId: 'a2' },
+      arPositioning: { usesPairPositioning: true, coordinateSystem: 'qr-pair-based' },
+      qrPosition: 'primary'
+    };
+
+    const result = validatePairQRPayload(JSON.parse(JSON.stringify(payload)));
+
+    expect(result.success ? [] : result.errors).toEqual([]);
+    expect(result.success && result.data.project.brickType).toBe('clay-sustainable');
+    expect(result.success && result.data.anchors[1].position.x).toBe(2.5);
+  });
+
+  it('reports the path of a missing brick type', () => {
+    const data = pairProjectData({ ...projectRow, brick_type: undefined as unknown as string }, []);
+    const result = validatePairQRPayload({ ...data, qrPosition: 'primary' });
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.errors.map(error => error.path)).toContain('project.brickType');
+  });
+});
@@ -0,0 +1,255 @@
+import type { Anchor as AnchorRow, Project as ProjectRow } from '../lib/supabase';
+import type { AnchorPurpose, AnchorQRData, ConstructionType, PairQRPayload } from '../types';
+import { getBrickTypeKeys } from './brickTypes';
+
+// Schema validation for scanned QR payloads. Every failure carries the path of the offending
+// value (e.g. "anchor.position.x" or "anchors[2].purpose") so scanners can report exactly what is wrong.
+
+export interface SchemaError {
+  path: string;
+  message: string;
+}
+
+export type SchemaResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: SchemaError[] };
+
+export const ANCHOR_PURPOSES: AnchorPurpose[] = ['foundation', 'wall-corner', 'height-marker', 'roof-point', 'column-base', 'beam-junction'];
+export const CONSTRUCTION_TYPES: ConstructionType[] = ['wall', 'column', 'beam', 'foundation', 'arch', 'vault', 'dome'];
+
+// Anchors further than this from the project origin are treated as typos (metres)
+const MAX_COORDINATE = 1000;
+
+type JsonObject = Record<string, unknown>;
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function checkObject(value: unknown, path: string, errors: SchemaError[]): value is JsonObject {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push({ path: path || '(root)', message: `Expected object, got ${describe(value)}` });
+    return false;
+  }
+  return true;
+}
+
+function checkString(
+  obj: JsonObject,
+  key: string,
+  path: string,
+  errors: SchemaError[],
+  options: { optional?: boolean; allowEmpty?: boolean } = {}
+): void {
+  const value = obj[key];
+  const fieldPath = joinPath(path, key);
+
+  if (value === undefined) {
+    if (!options.optional) errors.push({ path: fieldPath, message: 'Required' });
+    return;
+  }
+  if (typeof value !== 'string') {
+    errors.push({ path: fieldPath, message: `Expected string, got ${describe(value)}` });
+    return;
+  }
+  if (!options.allowEmpty && value.trim() === '') {
+    errors.push({ path: fieldPath, message: 'Must not be empty' });
+  }
+}
+
+function checkNumber(
+  obj: JsonObject,
+  key: string,
+  path: string,
+  errors: SchemaError[],
+  options: { integer?: boolean; min?: number; max?: number; exclusiveMin?: boolean } = {}
+): void {
+  const value = obj[key];
+  const fieldPath = joinPath(path, key);
+
+  if (value === undefined) {
+    errors.push({ path: fieldPath, message: 'Required' });
+    return;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push({ path: fieldPath, message: `Expected finite number, got ${describe(value)}` });
+    return;
+  }
+  if (options.integer && !Number.isInteger(value)) {
+    errors.push({ path: fieldPath, message: 'Expected integer' });
+  }
+  if (options.min !== undefined && (options.exclusiveMin ? value <= options.min : value < options.min)) {
+    errors.push({ path: fieldPath, message: `Must be ${options.exclusiveMin ? 'greater than' : 'at least'} ${options.min}` });
+  }
+  if (options.max !== undefined && value > options.max) {
+    errors.push({ path: fieldPath, message: `Must be at most ${options.max}` });
+  }
+}
+
+function checkEnum<T extends string>(
+  obj: JsonObject,
+  key: string,
+  allowed: readonly T[],
+  path: string,
+  errors: SchemaError[]
+): void {
+  const value = obj[key];
+  const fieldPath = joinPath(path, key);
+
+  if (value === undefined) {
+    errors.push({ path: fieldPath, message: 'Required' });
+  } else if (!allowed.includes(value as T)) {
+    errors.push({ path: fieldPath, message: `Expected one of ${allowed.join(', ')}, got ${JSON.stringify(value)}` });
+  }
+}
+
+function checkPosition(value: unknown, path: string, errors: SchemaError[]): void {
+  if (!checkObject(value, path, errors)) return;
+  for (const axis of ['x', 'y', 'z']) {
+    checkNumber(value, axis, path, errors, { min: -MAX_COORDINATE, max: MAX_COORDINATE });
+  }
+}
+
+function checkAnchor(value: unknown, path: string, errors: SchemaError[]): void {
+  if (!checkObject(value, path, errors)) return;
+  checkEnum(value, 'purpose', ANCHOR_PURPOSES, path, errors);
+  checkString(value, 'name', path, errors);
+  checkPosition(value.position, joinPath(path, 'position'), errors);
+  checkEnum(value, 'constructionType', CONSTRUCTION_TYPES, path, errors);
+  checkString(value, 'notes', path, errors, { optional: true, allowEmpty: true });
+}
+
+export function validateAnchorQRData(value: unknown): SchemaResult<AnchorQRData> {
+  const errors: SchemaError[] = [];
+  if (!checkObject(value, '', errors)) return { success: false, errors };
+
+  if (value.type !== 'construction-anchor') {
+    errors.push({ path: 'type', message: `Expected "construction-anchor", got ${JSON.stringify(value.type)}` });
+  }
+  checkString(value, 'projectId', '', errors);
+  checkString(value, 'projectUID', '', errors);
+  checkString(value, 'projectName', '', errors, { allowEmpty: true });
+  checkNumber(value, 'totalAnchors', '', errors, { integer: true, min: 1 });
+  checkNumber(value, 'anchorIndex', '', errors, { integer: true, min: 0 });
+  checkString(value, 'anchorUID', '', errors);
+  checkAnchor(value.anchor, 'anchor', errors);
+  checkEnum(value, 'brickType', getBrickTypeKeys(), '', errors);
+  checkString(value, 'timestamp', '', errors, { allowEmpty: true });
+
+  // Cross-field check, only meaningful once both numbers are valid
+  if (
+    errors.every(e => e.path !== 'anchorIndex' && e.path !== 'totalAnchors') &&
+    (value.anchorIndex as number) >= (value.totalAnchors as number)
+  ) {
+    errors.push({ path: 'anchorIndex', message: `Must be less than totalAnchors (${value.totalAnchors})` });
+  }
+
+  return errors.length > 0 ? { success: false, errors } : { success: true, data: value as unknown as AnchorQRData };
+}
+
+export function validatePairQRPayload(value: unknown): SchemaResult<PairQRPayload> {
+  const errors: SchemaError[] = [];
+  if (!checkObject(value, '', errors)) return { success: false, errors };
+
+  if (checkObject(value.project, 'project', errors)) {
+    checkString(value.project, 'id', 'project', errors);
+    checkString(value.project, 'name', 'project', errors);
+    checkString(value.project, 'description', 'project', errors, { allowEmpty: true });
+    checkString(value.project, 'type', 'project', errors);
+    checkEnum(value.project, 'brickType', getBrickTypeKeys(), 'project', errors);
+  }
+
+  const anchorIds = new Set<string>();
+  if (!Array.isArray(value.anchors)) {
+    errors.push({ path: 'anchors', message: `Expected array, got ${describe(value.anchors)}` });
+  } else {
+    value.anchors.forEach((anchor, index) => {
+      const path = joinPath('anchors', index);
+      if (!checkObject(anchor, path, errors)) return;
+      checkString(anchor, 'id', path, errors);
+      checkAnchor(anchor, path, errors);
+      if (typeof anchor.id === 'string') anchorIds.add(anchor.id);
+    });
+  }
+
+  if (checkObject(value.qrPair, 'qrPair', errors)) {
+    const pair = value.qrPair;
+    checkString(pair, 'pairId', 'qrPair', errors);
+    checkNumber(pair, 'referenceDistance', 'qrPair', errors, { min: 0, exclusiveMin: true, max: MAX_COORDINATE });
+    checkString(pair, 'primaryAnchorId', 'qrPair', errors);
+    checkString(pair, 'secondaryAnchorId', 'qrPair', errors);
+
+    for (const key of ['primaryAnchorId', 'secondaryAnchorId']) {
+      if (typeof pair[key] === 'string' && Array.isArray(value.anchors) && !anchorIds.has(pair[key])) {
+        errors.push({ path: joinPath('qrPair', key), message: 'Does not match any anchor in the payload' });
+      }
+    }
+    if (typeof pair.primaryAnchorId === 'string' && pair.primaryAnchorId === pair.secondaryAnchorId) {
+      errors.push({ path: 'qrPair.secondaryAnchorId', message: 'Must differ from primaryAnchorId' });
+    }
+  }
+
+  if (checkObject(value.arPositioning, 'arPositioning', errors)) {
+    if (typeof value.arPositioning.usesPairPositioning !== 'boolean') {
+      errors.push({ path: 'arPositioning.usesPairPositioning', message: `Expected boolean, got ${describe(value.arPositioning.usesPairPositioning)}` });
+    }
+    checkEnum(value.arPositioning, 'coordinateSystem', ['qr-pair-based'], 'arPositioning', errors);
+  }
+
+  checkEnum(value, 'qrPosition', ['primary', 'secondary'], '', errors);
+
+  return errors.length > 0 ? { success: false, errors } : { success: true, data: value as unknown as PairQRPayload };
+}
+
+// Project and anchor part of a pair payload, as printed, from the rows the database returns
+export interface PairProjectData {
+  project: { id: string; name: string; description: string; type: string; brickType: string };
+  anchors: Array<{
+    id: string;
+    name: string;
+    purpose: string;
+    constructionType: string;
+    notes: string;
+    position: { x: number; y: number; z: number };
+  }>;
+}
+
+export function pairProjectData(
+  project: Pick<ProjectRow, 'id' | 'name' | 'type' | 'brick_type'> & { description?: string | null },
+  anchors: AnchorRow[]
+): PairProjectData {
+  return {
+    project: {
+      id: project.id,
+      name: project.name,
+      description: project.description ?? '',
+      type: project.type,
+      brickType: project.brick_type
+    },
+    anchors: anchors.map(anchor => ({
+      id: anchor.id,
+      name: anchor.name,
+      purpose: anchor.purpose,
+      constructionType: anchor.construction_type,
+      notes: anchor.notes || '',
+      // numeric columns can come back as strings
+      position: {
+        x: Number(anchor.position_x),
+        y: Number(anchor.position_y),
+        z: Number(anchor.position_z)
+      }
+    }))
+  };
+}
+
+// One-line summary for status messages
+export function formatSchemaErrors(errors: SchemaError[]): string {
+  return errors.map(error => `${error.path}: ${error.message}`).join('; ');
+}
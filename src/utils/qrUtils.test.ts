@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import type { AnchorQRData } from '../types';
+import {
+  decodeAllQRFromImageData,
+  decodeQRFromImageData,
+  encodeCompactAnchorPayload,
+  generateSigningKeyPair,
+  getQRModuleRuns,
+  importSigningKey,
+  signCompactAnchorPayload,
+  validateQRData,
+  verifyAnchorPayloadSignature,
+  type RawImageData
+} from './qrUtils';
+
+const anchorData: AnchorQRData = {
+  projectId: 'project-1',
+  projectUID: '3f2b8c1e-4d5a-4e6f-8a7b-9c0d1e2f3a4b',
+  projectName: 'Test Shelter',
+  anchorIndex: 2,
+  anchorUID: '7a6b5c4d-3e2f-4a1b-9c8d-7e6f5a4b3c2d',
+  anchor: {
+    purpose: 'wall-corner',
+    name: 'North-East Corner',
+    position: { x: 4.25, y: 0, z: -3.1 },
+    constructionType: 'wall'
+  },
+  brickType: 'clay-sustainable',
+  totalAnchors: 4,
+  type: 'construction-anchor',
+  timestamp: '2026-01-01T00:00:00.000Z'
+};
+
+// Rasterise a symbol the way the renderers draw it: dark runs on white, with a quiet zone
+function renderSymbol(text: string, moduleSize = 4, quietZone = 4): RawImageData {
+  const { size, runs } = getQRModuleRuns(text);
+  const width = (size + quietZone * 2) * moduleSize;
+  const data = new Uint8ClampedArray(width * width * 4).fill(255);
+  for (const run of runs) {
+    for (let dy = 0; dy < moduleSize; dy++) {
+      const y = (run.row + quietZone) * moduleSize + dy;
+      const from = (y * width + (run.start + quietZone) * moduleSize) * 4;
+      const to = (y * width + (run.start + run.length + quietZone) * moduleSize) * 4;
+      for (let i = from; i < to; i += 4) data.fill(0, i, i + 3);
+    }
+  }
+  return { data, width, height: width };
+}
+
+// Paste symbols onto a white frame at the given offsets
+function compose(width: number, height: number, parts: Array<[RawImageData, number, number]>): RawImageData {
+  const data = new Uint8ClampedArray(width * height * 4).fill(255);
+  for (const [image, left, top] of parts) {
+    for (let y = 0; y < image.height; y++) {
+      data.set(image.data.subarray(y * image.width * 4, (y + 1) * image.width * 4), ((top + y) * width + left) * 4);
+    }
+  }
+  return { data, width, height };
+}
+
+describe('decodeQRFromImageData', () => {
+  it('reads back a compact anchor payload', () => {
+    const payload = encodeCompactAnchorPayload(anchorData);
+    const decoded = decodeQRFromImageData(renderSymbol(payload));
+
+    expect(decoded?.data).toBe(payload);
+    const validation = validateQRData(decoded!.data);
+    expect(validation.isValid).toBe(true);
+    expect(validation.data?.anchorUID).toBe(anchorData.anchorUID);
+    expect(validation.data?.anchor.position).toEqual(anchorData.anchor.position);
+  });
+
+  it('reads back a legacy JSON payload', () => {
+    const payload = JSON.stringify(anchorData);
+    const decoded = decodeQRFromImageData(renderSymbol(payload, 3));
+
+    expect(validateQRData(decoded!.data).data?.anchor.name).toBe(anchorData.anchor.name);
+  });
+
+  it('reports the corners of the symbol', () => {
+    const moduleSize = 4;
+    const quietZone = 4;
+    const image = renderSymbol(encodeCompactAnchorPayload(anchorData), moduleSize, quietZone);
+    const { cornerPoints } = decodeQRFromImageData(image)!;
+    const inset = quietZone * moduleSize;
+    const far = image.width - inset;
+
+    expect(cornerPoints.topLeft.x).toBeCloseTo(inset, -1);
+    expect(cornerPoints.topLeft.y).toBeCloseTo(inset, -1);
+    expect(cornerPoints.bottomRight.x).toBeCloseTo(far, -1);
+    expect(cornerPoints.bottomRight.y).toBeCloseTo(far, -1);
+  });
+
+  it('returns null for a frame without a code', () => {
+    const blank = { data: new Uint8ClampedArray(64 * 64 * 4).fill(255), width: 64, height: 64 };
+    expect(decodeQRFromImageData(blank)).toBeNull();
+  });
+});
+
+describe('decodeAllQRFromImageData', () => {
+  const second = { ...anchorData, anchorIndex: 3, anchorUID: '1b2c3d4e-5f6a-4b7c-8d9e-0f1a2b3c4d5e' };
+  const first = renderSymbol(encodeCompactAnchorPayload(anchorData));
+  const other = renderSymbol(encodeCompactAnchorPayload(second));
+  const uids = (frame: RawImageData) =>
+    decodeAllQRFromImageData(frame).map(code => validateQRData(code.data).data?.anchorUID).sort();
+
+  it('reads two codes side by side', () => {
+    const frame = compose(first.width * 2, first.height, [[first, 0, 0], [other, first.width, 0]]);
+    expect(uids(frame)).toEqual([anchorData.anchorUID, second.anchorUID].sort());
+  });
+
+  it('reads two codes apart in a larger frame', () => {
+    const frame = compose(640, 480, [[first, 40, 200], [other, 400, 60]]);
+    const codes = decodeAllQRFromImageData(frame);
+
+    expect(codes.map(code => validateQRData(code.data).data?.anchorUID).sort())
+      .toEqual([anchorData.anchorUID, second.anchorUID].sort());
+    // Corners are reported in frame coordinates, not window coordinates
+    const placed = codes.find(code => validateQRData(code.data).data?.anchorUID === second.anchorUID)!;
+    expect(placed.cornerPoints.topLeft.x).toBeCloseTo(400 + 16, -1);
+    expect(placed.cornerPoints.topLeft.y).toBeCloseTo(60 + 16, -1);
+  });
+
+  it('stops at the requested number of codes', () => {
+    const frame = compose(first.width * 2, first.height, [[first, 0, 0], [other, first.width, 0]]);
+    expect(decodeAllQRFromImageData(frame, 1)).toHaveLength(1);
+  });
+});
+
+describe('verifyAnchorPayloadSignature', () => {
+  const keys = async () => {
+    const keyPair = await generateSigningKeyPair();
+    return {
+      privateKey: await importSigningKey(keyPair.privateKey, 'sign'),
+      publicKey: await importSigningKey(keyPair.publicKey, 'verify')
+    };
+  };
+
+  it('accepts a payload signed with the project key', async () => {
+    const { privateKey, publicKey } = await keys();
+    const signed = await signCompactAnchorPayload(encodeCompactAnchorPayload(anchorData), privateKey);
+    expect(await verifyAnchorPayloadSignature(signed, publicKey)).toBe('valid');
+  });
+
+  it('rejects a payload signed with another key', async () => {
+    const { privateKey } = await keys();
+    const { publicKey } = await keys();
+    const signed = await signCompactAnchorPayload(encodeCompactAnchorPayload(anchorData), privateKey);
+    expect(await verifyAnchorPayloadSignature(signed, publicKey)).toBe('invalid');
+  });
+
+  it('rejects unsigned and legacy payloads once the project has a key', async () => {
+    const { publicKey } = await keys();
+    expect(await verifyAnchorPayloadSignature(encodeCompactAnchorPayload(anchorData), publicKey)).toBe('invalid');
+    expect(await verifyAnchorPayloadSignature(JSON.stringify(anchorData), publicKey)).toBe('invalid');
+  });
+
+  it('reports unsigned payloads as such for projects without a key', async () => {
+    expect(await verifyAnchorPayloadSignature(encodeCompactAnchorPayload(anchorData), null)).toBe('unsigned');
+    expect(await verifyAnchorPayloadSignature(JSON.stringify(anchorData), null)).toBe('unsigned');
+  });
+});
@@ -1,22 +1,622 @@
 import QRCode from 'qrcode';
-import type { AnchorQRData } from '../types';
+import jsQR from 'jsqr';
+import type { AnchorPurpose, AnchorQRData, BrickTypeKey, ConstructionType, DecodedQR, SignatureStatus } from '../types';
+import { formatSchemaErrors, validateAnchorQRData, type SchemaError } from './qrSchema';
+
+// Compact Payload Format
+// "CR<version>:" followed by base45 of a tag/value byte stream. Every character is in the QR
+// alphanumeric set, so the whole payload encodes at 5.5 bits/char instead of 8 bits/char for JSON.
+export const COMPACT_PAYLOAD_VERSION = 1;
+const COMPACT_PAYLOAD_PREFIX = `CR${COMPACT_PAYLOAD_VERSION}:`;
+const BASE45_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:';
+
+// Field tags (never renumber; append new tags for new fields)
+const TAG_PROJECT_ID = 0x01;
+const TAG_PROJECT_UID = 0x02;
+const TAG_ANCHOR_INDEX = 0x03;
+const TAG_ANCHOR_UID = 0x04;
+const TAG_BRICK_TYPE = 0x05;
+const TAG_TOTAL_ANCHORS = 0x06;
+const TAG_POSITION = 0x07;
+const TAG_PURPOSE = 0x08;
+const TAG_CONSTRUCTION_TYPE = 0x09;
+const TAG_ANCHOR_NAME = 0x0a;
+const TAG_PROJECT_NAME = 0x0b;
+const TAG_TIMESTAMP = 0x0c;
+const TAG_SIGNATURE = 0x0d; // always last; signs every byte before it
+
+// Enum tables are part of the wire format: only ever append
+const BRICK_TYPE_CODES: BrickTypeKey[] = ['clay-sustainable', 'bio-composite', 'recycled-aggregate', '3d-printed-earth'];
+const PURPOSE_CODES: AnchorPurpose[] = ['foundation', 'wall-corner', 'height-marker', 'roof-point', 'column-base', 'beam-junction'];
+const CONSTRUCTION_TYPE_CODES: ConstructionType[] = ['wall', 'column', 'beam', 'foundation', 'arch', 'vault', 'dome'];
+
+// Positions are stored as signed millimetres
+const POSITION_SCALE = 1000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const ID_KIND_TEXT = 0;
+const ID_KIND_UUID = 1;
+
+export interface CompactPayloadOptions {
+  includeNames?: boolean; // anchor and project names (readable offline, but longer)
+  includeTimestamp?: boolean;
+}
+
+export function encodeBase45(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 2) {
+    if (i + 1 < bytes.length) {
+      let n = bytes[i] * 256 + bytes[i + 1];
+      for (let k = 0; k < 3; k++) {
+        result += BASE45_CHARSET[n % 45];
+        n = Math.floor(n / 45);
+      }
+    } else {
+      const n = bytes[i];
+      result += BASE45_CHARSET[n % 45] + BASE45_CHARSET[Math.floor(n / 45)];
+    }
+  }
+  return result;
+}
+
+export function decodeBase45(text: string): Uint8Array {
+  if (text.length % 3 === 1) {
+    throw new Error('Invalid base45 length');
+  }
+
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i += 3) {
+    const chunk = text.slice(i, i + 3);
+    const values = [...chunk].map(char => {
+      const value = BASE45_CHARSET.indexOf(char);
+      if (value < 0) throw new Error(`Invalid base45 character "${char}"`);
+      return value;
+    });
+    const n = values.reduce((sum, value, k) => sum + value * Math.pow(45, k), 0);
+
+    if (chunk.length === 3) {
+      if (n > 0xffff) throw new Error('Invalid base45 chunk');
+      bytes.push(n >> 8, n & 0xff);
+    } else {
+      if (n > 0xff) throw new Error('Invalid base45 chunk');
+      bytes.push(n);
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+class PayloadWriter {
+  private bytes: number[] = [];
+
+  uint(value: number): void {
+    let remaining = Math.max(0, Math.floor(value));
+    do {
+      const byte = remaining % 128;
+      remaining = Math.floor(remaining / 128);
+      this.bytes.push(remaining > 0 ? byte | 0x80 : byte);
+    } while (remaining > 0);
+  }
+
+  int(value: number): void {
+    // Zigzag keeps small negative numbers short
+    this.uint(value >= 0 ? value * 2 : -value * 2 - 1);
+  }
+
+  text(value: string): void {
+    this.raw(new TextEncoder().encode(value));
+  }
+
+  raw(value: Uint8Array): void {
+    this.uint(value.length);
+    value.forEach(byte => this.bytes.push(byte));
+  }
+
+  id(value: string): void {
+    if (UUID_PATTERN.test(value)) {
+      this.uint(ID_KIND_UUID);
+      const hex = value.replace(/-/g, '');
+      for (let i = 0; i < 32; i += 2) {
+        this.bytes.push(parseInt(hex.slice(i, i + 2), 16));
+      }
+    } else {
+      this.uint(ID_KIND_TEXT);
+      this.text(value);
+    }
+  }
+
+  toBytes(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+}
+
+class PayloadReader {
+  private offset = 0;
+  private bytes: Uint8Array;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+  }
+
+  hasMore(): boolean {
+    return this.offset < this.bytes.length;
+  }
+
+  get position(): number {
+    return this.offset;
+  }
+
+  raw(): Uint8Array {
+    const length = this.uint();
+    if (this.offset + length > this.bytes.length) throw new Error('Truncated compact payload');
+    const value = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  private byte(): number {
+    if (this.offset >= this.bytes.length) throw new Error('Truncated compact payload');
+    return this.bytes[this.offset++];
+  }
+
+  uint(): number {
+    let value = 0;
+    let multiplier = 1;
+    let byte: number;
+    do {
+      byte = this.byte();
+      value += (byte & 0x7f) * multiplier;
+      multiplier *= 128;
+    } while (byte & 0x80);
+    return value;
+  }
+
+  int(): number {
+    const value = this.uint();
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+
+  text(): string {
+    const length = this.uint();
+    if (this.offset + length > this.bytes.length) throw new Error('Truncated compact payload');
+    const value = new TextDecoder().decode(this.bytes.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return value;
+  }
+
+  id(): string {
+    const kind = this.uint();
+    if (kind === ID_KIND_TEXT) return this.text();
+    if (kind !== ID_KIND_UUID) throw new Error(`Unknown id encoding ${kind}`);
+
+    let hex = '';
+    for (let i = 0; i < 16; i++) {
+      hex += this.byte().toString(16).padStart(2, '0');
+    }
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+  }
+}
+
+function enumCode<T>(table: T[], value: T, field: string): number {
+  const code = table.indexOf(value);
+  if (code < 0) throw new Error(`Cannot encode ${field} "${String(value)}"`);
+  return code;
+}
+
+function enumValue<T>(table: T[], code: number, field: string): T {
+  if (code >= table.length) throw new Error(`Unknown ${field} code ${code}`);
+  return table[code];
+}
+
+export function isCompactPayload(qrString: string): boolean {
+  return /^CR\d+:/.test(qrString);
+}
+
+// Encode anchor data into the compact alphanumeric payload
+export function encodeCompactAnchorPayload(data: AnchorQRData, options: CompactPayloadOptions = {}): string {
+  const writer = new PayloadWriter();
+
+  writer.uint(TAG_PROJECT_ID);
+  writer.id(data.projectId);
+  writer.uint(TAG_PROJECT_UID);
+  writer.id(data.projectUID);
+  writer.uint(TAG_ANCHOR_INDEX);
+  writer.uint(data.anchorIndex);
+  writer.uint(TAG_ANCHOR_UID);
+  writer.id(data.anchorUID);
+  writer.uint(TAG_BRICK_TYPE);
+  writer.uint(enumCode(BRICK_TYPE_CODES, data.brickType, 'brick type'));
+  writer.uint(TAG_TOTAL_ANCHORS);
+  writer.uint(data.totalAnchors);
+  writer.uint(TAG_POSITION);
+  writer.int(Math.round(data.anchor.position.x * POSITION_SCALE));
+  writer.int(Math.round(data.anchor.position.y * POSITION_SCALE));
+  writer.int(Math.round(data.anchor.position.z * POSITION_SCALE));
+  writer.uint(TAG_PURPOSE);
+  writer.uint(enumCode(PURPOSE_CODES, data.anchor.purpose, 'anchor purpose'));
+  writer.uint(TAG_CONSTRUCTION_TYPE);
+  writer.uint(enumCode(CONSTRUCTION_TYPE_CODES, data.anchor.constructionType, 'construction type'));
+
+  if (options.includeNames) {
+    writer.uint(TAG_ANCHOR_NAME);
+    writer.text(data.anchor.name);
+    writer.uint(TAG_PROJECT_NAME);
+    writer.text(data.projectName);
+  }
+
+  if (options.includeTimestamp) {
+    const seconds = Math.floor(new Date(data.timestamp).getTime() / 1000);
+    if (!Number.isNaN(seconds)) {
+      writer.uint(TAG_TIMESTAMP);
+      writer.uint(seconds);
+    }
+  }
+
+  return COMPACT_PAYLOAD_PREFIX + encodeBase45(writer.toBytes());
+}
+
+// Split a compact payload into its fields, the signed byte range and the signature (if any)
+function parseCompactPayload(qrString: string): {
+  fields: Partial<Record<number, unknown>>;
+  signedBytes: Uint8Array;
+  signature: Uint8Array | null;
+} {
+  const match = /^CR(\d+):(.*)$/s.exec(qrString);
+  if (!match) {
+    throw new Error('Not a compact anchor payload');
+  }
+  if (Number(match[1]) !== COMPACT_PAYLOAD_VERSION) {
+    throw new Error(`Unsupported compact payload version ${match[1]}`);
+  }
+
+  const bytes = decodeBase45(match[2]);
+  const reader = new PayloadReader(bytes);
+  const fields: Partial<Record<number, unknown>> = {};
+  let signedLength = bytes.length;
+  let signature: Uint8Array | null = null;
+
+  while (reader.hasMore()) {
+    const tagOffset = reader.position;
+    const tag = reader.uint();
+    switch (tag) {
+      case TAG_PROJECT_ID:
+      case TAG_PROJECT_UID:
+      case TAG_ANCHOR_UID:
+        fields[tag] = reader.id();
+        break;
+      case TAG_ANCHOR_INDEX:
+      case TAG_TOTAL_ANCHORS:
+      case TAG_TIMESTAMP:
+        fields[tag] = reader.uint();
+        break;
+      case TAG_BRICK_TYPE:
+        fields[tag] = enumValue(BRICK_TYPE_CODES, reader.uint(), 'brick type');
+        break;
+      case TAG_PURPOSE:
+        fields[tag] = enumValue(PURPOSE_CODES, reader.uint(), 'anchor purpose');
+        break;
+      case TAG_CONSTRUCTION_TYPE:
+        fields[tag] = enumValue(CONSTRUCTION_TYPE_CODES, reader.uint(), 'construction type');
+        break;
+      case TAG_POSITION:
+        fields[tag] = {
+          x: reader.int() / POSITION_SCALE,
+          y: reader.int() / POSITION_SCALE,
+          z: reader.int() / POSITION_SCALE
+        };
+        break;
+      case TAG_ANCHOR_NAME:
+      case TAG_PROJECT_NAME:
+        fields[tag] = reader.text();
+        break;
+      case TAG_SIGNATURE:
+        signedLength = tagOffset;
+        signature = reader.raw();
+        if (reader.hasMore()) {
+          throw new Error('Compact payload has data after its signature');
+        }
+        break;
+      default:
+        throw new Error(`Unknown compact payload field ${tag}`);
+    }
+  }
+
+  return { fields, signedBytes: bytes.subarray(0, signedLength), signature };
+}
+
+// Decode a compact payload back into anchor data. Throws with a descriptive message on malformed input.
+export function decodeCompactAnchorPayload(qrString: string): AnchorQRData {
+  const { fields } = parseCompactPayload(qrString);
+
+  const required = [
+    TAG_PROJECT_ID, TAG_PROJECT_UID, TAG_ANCHOR_INDEX, TAG_ANCHOR_UID,
+    TAG_BRICK_TYPE, TAG_TOTAL_ANCHORS, TAG_POSITION, TAG_PURPOSE, TAG_CONSTRUCTION_TYPE
+  ];
+  const missing = required.filter(tag => fields[tag] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Compact payload missing fields: ${missing.join(', ')}`);
+  }
+
+  const anchorIndex = fields[TAG_ANCHOR_INDEX] as number;
+  return {
+    projectId: fields[TAG_PROJECT_ID] as string,
+    projectUID: fields[TAG_PROJECT_UID] as string,
+    projectName: (fields[TAG_PROJECT_NAME] as string | undefined) ?? '',
+    anchorIndex,
+    anchorUID: fields[TAG_ANCHOR_UID] as string,
+    anchor: {
+      purpose: fields[TAG_PURPOSE] as AnchorPurpose,
+      name: (fields[TAG_ANCHOR_NAME] as string | undefined) ?? `Anchor ${anchorIndex + 1}`,
+      position: fields[TAG_POSITION] as AnchorQRData['anchor']['position'],
+      constructionType: fields[TAG_CONSTRUCTION_TYPE] as ConstructionType
+    },
+    brickType: fields[TAG_BRICK_TYPE] as BrickTypeKey,
+    totalAnchors: fields[TAG_TOTAL_ANCHORS] as number,
+    type: 'construction-anchor',
+    timestamp: fields[TAG_TIMESTAMP] !== undefined
+      ? new Date((fields[TAG_TIMESTAMP] as number) * 1000).toISOString()
+      : ''
+  };
+}
+
+// Anchor Signing
+// Anchor positions direct physical construction, so compact payloads can carry an ECDSA P-256
+// signature made with a per-project key. Keys are serialised as JWK JSON for storage.
+const SIGNING_KEY_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+const SIGNATURE_ALGORITHM = { name: 'ECDSA', hash: 'SHA-256' } as const;
+
+export interface SerializedSigningKeyPair {
+  publicKey: string;
+  privateKey: string;
+}
+
+export async function generateSigningKeyPair(): Promise<SerializedSigningKeyPair> {
+  const keyPair = await crypto.subtle.generateKey(SIGNING_KEY_ALGORITHM, true, ['sign', 'verify']);
+  const [publicKey, privateKey] = await Promise.all([
+    crypto.subtle.exportKey('jwk', keyPair.publicKey),
+    crypto.subtle.exportKey('jwk', keyPair.privateKey)
+  ]);
+  return { publicKey: JSON.stringify(publicKey), privateKey: JSON.stringify(privateKey) };
+}
+
+export async function importSigningKey(serializedKey: string, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  return crypto.subtle.importKey('jwk', JSON.parse(serializedKey), SIGNING_KEY_ALGORITHM, false, [usage]);
+}
+
+// Append a signature over the payload bytes; any existing signature is replaced
+export async function signCompactAnchorPayload(qrString: string, privateKey: CryptoKey): Promise<string> {
+  const { signedBytes } = parseCompactPayload(qrString);
+  const signature = new Uint8Array(await crypto.subtle.sign(SIGNATURE_ALGORITHM, privateKey, signedBytes));
+
+  const writer = new PayloadWriter();
+  writer.uint(TAG_SIGNATURE);
+  writer.raw(signature);
+  const trailer = writer.toBytes();
+
+  const signed = new Uint8Array(signedBytes.length + trailer.length);
+  signed.set(signedBytes);
+  signed.set(trailer, signedBytes.length);
+  return COMPACT_PAYLOAD_PREFIX + encodeBase45(signed);
+}
+
+// Check a scanned payload against the project's public key. Once a project has a key every code must
+// carry a valid signature: a legacy JSON or unsigned payload is then a downgrade and counts as invalid.
+export async function verifyAnchorPayloadSignature(
+  qrString: string,
+  publicKey: CryptoKey | null
+): Promise<SignatureStatus> {
+  if (!isCompactPayload(qrString)) return publicKey ? 'invalid' : 'unsigned';
+
+  try {
+    const { signedBytes, signature } = parseCompactPayload(qrString);
+    if (!signature) return publicKey ? 'invalid' : 'unsigned';
+    if (!publicKey) return 'unverified';
+
+    const valid = await crypto.subtle.verify(SIGNATURE_ALGORITHM, publicKey, signature, signedBytes);
+    return valid ? 'valid' : 'invalid';
+  } catch {
+    return 'invalid';
+  }
+}
+
+// QR symbol version (1-40) a payload needs; smaller versions have larger modules at the same print size
+export function getQRVersion(qrString: string, errorCorrectionLevel: 'L' | 'M' | 'Q' | 'H' = 'M'): number {
+  return QRCode.create(qrString, { errorCorrectionLevel }).version;
+}
+
+// Compare the symbol version of the legacy JSON payload against the compact payload
+export function compareQRPayloadVersions(data: AnchorQRData): { legacyVersion: number; compactVersion: number } {
+  return {
+    legacyVersion: getQRVersion(JSON.stringify(data)),
+    compactVersion: getQRVersion(encodeCompactAnchorPayload(data))
+  };
+}
+
+// Compact payload, signed when a project signing key is supplied
+async function buildAnchorPayload(data: AnchorQRData, signingKey?: CryptoKey): Promise<string> {
+  const payload = encodeCompactAnchorPayload(data);
+  return signingKey ? signCompactAnchorPayload(payload, signingKey) : payload;
+}
+
+// Local QR Rendering
+// Everything is rendered in the browser: project payloads never leave the device and generation works offline.
+export type QRErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+export interface QRLogoOptions {
+  src: string; // data URL or same-origin URL (cross-origin images would taint the PNG canvas)
+  sizeRatio?: number; // logo width as a fraction of the symbol width
+  background?: string; // plate drawn behind the logo
+}
+
+export interface QRRenderOptions {
+  size?: number; // output width/height in pixels
+  errorCorrectionLevel?: QRErrorCorrectionLevel;
+  quietZone?: number; // light border in modules (the QR spec asks for 4)
+  darkColor?: string;
+  lightColor?: string;
+  logo?: QRLogoOptions;
+}
+
+export const DEFAULT_QR_RENDER_OPTIONS: Required<Omit<QRRenderOptions, 'logo'>> = {
+  size: 200,
+  errorCorrectionLevel: 'M',
+  quietZone: 2,
+  darkColor: '#000000',
+  lightColor: '#FFFFFF'
+};
+
+// A centred logo hides modules, so keep it within what level H error correction can recover
+const MAX_LOGO_RATIO = 0.3;
+const DEFAULT_LOGO_RATIO = 0.2;
+
+function resolveRenderOptions(options: QRRenderOptions) {
+  const resolved = {
+    ...DEFAULT_QR_RENDER_OPTIONS,
+    // Logos need the highest error correction unless the caller explicitly chose otherwise
+    errorCorrectionLevel: options.logo ? 'H' as const : DEFAULT_QR_RENDER_OPTIONS.errorCorrectionLevel,
+    ...options
+  };
+  return {
+    ...resolved,
+    quietZone: Math.max(0, Math.round(resolved.quietZone)),
+    logoRatio: options.logo ? Math.min(MAX_LOGO_RATIO, Math.max(0, options.logo.sizeRatio ?? DEFAULT_LOGO_RATIO)) : 0
+  };
+}
+
+// Horizontal run of adjacent dark modules, in module coordinates (row 0 at the top)
+export interface QRModuleRun {
+  row: number;
+  start: number;
+  length: number;
+}
+
+// Dark modules of a symbol grouped into runs, so vector renderers (SVG, PDF) emit one shape per run
+export function getQRModuleRuns(
+  text: string,
+  errorCorrectionLevel: QRErrorCorrectionLevel = DEFAULT_QR_RENDER_OPTIONS.errorCorrectionLevel
+): { size: number; runs: QRModuleRun[] } {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel });
+  const runs: QRModuleRun[] = [];
+
+  for (let row = 0; row < modules.size; row++) {
+    let col = 0;
+    while (col < modules.size) {
+      if (!modules.get(row, col)) {
+        col++;
+        continue;
+      }
+      const start = col;
+      while (col < modules.size && modules.get(row, col)) col++;
+      runs.push({ row, start, length: col - start });
+    }
+  }
+
+  return { size: modules.size, runs };
+}
+
+function escapeXMLAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+// Render any text as a standalone SVG document
+export function renderQRCodeSVG(text: string, options: QRRenderOptions = {}): string {
+  const settings = resolveRenderOptions(options);
+  const { size: count, runs } = getQRModuleRuns(text, settings.errorCorrectionLevel);
+  const total = count + settings.quietZone * 2;
+  const path = runs
+    .map(run => `M${run.start + settings.quietZone} ${run.row + settings.quietZone}h${run.length}v1h-${run.length}z`)
+    .join('');
+
+  let logo = '';
+  if (options.logo && settings.logoRatio > 0) {
+    const logoSize = count * settings.logoRatio;
+    const offset = (total - logoSize) / 2;
+    const padding = logoSize * 0.1;
+    logo =
+      `<rect x="${offset - padding}" y="${offset - padding}" width="${logoSize + padding * 2}" height="${logoSize + padding * 2}" ` +
+      `fill="${escapeXMLAttribute(options.logo.background ?? settings.lightColor)}"/>` +
+      `<image href="${escapeXMLAttribute(options.logo.src)}" x="${offset}" y="${offset}" width="${logoSize}" height="${logoSize}" preserveAspectRatio="xMidYMid meet"/>`;
+  }
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${settings.size}" height="${settings.size}" ` +
+    `viewBox="0 0 ${total} ${total}" shape-rendering="crispEdges">` +
+    `<rect width="${total}" height="${total}" fill="${escapeXMLAttribute(settings.lightColor)}"/>` +
+    `<path d="${path}" fill="${escapeXMLAttribute(settings.darkColor)}"/>` +
+    logo +
+    `</svg>`
+  );
+}
+
+export function svgToDataURL(svg: string): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load QR logo'));
+    image.src = src;
+  });
+}
+
+// Draw any text onto a canvas, including the optional logo
+export async function renderQRCodeToCanvas(
+  canvas: HTMLCanvasElement,
+  text: string,
+  options: QRRenderOptions = {}
+): Promise<void> {
+  const settings = resolveRenderOptions(options);
+
+  await QRCode.toCanvas(canvas, text, {
+    width: settings.size,
+    margin: settings.quietZone,
+    color: {
+      dark: settings.darkColor,
+      light: settings.lightColor
+    },
+    errorCorrectionLevel: settings.errorCorrectionLevel
+  });
+
+  if (options.logo && settings.logoRatio > 0) {
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Could not get canvas 2d context');
+    }
+
+    const count = QRCode.create(text, { errorCorrectionLevel: settings.errorCorrectionLevel }).modules.size;
+    const moduleSize = canvas.width / (count + settings.quietZone * 2);
+    const logoSize = count * settings.logoRatio * moduleSize;
+    const offset = (canvas.width - logoSize) / 2;
+    const padding = logoSize * 0.1;
+
+    context.fillStyle = options.logo.background ?? settings.lightColor;
+    context.fillRect(offset - padding, offset - padding, logoSize + padding * 2, logoSize + padding * 2);
+    context.drawImage(await loadImage(options.logo.src), offset, offset, logoSize, logoSize);
+  }
+}
+
+// Render any text as a PNG data URL
+export async function renderQRCodePNG(text: string, options: QRRenderOptions = {}): Promise<string> {
+  const canvas = document.createElement('canvas');
+  await renderQRCodeToCanvas(canvas, text, options);
+  return canvas.toDataURL('image/png');
+}
 
 // QR Code Generation
-export async function generateQRCode(data: AnchorQRData, size = 200): Promise<string> {
+export async function generateQRCode(
+  data: AnchorQRData,
+  size = 200,
+  signingKey?: CryptoKey,
+  options: QRRenderOptions = {}
+): Promise<string> {
   try {
-    const qrDataString = JSON.stringify(data);
-    
-    const qrCodeDataURL = await QRCode.toDataURL(qrDataString, {
-      width: size,
-      margin: 2,
-      color: {
-        dark: '#000000',
-        light: '#FFFFFF'
-      },
-      errorCorrectionLevel: 'M'
-    });
-    
-    return qrCodeDataURL;
+    const qrDataString = await buildAnchorPayload(data, signingKey);
+    return await renderQRCodePNG(qrDataString, { ...options, size });
   } catch (error) {
     console.error('QR Generation Error:', error);
     throw new Error('Failed to generate QR code');
@@ -26,68 +626,84 @@ export async function generateQRCode(data: AnchorQRData, size = 200): Promise<st
 export async function generateQRCodeToCanvas(
   canvas: HTMLCanvasElement, 
   data: AnchorQRData, 
-  size = 200
+  size = 200,
+  signingKey?: CryptoKey,
+  options: QRRenderOptions = {}
 ): Promise<void> {
   try {
-    const qrDataString = JSON.stringify(data);
-    
-    await QRCode.toCanvas(canvas, qrDataString, {
-      width: size,
-      margin: 2,
-      color: {
-        dark: '#000000',
-        light: '#FFFFFF'
-      },
-      errorCorrectionLevel: 'M'
-    });
+    const qrDataString = await buildAnchorPayload(data, signingKey);
+    await renderQRCodeToCanvas(canvas, qrDataString, { ...options, size });
   } catch (error) {
     console.error('QR Canvas Generation Error:', error);
     throw new Error('Failed to generate QR code to canvas');
   }
 }
 
-// External QR Generation Fallback
-export function generateExternalQRURL(data: AnchorQRData): string {
-  const qrDataString = JSON.stringify(data);
-  const encodedData = encodeURIComponent(qrDataString);
-  return `https://api.qrserver.com/v1/create-qr-code/?size=200x200&data=${encodedData}`;
+export async function generateQRCodeSVG(
+  data: AnchorQRData,
+  options: QRRenderOptions = {},
+  signingKey?: CryptoKey
+): Promise<string> {
+  try {
+    const qrDataString = await buildAnchorPayload(data, signingKey);
+    return renderQRCodeSVG(qrDataString, options);
+  } catch (error) {
+    console.error('QR SVG Generation Error:', error);
+    throw new Error('Failed to generate QR code SVG');
+  }
 }
 
 // QR Code Validation
-export function validateQRData(qrString: string): { isValid: boolean; data?: AnchorQRData; error?: string } {
-  try {
-    const parsed = JSON.parse(qrString);
-    
-    // Check if it's a construction anchor QR
-    if (parsed.type !== 'construction-anchor') {
+export function validateQRData(qrString: string): {
+  isValid: boolean;
+  data?: AnchorQRData;
+  error?: string;
+  errors?: SchemaError[];
+} {
+  let parsed: unknown;
+
+  if (isCompactPayload(qrString)) {
+    try {
+      parsed = decodeCompactAnchorPayload(qrString);
+    } catch (error) {
       return {
         isValid: false,
-        error: 'Not a construction anchor QR code'
+        error: error instanceof Error ? error.message : 'Invalid compact payload'
       };
     }
-    
-    // Check required fields
-    const requiredFields = ['projectId', 'projectUID', 'anchorIndex', 'anchorUID', 'anchor', 'brickType'];
-    const missingFields = requiredFields.filter(field => !parsed[field]);
-    
-    if (missingFields.length > 0) {
+  } else {
+    // Legacy JSON payloads printed before the compact format
+    try {
+      parsed = JSON.parse(qrString);
+    } catch {
       return {
         isValid: false,
-        error: `Missing required fields: ${missingFields.join(', ')}`
+        error: 'Invalid JSON format'
       };
     }
-    
-    return {
-      isValid: true,
-      data: parsed as AnchorQRData
-    };
-    
-  } catch (error) {
+
+    // Check if it's a construction anchor QR
+    if (typeof parsed !== 'object' || parsed === null || (parsed as { type?: unknown }).type !== 'construction-anchor') {
+      return {
+        isValid: false,
+        error: 'Not a construction anchor QR code'
+      };
+    }
+  }
+
+  const result = validateAnchorQRData(parsed);
+  if (!result.success) {
     return {
       isValid: false,
-      error: 'Invalid JSON format'
+      error: formatSchemaErrors(result.errors),
+      errors: result.errors
     };
   }
+
+  return {
+    isValid: true,
+    data: result.data
+  };
 }
 
 // Download QR Code
@@ -101,12 +717,13 @@ export function downloadQRCode(dataURL: string, filename: string): void {
 // Batch QR Generation
 export async function generateBatchQRCodes(
   anchorsData: AnchorQRData[], 
-  size = 200
+  size = 200,
+  signingKey?: CryptoKey
 ): Promise<Array<{ data: AnchorQRData; qrCodeURL: string }>> {
   const results = await Promise.allSettled(
     anchorsData.map(async (data) => ({
       data,
-      qrCodeURL: await generateQRCode(data, size)
+      qrCodeURL: await generateQRCode(data, size, signingKey)
     }))
   );
   
@@ -116,6 +733,116 @@ export async function generateBatchQRCodes(
     .map(result => result.value);
 }
 
+// QR Decoding
+// Decoded synchronously with jsQR rather than qr-scanner: qr-scanner only scans through a Web Worker
+// and a canvas, so it cannot read a bare RGBA buffer in a test or report the corners per frame.
+// Only the raw RGBA buffer is needed, so plain objects work as well as canvas ImageData
+export type RawImageData = Pick<ImageData, 'data' | 'width' | 'height'>;
+
+// Pure decoder for a single frame. Returns null when no readable QR code is in view.
+export function decodeQRFromImageData(imageData: RawImageData): DecodedQR | null {
+  const code = jsQR(imageData.data, imageData.width, imageData.height, {
+    inversionAttempts: 'attemptBoth'
+  });
+
+  if (!code || !code.data) {
+    return null;
+  }
+
+  return {
+    data: code.data,
+    cornerPoints: {
+      topLeft: code.location.topLeftCorner,
+      topRight: code.location.topRightCorner,
+      bottomRight: code.location.bottomRightCorner,
+      bottomLeft: code.location.bottomLeftCorner
+    },
+    version: code.version
+  };
+}
+
+// Fallback windows are half the frame across one axis and the full frame along the other, a quarter
+// of the frame apart: two codes in view are always apart along at least one axis
+const DECODE_WINDOW_RATIO = 0.5;
+const DECODE_WINDOW_STEP = 0.25;
+
+function cropFrame(frame: RawImageData, left: number, top: number, width: number, height: number): RawImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const start = ((top + y) * frame.width + left) * 4;
+    data.set(frame.data.subarray(start, start + width * 4), y * width * 4);
+  }
+  return { data, width, height };
+}
+
+function decodeWindows(frame: RawImageData): Array<{ left: number; top: number; width: number; height: number }> {
+  const windows = [];
+  for (const axis of ['x', 'y'] as const) {
+    const length = axis === 'x' ? frame.width : frame.height;
+    const size = Math.round(length * DECODE_WINDOW_RATIO);
+    const step = Math.max(1, Math.round(length * DECODE_WINDOW_STEP));
+    for (let offset = 0; offset + size <= length; offset += step) {
+      windows.push(axis === 'x'
+        ? { left: offset, top: 0, width: size, height: frame.height }
+        : { left: 0, top: offset, width: frame.width, height: size });
+    }
+  }
+  return windows;
+}
+
+// jsQR reads one symbol per frame and finds nothing when several are in view at once,
+// so fall back to windows until one of them holds a single readable code
+function decodeAnyQR(frame: RawImageData): DecodedQR | null {
+  const whole = decodeQRFromImageData(frame);
+  if (whole) return whole;
+
+  for (const { left, top, width, height } of decodeWindows(frame)) {
+    const decoded = decodeQRFromImageData(cropFrame(frame, left, top, width, height));
+    if (!decoded) continue;
+
+    const shift = (point: { x: number; y: number }) => ({ x: point.x + left, y: point.y + top });
+    return {
+      ...decoded,
+      cornerPoints: {
+        topLeft: shift(decoded.cornerPoints.topLeft),
+        topRight: shift(decoded.cornerPoints.topRight),
+        bottomRight: shift(decoded.cornerPoints.bottomRight),
+        bottomLeft: shift(decoded.cornerPoints.bottomLeft)
+      }
+    };
+  }
+  return null;
+}
+
+// Decode several QR codes in one frame by blanking each code once it has been read
+export function decodeAllQRFromImageData(imageData: RawImageData, maxCodes = 4): DecodedQR[] {
+  const results: DecodedQR[] = [];
+  const pixels = new Uint8ClampedArray(imageData.data);
+  const frame: RawImageData = { data: pixels, width: imageData.width, height: imageData.height };
+
+  while (results.length < maxCodes) {
+    const decoded = decodeAnyQR(frame);
+    if (!decoded) break;
+    results.push(decoded);
+
+    // White out the bounding box of the decoded code so the next pass finds a different one
+    const corners = Object.values(decoded.cornerPoints);
+    const minX = Math.max(0, Math.floor(Math.min(...corners.map(c => c.x))));
+    const maxX = Math.min(frame.width - 1, Math.ceil(Math.max(...corners.map(c => c.x))));
+    const minY = Math.max(0, Math.floor(Math.min(...corners.map(c => c.y))));
+    const maxY = Math.min(frame.height - 1, Math.ceil(Math.max(...corners.map(c => c.y))));
+    for (let y = minY; y <= maxY; y++) {
+      pixels.fill(255, (y * frame.width + minX) * 4, (y * frame.width + maxX + 1) * 4);
+    }
+  }
+
+  return results;
+}
+
+// Scanner timing defaults (milliseconds)
+const SCAN_INTERVAL_MS = 100;
+const DETECTION_DEBOUNCE_MS = 2000;
+
 // QR Scanner using getUserMedia
 export class QRScanner {
   private video: HTMLVideoElement;
@@ -124,6 +851,10 @@ export class QRScanner {
   private stream: MediaStream | null = null;
   private isScanning = false;
   private animationId: number | null = null;
+  private lastScanTime = 0;
+  // Last time each anchor (or rejected payload) was seen, keyed by anchorUID or raw string
+  private recentDetections = new Map<string, number>();
+  private publicKeyResolver: ((projectId: string) => Promise<CryptoKey | null>) | null = null;
 
   constructor(videoElement: HTMLVideoElement, canvasElement: HTMLCanvasElement) {
     this.video = videoElement;
@@ -167,7 +898,25 @@ export class QRScanner {
     this.stopScanning();
   }
 
-  startScanning(onQRDetected: (data: AnchorQRData) => void, onError?: (error: string) => void): void {
+  // Look up a project's public key so detected anchors can be signature-checked
+  setPublicKeyResolver(resolver: ((projectId: string) => Promise<CryptoKey | null>) | null): void {
+    this.publicKeyResolver = resolver;
+  }
+
+  startScanning(
+    onQRDetected: (data: AnchorQRData, signatureStatus: SignatureStatus) => void,
+    onError?: (error: string) => void
+  ): void {
+    if (this.isScanning) return;
+
+    this.recentDetections.clear();
+    this.startFrameCapture((imageData, timestamp) => {
+      this.detectQRInImageData(imageData, timestamp, onQRDetected, onError);
+    });
+  }
+
+  // Hand raw camera frames to a custom handler (e.g. pose tracking), throttled to SCAN_INTERVAL_MS
+  startFrameCapture(onFrame: (imageData: ImageData, timestamp: number) => void): void {
     if (this.isScanning) return;
     
     this.isScanning = true;
@@ -180,11 +929,13 @@ export class QRScanner {
         return;
       }
 
-      this.context.drawImage(this.video, 0, 0, this.canvas.width, this.canvas.height);
-      const imageData = this.context.getImageData(0, 0, this.canvas.width, this.canvas.height);
-      
-      // Basic QR detection simulation (in a real implementation, you'd use jsQR or similar)
-      this.detectQRInImageData(imageData, onQRDetected, onError);
+      // Decoding a full camera frame is expensive, so throttle to SCAN_INTERVAL_MS
+      const now = performance.now();
+      if (now - this.lastScanTime >= SCAN_INTERVAL_MS) {
+        this.lastScanTime = now;
+        this.context.drawImage(this.video, 0, 0, this.canvas.width, this.canvas.height);
+        onFrame(this.context.getImageData(0, 0, this.canvas.width, this.canvas.height), now);
+      }
       
       this.animationId = requestAnimationFrame(scan);
     };
@@ -201,22 +952,46 @@ export class QRScanner {
   }
 
   private detectQRInImageData(
-    _imageData: ImageData, 
-    _onQRDetected: (data: AnchorQRData) => void, 
-    _onError?: (error: string) => void
+    imageData: ImageData, 
+    now: number,
+    onQRDetected: (data: AnchorQRData, signatureStatus: SignatureStatus) => void, 
+    onError?: (error: string) => void
   ): void {
-    // This is a placeholder for QR detection
-    // In a real implementation, you would use jsQR library:
-    // const code = jsQR(imageData.data, imageData.width, imageData.height);
-    // if (code) {
-    //   const validation = validateQRData(code.data);
-    //   if (validation.isValid && validation.data) {
-    //     onQRDetected(validation.data);
-    //   }
-    // }
-    
-    // For now, this is just a simulation
-    console.log('QR scanning active - would detect QR codes here');
+    // Forget anything that has been out of view for longer than the debounce window
+    for (const [key, lastSeen] of this.recentDetections) {
+      if (now - lastSeen > DETECTION_DEBOUNCE_MS) {
+        this.recentDetections.delete(key);
+      }
+    }
+
+    const decoded = decodeQRFromImageData(imageData);
+    if (!decoded) return;
+
+    const validation = validateQRData(decoded.data);
+    const key = validation.isValid && validation.data ? validation.data.anchorUID : decoded.data;
+    const alreadySeen = this.recentDetections.has(key);
+    this.recentDetections.set(key, now);
+
+    // Fire once per distinct anchor while it stays in view
+    if (alreadySeen) return;
+
+    if (validation.isValid && validation.data) {
+      const data = validation.data;
+      this.verifySignature(decoded.data, data.projectId)
+        .then(status => onQRDetected(data, status));
+    } else if (onError) {
+      onError(validation.error || 'Invalid QR code');
+    }
+  }
+
+  private async verifySignature(qrString: string, projectId: string): Promise<SignatureStatus> {
+    let publicKey: CryptoKey | null = null;
+    try {
+      publicKey = this.publicKeyResolver ? await this.publicKeyResolver(projectId) : null;
+    } catch (error) {
+      console.warn('Could not load project public key:', error);
+    }
+    return verifyAnchorPayloadSignature(qrString, publicKey);
   }
 
   isCameraActive(): boolean {
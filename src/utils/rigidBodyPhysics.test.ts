@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addPhysicsBodies,
+  advancePhysicsWorld,
+  createBrickBodies,
+  createPhysicsWorld,
+  findToppledBricks,
+  isWorldAtRest,
+  stepPhysicsWorld
+} from './rigidBodyPhysics';
+
+// Stretchers laid flat along x, bedded one course above the other
+const brick = (id: string, x: number, course: number) => ({
+  id,
+  position: { x, y: 0.06 + course * 0.12, z: 0 },
+  brickType: 'clay-sustainable' as const
+});
+
+// Two piers two courses high, with a brick across them a little right of centre
+const piers = createBrickBodies([
+  brick('left-1', -0.13, 0),
+  brick('left-2', -0.13, 1),
+  brick('right-1', 0.13, 0),
+  brick('right-2', 0.13, 1),
+  brick('top', 0.03, 2)
+]);
+
+describe('rigid-body physics', () => {
+  it('steps to the same state every time', () => {
+    const run = () => {
+      const world = createPhysicsWorld(createBrickBodies([brick('base', 0, 0), brick('overhang', 0.2, 1)]));
+      for (let i = 0; i < 120; i++) stepPhysicsWorld(world);
+      return world.bodies;
+    };
+
+    expect(run()).toEqual(run());
+    expect(findToppledBricks(piers, ['right-2'])).toEqual(findToppledBricks(piers, ['right-2']));
+  });
+
+  it('tips a brick laid past the edge of the one below', () => {
+    const report = findToppledBricks(createBrickBodies([brick('base', 0, 0), brick('overhang', 0.2, 1)]), []);
+
+    expect(report.unstable).toEqual(['overhang']);
+    expect(report.atRest).toBe(true);
+  });
+
+  it('drops the brick across two piers when one is taken away', () => {
+    const report = findToppledBricks(piers, ['right-2']);
+
+    expect(report.settled).toBe(true);
+    expect(report.unstable).toEqual([]);
+    expect(report.toppled).toEqual(['top']);
+    expect(report.displacements['left-2']).toBeLessThan(0.001);
+  });
+
+  it('lays a brick on a settled wall without waking the rest', () => {
+    const world = createPhysicsWorld(createBrickBodies([brick('left', -0.13, 0), brick('right', 0.13, 0)]));
+    while (!isWorldAtRest(world)) advancePhysicsWorld(world, 0.1);
+    const settledAt = world.time;
+
+    addPhysicsBodies(world, createBrickBodies([brick('top', 0, 1)]));
+    advancePhysicsWorld(world, 0.1);
+
+    expect(world.bodies.map(body => body.asleep)).toEqual([true, true, false]);
+    while (!isWorldAtRest(world)) advancePhysicsWorld(world, 0.1);
+    expect(world.time - settledAt).toBeLessThan(1.5);
+    expect(world.bodies[2].position.y).toBeCloseTo(0.18, 3);
+  });
+});
@@ -0,0 +1,617 @@
+import type { BrickSize, BrickTypeKey, Position3D, Rotation3D } from '../types';
+import { brickTypes } from './brickTypes';
+import {
+  addVectors,
+  cross,
+  dot,
+  eulerToRotationMatrix,
+  rotationMatrixToEuler,
+  scaleVector,
+  subtractVectors,
+  vectorLength,
+  type Matrix3
+} from './linearAlgebra';
+import { getMaterialStrength } from './loadPath';
+
+// Deterministic rigid-body simulation for dry-stacked bricks: boxes under gravity with Coulomb
+// friction, solved with sequential impulses at a fixed time step. Mortar adhesion is ignored, so a
+// stack has to stand by weight and friction alone, which is the conservative case.
+// Contacts are box corners against faces and the ground. Edge-on-edge contacts are not detected;
+// coursed brickwork meets face to face, so this is enough for stacks and walls.
+
+export interface PhysicsBodyInput {
+  id: string;
+  position: Position3D;
+  rotation?: Rotation3D;
+  size: BrickSize;
+  mass: number;
+  isStatic?: boolean;
+}
+
+export interface Quaternion {
+  w: number;
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface PhysicsBody {
+  id: string;
+  position: Position3D;
+  orientation: Quaternion;
+  velocity: Position3D;
+  angularVelocity: Position3D; // world frame, rad/s
+  halfExtents: Position3D; // collision box, including half a joint all round
+  inverseMass: number;
+  inverseInertia: Position3D; // diagonal, body frame
+  isStatic: boolean;
+  asleep: boolean;
+  restTime: number; // seconds spent below the sleep thresholds
+}
+
+export interface PhysicsOptions {
+  gravity: number; // m/s²
+  timeStep: number; // s
+  iterations: number; // solver passes per step
+  friction: number;
+  groundY: number | null; // null for no ground plane
+  jointThickness: number; // bricks collide at their module size, so bedded bricks start in contact
+  sleepSpeed: number; // m/s and rad/s
+  sleepTime: number; // s
+}
+
+export const defaultPhysicsOptions: PhysicsOptions = {
+  gravity: 9.81,
+  timeStep: 1 / 120,
+  iterations: 20,
+  friction: 0.6,
+  groundY: 0,
+  jointThickness: 0,
+  sleepSpeed: 0.02,
+  sleepTime: 0.5
+};
+
+export interface PhysicsWorld {
+  bodies: PhysicsBody[];
+  options: PhysicsOptions;
+  time: number;
+  accumulator: number; // unstepped time carried between advance calls
+  impulses: Map<string, [number, number, number]>; // last step's contact impulses, to warm-start the next
+  supports: Record<string, string[]>; // bodies (or 'ground') each body pressed on in the last step
+}
+
+interface Contact {
+  key: string; // body ids and corner, stable from step to step
+  a: number;
+  b: number; // -1 for the ground
+  point: Position3D;
+  normal: Position3D; // from b towards a
+  depth: number; // negative while still apart
+  ra: Position3D;
+  rb: Position3D;
+  tangents: [Position3D, Position3D];
+  normalMass: number;
+  tangentMass: [number, number];
+  bias: number;
+  normalImpulse: number;
+  tangentImpulse: [number, number];
+}
+
+// Corners within this distance of a face count as touching
+const CONTACT_MARGIN = 0.002;
+// Penetration left uncorrected, so resting contacts do not jitter
+const PENETRATION_SLOP = 0.0005;
+const BAUMGARTE = 0.2;
+// Steps allowed per advance call, so a slow frame cannot stall the caller
+const MAX_STEPS_PER_ADVANCE = 12;
+
+function quaternionFromMatrix(m: Matrix3): Quaternion {
+  const trace = m[0][0] + m[1][1] + m[2][2];
+  if (trace > 0) {
+    const s = Math.sqrt(trace + 1) * 2;
+    return { w: s / 4, x: (m[2][1] - m[1][2]) / s, y: (m[0][2] - m[2][0]) / s, z: (m[1][0] - m[0][1]) / s };
+  }
+  if (m[0][0] > m[1][1] && m[0][0] > m[2][2]) {
+    const s = Math.sqrt(1 + m[0][0] - m[1][1] - m[2][2]) * 2;
+    return { w: (m[2][1] - m[1][2]) / s, x: s / 4, y: (m[0][1] + m[1][0]) / s, z: (m[0][2] + m[2][0]) / s };
+  }
+  if (m[1][1] > m[2][2]) {
+    const s = Math.sqrt(1 + m[1][1] - m[0][0] - m[2][2]) * 2;
+    return { w: (m[0][2] - m[2][0]) / s, x: (m[0][1] + m[1][0]) / s, y: s / 4, z: (m[1][2] + m[2][1]) / s };
+  }
+  const s = Math.sqrt(1 + m[2][2] - m[0][0] - m[1][1]) * 2;
+  return { w: (m[1][0] - m[0][1]) / s, x: (m[0][2] + m[2][0]) / s, y: (m[1][2] + m[2][1]) / s, z: s / 4 };
+}
+
+function matrixFromQuaternion({ w, x, y, z }: Quaternion): Matrix3 {
+  return [
+    [1 - 2 * (y * y + z * z), 2 * (x * y - w * z), 2 * (x * z + w * y)],
+    [2 * (x * y + w * z), 1 - 2 * (x * x + z * z), 2 * (y * z - w * x)],
+    [2 * (x * z - w * y), 2 * (y * z + w * x), 1 - 2 * (x * x + y * y)]
+  ];
+}
+
+// Body frame to world and back
+function toWorld(m: Matrix3, v: Position3D): Position3D {
+  return {
+    x: m[0][0] * v.x + m[0][1] * v.y + m[0][2] * v.z,
+    y: m[1][0] * v.x + m[1][1] * v.y + m[1][2] * v.z,
+    z: m[2][0] * v.x + m[2][1] * v.y + m[2][2] * v.z
+  };
+}
+
+function toBody(m: Matrix3, v: Position3D): Position3D {
+  return {
+    x: m[0][0] * v.x + m[1][0] * v.y + m[2][0] * v.z,
+    y: m[0][1] * v.x + m[1][1] * v.y + m[2][1] * v.z,
+    z: m[0][2] * v.x + m[1][2] * v.y + m[2][2] * v.z
+  };
+}
+
+function component(v: Position3D, axis: number): number {
+  return axis === 0 ? v.x : axis === 1 ? v.y : v.z;
+}
+
+function corners(body: PhysicsBody, m: Matrix3): Position3D[] {
+  const h = body.halfExtents;
+  const result: Position3D[] = [];
+  for (const sx of [-1, 1]) {
+    for (const sy of [-1, 1]) {
+      for (const sz of [-1, 1]) {
+        result.push(addVectors(body.position, toWorld(m, { x: sx * h.x, y: sy * h.y, z: sz * h.z })));
+      }
+    }
+  }
+  return result;
+}
+
+function createBody(input: PhysicsBodyInput, settings: PhysicsOptions): PhysicsBody {
+  const w = input.size.width + settings.jointThickness;
+  const h = input.size.height + settings.jointThickness;
+  const d = input.size.depth + settings.jointThickness;
+  const isStatic = input.isStatic ?? false;
+  // Solid box: I = m (b² + c²) / 12 about each axis
+  const inertia = (b: number, c: number) => input.mass * (b * b + c * c) / 12;
+  return {
+    id: input.id,
+    position: { ...input.position },
+    orientation: quaternionFromMatrix(eulerToRotationMatrix(input.rotation ?? { x: 0, y: 0, z: 0 })),
+    velocity: { x: 0, y: 0, z: 0 },
+    angularVelocity: { x: 0, y: 0, z: 0 },
+    halfExtents: { x: w / 2, y: h / 2, z: d / 2 },
+    inverseMass: isStatic ? 0 : 1 / input.mass,
+    inverseInertia: isStatic
+      ? { x: 0, y: 0, z: 0 }
+      : { x: 1 / inertia(h, d), y: 1 / inertia(w, d), z: 1 / inertia(w, h) },
+    isStatic,
+    asleep: false,
+    restTime: 0
+  };
+}
+
+export function createPhysicsWorld(inputs: PhysicsBodyInput[], options: Partial<PhysicsOptions> = {}): PhysicsWorld {
+  const settings = { ...defaultPhysicsOptions, ...options };
+  const bodies = inputs.map(input => createBody(input, settings));
+  return { bodies, options: settings, time: 0, accumulator: 0, impulses: new Map(), supports: {} };
+}
+
+// Lay more bodies in a running world. Settled bodies stay asleep and carry the new ones like static
+// supports; a new body that tips or slides fast enough wakes whatever it knocks into.
+export function addPhysicsBodies(world: PhysicsWorld, inputs: PhysicsBodyInput[]): void {
+  world.bodies.push(...inputs.map(input => createBody(input, world.options)));
+}
+
+// Bodies for bricks laid by the generators; mass from the brick type's density
+export function createBrickBodies(
+  bricks: Array<{ id: string; position: Position3D; rotation?: Rotation3D; brickType: BrickTypeKey; size?: BrickSize }>
+): PhysicsBodyInput[] {
+  return bricks.map(brick => {
+    const size = brick.size ?? brickTypes[brick.brickType].size;
+    return {
+      id: brick.id,
+      position: brick.position,
+      rotation: brick.rotation,
+      size,
+      mass: size.width * size.height * size.depth * getMaterialStrength(brick.brickType).density
+    };
+  });
+}
+
+export function getBodyTransform(body: PhysicsBody): { position: Position3D; rotation: Rotation3D } {
+  return { position: { ...body.position }, rotation: rotationMatrixToEuler(matrixFromQuaternion(body.orientation)) };
+}
+
+// Axis-aligned box around a body, padded by the contact margin
+function bodyBounds(body: PhysicsBody, m: Matrix3): { min: Position3D; max: Position3D } {
+  const h = body.halfExtents;
+  const reach = (row: number) => Math.abs(m[row][0]) * h.x + Math.abs(m[row][1]) * h.y + Math.abs(m[row][2]) * h.z + CONTACT_MARGIN;
+  const r = { x: reach(0), y: reach(1), z: reach(2) };
+  return { min: subtractVectors(body.position, r), max: addVectors(body.position, r) };
+}
+
+// Take a body out (e.g. knock out a support). The bodies it touched wake; anything they knock into
+// as they fall wakes in turn, so the rest of a large settled wall stays asleep.
+export function removePhysicsBody(world: PhysicsWorld, id: string): void {
+  const removed = world.bodies.find(body => body.id === id);
+  if (!removed) return;
+  world.bodies = world.bodies.filter(body => body !== removed);
+
+  const around = bodyBounds(removed, matrixFromQuaternion(removed.orientation));
+  for (const body of world.bodies) {
+    const { min, max } = bodyBounds(body, matrixFromQuaternion(body.orientation));
+    const touches = min.x <= around.max.x && max.x >= around.min.x
+      && min.y <= around.max.y && max.y >= around.min.y
+      && min.z <= around.max.z && max.z >= around.min.z;
+    if (!touches) continue;
+    body.asleep = false;
+    body.restTime = 0;
+  }
+}
+
+// Speculative corner contacts of a's corners against b's faces
+function boxContacts(world: PhysicsWorld, a: number, b: number, cornersA: Position3D[], mb: Matrix3, out: Contact[]): void {
+  const bodyA = world.bodies[a];
+  const bodyB = world.bodies[b];
+  const hb = bodyB.halfExtents;
+  const existing = out.length;
+
+  // The face of b that a lies beyond, judged from the centres so that coplanar faces
+  // (a brick sitting flush on the one below) cannot flip the normal sideways
+  const centre = toBody(mb, subtractVectors(bodyA.position, bodyB.position));
+  let axis = 0;
+  let best = -Infinity;
+  for (let k = 0; k < 3; k++) {
+    const ratio = Math.abs(component(centre, k)) / component(hb, k);
+    if (ratio > best) {
+      best = ratio;
+      axis = k;
+    }
+  }
+  const sign = component(centre, axis) >= 0 ? 1 : -1;
+  const column = { x: mb[0][axis], y: mb[1][axis], z: mb[2][axis] };
+  const normal = scaleVector(column, sign);
+
+  cornersA.forEach((point, corner) => {
+    const local = toBody(mb, subtractVectors(point, bodyB.position));
+    let inside = true;
+    for (let k = 0; k < 3 && inside; k++) {
+      if (k !== axis && Math.abs(component(local, k)) > component(hb, k) + CONTACT_MARGIN) inside = false;
+    }
+    const along = sign * component(local, axis);
+    const depth = component(hb, axis) - along;
+    if (!inside || depth < -CONTACT_MARGIN || along < -component(hb, axis)) return;
+    // Flush faces put corners of both boxes at the same spot; one contact there is enough
+    // The pair's other direction was tested just before, adding at most eight contacts
+    const duplicate = out.slice(Math.max(0, existing - 8), existing).some(other =>
+      other.a === b && other.b === a && vectorLength(subtractVectors(other.point, point)) < CONTACT_MARGIN
+    );
+    if (!duplicate) out.push(newContact(`${bodyA.id}:${bodyB.id}:${corner}`, a, b, point, normal, depth));
+  });
+}
+
+function newContact(key: string, a: number, b: number, point: Position3D, normal: Position3D, depth: number): Contact {
+  // Any vector not parallel to the normal gives the friction directions
+  const helper = Math.abs(normal.x) < 0.9 ? { x: 1, y: 0, z: 0 } : { x: 0, y: 1, z: 0 };
+  const t1 = cross(normal, helper);
+  const tangent1 = scaleVector(t1, 1 / vectorLength(t1));
+  return {
+    key,
+    a,
+    b,
+    point,
+    normal,
+    depth,
+    ra: { x: 0, y: 0, z: 0 },
+    rb: { x: 0, y: 0, z: 0 },
+    tangents: [tangent1, cross(normal, tangent1)],
+    normalMass: 0,
+    tangentMass: [0, 0],
+    bias: 0,
+    normalImpulse: 0,
+    tangentImpulse: [0, 0]
+  };
+}
+
+function findContacts(world: PhysicsWorld, matrices: Matrix3[], moving: boolean[]): Contact[] {
+  const { bodies, options } = world;
+  const contacts: Contact[] = [];
+  const boxCorners = bodies.map((body, i) => corners(body, matrices[i]));
+
+  if (options.groundY !== null) {
+    const up = { x: 0, y: 1, z: 0 };
+    bodies.forEach((body, i) => {
+      if (!moving[i]) return;
+      boxCorners[i].forEach((point, corner) => {
+        const depth = options.groundY! - point.y;
+        if (depth > -CONTACT_MARGIN) contacts.push(newContact(`${body.id}:ground:${corner}`, i, -1, point, up, depth));
+      });
+    });
+  }
+
+  // Sweep along x over bounding boxes; order is fixed by position then index, so runs repeat exactly
+  const bounds = bodies.map((body, i) => ({ i, ...bodyBounds(body, matrices[i]) }));
+  bounds.sort((p, q) => p.min.x - q.min.x || p.i - q.i);
+
+  for (let s = 0; s < bounds.length; s++) {
+    const p = bounds[s];
+    for (let t = s + 1; t < bounds.length && bounds[t].min.x <= p.max.x; t++) {
+      const q = bounds[t];
+      if (q.min.y > p.max.y || q.max.y < p.min.y || q.min.z > p.max.z || q.max.z < p.min.z) continue;
+      if (!moving[p.i] && !moving[q.i]) continue;
+      const [a, b] = p.i < q.i ? [p.i, q.i] : [q.i, p.i];
+      boxContacts(world, a, b, boxCorners[a], matrices[b], contacts);
+      boxContacts(world, b, a, boxCorners[b], matrices[a], contacts);
+    }
+  }
+  return contacts;
+}
+
+function applyInverseInertia(body: PhysicsBody, m: Matrix3, v: Position3D, solid: boolean): Position3D {
+  if (!solid) return { x: 0, y: 0, z: 0 };
+  const local = toBody(m, v);
+  return toWorld(m, { x: local.x * body.inverseInertia.x, y: local.y * body.inverseInertia.y, z: local.z * body.inverseInertia.z });
+}
+
+// Advance the world by exactly one time step
+export function stepPhysicsWorld(world: PhysicsWorld): void {
+  const { bodies, options } = world;
+  const dt = options.timeStep;
+  const matrices = bodies.map(body => matrixFromQuaternion(body.orientation));
+  const moving = bodies.map(body => !body.isStatic && !body.asleep);
+  // Speeds carried in from the last step; gravity alone must not wake what a newly laid body rests on
+  const speeds = bodies.map(body => vectorLength(body.velocity));
+
+  for (let i = 0; i < bodies.length; i++) {
+    if (moving[i]) bodies[i].velocity.y -= options.gravity * dt;
+  }
+
+  const contacts = findContacts(world, matrices, moving);
+
+  // A moving body knocking into a sleeping one wakes it
+  for (const contact of contacts) {
+    for (const [self, other] of [[contact.a, contact.b], [contact.b, contact.a]]) {
+      if (self < 0 || other < 0 || moving[self] || bodies[self].isStatic) continue;
+      if (moving[other] && speeds[other] > options.sleepSpeed * 2) {
+        bodies[self].asleep = false;
+        bodies[self].restTime = 0;
+        bodies[self].velocity.y -= options.gravity * dt;
+        moving[self] = true;
+      }
+    }
+  }
+
+  const inverseMass = (i: number) => (i >= 0 && moving[i] ? bodies[i].inverseMass : 0);
+  const effectiveMass = (contact: Contact, direction: Position3D) => {
+    let k = inverseMass(contact.a) + inverseMass(contact.b);
+    const ca = cross(contact.ra, direction);
+    k += dot(ca, applyInverseInertia(bodies[contact.a], matrices[contact.a], ca, moving[contact.a]));
+    if (contact.b >= 0) {
+      const cb = cross(contact.rb, direction);
+      k += dot(cb, applyInverseInertia(bodies[contact.b], matrices[contact.b], cb, moving[contact.b]));
+    }
+    return k > 0 ? 1 / k : 0;
+  };
+
+  for (const contact of contacts) {
+    contact.ra = subtractVectors(contact.point, bodies[contact.a].position);
+    contact.rb = contact.b >= 0 ? subtractVectors(contact.point, bodies[contact.b].position) : { x: 0, y: 0, z: 0 };
+    contact.normalMass = effectiveMass(contact, contact.normal);
+    contact.tangentMass = [effectiveMass(contact, contact.tangents[0]), effectiveMass(contact, contact.tangents[1])];
+    // Separated corners may close the gap this step but no further; penetration is pushed back out
+    contact.bias = contact.depth < 0
+      ? contact.depth / dt
+      : BAUMGARTE / dt * Math.max(0, contact.depth - PENETRATION_SLOP);
+  }
+
+  const relativeVelocity = (contact: Contact) => {
+    const a = bodies[contact.a];
+    let v = addVectors(a.velocity, cross(a.angularVelocity, contact.ra));
+    if (contact.b >= 0) {
+      const b = bodies[contact.b];
+      v = subtractVectors(v, addVectors(b.velocity, cross(b.angularVelocity, contact.rb)));
+    }
+    return v;
+  };
+  const applyImpulse = (contact: Contact, impulse: Position3D) => {
+    if (moving[contact.a]) {
+      const a = bodies[contact.a];
+      a.velocity = addVectors(a.velocity, scaleVector(impulse, a.inverseMass));
+      a.angularVelocity = addVectors(a.angularVelocity, applyInverseInertia(a, matrices[contact.a], cross(contact.ra, impulse), true));
+    }
+    if (contact.b >= 0 && moving[contact.b]) {
+      const b = bodies[contact.b];
+      b.velocity = subtractVectors(b.velocity, scaleVector(impulse, b.inverseMass));
+      b.angularVelocity = subtractVectors(b.angularVelocity, applyInverseInertia(b, matrices[contact.b], cross(contact.rb, impulse), true));
+    }
+  };
+
+  // Start from last step's impulses so resting stacks converge instead of creeping
+  for (const contact of contacts) {
+    const previous = world.impulses.get(contact.key);
+    if (!previous) continue;
+    contact.normalImpulse = previous[0];
+    contact.tangentImpulse = [previous[1], previous[2]];
+    applyImpulse(contact, addVectors(
+      scaleVector(contact.normal, previous[0]),
+      addVectors(scaleVector(contact.tangents[0], previous[1]), scaleVector(contact.tangents[1], previous[2]))
+    ));
+  }
+
+  for (let iteration = 0; iteration < options.iterations; iteration++) {
+    for (const contact of contacts) {
+      // Friction first, bounded by the normal impulse found so far
+      const limit = options.friction * contact.normalImpulse;
+      for (let k = 0; k < 2; k++) {
+        const tangent = contact.tangents[k];
+        const lambda = -dot(relativeVelocity(contact), tangent) * contact.tangentMass[k];
+        const previous = contact.tangentImpulse[k];
+        contact.tangentImpulse[k] = Math.max(-limit, Math.min(limit, previous + lambda));
+        applyImpulse(contact, scaleVector(tangent, contact.tangentImpulse[k] - previous));
+      }
+
+      const lambda = (contact.bias - dot(relativeVelocity(contact), contact.normal)) * contact.normalMass;
+      const previous = contact.normalImpulse;
+      contact.normalImpulse = Math.max(0, previous + lambda);
+      applyImpulse(contact, scaleVector(contact.normal, contact.normalImpulse - previous));
+    }
+  }
+
+  bodies.forEach((body, i) => {
+    if (!moving[i]) return;
+    body.position = addVectors(body.position, scaleVector(body.velocity, dt));
+
+    // dq/dt = ½ ω q, then renormalise
+    const { w, x, y, z } = body.orientation;
+    const o = body.angularVelocity;
+    const q = {
+      w: w - 0.5 * dt * (o.x * x + o.y * y + o.z * z),
+      x: x + 0.5 * dt * (o.x * w + o.y * z - o.z * y),
+      y: y + 0.5 * dt * (o.y * w + o.z * x - o.x * z),
+      z: z + 0.5 * dt * (o.z * w + o.x * y - o.y * x)
+    };
+    const length = Math.hypot(q.w, q.x, q.y, q.z);
+    body.orientation = { w: q.w / length, x: q.x / length, y: q.y / length, z: q.z / length };
+
+    const still = vectorLength(body.velocity) < options.sleepSpeed && vectorLength(body.angularVelocity) < options.sleepSpeed;
+    body.restTime = still ? body.restTime + dt : 0;
+  });
+
+  // Bodies sleep together with everything they touch, or a stack settles from the bottom up and creeps
+  const ready = bodies.map((body, i) => moving[i] && body.restTime >= options.sleepTime);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const contact of contacts) {
+      if (contact.b < 0) continue;
+      const [a, b] = [contact.a, contact.b];
+      if (ready[a] && moving[b] && !ready[b]) {
+        ready[a] = false;
+        changed = true;
+      }
+      if (ready[b] && moving[a] && !ready[a]) {
+        ready[b] = false;
+        changed = true;
+      }
+    }
+  }
+  bodies.forEach((body, i) => {
+    if (!ready[i]) return;
+    body.asleep = true;
+    body.velocity = { x: 0, y: 0, z: 0 };
+    body.angularVelocity = { x: 0, y: 0, z: 0 };
+  });
+
+  world.impulses = new Map(contacts.map(contact =>
+    [contact.key, [contact.normalImpulse, contact.tangentImpulse[0], contact.tangentImpulse[1]]]
+  ));
+
+  const supports: Record<string, string[]> = {};
+  for (const contact of contacts) {
+    if (contact.normalImpulse <= 0 || contact.normal.y <= 0.5) continue;
+    const list = (supports[bodies[contact.a].id] ??= []);
+    const support = contact.b >= 0 ? bodies[contact.b].id : 'ground';
+    if (!list.includes(support)) list.push(support);
+  }
+  world.supports = supports;
+  world.time += dt;
+}
+
+// Advance by real elapsed time in whole steps; returns the number of steps taken
+export function advancePhysicsWorld(world: PhysicsWorld, deltaTime: number): number {
+  world.accumulator = Math.min(world.accumulator + deltaTime, MAX_STEPS_PER_ADVANCE * world.options.timeStep);
+  let steps = 0;
+  while (world.accumulator >= world.options.timeStep) {
+    stepPhysicsWorld(world);
+    world.accumulator -= world.options.timeStep;
+    steps++;
+  }
+  return steps;
+}
+
+export function isWorldAtRest(world: PhysicsWorld): boolean {
+  return world.bodies.every(body => body.isStatic || body.asleep);
+}
+
+export interface ToppleOptions extends PhysicsOptions {
+  settleTime: number; // s allowed for the stack to come to rest before supports are removed
+  duration: number; // s simulated after removal
+  displacementThreshold: number; // m a brick must move to count as toppled
+  rotationThreshold: number; // rad a brick must turn to count as toppled
+}
+
+export const defaultToppleOptions: ToppleOptions = {
+  ...defaultPhysicsOptions,
+  settleTime: 1,
+  duration: 3,
+  displacementThreshold: 0.05,
+  rotationThreshold: 10 * Math.PI / 180
+};
+
+export interface ToppleReport {
+  unstable: string[]; // already fell while the stack settled, before anything was removed
+  toppled: string[]; // fell after the supports were removed
+  displacements: Record<string, number>; // metres moved after the supports were removed
+  settled: boolean; // whether everything came to rest before the removal
+  atRest: boolean; // whether everything came to rest again by the end
+  steps: number;
+}
+
+export interface BodyPose {
+  position: Position3D;
+  orientation: Quaternion;
+}
+
+export function snapshotBodies(bodies: PhysicsBody[]): Map<string, BodyPose> {
+  return new Map(bodies.map(body => [body.id, { position: { ...body.position }, orientation: { ...body.orientation } }]));
+}
+
+// Whether a body has moved or turned far enough from an earlier pose to count as fallen
+export function hasToppled(
+  body: PhysicsBody,
+  before: BodyPose,
+  thresholds: Pick<ToppleOptions, 'displacementThreshold' | 'rotationThreshold'> = defaultToppleOptions
+): boolean {
+  const moved = vectorLength(subtractVectors(body.position, before.position));
+  // Angle between the two orientations from the quaternion dot product
+  const o = body.orientation;
+  const q = before.orientation;
+  const turned = 2 * Math.acos(Math.min(1, Math.abs(o.w * q.w + o.x * q.x + o.y * q.y + o.z * q.z)));
+  return moved > thresholds.displacementThreshold || turned > thresholds.rotationThreshold;
+}
+
+// Which bricks fall when the given supports are taken away; headless and repeatable
+export function findToppledBricks(
+  bodies: PhysicsBodyInput[],
+  removedIds: string[],
+  options: Partial<ToppleOptions> = {}
+): ToppleReport {
+  const settings = { ...defaultToppleOptions, ...options };
+  const world = createPhysicsWorld(bodies, settings);
+  let steps = 0;
+
+  const run = (seconds: number) => {
+    for (let t = 0; t < seconds && !isWorldAtRest(world); t += settings.timeStep) {
+      stepPhysicsWorld(world);
+      steps++;
+    }
+  };
+
+  const initial = snapshotBodies(world.bodies);
+  run(settings.settleTime);
+  const settled = isWorldAtRest(world);
+  const unstable = world.bodies.filter(body => hasToppled(body, initial.get(body.id)!, settings)).map(body => body.id);
+
+  const rest = snapshotBodies(world.bodies);
+  removedIds.forEach(id => removePhysicsBody(world, id));
+  run(settings.duration);
+
+  const displacements: Record<string, number> = {};
+  const toppled: string[] = [];
+  for (const body of world.bodies) {
+    const before = rest.get(body.id)!;
+    displacements[body.id] = vectorLength(subtractVectors(body.position, before.position));
+    if (hasToppled(body, before, settings)) toppled.push(body.id);
+  }
+
+  return { unstable, toppled, displacements, settled, atRest: isWorldAtRest(world), steps };
+}
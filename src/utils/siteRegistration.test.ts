@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import type { DetectedAnchor, Position3D } from '../types';
+import { applySimilarityTransform, type SimilarityTransform } from './coordinateTransform';
+import { eulerToRotationMatrix } from './linearAlgebra';
+import { fitSimilarityTransform, registerSite } from './siteRegistration';
+
+// Project anchors spread over a 6 × 4 m plot, with one on a raised plinth so they are not coplanar
+const planned: Position3D[] = [
+  { x: 0, y: 0, z: 0 },
+  { x: 6, y: 0, z: 0 },
+  { x: 6, y: 0, z: 4 },
+  { x: 0, y: 0, z: 4 },
+  { x: 3, y: 0.5, z: 2 },
+  { x: 1.5, y: 0, z: 3 }
+];
+
+// Turned 30° about the vertical, tipped slightly, printed at 98 % and set out away from the origin
+const truth: SimilarityTransform = {
+  rotation: eulerToRotationMatrix({ x: 0.05, y: Math.PI / 6, z: -0.02 }),
+  translation: { x: 2, y: -0.3, z: -5 },
+  scale: 0.98
+};
+
+const detection = (position: Position3D, index: number, world: Position3D): DetectedAnchor => ({
+  data: {
+    projectId: 'project-1',
+    projectUID: 'project-1',
+    projectName: 'Plot',
+    anchorIndex: index,
+    anchorUID: `anchor-${index}`,
+    anchor: { name: `Anchor ${index + 1}`, purpose: 'wall-corner', constructionType: 'wall', position },
+    brickType: 'clay-sustainable',
+    totalAnchors: planned.length,
+    type: 'construction-anchor',
+    timestamp: '2026-01-01T00:00:00Z'
+  },
+  pose: { position: world, rotation: { x: 0, y: 0, z: 0 }, timestamp: index },
+  timestamp: index
+});
+
+function expectTransformClose(actual: SimilarityTransform, expected: SimilarityTransform) {
+  expect(actual.scale).toBeCloseTo(expected.scale, 9);
+  for (const axis of ['x', 'y', 'z'] as const) {
+    expect(actual.translation[axis]).toBeCloseTo(expected.translation[axis], 9);
+  }
+  actual.rotation.forEach((row, r) => row.forEach((value, c) => expect(value).toBeCloseTo(expected.rotation[r][c], 9)));
+}
+
+describe('fitSimilarityTransform', () => {
+  it('recovers a known similarity transform exactly', () => {
+    const fit = fitSimilarityTransform(planned, planned.map(p => applySimilarityTransform(truth, p)))!;
+
+    expectTransformClose(fit, truth);
+  });
+
+  it('holds the scale at 1 for a rigid fit', () => {
+    const rigid = { ...truth, scale: 1 };
+    const fit = fitSimilarityTransform(planned, planned.map(p => applySimilarityTransform(rigid, p)), false)!;
+
+    expectTransformClose(fit, rigid);
+  });
+
+  it('gives no fit for collinear anchors', () => {
+    const line = [{ x: 0, y: 0, z: 0 }, { x: 1, y: 0, z: 0 }, { x: 3, y: 0, z: 0 }];
+
+    expect(fitSimilarityTransform(line, line)).toBeNull();
+  });
+});
+
+describe('registerSite', () => {
+  it('rejects a marker that was knocked out of place', () => {
+    const detections = planned.map((p, i) => {
+      const world = applySimilarityTransform(truth, p);
+      // The fourth marker was kicked 40 cm after it was set out
+      return detection(p, i, i === 3 ? { ...world, x: world.x + 0.4 } : world);
+    });
+
+    const registration = registerSite(detections)!;
+
+    expect(registration.inlierCount).toBe(5);
+    expect(registration.residuals.filter(r => !r.isInlier).map(r => r.anchorUID)).toEqual(['anchor-3']);
+    expect(registration.residuals[3].residual).toBeCloseTo(0.4, 6);
+    expect(registration.rmsError).toBeCloseTo(0, 9);
+    expectTransformClose(registration.transform, truth);
+  });
+
+  it('samples reproducibly when the triples cannot all be tried', () => {
+    const detections = planned.map((p, i) => detection(p, i, applySimilarityTransform(truth, p)));
+    detections[1] = detection(planned[1], 1, { x: 0, y: 0, z: 0 });
+
+    const run = () => registerSite(detections, { maxIterations: 5, seed: 42 });
+
+    expect(run()).toEqual(run());
+    expect(run()!.residuals[1].isInlier).toBe(false);
+  });
+
+  it('needs three anchors before it fits anything', () => {
+    const detections = planned.slice(0, 2).map((p, i) => detection(p, i, applySimilarityTransform(truth, p)));
+
+    expect(registerSite(detections)).toBeNull();
+  });
+});
@@ -0,0 +1,208 @@
+import type { DetectedAnchor, Position3D, Rotation3D } from '../types';
+import {
+  addVectors,
+  determinant3,
+  multiplyMatrix3,
+  rotationMatrixToEuler,
+  scaleVector,
+  subtractVectors,
+  svd3,
+  transposeMatrix3,
+  applyMatrix3,
+  vectorLength,
+  type Matrix3
+} from './linearAlgebra';
+import { applySimilarityTransform, type SimilarityTransform } from './coordinateTransform';
+
+export interface RegistrationOptions {
+  inlierThreshold: number; // metres; anchors further than this from the fit are outliers
+  maxIterations: number; // RANSAC hypotheses when the samples cannot all be enumerated
+  allowScale: boolean; // false fits a rigid transform (scale fixed to 1)
+  seed: number; // keeps random sampling reproducible
+}
+
+export interface AnchorResidual {
+  anchorUID: string;
+  anchorName: string;
+  residual: number; // metres between the mapped project position and the detected position
+  isInlier: boolean;
+}
+
+export interface SiteRegistration {
+  transform: SimilarityTransform;
+  eulerRotation: Rotation3D;
+  rmsError: number; // over inliers only
+  inlierCount: number;
+  residuals: AnchorResidual[];
+}
+
+export const defaultRegistrationOptions: RegistrationOptions = {
+  inlierThreshold: 0.05,
+  maxIterations: 200,
+  allowScale: true,
+  seed: 1
+};
+
+// Minimum number of markers needed for a unique fit (two leave the roll about their baseline free)
+export const MIN_REGISTRATION_ANCHORS = 3;
+
+// Least-squares similarity transform mapping `source` onto `target` (Umeyama 1991).
+// With allowScale = false this reduces to the Kabsch rigid fit.
+export function fitSimilarityTransform(
+  source: Position3D[],
+  target: Position3D[],
+  allowScale = true
+): SimilarityTransform | null {
+  const n = source.length;
+  if (n < MIN_REGISTRATION_ANCHORS || target.length !== n) return null;
+
+  const centroid = (points: Position3D[]) =>
+    scaleVector(points.reduce((sum, p) => addVectors(sum, p), { x: 0, y: 0, z: 0 }), 1 / points.length);
+  const sourceCentre = centroid(source);
+  const targetCentre = centroid(target);
+
+  // Cross-covariance Σ = 1/n · Σ (target_i - μt)(source_i - μs)ᵀ
+  const covariance: Matrix3 = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  let sourceVariance = 0;
+  for (let i = 0; i < n; i++) {
+    const s = subtractVectors(source[i], sourceCentre);
+    const t = subtractVectors(target[i], targetCentre);
+    const sv = [s.x, s.y, s.z];
+    const tv = [t.x, t.y, t.z];
+    for (let r = 0; r < 3; r++) {
+      for (let c = 0; c < 3; c++) {
+        covariance[r][c] += tv[r] * sv[c] / n;
+      }
+    }
+    sourceVariance += (s.x * s.x + s.y * s.y + s.z * s.z) / n;
+  }
+  if (sourceVariance < 1e-12) return null;
+
+  const { U, S, V } = svd3(covariance);
+
+  // Collinear anchors leave the rotation about their common line undetermined
+  if (S[1] < 1e-9 * Math.max(1, S[0])) return null;
+
+  const reflection = determinant3(U) * determinant3(V) < 0 ? -1 : 1;
+  const D = [[1, 0, 0], [0, 1, 0], [0, 0, reflection]];
+  const rotation = multiplyMatrix3(multiplyMatrix3(U, D), transposeMatrix3(V));
+  const scale = allowScale ? (S[0] + S[1] + reflection * S[2]) / sourceVariance : 1;
+  const translation = subtractVectors(targetCentre, scaleVector(applyMatrix3(rotation, sourceCentre), scale));
+
+  return { rotation, translation, scale };
+}
+
+// Small deterministic PRNG (mulberry32) so registration runs are reproducible
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// All 3-element index subsets when few enough, otherwise random distinct triples
+function sampleTriples(n: number, options: RegistrationOptions): number[][] {
+  const total = n * (n - 1) * (n - 2) / 6;
+  const triples: number[][] = [];
+
+  if (total <= options.maxIterations) {
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        for (let k = j + 1; k < n; k++) {
+          triples.push([i, j, k]);
+        }
+      }
+    }
+    return triples;
+  }
+
+  const random = createRandom(options.seed);
+  while (triples.length < options.maxIterations) {
+    const picked = new Set<number>();
+    while (picked.size < 3) {
+      picked.add(Math.floor(random() * n));
+    }
+    triples.push([...picked]);
+  }
+  return triples;
+}
+
+// Keep the most recent detection of each anchor
+export function latestDetections(detections: DetectedAnchor[]): DetectedAnchor[] {
+  const latest = new Map<string, DetectedAnchor>();
+  for (const detection of detections) {
+    const existing = latest.get(detection.data.anchorUID);
+    if (!existing || detection.timestamp >= existing.timestamp) {
+      latest.set(detection.data.anchorUID, detection);
+    }
+  }
+  return [...latest.values()];
+}
+
+// Fit the project-to-world transform from any number of detected anchors, rejecting outliers with RANSAC
+export function registerSite(
+  detections: DetectedAnchor[],
+  options: Partial<RegistrationOptions> = {}
+): SiteRegistration | null {
+  const settings = { ...defaultRegistrationOptions, ...options };
+  const anchors = latestDetections(detections);
+  if (anchors.length < MIN_REGISTRATION_ANCHORS) return null;
+
+  const source = anchors.map(a => a.data.anchor.position);
+  const target = anchors.map(a => a.pose.position);
+  const residualsFor = (transform: SimilarityTransform) =>
+    source.map((p, i) => vectorLength(subtractVectors(applySimilarityTransform(transform, p), target[i])));
+
+  // Hypothesis with the most inliers wins; ties go to the lower total inlier error
+  let bestInliers: number[] = [];
+  let bestError = Infinity;
+  for (const triple of sampleTriples(anchors.length, settings)) {
+    const hypothesis = fitSimilarityTransform(
+      triple.map(i => source[i]),
+      triple.map(i => target[i]),
+      settings.allowScale
+    );
+    if (!hypothesis) continue;
+
+    const residuals = residualsFor(hypothesis);
+    const inliers = residuals.flatMap((r, i) => (r <= settings.inlierThreshold ? [i] : []));
+    const error = inliers.reduce((sum, i) => sum + residuals[i], 0);
+    if (inliers.length > bestInliers.length || (inliers.length === bestInliers.length && error < bestError)) {
+      bestInliers = inliers;
+      bestError = error;
+    }
+  }
+
+  if (bestInliers.length < MIN_REGISTRATION_ANCHORS) return null;
+
+  // Refine on the consensus set
+  const transform = fitSimilarityTransform(
+    bestInliers.map(i => source[i]),
+    bestInliers.map(i => target[i]),
+    settings.allowScale
+  );
+  if (!transform) return null;
+
+  const residuals = residualsFor(transform);
+  const inlierResiduals = residuals.filter(r => r <= settings.inlierThreshold);
+
+  return {
+    transform,
+    eulerRotation: rotationMatrixToEuler(transform.rotation),
+    rmsError: inlierResiduals.length > 0
+      ? Math.sqrt(inlierResiduals.reduce((sum, r) => sum + r * r, 0) / inlierResiduals.length)
+      : Infinity,
+    inlierCount: inlierResiduals.length,
+    residuals: anchors.map((a, i) => ({
+      anchorUID: a.data.anchorUID,
+      anchorName: a.data.anchor.name,
+      residual: residuals[i],
+      isInlier: residuals[i] <= settings.inlierThreshold
+    }))
+  };
+}
+
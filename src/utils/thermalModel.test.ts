@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeThermalPerformance } from './thermalModel';
+import { generateWall } from './wallGenerator';
+
+describe('analyzeThermalPerformance', () => {
+  it('gives the U-value and time lag of a 150 mm clay wall', () => {
+    const wall = generateWall({ x: 0, y: 0, z: 0 }, { x: 3, y: 0, z: 0 }, 'clay-sustainable', { height: 2 });
+    const report = analyzeThermalPerformance([wall], 'clay-sustainable');
+    const [result] = report.walls;
+
+    expect(result.thickness).toBeCloseTo(0.15, 9);
+    // 0.7 W/mK, midpoint of the library's 0.6-0.8: 1 / (0.13 + 0.15 / 0.7 + 0.04)
+    expect(report.properties).toEqual({ conductivity: 0.7, density: 1800, specificHeat: 840 });
+    expect(result.uValue).toBeCloseTo(2.6022, 4);
+    expect(report.uValue).toBeCloseTo(result.uValue, 9);
+
+    // ISO 13786 admittance method for the same wall and films: decrement 0.712, lag 4.36 h
+    expect(result.decrementFactor).toBeCloseTo(0.712, 2);
+    expect(Math.abs(result.timeLag - 4.36)).toBeLessThan(0.1);
+
+    // A lone wall encloses nothing
+    expect(report.roomVolume).toBe(0);
+    expect(report.warnings).toEqual(['Walls do not enclose a room; indoor temperature ignores ventilation']);
+  });
+});
@@ -0,0 +1,287 @@
+import type { BrickTypeKey } from '../types';
+import { brickTypes } from './brickTypes';
+import type { ConstructionPath } from './constructionAlgorithms';
+import { getMaterialStrength } from './loadPath';
+import { getLibraryMaterial, libraryMaterials, type Material } from './materialLibrary';
+import { isWallPath } from './wallGenerator';
+
+// Heat flow through the wall panels of a free-running shelter. Each wall is a single homogeneous
+// layer conducting in one dimension, stepped with explicit finite differences through repeated days
+// of the outdoor profile until the cycle repeats. The indoor air has no capacity of its own: at each
+// step it settles where the walls, openings and ventilation balance. Roof and floor are not modelled.
+
+export interface ThermalProperties {
+  conductivity: number; // W/mK
+  density: number; // kg/m³
+  specificHeat: number; // J/kgK
+}
+
+export interface ThermalOptions {
+  outdoor: number[]; // °C at each hour of the day, from midnight
+  internalFilm: number; // m²K/W, surface resistance indoors
+  externalFilm: number; // m²K/W
+  airChangesPerHour: number;
+  openingUValue: number; // W/m²K, doors and windows
+  internalGains: number; // W from occupants and equipment
+  comfortMax: number; // °C above which the shelter is too hot
+  roomVolume?: number; // m³; the plan extent of the walls times their height otherwise
+  properties?: Partial<ThermalProperties>;
+  days: number; // repeated days before the last one is recorded
+}
+
+export interface WallThermal {
+  index: number; // into the paths passed in
+  thickness: number;
+  area: number; // m² of wall, openings excluded
+  uValue: number; // W/m²K
+  decrementFactor: number; // heat flow swing indoors over the steady-state swing
+  timeLag: number; // hours from the outdoor peak to the indoor heat flow peak
+}
+
+export interface ThermalReport {
+  properties: ThermalProperties;
+  walls: WallThermal[];
+  uValue: number; // area-weighted over the walls
+  roomVolume: number;
+  outdoor: number[]; // °C hourly
+  indoor: number[]; // °C hourly, predicted
+  outdoorSwing: number; // °C, highest less lowest
+  indoorSwing: number;
+  indoorPeak: number;
+  indoorPeakHour: number;
+  hoursAboveComfort: number; // hours of the day indoors is above comfortMax
+  warnings: string[];
+}
+
+// Mean 28 °C with a 12 °C daily range, peaking mid-afternoon
+export const defaultThermalOptions: ThermalOptions = {
+  outdoor: dailyTemperatureProfile(28, 12),
+  internalFilm: 0.13,
+  externalFilm: 0.04,
+  airChangesPerHour: 1,
+  openingUValue: 2.8,
+  internalGains: 0,
+  comfortMax: 28,
+  days: 7
+};
+
+const AIR_HEAT_CAPACITY = 1.2 * 1005 / 3600; // Wh/m³K, so W/K per m³ per air change an hour
+const MAX_NODE_SPACING = 0.01; // metres
+const MIN_NODES = 3;
+// Fraction of the explicit stability limit used as the time step
+const STABILITY_MARGIN = 0.9;
+const SECONDS_PER_HOUR = 3600;
+
+// Sinusoidal day with the given mean and range (highest less lowest)
+export function dailyTemperatureProfile(mean: number, range: number, peakHour = 15): number[] {
+  return Array.from({ length: 24 }, (_, hour) => mean + range / 2 * Math.cos(2 * Math.PI * (hour - peakHour) / 24));
+}
+
+// Midpoint of library strings such as '0.6-0.8 W/mK'
+function parseConductivity(text: string): number | null {
+  const values = text.replace(/[–—]/g, '-').split('-').map(part => parseFloat(part)).filter(Number.isFinite);
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+export function getThermalProperties(brickType: BrickTypeKey, materials: Material[] = libraryMaterials): ThermalProperties {
+  const conductivity = getLibraryMaterial(brickType, materials)?.properties.thermalConductivity;
+  const { physical } = brickTypes[brickType];
+  return {
+    conductivity: (conductivity ? parseConductivity(conductivity) : null) ?? physical.conductivity,
+    density: getMaterialStrength(brickType, materials).density,
+    specificHeat: physical.specificHeat
+  };
+}
+
+interface WallModel {
+  area: number;
+  capacity: number; // J/m²K of each node
+  conductance: number; // W/m²K between nodes
+  outer: number; // W/m²K from outdoor air to the first node
+  inner: number; // W/m²K from the last node to indoor air
+  temperatures: number[];
+}
+
+interface SimulationResult {
+  outdoor: number[]; // every step of the recorded day
+  indoor: number[];
+  flux: number[][]; // W/m² into the room, per wall
+  stepsPerHour: number;
+}
+
+function createWallModel(thickness: number, area: number, properties: ThermalProperties, settings: ThermalOptions, start: number): WallModel {
+  const nodes = Math.max(MIN_NODES, Math.ceil(thickness / MAX_NODE_SPACING));
+  const dx = thickness / nodes;
+  const half = dx / 2 / properties.conductivity;
+  return {
+    area,
+    capacity: properties.density * properties.specificHeat * dx,
+    conductance: properties.conductivity / dx,
+    outer: 1 / (settings.externalFilm + half),
+    inner: 1 / (settings.internalFilm + half),
+    temperatures: new Array(nodes).fill(start)
+  };
+}
+
+// Largest stable explicit step, trimmed to a whole number of steps an hour
+function stepsPerHourFor(models: WallModel[]): number {
+  const limit = models.reduce((smallest, model) => Math.min(
+    smallest,
+    model.capacity / (2 * model.conductance),
+    model.capacity / (model.conductance + Math.max(model.outer, model.inner))
+  ), SECONDS_PER_HOUR);
+  return Math.ceil(SECONDS_PER_HOUR / (STABILITY_MARGIN * limit));
+}
+
+// Linear between hourly values, wrapping at midnight
+function temperatureAt(profile: number[], hour: number): number {
+  const wrapped = ((hour % profile.length) + profile.length) % profile.length;
+  const before = Math.floor(wrapped);
+  const fraction = wrapped - before;
+  return profile[before] * (1 - fraction) + profile[(before + 1) % profile.length] * fraction;
+}
+
+// With a fixed indoor temperature, or free-running against the extra conductance to outdoors
+function simulate(
+  models: WallModel[],
+  outdoorProfile: number[],
+  indoor: { fixed: number } | { outdoorConductance: number; gains: number },
+  days: number
+): SimulationResult {
+  const stepsPerHour = stepsPerHourFor(models);
+  const dt = SECONDS_PER_HOUR / stepsPerHour;
+  const stepsPerDay = 24 * stepsPerHour;
+  const result: SimulationResult = { outdoor: [], indoor: [], flux: models.map(() => []), stepsPerHour };
+
+  const indoorAt = (outside: number) => {
+    if ('fixed' in indoor) return indoor.fixed;
+    let weighted = indoor.outdoorConductance * outside + indoor.gains;
+    let total = indoor.outdoorConductance;
+    for (const model of models) {
+      weighted += model.area * model.inner * model.temperatures[model.temperatures.length - 1];
+      total += model.area * model.inner;
+    }
+    return total > 0 ? weighted / total : outside;
+  };
+
+  for (let step = 0; step < days * stepsPerDay; step++) {
+    const outside = temperatureAt(outdoorProfile, step / stepsPerHour);
+    const inside = indoorAt(outside);
+
+    if (step >= (days - 1) * stepsPerDay) {
+      result.outdoor.push(outside);
+      result.indoor.push(inside);
+      models.forEach((model, i) => {
+        result.flux[i].push(model.inner * (model.temperatures[model.temperatures.length - 1] - inside));
+      });
+    }
+
+    for (const model of models) {
+      const t = model.temperatures;
+      const last = t.length - 1;
+      const next = t.map((value, j) => {
+        const fromOutside = j === 0 ? model.outer * (outside - value) : model.conductance * (t[j - 1] - value);
+        const fromInside = j === last ? model.inner * (inside - value) : model.conductance * (t[j + 1] - value);
+        return value + dt * (fromOutside + fromInside) / model.capacity;
+      });
+      model.temperatures = next;
+    }
+  }
+  return result;
+}
+
+function hourly(values: number[], stepsPerHour: number): number[] {
+  return Array.from({ length: 24 }, (_, hour) => values[hour * stepsPerHour]);
+}
+
+// Reduced rather than spread: a recorded day can run to many thousands of steps
+function highest(values: number[]): number {
+  return values.reduce((max, value) => Math.max(max, value), -Infinity);
+}
+
+function range(values: number[]): number {
+  return highest(values) - values.reduce((min, value) => Math.min(min, value), Infinity);
+}
+
+function peakHour(values: number[], stepsPerHour: number): number {
+  return values.indexOf(highest(values)) / stepsPerHour;
+}
+
+// Decrement factor and time lag under a sinusoidal day with the room held at the mean
+function dynamicResponse(thickness: number, properties: ThermalProperties, settings: ThermalOptions, uValue: number) {
+  const swing = 10;
+  const model = createWallModel(thickness, 1, properties, settings, 0);
+  const run = simulate([model], dailyTemperatureProfile(0, 2 * swing), { fixed: 0 }, settings.days);
+  const flux = run.flux[0];
+  return {
+    decrementFactor: range(flux) / 2 / (uValue * swing),
+    timeLag: (peakHour(flux, run.stepsPerHour) - peakHour(run.outdoor, run.stepsPerHour) + 24) % 24
+  };
+}
+
+export function analyzeThermalPerformance(
+  paths: ConstructionPath[],
+  brickType: BrickTypeKey,
+  options: Partial<ThermalOptions> = {}
+): ThermalReport {
+  const settings = { ...defaultThermalOptions, ...options };
+  if (settings.outdoor.length !== 24) {
+    throw new Error(`Outdoor temperature profile needs 24 hourly values, got ${settings.outdoor.length}`);
+  }
+  const properties = { ...getThermalProperties(brickType), ...settings.properties };
+  const mean = settings.outdoor.reduce((sum, value) => sum + value, 0) / settings.outdoor.length;
+  const warnings: string[] = [];
+
+  const walls: WallThermal[] = [];
+  const models: WallModel[] = [];
+  let openingArea = 0;
+  let minX = Infinity, maxX = -Infinity, minZ = Infinity, maxZ = -Infinity, height = 0;
+  paths.forEach((path, index) => {
+    if (!isWallPath(path)) return;
+    const openings = path.openings.reduce((sum, opening) => sum + opening.width * opening.height, 0);
+    const area = Math.max(0, path.length * path.height - openings);
+    const uValue = 1 / (settings.internalFilm + path.thickness / properties.conductivity + settings.externalFilm);
+    walls.push({ index, thickness: path.thickness, area, uValue, ...dynamicResponse(path.thickness, properties, settings, uValue) });
+    models.push(createWallModel(path.thickness, area, properties, settings, mean));
+
+    openingArea += openings;
+    for (const end of [path.start, path.end]) {
+      minX = Math.min(minX, end.x);
+      maxX = Math.max(maxX, end.x);
+      minZ = Math.min(minZ, end.z);
+      maxZ = Math.max(maxZ, end.z);
+    }
+    height = Math.max(height, path.height);
+  });
+
+  const wallArea = walls.reduce((sum, wall) => sum + wall.area, 0);
+  const roomVolume = settings.roomVolume ?? (walls.length > 0 ? (maxX - minX) * (maxZ - minZ) * height : 0);
+  if (walls.length === 0) {
+    warnings.push('No walls to model; indoor temperature follows outdoors');
+  } else if (roomVolume <= 0) {
+    warnings.push('Walls do not enclose a room; indoor temperature ignores ventilation');
+  }
+
+  const run = simulate(models, settings.outdoor, {
+    outdoorConductance: AIR_HEAT_CAPACITY * settings.airChangesPerHour * roomVolume + settings.openingUValue * openingArea,
+    gains: settings.internalGains
+  }, settings.days);
+  const outdoor = hourly(run.outdoor, run.stepsPerHour);
+  const indoor = hourly(run.indoor, run.stepsPerHour);
+  const indoorPeak = highest(run.indoor);
+
+  return {
+    properties,
+    walls,
+    uValue: wallArea > 0 ? walls.reduce((sum, wall) => sum + wall.uValue * wall.area, 0) / wallArea : 0,
+    roomVolume,
+    outdoor,
+    indoor,
+    outdoorSwing: range(run.outdoor),
+    indoorSwing: range(run.indoor),
+    indoorPeak,
+    indoorPeakHour: peakHour(run.indoor, run.stepsPerHour),
+    hoursAboveComfort: run.indoor.filter(value => value > settings.comfortMax).length / run.stepsPerHour,
+    warnings
+  };
+}
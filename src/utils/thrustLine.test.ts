@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeThrustLine, describeThrustLine, type ThrustJoint } from './thrustLine';
+
+// Half of a semicircular ring of unit intrados radius, radial joints from the crown to the springing
+const semicircle = (thickness: number, pieces = 60): ThrustJoint[] =>
+  Array.from({ length: pieces + 1 }, (_, i) => {
+    const angle = (i / pieces) * Math.PI / 2;
+    const radial = { x: Math.sin(angle), y: Math.cos(angle) };
+    return { inner: radial, outer: { x: radial.x * (1 + thickness), y: radial.y * (1 + thickness) } };
+  });
+
+describe('analyzeThrustLine', () => {
+  it('finds a thrust line inside a semicircle only above the minimum ring thickness', () => {
+    // Heyman's limit for a semicircle is a ring about 11 % of its mean radius deep
+    const thin = analyzeThrustLine(semicircle(0.09));
+    expect(thin.withinSection).toBe(false);
+    expect(thin.geometricSafetyFactor).toBeLessThan(1);
+    expect(describeThrustLine(thin, 'arch ring')).toMatch(/^No thrust line fits inside the arch ring/);
+
+    const thick = analyzeThrustLine(semicircle(0.2));
+    expect(thick.withinSection).toBe(true);
+    expect(thick.withinMiddleThird).toBe(false);
+    expect(thick.maxEccentricity).toBeLessThan(0.5);
+    expect(thick.geometricSafetyFactor).toBeGreaterThan(1);
+    expect(thick.eccentricities).toHaveLength(61);
+    thick.eccentricities.forEach(e => expect(Math.abs(e)).toBeLessThanOrEqual(thick.maxEccentricity + 1e-12));
+  });
+
+  it('needs a crown and a springing joint', () => {
+    expect(() => analyzeThrustLine(semicircle(0.2).slice(0, 1))).toThrow('at least a crown joint');
+  });
+});
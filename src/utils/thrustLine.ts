@@ -0,0 +1,141 @@
+import type { Point2D } from '../types';
+
+// Line-of-thrust check for symmetric masonry arches, vault rings and dome lunes (Heyman's safe theorem):
+// if a thrust line in equilibrium with self-weight fits inside the masonry, the structure stands.
+// The half structure is described in its own plane: x is horizontal distance from the crown towards
+// the springing, y is height. Joints are listed from the crown down to the springing.
+
+export interface ThrustJoint {
+  inner: Point2D; // intrados end of the joint
+  outer: Point2D; // extrados end
+}
+
+export interface ThrustLineReport {
+  horizontalThrustRatio: number; // crown thrust divided by the weight of the half structure
+  maxEccentricity: number; // largest offset of the thrust line from the joint centre, as a fraction of joint depth
+  criticalJoint: number; // index into the joints, 0 = crown
+  geometricSafetyFactor: number; // joint depth over the depth actually needed to contain the line
+  withinMiddleThird: boolean; // no tension anywhere in the joints
+  withinSection: boolean; // stable, although joints outside the middle third open up
+  eccentricities: number[]; // per joint, signed (positive towards the extrados)
+}
+
+const CROWN_STEPS = 40;
+const THRUST_STEPS = 240;
+
+function polygonArea(points: Point2D[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+}
+
+// Blocks between consecutive joints; weightFactor scales by out-of-plane width (e.g. radius for a dome lune)
+function blocksBetween(joints: ThrustJoint[], weightFactor: (centroid: Point2D) => number) {
+  return joints.slice(1).map((joint, i) => {
+    const above = joints[i];
+    const corners = [above.inner, above.outer, joint.outer, joint.inner];
+    const centroid = {
+      x: corners.reduce((sum, p) => sum + p.x, 0) / 4,
+      y: corners.reduce((sum, p) => sum + p.y, 0) / 4
+    };
+    return { centroid, weight: polygonArea(corners) * weightFactor(centroid) };
+  });
+}
+
+// Position of the thrust line across each joint (0 = intrados, 1 = extrados) for a given crown thrust
+function tracePositions(joints: ThrustJoint[], blocks: Array<{ centroid: Point2D; weight: number }>, crownY: number, thrust: number): number[] {
+  const crown = joints[0];
+  const positions = [(crownY - crown.inner.y) / (crown.outer.y - crown.inner.y || 1)];
+
+  let weight = 0;
+  let weightMoment = 0;
+  blocks.forEach((block, i) => {
+    weight += block.weight;
+    weightMoment += block.centroid.x * block.weight;
+
+    // The resultant (thrust, -weight) passes through p where p.x·W + p.y·H = crownY·H + Σ x·w
+    const joint = joints[i + 1];
+    const dx = joint.outer.x - joint.inner.x;
+    const dy = joint.outer.y - joint.inner.y;
+    const rhs = crownY * thrust + weightMoment - joint.inner.x * weight - joint.inner.y * thrust;
+    const denominator = dx * weight + dy * thrust;
+    positions.push(Math.abs(denominator) < 1e-12 ? Infinity : rhs / denominator);
+  });
+  return positions;
+}
+
+export function analyzeThrustLine(
+  joints: ThrustJoint[],
+  weightFactor: (centroid: Point2D) => number = () => 1
+): ThrustLineReport {
+  if (joints.length < 2) {
+    throw new Error('Thrust-line check needs at least a crown joint and a springing joint');
+  }
+
+  const blocks = blocksBetween(joints, weightFactor);
+  const totalWeight = blocks.reduce((sum, block) => sum + block.weight, 0);
+  const crown = joints[0];
+
+  // Search crown position and thrust for the line that stays closest to the joint centres
+  const evaluate = (crownFraction: number, ratio: number) => {
+    const crownY = crown.inner.y + (crown.outer.y - crown.inner.y) * crownFraction;
+    const eccentricities = tracePositions(joints, blocks, crownY, ratio * totalWeight).map(p => p - 0.5);
+    const worst = eccentricities.reduce((max, e) => Math.max(max, Math.abs(e)), 0);
+    return { crownFraction, ratio, eccentricities, worst };
+  };
+
+  let best = evaluate(0.5, 0);
+  const consider = (crownFraction: number, ratio: number): boolean => {
+    const candidate = evaluate(Math.min(1, Math.max(0, crownFraction)), Math.max(0, ratio));
+    if (candidate.worst >= best.worst) return false;
+    best = candidate;
+    return true;
+  };
+  for (let c = 0; c <= CROWN_STEPS; c++) {
+    for (let t = 0; t <= THRUST_STEPS; t++) {
+      // 0, then logarithmically from 1e-3 to 1e2 times the half weight
+      consider(c / CROWN_STEPS, t === 0 ? 0 : Math.pow(10, -3 + 5 * (t - 1) / (THRUST_STEPS - 1)));
+    }
+  }
+
+  // Pattern search from the best grid point, halving the steps whenever no neighbour improves
+  let crownStep = 1 / CROWN_STEPS;
+  let thrustStep = Math.pow(10, 5 / (THRUST_STEPS - 1)) - 1;
+  for (let i = 0; i < 200 && crownStep > 1e-6; i++) {
+    const { crownFraction, ratio } = best;
+    const thrustDelta = Math.max(ratio, 1e-3) * thrustStep;
+    const improved =
+      consider(crownFraction + crownStep, ratio) ||
+      consider(crownFraction - crownStep, ratio) ||
+      consider(crownFraction, ratio + thrustDelta) ||
+      consider(crownFraction, ratio - thrustDelta);
+    if (!improved) {
+      crownStep /= 2;
+      thrustStep /= 2;
+    }
+  }
+
+  const criticalJoint = best.eccentricities.findIndex(e => Math.abs(e) === best.worst);
+  return {
+    horizontalThrustRatio: best.ratio,
+    maxEccentricity: best.worst,
+    criticalJoint,
+    geometricSafetyFactor: best.worst > 0 ? 0.5 / best.worst : Infinity,
+    withinMiddleThird: best.worst <= 1 / 6 + 1e-9,
+    withinSection: best.worst <= 0.5,
+    eccentricities: best.eccentricities
+  };
+}
+
+// Warning text for reports that do not keep the line inside the middle third
+export function describeThrustLine(report: ThrustLineReport, element: string): string | null {
+  if (report.withinMiddleThird) return null;
+  if (report.withinSection) {
+    return `Thrust line leaves the middle third of the ${element} (eccentricity ${(report.maxEccentricity * 100).toFixed(0)}% of depth); joints will open, consider a thicker ring or a more funicular profile`;
+  }
+  return `No thrust line fits inside the ${element}; it will collapse under self-weight without a thicker ring or a different profile`;
+}
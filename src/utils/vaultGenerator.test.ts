@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { generateVault } from './vaultGenerator';
+
+const origin = { x: 0, y: 0, z: 0 };
+
+describe('generateVault', () => {
+  it('keeps the thrust line of a semicircular barrel inside its rings', () => {
+    const vault = generateVault(origin, { x: 2, y: 0, z: 0 }, 'clay-sustainable', {
+      profile: 'semicircular',
+      method: 'centred',
+      length: 1
+    });
+
+    // 150 mm rings at 160 mm centres along a 1 m barrel, 23 voussoirs to the ring
+    expect(vault.rings).toBe(6);
+    expect(vault.ringSpacing).toBeCloseTo(0.16, 9);
+    expect(vault.totalBricks).toBe(6 * 23);
+    expect(vault.courses).toBe(12);
+    expect(vault.centring).not.toBeNull();
+
+    // A 250 mm ring on a 1 m radius is well above the minimum, but the line still leaves the middle third
+    expect(vault.thrustLine.withinSection).toBe(true);
+    expect(vault.thrustLine.withinMiddleThird).toBe(false);
+    expect(vault.thrustLine.geometricSafetyFactor).toBeGreaterThan(1.5);
+    expect(vault.thrustLine.eccentricities).toHaveLength(13);
+    expect(vault.warnings.some(w => w.startsWith('Thrust line leaves the middle third of the arch ring'))).toBe(true);
+    expect(vault.warnings.some(w => w.startsWith('No thrust line fits'))).toBe(false);
+  });
+
+  it('keeps a catenary ring in the middle third', () => {
+    const vault = generateVault(origin, { x: 2, y: 0, z: 0 }, 'clay-sustainable', { profile: 'catenary', length: 1 });
+
+    expect(vault.thrustLine.withinMiddleThird).toBe(true);
+    expect(vault.requiresEndWall).toBe(true);
+    expect(vault.warnings.some(w => w.startsWith('Thrust line'))).toBe(false);
+  });
+});
@@ -0,0 +1,384 @@
+import type { BrickSize, BrickTypeKey, ConstructionType, Position3D, Rotation3D } from '../types';
+import type { ConstructionPath } from './constructionAlgorithms';
+import { brickTypes } from './brickTypes';
+import {
+  createArchProfile,
+  generateArch,
+  sampleArchProfile,
+  type ArchProfile,
+  type CentringGeometry
+} from './archGenerator';
+import {
+  addVectors,
+  cross,
+  eulerToRotationMatrix,
+  matrixFromColumns,
+  multiplyMatrix3,
+  applyMatrix3,
+  rotationMatrixToEuler,
+  scaleVector,
+  subtractVectors,
+  type Matrix3
+} from './linearAlgebra';
+import { analyzeThrustLine, describeThrustLine, type ThrustJoint, type ThrustLineReport } from './thrustLine';
+
+// Shell roofs for shelters: barrel vaults spanning between two wall anchors and domes springing
+// from a ring of anchors. Both are sequenced course by course so they can be built (and replayed) in order.
+
+export type VaultMethod = 'nubian' | 'centred';
+
+export type DomeStyle = 'nubian' | 'corbelled';
+
+export interface VaultOptions {
+  profile: ArchProfile;
+  rise?: number; // metres; defaults as for arches
+  length: number; // metres along the barrel, measured from the anchor line
+  method: VaultMethod; // nubian: leaning rings without formwork; centred: horizontal courses on centring
+  leanAngle: number; // radians from vertical, nubian rings only
+  mortarJoint?: number;
+}
+
+export interface DomeOptions {
+  style: DomeStyle; // nubian: inclined courses square to the meridian; corbelled: flat stepped courses
+  profile?: ArchProfile; // meridian; defaults to semicircular (nubian) or catenary (corbelled)
+  rise?: number; // metres, segmental and catenary meridians; defaults to the ring radius (nubian) or 1.5 × radius (corbelled)
+  corbelRatio: number; // largest step per corbelled course, as a fraction of the bedded brick length
+  roundnessTolerance: number; // metres an anchor may sit off the fitted ring before warning
+  mortarJoint?: number;
+}
+
+export interface VaultPath extends ConstructionPath {
+  courseIndices: number[];
+  brickSizes: BrickSize[];
+  profile: ArchProfile;
+  method: VaultMethod;
+  span: number;
+  rise: number;
+  length: number;
+  rings: number;
+  ringSpacing: number;
+  courses: number;
+  leanAngle: number;
+  requiresEndWall: boolean; // nubian rings lean against a gable wall at the start of the vault
+  thrustLine: ThrustLineReport; // per ring
+  centring: CentringGeometry | null;
+  warnings: string[];
+}
+
+export interface DomePath extends ConstructionPath {
+  courseIndices: number[];
+  brickSizes: BrickSize[];
+  style: DomeStyle;
+  profile: ArchProfile;
+  centre: Position3D; // centre of the springing ring
+  radius: number;
+  rise: number;
+  courses: number;
+  bricksPerCourse: number[];
+  roundness: number; // largest distance of an anchor from the fitted ring
+  // One lune as an arch, ignoring hoop compression (conservative). Null for corbelled domes, which
+  // carry no thrust: each course bears on the one below and is held by hoop compression.
+  thrustLine: ThrustLineReport | null;
+  warnings: string[];
+}
+
+export const VAULT_METHODS: VaultMethod[] = ['nubian', 'centred'];
+export const DOME_STYLES: DomeStyle[] = ['nubian', 'corbelled'];
+
+export const defaultVaultOptions: VaultOptions = {
+  profile: 'catenary',
+  length: 3.0,
+  method: 'nubian',
+  leanAngle: Math.PI / 9
+};
+
+export const defaultDomeOptions: DomeOptions = {
+  style: 'nubian',
+  corbelRatio: 1 / 3,
+  roundnessTolerance: 0.05
+};
+
+const UP: Position3D = { x: 0, y: 1, z: 0 };
+
+// Rotation by angle about a unit axis (Rodrigues)
+function axisRotation(axis: Position3D, angle: number): Matrix3 {
+  const c = Math.cos(angle);
+  const s = Math.sin(angle);
+  const t = 1 - c;
+  const { x, y, z } = axis;
+  return [
+    [t * x * x + c, t * x * y - s * z, t * x * z + s * y],
+    [t * x * y + s * z, t * y * y + c, t * y * z - s * x],
+    [t * x * z - s * y, t * y * z + s * x, t * z * z + c]
+  ];
+}
+
+export function generateVault(
+  start: Position3D,
+  end: Position3D,
+  brickType: BrickTypeKey,
+  options: Partial<VaultOptions> = {},
+  constructionType: ConstructionType = 'vault'
+): VaultPath {
+  const settings = { ...defaultVaultOptions, ...options };
+  const brick = brickTypes[brickType].size;
+  const joint = settings.mortarJoint ?? brickTypes[brickType].joint.jointThickness;
+  const nubian = settings.method === 'nubian';
+  if (settings.length < brick.depth) {
+    throw new Error('Vault must be at least one ring long');
+  }
+  if (nubian && (settings.leanAngle < 0 || settings.leanAngle >= Math.PI / 3)) {
+    throw new Error('Nubian ring lean must be between 0 and 60 degrees');
+  }
+
+  // Every ring is the same arch; centring is only needed when the rings do not lean
+  const ring = generateArch(start, end, brickType, {
+    profile: settings.profile,
+    rise: settings.rise,
+    mortarJoint: settings.mortarJoint,
+    includeCentring: !nubian
+  }, constructionType);
+
+  // The barrel runs horizontally, square to the springing line
+  const horizontalSpan = Math.hypot(end.x - start.x, end.z - start.z);
+  const axis = { x: -(end.z - start.z) / horizontalSpan, y: 0, z: (end.x - start.x) / horizontalSpan };
+  const springLine = subtractVectors(end, start);
+  const e1 = scaleVector(springLine, 1 / ring.span);
+
+  // Leaning rings need more room along the barrel to stay one brick thick
+  const leanAngle = nubian ? settings.leanAngle : 0;
+  const ringSpacing = (brick.depth + joint) / Math.cos(leanAngle);
+  const rings = Math.max(1, Math.floor((settings.length - brick.depth) / ringSpacing) + 1);
+  // Positive lean tips the crown back towards the start of the vault
+  const lean = axisRotation(e1, -leanAngle);
+
+  const entries: Array<{ course: number; ring: number; position: Position3D; rotation: Rotation3D; size: BrickSize }> = [];
+  for (let r = 0; r < rings; r++) {
+    const offset = scaleVector(axis, brick.depth / 2 + r * ringSpacing);
+    const pivot = addVectors(start, offset);
+    ring.voussoirs.forEach((voussoir, i) => {
+      const shifted = addVectors(voussoir.position, offset);
+      entries.push({
+        // Nubian vaults go up ring by ring; centred vaults rise from both haunches towards the crown
+        course: nubian ? r : Math.min(i, ring.voussoirs.length - 1 - i),
+        ring: r,
+        position: addVectors(pivot, applyMatrix3(lean, subtractVectors(shifted, pivot))),
+        rotation: rotationMatrixToEuler(multiplyMatrix3(lean, eulerToRotationMatrix(voussoir.rotation))),
+        size: voussoir.size
+      });
+    });
+  }
+  entries.sort((a, b) => a.course - b.course || a.ring - b.ring);
+
+  const warnings = [...ring.warnings];
+  if (nubian && settings.profile !== 'catenary') {
+    warnings.push('Nubian vaults are normally built to a catenary profile so each leaning ring carries itself');
+  }
+
+  return {
+    start,
+    end,
+    brickPositions: entries.map(e => e.position),
+    brickRotations: entries.map(e => e.rotation),
+    totalBricks: entries.length,
+    constructionType,
+    courseIndices: entries.map(e => e.course),
+    brickSizes: entries.map(e => e.size),
+    profile: settings.profile,
+    method: settings.method,
+    span: ring.span,
+    rise: ring.rise,
+    length: settings.length,
+    rings,
+    ringSpacing,
+    courses: entries.length > 0 ? entries[entries.length - 1].course + 1 : 0,
+    leanAngle,
+    requiresEndWall: nubian && leanAngle > 0,
+    thrustLine: ring.thrustLine,
+    centring: ring.centring && { ...ring.centring, laggingWidth: settings.length },
+    warnings
+  };
+}
+
+export function generateDome(
+  ringAnchors: Position3D[],
+  brickType: BrickTypeKey,
+  options: Partial<DomeOptions> = {},
+  constructionType: ConstructionType = 'dome'
+): DomePath {
+  const settings = { ...defaultDomeOptions, ...options };
+  const brickSpec = brickTypes[brickType];
+  const brick = brickSpec.size;
+  const joint = settings.mortarJoint ?? brickSpec.joint.jointThickness;
+  const warnings: string[] = [];
+
+  if (ringAnchors.length < 3) {
+    throw new Error('A dome needs a ring of at least three anchors');
+  }
+
+  // Fit the springing ring: centroid in plan, mean radius and height
+  const centre = {
+    x: ringAnchors.reduce((sum, p) => sum + p.x, 0) / ringAnchors.length,
+    y: ringAnchors.reduce((sum, p) => sum + p.y, 0) / ringAnchors.length,
+    z: ringAnchors.reduce((sum, p) => sum + p.z, 0) / ringAnchors.length
+  };
+  const distances = ringAnchors.map(p => Math.hypot(p.x - centre.x, p.z - centre.z));
+  const radius = distances.reduce((sum, d) => sum + d, 0) / distances.length;
+  const roundness = Math.max(...distances.map(d => Math.abs(d - radius)), ...ringAnchors.map(p => Math.abs(p.y - centre.y)));
+  if (radius < brick.width * 2) {
+    throw new Error('Dome ring is too small for brick courses');
+  }
+  if (roundness > settings.roundnessTolerance) {
+    warnings.push(`Ring anchors are up to ${(roundness * 1000).toFixed(0)} mm off a level circle; the dome follows the fitted ring`);
+  }
+
+  const corbelled = settings.style === 'corbelled';
+  // A hemisphere suits lunes better than a catenary: their weight gathers towards the springing
+  const profile = settings.profile ?? (corbelled ? 'catenary' : 'semicircular');
+  const targetRise = profile === 'semicircular' ? radius : settings.rise ?? radius * (corbelled ? 1.5 : 1);
+  if (targetRise <= 0) {
+    throw new Error('Dome rise must be positive');
+  }
+  if (profile === 'segmental' && targetRise >= radius) {
+    throw new Error('A segmental dome must rise less than its radius');
+  }
+
+  // Meridian from the springing (s = 0, r = radius) to the crown (s = radius, r = 0)
+  const meridian = sampleArchProfile(createArchProfile(profile, radius * 2, targetRise));
+  const crownDistance = meridian.length / 2;
+
+  const positions: Position3D[] = [];
+  const rotations: Rotation3D[] = [];
+  const sizes: BrickSize[] = [];
+  const courseIndices: number[] = [];
+  const bricksPerCourse: number[] = [];
+  const place = (angle: number, r: number, y: number, columns: [Position3D, Position3D, Position3D], course: number) => {
+    positions.push({ x: centre.x + Math.cos(angle) * r, y: centre.y + y, z: centre.z + Math.sin(angle) * r });
+    rotations.push(rotationMatrixToEuler(matrixFromColumns(...columns)));
+    sizes.push({ ...brick });
+    courseIndices.push(course);
+  };
+  const radial = (angle: number): Position3D => ({ x: Math.cos(angle), y: 0, z: Math.sin(angle) });
+  const hoop = (angle: number): Position3D => ({ x: -Math.sin(angle), y: 0, z: Math.cos(angle) });
+
+  let course = 0;
+  let openingRadius: number;
+  let capBed: number;
+  let thrustLine: ThrustLineReport | null = null;
+
+  if (!corbelled) {
+    // Courses follow the meridian with bed joints square to it; stretchers run round the ring
+    const pitch = brick.height + joint;
+    const halfJoints: ThrustJoint[] = []; // springing first
+    const bedJoint = (distance: number): ThrustJoint => {
+      const { point, tangent } = meridian.pointAt(distance);
+      return {
+        inner: { x: radius - point.s, y: point.t },
+        outer: { x: radius - point.s + tangent.t * brick.depth, y: point.t + tangent.s * brick.depth }
+      };
+    };
+    for (; (course + 1) * pitch <= crownDistance; course++) {
+      const { point, tangent } = meridian.pointAt((course + 0.5) * pitch);
+      const r = radius - point.s;
+      const count = Math.floor((2 * Math.PI * r) / (brick.width + joint));
+      if (r < brick.width / 2 || count < 4) break;
+      halfJoints.push(bedJoint(course * pitch));
+
+      // Outward normal and upward meridian tangent in the (r, y) plane
+      const normal = { r: tangent.t, y: tangent.s };
+      const up = { r: -tangent.s, y: tangent.t };
+      const centreR = r + normal.r * brick.depth / 2;
+      const centreY = point.t + normal.y * brick.depth / 2;
+      const stagger = course % 2 === 1 ? Math.PI / count : 0;
+      for (let i = 0; i < count; i++) {
+        const angle = stagger + (2 * Math.PI * i) / count;
+        const x = hoop(angle);
+        const y = addVectors(scaleVector(radial(angle), up.r), scaleVector(UP, up.y));
+        place(angle, centreR, centreY, [x, y, cross(x, y)], course);
+      }
+      bricksPerCourse.push(count);
+    }
+
+    // The cap rests on the top of the last course
+    const top = bedJoint(course * pitch);
+    halfJoints.push(top);
+    openingRadius = top.inner.x;
+    capBed = top.outer.y;
+    halfJoints.push({ inner: { x: 0, y: top.inner.y }, outer: { x: 0, y: capBed + brick.height } });
+
+    // Lunes narrow towards the crown, so each block's weight scales with its radius
+    thrustLine = analyzeThrustLine(halfJoints.reverse(), centroid => centroid.x);
+    const thrustWarning = describeThrustLine(thrustLine, 'dome lune');
+    if (thrustWarning) {
+      warnings.push(`${thrustWarning} (hoop compression, ignored here, usually helps)`);
+    }
+  } else {
+    // Flat courses of headers laid radially, each stepping in no further than the corbel limit
+    const maxStep = settings.corbelRatio * brick.width;
+    const targetRadius = (height: number): number => {
+      const index = meridian.samples.findIndex(p => p.t >= height || p.s >= radius);
+      return index < 0 ? 0 : Math.max(0, radius - meridian.samples[index].s);
+    };
+    let r = radius;
+    let clamped = false;
+    for (; ; course++) {
+      // Close with a cap once a single brick can bear on both sides of the opening
+      if (course > 0 && 2 * r + 2 * brickSpec.joint.minOverlap <= brick.width) break;
+      const bedY = course * (brick.height + joint);
+      const wanted = Math.min(r, targetRadius(bedY + brick.height / 2));
+      if (course > 0 && r - wanted > maxStep) clamped = true;
+      const next = course === 0 ? wanted : Math.max(wanted, r - maxStep);
+      const count = Math.floor((2 * Math.PI * next) / (brick.depth + joint));
+      if (count < 3) break;
+
+      r = next;
+      const stagger = course % 2 === 1 ? Math.PI / count : 0;
+      for (let i = 0; i < count; i++) {
+        const angle = stagger + (2 * Math.PI * i) / count;
+        const x = radial(angle);
+        place(angle, r + brick.width / 2, bedY + brick.height / 2, [x, UP, cross(x, UP)], course);
+      }
+      bricksPerCourse.push(count);
+    }
+    openingRadius = r;
+    capBed = course * (brick.height + joint);
+    if (clamped) {
+      warnings.push(
+        `Corbel steps are limited to ${(maxStep * 1000).toFixed(0)} mm per course, so the dome rises ` +
+        `${(capBed + brick.height).toFixed(2)} m instead of the ${targetRise.toFixed(2)} m profile`
+      );
+    }
+  }
+  const crownHeight = capBed + brick.height;
+
+  // Close the crown with a single flat brick
+  if (2 * openingRadius + 2 * brickSpec.joint.minOverlap > brick.width) {
+    warnings.push(
+      `Crown opening of ${(openingRadius * 2000).toFixed(0)} mm is wider than a cap brick can bridge; ` +
+      `close it with a cast cap or leave it as an oculus`
+    );
+  }
+  place(0, 0, capBed + brick.height / 2, [{ x: 1, y: 0, z: 0 }, UP, { x: 0, y: 0, z: 1 }], course);
+  bricksPerCourse.push(1);
+
+  return {
+    start: ringAnchors[0],
+    end: { x: centre.x, y: centre.y + crownHeight, z: centre.z },
+    brickPositions: positions,
+    brickRotations: rotations,
+    totalBricks: positions.length,
+    constructionType,
+    courseIndices,
+    brickSizes: sizes,
+    style: settings.style,
+    profile,
+    centre,
+    radius,
+    rise: crownHeight,
+    courses: course + 1,
+    bricksPerCourse,
+    roundness,
+    thrustLine,
+    warnings
+  };
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { brickTypes } from './brickTypes';
+import { createOpening, generateWall } from './wallGenerator';
+
+const origin = { x: 0, y: 0, z: 0 };
+const along = (length: number) => ({ x: length, y: 0, z: 0 });
+
+describe('generateWall', () => {
+  it('keeps the lap on a plain running-bond wall with a sliver at the end', () => {
+    const wall = generateWall(origin, along(5), 'clay-sustainable', { height: 1 });
+
+    expect(wall.minimumLap).toBeGreaterThanOrEqual(brickTypes['clay-sustainable'].joint.minOverlap - 1e-6);
+    expect(wall.warnings).toEqual([]);
+  });
+
+  it('keeps the lap on running-bond walls of any length', () => {
+    for (let millimetres = 600; millimetres <= 8000; millimetres += 10) {
+      const wall = generateWall(origin, along(millimetres / 1000), 'clay-sustainable', { height: 1 });
+      expect(wall.warnings, `${millimetres} mm wall`).toEqual([]);
+    }
+  });
+});
+
+describe('generateWall tolerance report', () => {
+  it('lands whole units short of a wall that needs a cut', () => {
+    const { toleranceReport } = generateWall(origin, along(5), 'clay-sustainable', { height: 1 });
+
+    // 19 stretchers and 18 joints make 4.93 m; a 20th would overshoot by 0.19 m
+    expect(toleranceReport.units).toBe(19);
+    expect(toleranceReport.landingError).toBeCloseTo(-0.07, 9);
+    expect(toleranceReport.withinJointAdjustment).toBe(false);
+  });
+
+  it('takes up a small landing error in the joints', () => {
+    const { toleranceReport } = generateWall(origin, along(4.945), 'clay-sustainable', { height: 1 });
+
+    expect(toleranceReport.units).toBe(19);
+    expect(toleranceReport.landingError).toBeCloseTo(-0.015, 9);
+    expect(toleranceReport.withinJointAdjustment).toBe(true);
+  });
+});
+
+describe('generateWall openings', () => {
+  it('leaves out an opening that cannot be built and keeps the wall', () => {
+    const wall = generateWall(origin, along(4), 'clay-sustainable', {
+      height: 2.4,
+      openings: [createOpening('door', 3.5), createOpening('window', 1)]
+    });
+
+    expect(wall.openings.map(opening => opening.index)).toEqual([1]);
+    expect(wall.warnings.some(warning => warning.startsWith('Opening 1 (door) runs past the end'))).toBe(true);
+    expect(wall.totalBricks).toBeGreaterThan(0);
+  });
+
+  it('leaves out the later of two overlapping openings', () => {
+    const wall = generateWall(origin, along(4), 'clay-sustainable', {
+      height: 2.4,
+      openings: [createOpening('window', 1.4), createOpening('window', 1)]
+    });
+
+    expect(wall.openings.map(opening => opening.index)).toEqual([1]);
+    expect(wall.warnings).toContain('Opening 1 overlaps opening 2; left out');
+  });
+});
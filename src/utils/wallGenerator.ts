@@ -0,0 +1,656 @@
+import type { BrickSize, BrickTypeKey, ConstructionType, Position3D, Rotation3D } from '../types';
+import type { ConstructionPath } from './constructionAlgorithms';
+import { brickTypes, calculateToleranceStack, JOINT_ADJUSTMENT_LIMIT, type ToleranceStackReport } from './brickTypes';
+import { generateArch } from './archGenerator';
+import { cross, matrixFromColumns, rotationMatrixToEuler } from './linearAlgebra';
+
+// Course-by-course wall layout. The wall runs horizontally from the start anchor to the end anchor;
+// its height comes from the vertical distance between them (or an explicit height).
+// Brick `size` axes: width = length along the wall for a stretcher, depth = across the wall, height = course rise.
+
+export type BondPattern = 'running' | 'flemish' | 'english' | 'stack';
+
+export type BrickRole = 'stretcher' | 'header' | 'soldier' | 'voussoir';
+
+export type OpeningKind = 'door' | 'window' | 'vent';
+
+export type LintelType = 'none' | 'timber' | 'concrete' | 'soldier' | 'arch';
+
+export interface WallOpening {
+  kind: OpeningKind;
+  offset: number; // metres along the wall from the start anchor to the near jamb
+  width: number;
+  height: number;
+  sillHeight: number; // metres above the wall base; 0 for doors
+  lintel: LintelType;
+}
+
+export interface WallOptions {
+  bond: BondPattern;
+  mortarJoint?: number; // metres, both bed and perpendicular joints; defaults to the brick type's joint
+  height?: number; // metres; defaults to the vertical distance between the anchors
+  minCutRatio: number; // cut pieces shorter than this fraction of a brick are avoided by splitting the neighbour
+  openings: WallOpening[];
+  // How far each course runs past (+) or stops short of (-) the start and end anchors, cycling by
+  // course; junctions use this to interlock walls in alternate courses
+  startExtensions: number[];
+  endExtensions: number[];
+}
+
+export interface WallBrick {
+  position: Position3D; // centre of the brick
+  rotation: Rotation3D;
+  size: BrickSize; // actual dimensions in the brick's local frame (cut pieces are shorter)
+  courseIndex: number;
+  role: BrickRole;
+  wythe: 'single' | 'front' | 'back' | 'through';
+  isCut: boolean;
+}
+
+// Timber or concrete lintel; not a brick, so it is reported separately
+export interface WallLintel {
+  openingIndex: number;
+  type: 'timber' | 'concrete';
+  position: Position3D;
+  rotation: Rotation3D;
+  size: BrickSize; // width = length along the wall
+}
+
+export interface OpeningReport {
+  index: number;
+  kind: OpeningKind;
+  offset: number;
+  width: number;
+  sillHeight: number; // as built, snapped to the coursing
+  height: number; // clear height as built
+  lintel: LintelType;
+  jambCuts: number; // cut bricks against the jambs
+  lintelBricks: number; // soldiers or voussoirs
+}
+
+export interface WallPath extends ConstructionPath {
+  courseIndices: number[];
+  brickSizes: BrickSize[];
+  bricks: WallBrick[];
+  bond: BondPattern;
+  courses: number;
+  courseHeight: number; // brick height plus bed joint
+  length: number;
+  height: number;
+  thickness: number;
+  cutBricks: number;
+  openings: OpeningReport[];
+  lintels: WallLintel[];
+  minimumLap: number; // smallest offset between perpend joints of adjacent courses (same face)
+  toleranceReport: ToleranceStackReport; // whole first-course units at nominal joints, start anchor to end anchor
+  heightToleranceReport: ToleranceStackReport; // courses against the target height
+  warnings: string[];
+}
+
+export const defaultWallOptions: WallOptions = {
+  bond: 'running',
+  minCutRatio: 0.25,
+  openings: [],
+  startExtensions: [0],
+  endExtensions: [0]
+};
+
+export const OPENING_DEFAULTS: Record<OpeningKind, Omit<WallOpening, 'kind' | 'offset'>> = {
+  door: { width: 0.9, height: 2.1, sillHeight: 0, lintel: 'concrete' },
+  window: { width: 1.2, height: 1.2, sillHeight: 0.9, lintel: 'concrete' },
+  vent: { width: 0.12, height: 0.12, sillHeight: 0.3, lintel: 'none' }
+};
+
+export function createOpening(kind: OpeningKind, offset: number, overrides: Partial<WallOpening> = {}): WallOpening {
+  return { kind, offset, ...OPENING_DEFAULTS[kind], ...overrides };
+}
+
+export function isWallPath(path: ConstructionPath): path is WallPath {
+  return 'bricks' in path && 'bond' in path;
+}
+
+// The same openings seen from the other end of the wall
+export function mirrorOpenings(openings: WallOpening[], length: number): WallOpening[] {
+  return openings.map(opening => ({ ...opening, offset: length - opening.offset - opening.width }));
+}
+
+export const BOND_PATTERNS: BondPattern[] = ['running', 'flemish', 'english', 'stack'];
+
+// Bonds that tie two wythes together with headers
+const HEADER_BONDS: BondPattern[] = ['flemish', 'english'];
+
+// Lintels bear this far onto the masonry either side of the opening (metres)
+const LINTEL_BEARING = 0.15;
+const LINTEL_DEPTH: Record<'timber' | 'concrete', number> = { timber: 0.1, concrete: 0.15 };
+// Rise of the segmental arch over an opening, as a fraction of its width
+const OPENING_ARCH_RISE = 1 / 6;
+
+interface CoursePiece {
+  start: number; // along the wall, metres from the start anchor
+  end: number;
+  role: BrickRole;
+  isCut: boolean;
+}
+
+interface CourseUnit {
+  role: BrickRole;
+  length: number;
+}
+
+// Repeating units and phase shift (how far the pattern starts before the wall end) for a course
+function coursePattern(bond: BondPattern, courseIndex: number, brick: BrickSize, joint: number): { units: CourseUnit[]; phase: number } {
+  const stretcher: CourseUnit = { role: 'stretcher', length: brick.width };
+  const header: CourseUnit = { role: 'header', length: brick.depth };
+  const odd = courseIndex % 2 === 1;
+
+  switch (bond) {
+    case 'stack':
+      return { units: [stretcher], phase: 0 };
+    case 'running':
+      // Half-brick offset on alternate courses
+      return { units: [stretcher], phase: odd ? (brick.width + joint) / 2 : 0 };
+    case 'english':
+      // Alternate stretcher and header courses; the header course starts with a queen closer
+      return odd
+        ? { units: [header], phase: (brick.depth + joint) / 2 }
+        : { units: [stretcher], phase: 0 };
+    case 'flemish':
+      // Headers and stretchers alternate within each course; headers sit centred on the stretchers below
+      return {
+        units: [header, stretcher],
+        phase: odd ? (brick.depth + brick.width) / 2 + joint : 0
+      };
+  }
+}
+
+// Lay the pattern along [from, to], cutting pieces at both ends (wall ends or jambs).
+// The pattern is anchored at the wall start, so the bond carries on across openings.
+// `neighbours` are the perpends of the courses either side, which a split must lap by minOverlap.
+function layoutCourse(
+  units: CourseUnit[],
+  phase: number,
+  from: number,
+  to: number,
+  joint: number,
+  minCutRatio: number,
+  minOverlap = 0,
+  neighbours: number[] = []
+): CoursePiece[] {
+  const pieces: CoursePiece[] = [];
+  const unitAt = (i: number) => units[((i % units.length) + units.length) % units.length];
+  // Step the pattern back past `from`, so a course extended beyond the wall start is laid too
+  let u = -phase;
+  let first = 0;
+  while (u > from + 1e-9) {
+    first--;
+    u -= unitAt(first).length + joint;
+  }
+  for (let i = first; u < to - 1e-9; i++) {
+    const unit = unitAt(i);
+    const start = Math.max(from, u);
+    const end = Math.min(to, u + unit.length);
+    if (end - start > 1e-9) {
+      pieces.push({ start, end, role: unit.role, isCut: end - start < unit.length - 1e-6 });
+    }
+    u += unit.length + joint;
+  }
+
+  // Slivers are impractical to cut and lay. Small ones are taken up by opening the perpend joints
+  // slightly; larger ones are avoided by sharing the end of the wall between the last two pieces.
+  const fullLength = (piece: CoursePiece) => units.find(unit => unit.role === piece.role)!.length;
+  const isSliver = (piece: CoursePiece) => piece.isCut && piece.end - piece.start < fullLength(piece) * minCutRatio;
+  // Perpend splitting [start, end] into two pieces: the one nearest the middle that keeps the lap,
+  // or the middle itself when no such place leaves both pieces long enough
+  const splitPerpend = (start: number, end: number, role: BrickRole) => {
+    const middle = (start + end) / 2;
+    const low = start + fullLength({ start, end, role, isCut: true }) * minCutRatio + joint / 2;
+    const high = end - (middle - low);
+    const laps = (position: number) => neighbours.every(other => Math.abs(position - other) >= minOverlap - 1e-9);
+    const candidates = [middle, ...neighbours.flatMap(other => [other - minOverlap, other + minOverlap])]
+      .filter(position => position >= low - 1e-9 && position <= high + 1e-9 && laps(position))
+      .sort((a, b) => Math.abs(a - middle) - Math.abs(b - middle));
+    return candidates[0] ?? middle;
+  };
+
+  // Opening the perpends must not pull one within minOverlap of a perpend in the courses either side
+  const perpends = (list: CoursePiece[]) => list.slice(1).map(piece => piece.start - joint / 2);
+  const lapAt = (position: number) => Math.min(...neighbours.map(other => Math.abs(position - other)));
+  const keepsLap = (before: CoursePiece[], after: CoursePiece[]) => {
+    const moved = perpends(after);
+    return perpends(before).every((position, k) => lapAt(moved[k]) >= Math.min(minOverlap, lapAt(position)) - 1e-9);
+  };
+
+  if (pieces.length >= 3 && isSliver(pieces[0])) {
+    const extra = pieces[0].end - pieces[0].start + joint;
+    const step = extra / (pieces.length - 2);
+    const rest = pieces.slice(1);
+    const opened = rest.map((piece, k) => ({ ...piece, start: piece.start + k * step - extra, end: piece.end + k * step - extra }));
+    if (step <= JOINT_ADJUSTMENT_LIMIT && keepsLap(rest, opened)) {
+      pieces.splice(0, pieces.length, ...opened);
+    }
+  }
+  if (pieces.length >= 3 && isSliver(pieces[pieces.length - 1])) {
+    const extra = pieces[pieces.length - 1].end - pieces[pieces.length - 1].start + joint;
+    const step = extra / (pieces.length - 2);
+    const rest = pieces.slice(0, -1);
+    const opened = rest.map((piece, k) => ({ ...piece, start: piece.start + k * step, end: piece.end + k * step }));
+    if (step <= JOINT_ADJUSTMENT_LIMIT && keepsLap(rest, opened)) {
+      pieces.splice(0, pieces.length, ...opened);
+    }
+  }
+
+  if (pieces.length >= 2 && isSliver(pieces[0])) {
+    const [first, second] = pieces;
+    const perpend = splitPerpend(first.start, second.end, second.role);
+    first.end = perpend - joint / 2;
+    second.start = perpend + joint / 2;
+    first.role = second.role;
+    first.isCut = second.isCut = true;
+  }
+  if (pieces.length >= 2 && isSliver(pieces[pieces.length - 1])) {
+    const last = pieces[pieces.length - 1];
+    const previous = pieces[pieces.length - 2];
+    const perpend = splitPerpend(previous.start, last.end, previous.role);
+    previous.end = perpend - joint / 2;
+    last.start = perpend + joint / 2;
+    last.role = previous.role;
+    last.isCut = previous.isCut = true;
+  }
+
+  return pieces;
+}
+
+interface OpeningPlan {
+  index: number;
+  opening: WallOpening;
+  bottomCourse: number; // first course left out
+  headCourse: number; // first course above the opening
+  lintelCourses: number; // courses taken up by a timber, concrete or soldier lintel
+  arch: { radius: number; rise: number; centreHeight: number } | null; // heights above the wall base
+}
+
+// Stretch of a course [from, to] (metres along the wall) that an opening or its lintel leaves out
+function openingExclusion(plan: OpeningPlan, course: number, courseHeight: number, joint: number, ringDepth: number): [number, number] | null {
+  const { opening, bottomCourse, headCourse, lintelCourses, arch } = plan;
+  const left = opening.offset;
+  const right = opening.offset + opening.width;
+  if (course >= bottomCourse && course < headCourse) return [left, right];
+  if (course < headCourse) return null;
+
+  if (arch) {
+    // Courses above the head stop against the extrados of the ring
+    const reach = arch.radius + ringDepth + joint;
+    const dy = course * courseHeight - arch.centreHeight;
+    if (dy >= reach) return null;
+    const half = Math.sqrt(reach * reach - dy * dy);
+    return [(left + right) / 2 - half, (left + right) / 2 + half];
+  }
+  if (course >= headCourse + lintelCourses) return null;
+  return opening.lintel === 'soldier' ? [left, right] : [left - LINTEL_BEARING, right + LINTEL_BEARING];
+}
+
+// Parts of [0, length] left once the exclusions are taken out
+function courseSegments(courseStart: number, courseEnd: number, exclusions: Array<[number, number]>): Array<[number, number]> {
+  const segments: Array<[number, number]> = [];
+  let from = courseStart;
+  for (const [a, b] of [...exclusions].sort((p, q) => p[0] - q[0])) {
+    if (a > from + 1e-9) segments.push([from, Math.min(a, courseEnd)]);
+    from = Math.max(from, b);
+  }
+  if (courseEnd > from + 1e-9) segments.push([from, courseEnd]);
+  return segments;
+}
+
+function cycleValue(cycle: number[], course: number): number {
+  return cycle.length > 0 ? cycle[course % cycle.length] : 0;
+}
+
+// Overall thickness of a wall in the given bond: one brick depth, or two wythes tied by headers
+export function wallThickness(brickType: BrickTypeKey, bond: BondPattern, mortarJoint?: number): number {
+  const brick = brickTypes[brickType].size;
+  const joint = mortarJoint ?? brickTypes[brickType].joint.jointThickness;
+  return HEADER_BONDS.includes(bond) ? Math.max(brick.width, 2 * brick.depth + joint) : brick.depth;
+}
+
+export function generateWall(
+  start: Position3D,
+  end: Position3D,
+  brickType: BrickTypeKey,
+  options: Partial<WallOptions> = {},
+  constructionType: ConstructionType = 'wall'
+): WallPath {
+  const settings = { ...defaultWallOptions, ...options };
+  const brick = brickTypes[brickType].size;
+  const jointSpec = brickTypes[brickType].joint;
+  const joint = settings.mortarJoint ?? jointSpec.jointThickness;
+  const warnings: string[] = [];
+
+  const dx = end.x - start.x;
+  const dz = end.z - start.z;
+  const length = Math.sqrt(dx * dx + dz * dz);
+  if (length < brick.depth) {
+    throw new Error('Wall anchors must be separated horizontally by at least one brick depth');
+  }
+
+  // Unit vectors along the wall and across it (horizontal)
+  const along = { x: dx / length, z: dz / length };
+  const across = { x: along.z, z: -along.x };
+  // Rotation that turns a brick's local X axis (its length) along the wall
+  const wallAngle = Math.atan2(-along.z, along.x);
+
+  const courseHeight = brick.height + joint;
+  const targetHeight = settings.height ?? Math.abs(end.y - start.y);
+  const courses = Math.max(1, Math.round((targetHeight + joint) / courseHeight));
+  const baseY = Math.min(start.y, end.y);
+
+  const usesHeaders = HEADER_BONDS.includes(settings.bond);
+  const thickness = wallThickness(brickType, settings.bond, joint);
+  if (usesHeaders && brick.width < thickness - 1e-6) {
+    warnings.push(
+      `${brickTypes[brickType].name} headers (${(brick.width * 1000).toFixed(0)} mm) are shorter than the ` +
+      `two-wythe wall (${(thickness * 1000).toFixed(0)} mm); the brick is not proportioned for ${settings.bond} bond`
+    );
+  }
+  const wytheOffset = usesHeaders ? (thickness - brick.depth) / 2 : 0;
+  const wytheOffsets: Array<[WallBrick['wythe'], number]> = usesHeaders
+    ? [['front', wytheOffset], ['back', -wytheOffset]]
+    : [['single', 0]];
+
+  // Openings snap to the coursing: sills and heads fall on bed joints. One that cannot be built
+  // is left out with a warning so the rest of the wall still goes up.
+  const candidates: OpeningPlan[] = settings.openings.flatMap((opening, index) => {
+    const label = `Opening ${index + 1} (${opening.kind})`;
+    if (opening.width <= 0 || opening.height <= 0 || opening.sillHeight < 0) {
+      warnings.push(`${label} needs a positive width and height and a sill at or above the wall base; left out`);
+      return [];
+    }
+    if (opening.offset < -1e-9 || opening.offset + opening.width > length + 1e-9) {
+      warnings.push(`${label} runs past the end of the ${length.toFixed(2)} m wall; left out`);
+      return [];
+    }
+    const bottomCourse = Math.round(opening.sillHeight / courseHeight);
+    const headCourse = Math.max(bottomCourse + 1, Math.round((opening.sillHeight + opening.height) / courseHeight));
+    if (headCourse > courses) {
+      warnings.push(`${label} is taller than the ${courses}-course wall; left out`);
+      return [];
+    }
+
+    let lintelCourses = 0;
+    let arch: OpeningPlan['arch'] = null;
+    if (opening.lintel === 'timber' || opening.lintel === 'concrete') {
+      lintelCourses = Math.ceil((LINTEL_DEPTH[opening.lintel] + joint) / courseHeight - 1e-9);
+    } else if (opening.lintel === 'soldier') {
+      lintelCourses = Math.max(1, Math.round((brick.width + joint) / courseHeight));
+    } else if (opening.lintel === 'arch') {
+      const rise = opening.width * OPENING_ARCH_RISE;
+      const radius = (opening.width * opening.width / 4 + rise * rise) / (2 * rise);
+      arch = { radius, rise, centreHeight: headCourse * courseHeight + rise - radius };
+    } else if (opening.width > brick.width - 2 * jointSpec.minOverlap) {
+      warnings.push(`${label} is ${(opening.width * 1000).toFixed(0)} mm wide with no lintel; the course above cannot span it`);
+    }
+
+    const top = arch ? arch.centreHeight + arch.radius + brick.width : (headCourse + lintelCourses) * courseHeight;
+    if (top > courses * courseHeight + 1e-6) {
+      warnings.push(`The lintel over ${label.toLowerCase()} rises above the top of the wall`);
+    }
+    return [{ index, opening, bottomCourse, headCourse, lintelCourses, arch }];
+  });
+
+  // Openings (with their lintel bearings) must not overlap, and piers between them should hold a half brick.
+  // Of two overlapping openings, the one further along the wall is left out.
+  const footprints = candidates
+    .map(plan => {
+      const exclusions = Array.from({ length: courses }, (_, course) => openingExclusion(plan, course, courseHeight, joint, brick.width))
+        .filter((range): range is [number, number] => range !== null);
+      return {
+        plan,
+        from: Math.min(...exclusions.map(range => range[0])),
+        to: Math.max(...exclusions.map(range => range[1]))
+      };
+    })
+    .sort((a, b) => a.from - b.from);
+  const placed: typeof footprints = [];
+  for (const footprint of footprints) {
+    const previous = placed.length > 0 ? placed[placed.length - 1] : null;
+    const pier = footprint.from - (previous ? previous.to : 0);
+    if (previous && pier < -1e-9) {
+      warnings.push(`Opening ${footprint.plan.index + 1} overlaps opening ${previous.plan.index + 1}; left out`);
+      continue;
+    }
+    if (pier > 1e-9 && pier < brick.width / 2) {
+      warnings.push(`Pier of ${(pier * 1000).toFixed(0)} mm beside opening ${footprint.plan.index + 1} is narrower than half a brick`);
+    }
+    placed.push(footprint);
+  }
+  const lastEnd = placed.length > 0 ? placed[placed.length - 1] : null;
+  if (lastEnd && length - lastEnd.to > 1e-9 && length - lastEnd.to < brick.width / 2) {
+    warnings.push(`Pier of ${((length - lastEnd.to) * 1000).toFixed(0)} mm beside opening ${lastEnd.plan.index + 1} is narrower than half a brick`);
+  }
+  const plans = placed.map(footprint => footprint.plan).sort((a, b) => a.index - b.index);
+
+  // Lay one course between its ends and around the openings; lap is measured at perpends only,
+  // not at the wall ends or jambs
+  const layCourse = (course: number, neighbours: number[] = []) => {
+    const { units, phase } = coursePattern(settings.bond, course, brick, joint);
+    const exclusions = plans
+      .map(plan => openingExclusion(plan, course, courseHeight, joint, brick.width))
+      .filter((range): range is [number, number] => range !== null);
+    const courseStart = -cycleValue(settings.startExtensions, course);
+    const courseEnd = length + cycleValue(settings.endExtensions, course);
+    return courseSegments(courseStart, courseEnd, exclusions).map(([from, to]) =>
+      layoutCourse(units, phase, from, to, joint, settings.minCutRatio, jointSpec.minOverlap, neighbours)
+    );
+  };
+  const perpendsOf = (segments: CoursePiece[][]) =>
+    segments.flatMap(segment => segment.slice(1).map(piece => piece.start - joint / 2));
+
+  const bricks: WallBrick[] = [];
+  const coursePerpends: number[][] = [];
+  const jambCuts = new Array<number>(plans.length).fill(0);
+  for (let course = 0; course < courses; course++) {
+    const y = baseY + course * courseHeight + brick.height / 2;
+    // Split slivers against the course as laid below and as it would be laid above; stack bond has no lap to keep
+    const above = course + 1 < courses && settings.bond !== 'stack' ? perpendsOf(layCourse(course + 1)) : [];
+    const below = settings.bond !== 'stack' ? coursePerpends[course - 1] ?? [] : [];
+    const segments = layCourse(course, [...below, ...above]);
+    const pieces = segments.flat();
+    coursePerpends.push(perpendsOf(segments));
+
+    plans.forEach((plan, i) => {
+      if (course < plan.bottomCourse || course >= plan.headCourse) return;
+      const left = plan.opening.offset;
+      const right = left + plan.opening.width;
+      for (const piece of pieces) {
+        if (piece.isCut && (Math.abs(piece.end - left) < 1e-9 || Math.abs(piece.start - right) < 1e-9)) {
+          jambCuts[i] += piece.role === 'header' ? 1 : wytheOffsets.length;
+        }
+      }
+    });
+
+    for (const piece of pieces) {
+      const centre = (piece.start + piece.end) / 2;
+      const pieceLength = piece.end - piece.start;
+      const place = (offset: number): Position3D => ({
+        x: start.x + along.x * centre + across.x * offset,
+        y,
+        z: start.z + along.z * centre + across.z * offset
+      });
+
+      if (piece.role === 'header') {
+        // Turned 90° so it runs through the wall; the cut (if any) shortens its face width
+        bricks.push({
+          position: place(0),
+          rotation: { x: 0, y: wallAngle + Math.PI / 2, z: 0 },
+          size: { width: brick.width, height: brick.height, depth: pieceLength },
+          courseIndex: course,
+          role: 'header',
+          wythe: 'through',
+          isCut: piece.isCut
+        });
+        continue;
+      }
+
+      for (const [wythe, offset] of wytheOffsets) {
+        bricks.push({
+          position: place(offset),
+          rotation: { x: 0, y: wallAngle, z: 0 },
+          size: { width: pieceLength, height: brick.height, depth: brick.depth },
+          courseIndex: course,
+          role: 'stretcher',
+          wythe,
+          isCut: piece.isCut
+        });
+      }
+    }
+  }
+
+  // Lintels: soldier courses and arch rings are laid here; timber and concrete are listed separately
+  const alongAxis: Position3D = { x: along.x, y: 0, z: along.z };
+  const upAxis: Position3D = { x: 0, y: 1, z: 0 };
+  const soldierRotation = rotationMatrixToEuler(matrixFromColumns(upAxis, alongAxis, cross(upAxis, alongAxis)));
+  const atWall = (distance: number, height: number, offset: number): Position3D => ({
+    x: start.x + along.x * distance + across.x * offset,
+    y: baseY + height,
+    z: start.z + along.z * distance + across.z * offset
+  });
+  const lintels: WallLintel[] = [];
+  const lintelBricks = new Array<number>(plans.length).fill(0);
+  for (const plan of plans) {
+    const { opening, headCourse } = plan;
+    const headHeight = headCourse * courseHeight;
+
+    if (opening.lintel === 'timber' || opening.lintel === 'concrete') {
+      const lintelHeight = plan.lintelCourses * courseHeight - joint;
+      lintels.push({
+        openingIndex: plan.index,
+        type: opening.lintel,
+        position: atWall(opening.offset + opening.width / 2, headHeight + lintelHeight / 2, 0),
+        rotation: { x: 0, y: wallAngle, z: 0 },
+        size: { width: opening.width + 2 * LINTEL_BEARING, height: lintelHeight, depth: thickness }
+      });
+    } else if (opening.lintel === 'soldier') {
+      // Bricks on end across the opening; the spare width goes into the perpends
+      const count = Math.max(1, Math.floor((opening.width + joint) / (brick.height + joint)));
+      const pitch = (opening.width + joint) / count;
+      warnings.push(`The soldier course over opening ${plan.index + 1} needs a steel angle or other hidden support`);
+      for (let i = 0; i < count; i++) {
+        for (const [wythe, offset] of wytheOffsets) {
+          bricks.push({
+            position: atWall(opening.offset + i * pitch + (pitch - joint) / 2, headHeight + brick.width / 2, offset),
+            rotation: soldierRotation,
+            size: { ...brick },
+            courseIndex: headCourse,
+            role: 'soldier',
+            wythe,
+            isCut: false
+          });
+          lintelBricks[plan.index]++;
+        }
+      }
+    } else if (plan.arch) {
+      // A segmental ring springing from the jambs, one ring per wythe
+      for (const [wythe, offset] of wytheOffsets) {
+        const ring = generateArch(
+          atWall(opening.offset, headHeight, offset),
+          atWall(opening.offset + opening.width, headHeight, offset),
+          brickType,
+          { profile: 'segmental', rise: plan.arch.rise, mortarJoint: joint, includeCentring: false }
+        );
+        ring.voussoirs.forEach(voussoir => {
+          bricks.push({
+            position: voussoir.position,
+            rotation: voussoir.rotation,
+            size: voussoir.size,
+            courseIndex: Math.min(courses - 1, Math.floor((voussoir.position.y - baseY) / courseHeight)),
+            role: 'voussoir',
+            wythe,
+            isCut: false
+          });
+          lintelBricks[plan.index]++;
+        });
+        if (wythe !== 'back') {
+          warnings.push(...ring.warnings.map(warning => `Opening ${plan.index + 1} arch: ${warning}`));
+        }
+      }
+    }
+  }
+  // Keep the bricks in laying order
+  bricks.sort((a, b) => a.courseIndex - b.courseIndex);
+
+  const openingReports: OpeningReport[] = plans.map(plan => {
+    // Clear opening: from the top of the course below the sill to the underside of the head course
+    const sillHeight = plan.bottomCourse > 0 ? plan.bottomCourse * courseHeight - joint : 0;
+    return {
+      index: plan.index,
+      kind: plan.opening.kind,
+      offset: plan.opening.offset,
+      width: plan.opening.width,
+      sillHeight,
+      height: plan.headCourse * courseHeight - sillHeight,
+      lintel: plan.opening.lintel,
+      jambCuts: jambCuts[plan.index],
+      lintelBricks: lintelBricks[plan.index]
+    };
+  });
+
+  // Lap: how far each perpend joint is from the nearest one in the course below (wall ends and jambs excluded)
+  let minimumLap = Infinity;
+  for (let course = 1; course < courses; course++) {
+    const below = coursePerpends[course - 1];
+    for (const position of coursePerpends[course]) {
+      for (const other of below) {
+        minimumLap = Math.min(minimumLap, Math.abs(position - other));
+      }
+    }
+  }
+  if (minimumLap < jointSpec.minOverlap - 1e-6) {
+    warnings.push(
+      minimumLap < 1e-6
+        ? `Perpend joints line up between courses (${settings.bond} bond); the wall relies on reinforcement or ties`
+        : `Minimum lap ${(minimumLap * 1000).toFixed(0)} mm is below the ${(jointSpec.minOverlap * 1000).toFixed(0)} mm required for ${brickTypes[brickType].name}`
+    );
+  }
+
+  // The length check stacks whole first-course units at nominal joints, as many as land nearest the end anchor
+  const firstCourse = coursePattern(settings.bond, 0, brick, joint).units;
+  const wholeUnits: number[] = [];
+  for (let run = -joint; ; ) {
+    const next = firstCourse[wholeUnits.length % firstCourse.length].length;
+    if (wholeUnits.length > 0 && Math.abs(run + joint + next - length) >= Math.abs(run - length)) break;
+    wholeUnits.push(next);
+    run += joint + next;
+  }
+
+  return {
+    start,
+    end,
+    brickPositions: bricks.map(b => b.position),
+    brickRotations: bricks.map(b => b.rotation),
+    totalBricks: bricks.length,
+    constructionType,
+    courseIndices: bricks.map(b => b.courseIndex),
+    brickSizes: bricks.map(b => b.size),
+    bricks,
+    bond: settings.bond,
+    courses,
+    courseHeight,
+    length,
+    height: courses * courseHeight - joint,
+    thickness,
+    cutBricks: bricks.filter(b => b.isCut).length,
+    openings: openingReports,
+    lintels,
+    minimumLap: Number.isFinite(minimumLap) ? minimumLap : 0,
+    toleranceReport: calculateToleranceStack(
+      { ...jointSpec, jointThickness: joint },
+      wholeUnits,
+      length
+    ),
+    heightToleranceReport: calculateToleranceStack(
+      { ...jointSpec, jointThickness: joint },
+      new Array<number>(courses).fill(brick.height),
+      targetHeight
+    ),
+    warnings
+  };
+}